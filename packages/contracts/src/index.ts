@@ -4,19 +4,28 @@ export * from "./types/identity.js";
 export * from "./types/key.js";
 export * from "./types/token.js";
 export * from "./types/audit.js";
+export * from "./types/domain-events.js";
 
 export * from "./ports/cache/cache-port.js";
 export * from "./ports/profile/profile-store-port.js";
+export * from "./ports/invitations/invitation-store-port.js";
 export * from "./ports/entitlements/entitlement-store-port.js";
 export * from "./ports/policy/policy-engine-port.js";
 export * from "./ports/webhooks/webhook-delivery-port.js";
 export * from "./ports/webhooks/webhook-subscription-store-port.js";
 export * from "./ports/webhooks/webhook-delivery-store-port.js";
 export * from "./webhooks/queue.js";
+export * from "./webhooks/filters.js";
+export * from "./webhooks/ordering.js";
+export * from "./webhooks/secrets.js";
 export * from "./ports/idp/idp-adapter-port.js";
 export * from "./ports/keys/key-store-port.js";
 export * from "./ports/tokens/token-service-port.js";
+export * from "./ports/tokens/refresh-token-store-port.js";
 export * from "./ports/audit/audit-log-port.js";
+export * from "./ports/audit/audit-checkpoint-signer-port.js";
+export * from "./ports/audit/audit-archive-sink-port.js";
 export * from "./ports/sessions/session-store-port.js";
+export * from "./ports/events/domain-event-bus-port.js";
 export * from "./telemetry/metrics.js";
 export * from "./mcp/index.js";
@@ -0,0 +1,11 @@
+import type { CatalystError } from "../../types/domain-error.js";
+import type { Result } from "../../types/result.js";
+import type { AuditArchiveBatch } from "../../types/audit.js";
+
+/**
+ * Durable destination for audit events that retention removes from the primary log. A batch is deleted only
+ * after `archive` succeeds, so implementations must not acknowledge a batch they have not persisted.
+ */
+export interface AuditArchiveSinkPort {
+  archive(batch: AuditArchiveBatch): Promise<Result<void, CatalystError>>;
+}
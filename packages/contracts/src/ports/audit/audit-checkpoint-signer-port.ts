@@ -0,0 +1,16 @@
+import type { CatalystError } from "../../types/domain-error.js";
+import type { Result } from "../../types/result.js";
+
+export interface AuditCheckpointClaims {
+  readonly sequence: number;
+  readonly eventId: string;
+  readonly hash: string;
+}
+
+/**
+ * Signs audit chain checkpoints so verifiers can detect a chain that was recomputed after tampering.
+ */
+export interface AuditCheckpointSignerPort {
+  signCheckpoint(claims: AuditCheckpointClaims): Promise<Result<string, CatalystError>>;
+  verifyCheckpoint(token: string): Promise<Result<AuditCheckpointClaims, CatalystError>>;
+}
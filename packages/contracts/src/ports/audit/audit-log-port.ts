@@ -1,8 +1,30 @@
 import type { CatalystError } from "../../types/domain-error.js";
 import type { Result } from "../../types/result.js";
-import type { AppendAuditEventInput, AuditEventRecord } from "../../types/audit.js";
+import type {
+  AppendAuditEventInput,
+  AuditChainRange,
+  AuditChainVerification,
+  AuditCheckpointRecord,
+  AuditEventPage,
+  AuditEventQuery,
+  AuditEventRecord,
+} from "../../types/audit.js";
 
 export interface AuditLogPort {
   appendEvent(input: AppendAuditEventInput): Promise<Result<AuditEventRecord, CatalystError>>;
   listEvents(): Promise<Result<ReadonlyArray<AuditEventRecord>, CatalystError>>;
+  queryEvents(query: AuditEventQuery): Promise<Result<AuditEventPage, CatalystError>>;
+  /**
+   * Recomputes event hashes within the range and reports the first broken link. Implemented by hash-chained logs.
+   */
+  verifyChain?(range?: AuditChainRange): Promise<Result<AuditChainVerification, CatalystError>>;
+  /**
+   * Signs the current head of the chain. Implemented by hash-chained logs configured with a checkpoint signer.
+   */
+  createCheckpoint?(): Promise<Result<AuditCheckpointRecord | undefined, CatalystError>>;
+  /**
+   * Deletes events by id and returns how many were removed. Hash-chained logs keep the chain links of deleted
+   * events so the remaining chain still verifies.
+   */
+  deleteEvents?(ids: ReadonlyArray<string>): Promise<Result<number, CatalystError>>;
 }
@@ -17,6 +17,7 @@ export interface EntitlementQuery {
 }
 
 export interface EntitlementStorePort {
+  getEntitlement(id: string): Promise<EntitlementRecord | undefined>;
   listEntitlements(subject: EntitlementQuery): Promise<ReadonlyArray<EntitlementRecord>>;
   listEntitlementsForSubjects(
     subjects: ReadonlyArray<EntitlementQuery>,
@@ -0,0 +1,22 @@
+import type { CatalystError } from "../../types/domain-error.js";
+import type { AnyDomainEvent, DomainEvent, DomainEventType } from "../../types/domain-events.js";
+import type { Result } from "../../types/result.js";
+
+export type DomainEventHandler<TEvent> = (event: TEvent) => Promise<void> | void;
+
+export interface DomainEventSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * Publishes domain events to in-process subscribers. `publish` resolves after every matching handler ran; a
+ * failing handler does not stop the others and is reported in the returned error.
+ */
+export interface DomainEventBusPort {
+  publish(event: AnyDomainEvent): Promise<Result<void, CatalystError>>;
+  subscribe<TType extends DomainEventType>(
+    type: TType,
+    handler: DomainEventHandler<DomainEvent<TType>>,
+  ): DomainEventSubscription;
+  subscribeAll(handler: DomainEventHandler<AnyDomainEvent>): DomainEventSubscription;
+}
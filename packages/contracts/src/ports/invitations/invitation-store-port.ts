@@ -0,0 +1,70 @@
+export type InvitationStatus = "pending" | "accepted" | "declined" | "revoked" | "expired";
+
+/**
+ * Invitation for an email address to join an organization with a role and optional groups. Only a hash of
+ * the signed invite token is stored; resending an invitation replaces the hash so earlier tokens stop working.
+ */
+export interface InvitationRecord {
+  readonly id: string;
+  readonly orgId: string;
+  readonly email: string;
+  readonly role: string;
+  readonly groupIds: ReadonlyArray<string>;
+  readonly status: InvitationStatus;
+  readonly tokenHash: string;
+  readonly invitedByUserId: string;
+  readonly expiresAt: string;
+  readonly sentAt: string;
+  readonly sendCount: number;
+  readonly resolvedAt?: string;
+  readonly resolvedByUserId?: string;
+  readonly membershipId?: string;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+export interface CreateInvitationInput {
+  readonly id?: string;
+  readonly orgId: string;
+  readonly email: string;
+  readonly role: string;
+  readonly groupIds?: ReadonlyArray<string>;
+  readonly tokenHash: string;
+  readonly invitedByUserId: string;
+  readonly expiresAt: string;
+  readonly createdAt?: string;
+}
+
+/**
+ * Moves an invitation out of `expectedStatus`. The change is only applied while the stored invitation is still
+ * in `expectedStatus` (and still carries `expectedTokenHash` when given), which makes invite tokens single-use.
+ */
+export interface TransitionInvitationInput {
+  readonly expectedStatus: InvitationStatus;
+  readonly expectedTokenHash?: string;
+  readonly status: InvitationStatus;
+  readonly updatedAt: string;
+  readonly tokenHash?: string;
+  readonly expiresAt?: string;
+  readonly sentAt?: string;
+  readonly sendCount?: number;
+  readonly resolvedAt?: string;
+  readonly resolvedByUserId?: string;
+  readonly membershipId?: string;
+}
+
+export interface ListInvitationsOptions {
+  readonly orgId?: string;
+  readonly email?: string;
+  readonly status?: InvitationStatus;
+}
+
+export interface InvitationStorePort {
+  createInvitation(input: CreateInvitationInput): Promise<InvitationRecord>;
+  getInvitation(id: string): Promise<InvitationRecord | undefined>;
+  listInvitations(options?: ListInvitationsOptions): Promise<ReadonlyArray<InvitationRecord>>;
+  /**
+   * Resolves `undefined` when the invitation is unknown or no longer matches the expected status or token hash.
+   */
+  transitionInvitation(id: string, input: TransitionInvitationInput): Promise<InvitationRecord | undefined>;
+}
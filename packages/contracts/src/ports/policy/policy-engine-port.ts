@@ -23,6 +23,38 @@ export interface PolicyDecision {
   readonly decisionJwt?: string;
 }
 
+/**
+ * Outcome of a single rule during an explained evaluation. Every check is reported even when an earlier one
+ * failed so operators can see all the reasons a rule did not apply.
+ */
+export interface PolicyRuleTrace {
+  readonly index: number;
+  readonly ruleId?: string;
+  readonly effect: "allow" | "deny";
+  readonly actionMatched: boolean;
+  readonly resourceMatched: boolean;
+  /** Resource check that failed: `missing`, `type`, `id` or `labels`. */
+  readonly resourceMismatch?: string;
+  readonly conditionsMatched: boolean;
+  /** Name of the first condition that failed, e.g. `anyRoles` or `expression`. */
+  readonly failedCondition?: string;
+  readonly matched: boolean;
+  /** Whether this rule produced the returned decision. */
+  readonly selected: boolean;
+}
+
+export interface PolicyExplanation {
+  readonly decision: PolicyDecision;
+  readonly rules: ReadonlyArray<PolicyRuleTrace>;
+  /** True when no rule matched and the engine's default decision was returned. */
+  readonly defaultApplied: boolean;
+}
+
 export interface PolicyEnginePort {
   evaluate(input: PolicyEvaluationInput): Promise<Result<PolicyDecision, CatalystError>>;
+  /**
+   * Evaluates the input like `evaluate` and reports how every rule was matched. Explanations are diagnostic
+   * only and never mint decision JWTs.
+   */
+  explain?(input: PolicyEvaluationInput): Promise<Result<PolicyExplanation, CatalystError>>;
 }
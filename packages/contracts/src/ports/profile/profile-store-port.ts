@@ -52,6 +52,23 @@ export interface GroupRecord {
   readonly labels: LabelSet;
 }
 
+/**
+ * Permission bundle granted to memberships whose `role` matches `name` within the org. A role may inherit the
+ * bundle of another role in the same org by name.
+ */
+export interface RoleDefinitionRecord {
+  readonly id: string;
+  readonly orgId: string;
+  readonly name: string;
+  readonly description?: string;
+  readonly scopes: ReadonlyArray<string>;
+  readonly entitlements: ReadonlyArray<string>;
+  readonly labels: LabelSet;
+  readonly inherits?: string;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
 export interface EffectiveIdentityRequest {
   readonly userId: string;
   readonly orgId?: string;
@@ -67,10 +84,18 @@ export interface ProfileStorePort {
   getOrgProfileBySlug(slug: string): Promise<OrgProfileRecord | undefined>;
   upsertOrgProfile(profile: OrgProfileRecord): Promise<OrgProfileRecord>;
 
+  getGroup(groupId: string): Promise<GroupRecord | undefined>;
   listGroups(orgId: string): Promise<ReadonlyArray<GroupRecord>>;
   upsertGroup(group: GroupRecord): Promise<GroupRecord>;
   deleteGroup(groupId: string): Promise<void>;
 
+  listRoles(orgId: string): Promise<ReadonlyArray<RoleDefinitionRecord>>;
+  getRole(orgId: string, name: string): Promise<RoleDefinitionRecord | undefined>;
+  getRoleById(roleId: string): Promise<RoleDefinitionRecord | undefined>;
+  upsertRole(role: RoleDefinitionRecord): Promise<RoleDefinitionRecord>;
+  deleteRole(roleId: string): Promise<void>;
+
+  getMembership(membershipId: string): Promise<MembershipRecord | undefined>;
   listMembershipsByUser(userId: string): Promise<ReadonlyArray<MembershipRecord>>;
   listMembershipsByOrg(orgId: string): Promise<ReadonlyArray<MembershipRecord>>;
   upsertMembership(membership: MembershipRecord): Promise<MembershipRecord>;
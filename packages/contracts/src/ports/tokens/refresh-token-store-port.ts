@@ -0,0 +1,54 @@
+export interface RefreshTokenFamilyRecord {
+  readonly id: string;
+  readonly userId: string;
+  readonly clientId: string;
+  readonly sessionId?: string;
+  readonly orgId?: string;
+  readonly scopes: ReadonlyArray<string>;
+  readonly createdAt: string;
+  readonly revokedAt?: string;
+  readonly revocationReason?: string;
+}
+
+export interface RefreshTokenRecord {
+  readonly id: string;
+  readonly familyId: string;
+  readonly parentId?: string;
+  readonly issuedAt: string;
+  readonly consumedAt?: string;
+}
+
+export interface CreateRefreshTokenFamilyInput {
+  readonly id?: string;
+  readonly userId: string;
+  readonly clientId: string;
+  readonly sessionId?: string;
+  readonly orgId?: string;
+  readonly scopes: ReadonlyArray<string>;
+  readonly createdAt?: string;
+}
+
+export interface IssueRefreshTokenInput {
+  readonly id?: string;
+  readonly familyId: string;
+  readonly parentId?: string;
+  readonly issuedAt?: string;
+}
+
+/**
+ * Tracks rotating refresh-token families. Every refresh consumes the presented token and issues its
+ * successor in the same family; presenting a token that was already consumed signals theft and revokes the
+ * family.
+ */
+export interface RefreshTokenStorePort {
+  createFamily(input: CreateRefreshTokenFamilyInput): Promise<RefreshTokenFamilyRecord>;
+  getFamily(id: string): Promise<RefreshTokenFamilyRecord | undefined>;
+  revokeFamily(id: string, revokedAt: string, reason?: string): Promise<RefreshTokenFamilyRecord | undefined>;
+  issueToken(input: IssueRefreshTokenInput): Promise<RefreshTokenRecord>;
+  getToken(id: string): Promise<RefreshTokenRecord | undefined>;
+  /**
+   * Marks the token as consumed. Resolves `undefined` when the token is unknown or was already consumed, so
+   * concurrent refreshes cannot both succeed.
+   */
+  consumeToken(id: string, consumedAt: string): Promise<RefreshTokenRecord | undefined>;
+}
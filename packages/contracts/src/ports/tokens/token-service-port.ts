@@ -1,11 +1,15 @@
 import type { CatalystError } from "../../types/domain-error.js";
 import type { Result } from "../../types/result.js";
 import type {
+  AccessTokenClaims,
+  DecisionTokenClaims,
   JwtDescriptor,
   MintAccessTokenInput,
   MintDecisionJwtInput,
   MintRefreshTokenInput,
+  RefreshTokenClaims,
   TokenPair,
+  VerifyTokenOptions,
 } from "../../types/token.js";
 
 export interface TokenServicePort {
@@ -16,4 +20,16 @@ export interface TokenServicePort {
     accessInput: MintAccessTokenInput,
     refreshInput: MintRefreshTokenInput,
   ): Promise<Result<TokenPair, CatalystError>>;
+  verifyAccessToken(
+    token: string,
+    options?: VerifyTokenOptions,
+  ): Promise<Result<AccessTokenClaims, CatalystError>>;
+  verifyRefreshToken(
+    token: string,
+    options?: VerifyTokenOptions,
+  ): Promise<Result<RefreshTokenClaims, CatalystError>>;
+  verifyDecisionJwt(
+    token: string,
+    options?: VerifyTokenOptions,
+  ): Promise<Result<DecisionTokenClaims, CatalystError>>;
 }
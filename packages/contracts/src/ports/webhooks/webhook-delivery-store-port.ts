@@ -8,6 +8,18 @@ export type WebhookDeliveryStatus =
   | "failed"
   | "dead_lettered";
 
+/** What reset a delivery for another round of attempts. */
+export type WebhookDeliveryReplayTrigger = "delivery" | "dead_letter_redrive" | "event";
+
+/** One replay of a delivery, capturing the state it was reset from. */
+export interface WebhookDeliveryReplay {
+  readonly replayedAt: string;
+  readonly trigger: WebhookDeliveryReplayTrigger;
+  readonly previousStatus: WebhookDeliveryStatus;
+  readonly previousAttemptCount: number;
+  readonly previousErrorMessage?: string;
+}
+
 export interface WebhookDeliveryRecord {
   readonly id: string;
   readonly subscriptionId: string;
@@ -19,6 +31,10 @@ export interface WebhookDeliveryRecord {
   readonly payload: Record<string, unknown>;
   readonly response?: Record<string, unknown>;
   readonly errorMessage?: string;
+  /** Replays of this delivery, oldest first. */
+  readonly replays?: ReadonlyArray<WebhookDeliveryReplay>;
+  /** The `webhookDeliveryOrderingKey` the delivery was created with, when its subscription is ordered. */
+  readonly orderingKey?: string;
   readonly createdAt: string;
   readonly updatedAt: string;
 }
@@ -34,6 +50,7 @@ export interface CreateWebhookDeliveryInput {
   readonly payload: Record<string, unknown>;
   readonly response?: Record<string, unknown>;
   readonly errorMessage?: string;
+  readonly orderingKey?: string;
   readonly createdAt?: string;
   readonly updatedAt?: string;
 }
@@ -45,6 +62,8 @@ export interface UpdateWebhookDeliveryInput {
   readonly nextAttemptAt?: string | null;
   readonly response?: Record<string, unknown> | null;
   readonly errorMessage?: string | null;
+  /** Replaces the replay history. */
+  readonly replays?: ReadonlyArray<WebhookDeliveryReplay>;
   readonly updatedAt?: string;
 }
 
@@ -60,6 +79,14 @@ export interface ListPendingDeliveriesOptions {
   readonly limit?: number;
 }
 
+export interface FindOrderingPredecessorOptions {
+  readonly orderingKey: string;
+  /** The delivery waiting its turn; only deliveries created before it are considered. */
+  readonly delivery: Pick<WebhookDeliveryRecord, "id" | "createdAt">;
+  /** `delivering` deliveries last updated before this instant are presumed abandoned and no longer hold the key. */
+  readonly deliveringSince: string;
+}
+
 export interface WebhookDeliveryStorePort {
   createDelivery(
     input: CreateWebhookDeliveryInput,
@@ -75,5 +102,9 @@ export interface WebhookDeliveryStorePort {
   listPendingDeliveries(
     options?: ListPendingDeliveriesOptions,
   ): Promise<Result<ReadonlyArray<WebhookDeliveryRecord>, CatalystError>>;
+  /** Returns the oldest pending or in-flight delivery with the ordering key that was created before `delivery`. */
+  findOrderingPredecessor(
+    options: FindOrderingPredecessorOptions,
+  ): Promise<Result<WebhookDeliveryRecord | undefined, CatalystError>>;
   deleteDelivery(id: string): Promise<Result<void, CatalystError>>;
 }
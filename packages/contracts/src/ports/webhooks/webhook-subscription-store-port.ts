@@ -1,13 +1,27 @@
 import type { CatalystError } from "../../types/domain-error.js";
 import type { Result } from "../../types/result.js";
+import type { WebhookSubscriptionFilters } from "../../webhooks/filters.js";
+import type { WebhookDeliveryOrdering } from "../../webhooks/ordering.js";
 import type { WebhookRetryPolicy } from "./webhook-delivery-port.js";
 
+/** A replaced signing secret that keeps signing until `expiresAt`, so receivers can roll over without downtime. */
+export interface WebhookPreviousSecret {
+  readonly secret: string;
+  readonly expiresAt: string;
+}
+
 export interface WebhookSubscriptionRecord {
   readonly id: string;
   readonly orgId?: string;
+  /** Exact event types or wildcard patterns such as `key.*`; `*` receives every event. */
   readonly eventTypes: ReadonlyArray<string>;
+  readonly filters?: WebhookSubscriptionFilters;
+  /** Delivers events sharing an ordering key one at a time, oldest first. */
+  readonly ordering?: WebhookDeliveryOrdering;
   readonly targetUrl: string;
   readonly secret: string;
+  /** Present only while the rotation overlap lasts; stores drop it once expired. */
+  readonly previousSecret?: WebhookPreviousSecret;
   readonly headers: Record<string, string>;
   readonly retryPolicy?: WebhookRetryPolicy;
   readonly active: boolean;
@@ -20,6 +34,8 @@ export interface CreateWebhookSubscriptionInput {
   readonly id?: string;
   readonly orgId?: string;
   readonly eventTypes: ReadonlyArray<string>;
+  readonly filters?: WebhookSubscriptionFilters;
+  readonly ordering?: WebhookDeliveryOrdering;
   readonly targetUrl: string;
   readonly secret: string;
   readonly headers?: Record<string, string>;
@@ -33,6 +49,8 @@ export interface CreateWebhookSubscriptionInput {
 export interface UpdateWebhookSubscriptionInput {
   readonly orgId?: string | null;
   readonly eventTypes?: ReadonlyArray<string>;
+  readonly filters?: WebhookSubscriptionFilters | null;
+  readonly ordering?: WebhookDeliveryOrdering | null;
   readonly targetUrl?: string;
   readonly secret?: string;
   readonly headers?: Record<string, string> | null;
@@ -42,9 +60,17 @@ export interface UpdateWebhookSubscriptionInput {
   readonly updatedAt?: string;
 }
 
+export interface RotateWebhookSecretInput {
+  readonly secret: string;
+  /** When the replaced secret stops signing deliveries. */
+  readonly previousSecretExpiresAt: string;
+  readonly rotatedAt?: string;
+}
+
 export interface ListWebhookSubscriptionsOptions {
   readonly orgId?: string | null;
   readonly active?: boolean;
+  /** Matches subscriptions listening to the type directly or through a wildcard pattern. */
   readonly eventType?: string;
 }
 
@@ -61,4 +87,9 @@ export interface WebhookSubscriptionStorePort {
     options?: ListWebhookSubscriptionsOptions,
   ): Promise<Result<ReadonlyArray<WebhookSubscriptionRecord>, CatalystError>>;
   deleteSubscription(id: string): Promise<Result<void, CatalystError>>;
+  /** Replaces the secret and keeps the current one as `previousSecret`, in a single write. */
+  rotateSecret(
+    id: string,
+    input: RotateWebhookSecretInput,
+  ): Promise<Result<WebhookSubscriptionRecord, CatalystError>>;
 }
@@ -20,6 +20,11 @@ export interface AuditEventRecord {
   readonly resource?: AuditResourceDescriptor;
   readonly metadata?: Record<string, unknown>;
   readonly correlationId?: string;
+  /** Position in the hash chain, starting at 1. Absent on logs that do not chain events. */
+  readonly sequence?: number;
+  /** SHA-256 over the event contents and {@link previousHash}. */
+  readonly hash?: string;
+  readonly previousHash?: string;
 }
 
 export interface AppendAuditEventInput {
@@ -32,3 +37,88 @@ export interface AppendAuditEventInput {
   readonly metadata?: Record<string, unknown>;
   readonly correlationId?: string;
 }
+
+export type AuditEventSortOrder = "asc" | "desc";
+
+/**
+ * Filters for {@link AuditLogPort.queryEvents}. Every filter is optional and combined with AND. The time range
+ * includes `occurredAfter` and excludes `occurredBefore`.
+ */
+export interface AuditEventQuery {
+  readonly category?: string;
+  readonly action?: string;
+  readonly actorType?: string;
+  readonly actorId?: string;
+  readonly subjectType?: string;
+  readonly subjectId?: string;
+  readonly resourceType?: string;
+  readonly resourceId?: string;
+  readonly correlationId?: string;
+  readonly occurredAfter?: string;
+  readonly occurredBefore?: string;
+  /** Sorts by `occurredAt` then `id`. Defaults to `asc`. */
+  readonly order?: AuditEventSortOrder;
+  readonly limit?: number;
+  /** Opaque cursor returned as `nextCursor` by the previous page of the same query. */
+  readonly cursor?: string;
+}
+
+export interface AuditEventPage {
+  readonly events: ReadonlyArray<AuditEventRecord>;
+  readonly nextCursor?: string;
+}
+
+/**
+ * Inclusive range of chain sequences to verify. Omitted bounds default to the start and head of the chain.
+ */
+export interface AuditChainRange {
+  readonly fromSequence?: number;
+  readonly toSequence?: number;
+}
+
+export type AuditChainBreakReason =
+  | "hash_mismatch"
+  | "previous_hash_mismatch"
+  | "sequence_gap"
+  | "checkpoint_mismatch"
+  | "checkpoint_signature_invalid";
+
+export interface AuditChainBreak {
+  readonly sequence: number;
+  readonly eventId?: string;
+  readonly reason: AuditChainBreakReason;
+  readonly expected?: string;
+  readonly actual?: string;
+}
+
+export interface AuditChainVerification {
+  readonly valid: boolean;
+  readonly checkedEvents: number;
+  readonly checkedCheckpoints: number;
+  /** First broken link in sequence order; later events are not inspected. */
+  readonly firstBreak?: AuditChainBreak;
+}
+
+/**
+ * Signed statement that the chain ended in `hash` at `sequence`. Rewriting history up to a checkpoint requires
+ * forging the checkpoint signature.
+ */
+export interface AuditCheckpointRecord {
+  readonly sequence: number;
+  readonly eventId: string;
+  readonly hash: string;
+  readonly token: string;
+  readonly createdAt: string;
+}
+
+export type AuditExportFormat = "ndjson" | "csv";
+
+/**
+ * Events removed by a retention run for one category, handed to an archive sink before they are deleted.
+ */
+export interface AuditArchiveBatch {
+  readonly category: string;
+  /** Retention cutoff; every event in the batch occurred before it. */
+  readonly occurredBefore: string;
+  readonly events: ReadonlyArray<AuditEventRecord>;
+}
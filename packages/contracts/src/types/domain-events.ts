@@ -0,0 +1,74 @@
+import type { EntitlementRecord } from "../ports/entitlements/entitlement-store-port.js";
+import type { InvitationRecord } from "../ports/invitations/invitation-store-port.js";
+import type {
+  GroupRecord,
+  MembershipRecord,
+  OrgProfileRecord,
+  RoleDefinitionRecord,
+  UserProfileRecord,
+} from "../ports/profile/profile-store-port.js";
+import type { SessionRecord } from "../ports/sessions/session-store-port.js";
+import type { WebhookSubscriptionRecord } from "../ports/webhooks/webhook-subscription-store-port.js";
+import type { KeyRecord } from "./key.js";
+
+/** Key state carried by key events. The hash never leaves the key store. */
+export type DomainEventKey = Omit<KeyRecord, "hash">;
+
+/** Invitation state carried by invitation events. The token hash never leaves the invitation store. */
+export type DomainEventInvitation = Omit<InvitationRecord, "tokenHash">;
+
+/** Subscription state carried by webhook subscription events. Signing secrets never leave the store. */
+export type DomainEventWebhookSubscription = Omit<WebhookSubscriptionRecord, "secret" | "previousSecret">;
+
+/** Payload of events for records that were removed and can no longer be loaded. */
+export interface DomainEventRemoval {
+  readonly id: string;
+}
+
+/**
+ * Catalogue of domain events, keyed by event type. Each type is also the webhook event type subscribers list
+ * in `eventTypes`, and its value is the event's `data`.
+ */
+export interface DomainEventMap {
+  readonly "org.created": OrgProfileRecord;
+  readonly "org.updated": OrgProfileRecord;
+  readonly "user.created": UserProfileRecord;
+  readonly "user.updated": UserProfileRecord;
+  readonly "membership.created": MembershipRecord;
+  readonly "membership.updated": MembershipRecord;
+  readonly "membership.removed": DomainEventRemoval;
+  readonly "group.created": GroupRecord;
+  readonly "group.updated": GroupRecord;
+  readonly "group.deleted": DomainEventRemoval;
+  readonly "role.created": RoleDefinitionRecord;
+  readonly "role.updated": RoleDefinitionRecord;
+  readonly "role.deleted": DomainEventRemoval;
+  readonly "key.issued": DomainEventKey;
+  readonly "key.revoked": DomainEventKey;
+  readonly "entitlement.granted": EntitlementRecord;
+  readonly "entitlement.updated": EntitlementRecord;
+  readonly "entitlement.removed": DomainEventRemoval;
+  readonly "session.started": SessionRecord;
+  readonly "session.ended": SessionRecord;
+  readonly "invitation.created": DomainEventInvitation;
+  readonly "invitation.resent": DomainEventInvitation;
+  readonly "invitation.accepted": DomainEventInvitation;
+  readonly "invitation.declined": DomainEventInvitation;
+  readonly "invitation.revoked": DomainEventInvitation;
+  readonly "invitation.expired": DomainEventInvitation;
+  readonly "webhook_subscription.disabled": DomainEventWebhookSubscription;
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+export interface DomainEvent<TType extends DomainEventType = DomainEventType> {
+  readonly id: string;
+  readonly type: TType;
+  readonly occurredAt: string;
+  /** Org the change belongs to. Webhook fan-out only reaches that org's subscriptions when set. */
+  readonly orgId?: string;
+  readonly data: DomainEventMap[TType];
+}
+
+/** Union of every catalogued event, narrowed by `type`. */
+export type AnyDomainEvent = { [TType in DomainEventType]: DomainEvent<TType> }[DomainEventType];
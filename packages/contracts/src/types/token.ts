@@ -37,6 +37,52 @@ export interface DecisionTokenClaims {
   readonly aud?: string | ReadonlyArray<string>;
 }
 
+/**
+ * RFC 8693 actor claim. Each delegation hop nests the previous actor so the full chain stays auditable.
+ */
+export interface ActorClaim {
+  readonly sub: string;
+  readonly act?: ActorClaim;
+}
+
+export interface AccessTokenClaims {
+  readonly iss: string;
+  readonly sub: string;
+  readonly client_id: string;
+  readonly token_type: "access";
+  readonly iat: number;
+  readonly exp: number;
+  readonly jti: string;
+  readonly aud?: string | ReadonlyArray<string>;
+  readonly org?: string;
+  readonly session?: string;
+  readonly scope?: string;
+  readonly scopes?: ReadonlyArray<string>;
+  readonly act?: ActorClaim;
+  readonly metadata?: Record<string, unknown>;
+}
+
+export interface RefreshTokenClaims {
+  readonly iss: string;
+  readonly sub: string;
+  readonly client_id: string;
+  readonly token_type: "refresh";
+  readonly iat: number;
+  readonly exp: number;
+  readonly jti: string;
+  readonly session?: string;
+  /** Refresh-token family the token belongs to when rotation is tracked. */
+  readonly fid?: string;
+  readonly metadata?: Record<string, unknown>;
+}
+
+export interface VerifyTokenOptions {
+  /** Overrides the audience configured for the token type. */
+  readonly audience?: string | ReadonlyArray<string>;
+  /** Overrides the service-wide clock skew tolerance for `exp`/`nbf`/`iat` checks. */
+  readonly clockSkewSeconds?: number;
+}
+
 export interface MintDecisionJwtInput {
   readonly identity: EffectiveIdentity;
   readonly action: string;
@@ -54,6 +100,8 @@ export interface MintAccessTokenInput {
   readonly sessionId?: string;
   readonly audience?: string | ReadonlyArray<string>;
   readonly ttlSeconds?: number;
+  /** Delegation chain recorded in the `act` claim for exchanged tokens. */
+  readonly actor?: ActorClaim;
   readonly metadata?: Record<string, unknown>;
 }
 
@@ -61,6 +109,10 @@ export interface MintRefreshTokenInput {
   readonly subject: string;
   readonly clientId: string;
   readonly sessionId?: string;
+  /** Token identifier (`jti`) allocated by a refresh-token store. Generated when omitted. */
+  readonly tokenId?: string;
+  /** Refresh-token family recorded in the `fid` claim. */
+  readonly familyId?: string;
   readonly ttlSeconds?: number;
   readonly metadata?: Record<string, unknown>;
 }
@@ -0,0 +1,91 @@
+import type { LabelValue } from "../types/identity.js";
+import type { WebhookEventPayload } from "../ports/webhooks/webhook-delivery-port.js";
+
+export type WebhookFilterValue = LabelValue;
+
+/**
+ * Conditions an event must meet, on top of its type, before a subscription receives it. Every listed
+ * condition must hold; a list of values matches any of them.
+ */
+export interface WebhookSubscriptionFilters {
+  /** Event labels, read from the payload labels or, when absent, from `data.labels` (e.g. a key's labels). */
+  readonly labels?: Record<string, WebhookFilterValue | ReadonlyArray<WebhookFilterValue>>;
+  /** Fields of the event data addressed by dot-separated paths such as `orgId` or `key.owner.id`. */
+  readonly data?: Record<string, WebhookFilterValue | ReadonlyArray<WebhookFilterValue>>;
+}
+
+const WILDCARD = "*";
+
+/** Whether `pattern` is an exact event type, `*`, or a namespace wildcard such as `key.*`. */
+export const isValidWebhookEventTypePattern = (pattern: string): boolean => {
+  if (pattern === WILDCARD) {
+    return true;
+  }
+  const segments = pattern.split(".");
+  return segments.every(
+    (segment, index) =>
+      segment.length > 0 && (!segment.includes(WILDCARD) || (segment === WILDCARD && index === segments.length - 1)),
+  );
+};
+
+export const matchesWebhookEventType = (pattern: string, eventType: string): boolean => {
+  if (pattern === WILDCARD || pattern === eventType) {
+    return true;
+  }
+  return pattern.endsWith(".*") && eventType.startsWith(pattern.slice(0, -1));
+};
+
+/**
+ * Every pattern that matches `eventType`: the type itself, each enclosing namespace wildcard and `*`. Stores
+ * use it to look up wildcard subscriptions without scanning all of them.
+ */
+export const expandWebhookEventTypePatterns = (eventType: string): ReadonlyArray<string> => {
+  const segments = eventType.split(".");
+  const namespaces = segments.slice(0, -1).map((_, index) => `${segments.slice(0, index + 1).join(".")}.*`);
+  return [eventType, ...namespaces, WILDCARD];
+};
+
+/** Reads a dot-separated path such as `key.owner.id` from event data. */
+export const readWebhookDataPath = (source: Record<string, unknown>, path: string): unknown =>
+  path.split(".").reduce<unknown>((value, segment) => {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[segment];
+  }, source);
+
+const matchesValue = (
+  actual: unknown,
+  expected: WebhookFilterValue | ReadonlyArray<WebhookFilterValue>,
+): boolean => {
+  const candidates: ReadonlyArray<WebhookFilterValue> = Array.isArray(expected) ? expected : [expected as WebhookFilterValue];
+  return candidates.some((candidate) => candidate === actual);
+};
+
+/** The parts of an event that filters inspect. */
+export type WebhookFilterSubject = Pick<WebhookEventPayload, "data" | "labels">;
+
+const eventLabels = (payload: WebhookFilterSubject): Record<string, unknown> => {
+  if (payload.labels) {
+    return payload.labels;
+  }
+  const labels = payload.data.labels;
+  return labels !== null && typeof labels === "object" ? (labels as Record<string, unknown>) : {};
+};
+
+export const matchesWebhookSubscriptionFilters = (
+  filters: WebhookSubscriptionFilters | undefined,
+  payload: WebhookFilterSubject,
+): boolean => {
+  if (!filters) {
+    return true;
+  }
+  const labels = eventLabels(payload);
+  const labelsMatch = Object.entries(filters.labels ?? {}).every(([label, expected]) =>
+    matchesValue(labels[label], expected),
+  );
+  return (
+    labelsMatch &&
+    Object.entries(filters.data ?? {}).every(([path, expected]) => matchesValue(readWebhookDataPath(payload.data, path), expected))
+  );
+};
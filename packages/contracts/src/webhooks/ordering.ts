@@ -0,0 +1,31 @@
+import type { WebhookSubscriptionRecord } from "../ports/webhooks/webhook-subscription-store-port.js";
+import { readWebhookDataPath } from "./filters.js";
+
+/** Opts a subscription into ordered delivery, partitioned by a field of the event data. */
+export interface WebhookDeliveryOrdering {
+  /** Dot-separated path into the event data whose value partitions deliveries, e.g. `userId`. */
+  readonly keyPath: string;
+}
+
+/**
+ * Queue ordering key for a delivery to `subscription`: the subscription id joined with the value at its
+ * `ordering.keyPath`. Undefined when the subscription is unordered or the event has no scalar value at the
+ * path, in which case the delivery is not held behind others.
+ */
+export const webhookDeliveryOrderingKey = (
+  subscription: Pick<WebhookSubscriptionRecord, "id" | "ordering">,
+  payload: { readonly data?: unknown },
+): string | undefined => {
+  if (!subscription.ordering) {
+    return undefined;
+  }
+  const data = payload.data;
+  if (data === null || typeof data !== "object") {
+    return undefined;
+  }
+  const value = readWebhookDataPath(data as Record<string, unknown>, subscription.ordering.keyPath);
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+    return undefined;
+  }
+  return `${subscription.id}:${String(value)}`;
+};
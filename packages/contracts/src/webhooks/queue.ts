@@ -4,6 +4,11 @@ import type { Result } from "../types/result.js";
 export interface WebhookQueueDelivery {
   readonly deliveryId: string;
   readonly attempt?: number;
+  /**
+   * Messages sharing a key are handed out one at a time in enqueue order: later messages wait until the
+   * earlier one is acked or dead-lettered, while retries keep their place. See `webhookDeliveryOrderingKey`.
+   */
+  readonly orderingKey?: string;
 }
 
 export interface WebhookQueueMessage extends WebhookQueueDelivery {
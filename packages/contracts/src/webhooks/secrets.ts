@@ -0,0 +1,13 @@
+import type { WebhookSubscriptionRecord } from "../ports/webhooks/webhook-subscription-store-port.js";
+
+/** Secrets that sign deliveries at `now`: the current secret first, then the previous one until it expires. */
+export const activeWebhookSigningSecrets = (
+  subscription: Pick<WebhookSubscriptionRecord, "secret" | "previousSecret">,
+  now: Date,
+): ReadonlyArray<string> => {
+  const previous = subscription.previousSecret;
+  if (!previous || Date.parse(previous.expiresAt) <= now.getTime()) {
+    return [subscription.secret];
+  }
+  return [subscription.secret, previous.secret];
+};
@@ -6,9 +6,17 @@ export * from "./repositories/entitlement-repository.js";
 export * from "./repositories/key-repository.js";
 export * from "./repositories/audit-repository.js";
 export * from "./repositories/session-repository.js";
+export * from "./repositories/refresh-token-repository.js";
+export * from "./repositories/invitation-repository.js";
 export * from "./repositories/webhook-repository.js";
+export * from "./repositories/webhook-outbox-repository.js";
 export * from "./transactions/transaction-manager.js";
+export * from "./retention/audit-retention-job.js";
+export * from "./retention/file-audit-archive-sink.js";
+export * from "./outbox/webhook-outbox-relay.js";
+export * from "./queue/postgres-webhook-queue.js";
 export * from "./seeding/seed.js";
 export * from "./testing/test-data-source.js";
+export * from "./testing/memory-audit-log.js";
 export * from "./migrations/index.js";
 export * from "./tables.js";
@@ -0,0 +1,29 @@
+-- Rotating refresh-token families with reuse detection
+CREATE TABLE IF NOT EXISTS auth_refresh_token_families (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    session_id TEXT,
+    org_id TEXT,
+    scopes TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    created_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    revocation_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS auth_refresh_token_families_user_idx
+    ON auth_refresh_token_families (user_id);
+
+CREATE INDEX IF NOT EXISTS auth_refresh_token_families_session_idx
+    ON auth_refresh_token_families (session_id);
+
+CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+    id TEXT PRIMARY KEY,
+    family_id TEXT NOT NULL REFERENCES auth_refresh_token_families (id) ON DELETE CASCADE,
+    parent_id TEXT,
+    issued_at TIMESTAMPTZ NOT NULL,
+    consumed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS auth_refresh_tokens_family_idx
+    ON auth_refresh_tokens (family_id);
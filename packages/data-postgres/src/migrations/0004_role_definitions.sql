@@ -0,0 +1,14 @@
+-- Per-org role definitions expanded into effective identities
+CREATE TABLE IF NOT EXISTS auth_roles (
+    id TEXT PRIMARY KEY,
+    org_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    scopes TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    entitlements TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    labels JSONB DEFAULT '{}'::JSONB,
+    inherits TEXT,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    UNIQUE (org_id, name)
+);
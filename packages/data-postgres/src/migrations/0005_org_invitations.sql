@@ -0,0 +1,25 @@
+-- Organization invitations with single-use invite tokens
+CREATE TABLE IF NOT EXISTS auth_invitations (
+    id TEXT PRIMARY KEY,
+    org_id TEXT NOT NULL,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL,
+    group_ids TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    status TEXT NOT NULL DEFAULT 'pending',
+    token_hash TEXT NOT NULL,
+    invited_by_user_id TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    sent_at TIMESTAMPTZ NOT NULL,
+    send_count INTEGER NOT NULL DEFAULT 1,
+    resolved_at TIMESTAMPTZ,
+    resolved_by_user_id TEXT,
+    membership_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS auth_invitations_org_status_idx
+    ON auth_invitations (org_id, status);
+
+CREATE INDEX IF NOT EXISTS auth_invitations_email_idx
+    ON auth_invitations (email);
@@ -0,0 +1,19 @@
+-- Indexes backing filtered, keyset-paginated audit queries
+CREATE INDEX IF NOT EXISTS auth_audit_events_occurred_idx
+    ON auth_audit_events (occurred_at, id);
+
+CREATE INDEX IF NOT EXISTS auth_audit_events_category_action_idx
+    ON auth_audit_events (category, action, occurred_at, id);
+
+CREATE INDEX IF NOT EXISTS auth_audit_events_correlation_idx
+    ON auth_audit_events (correlation_id)
+    WHERE correlation_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS auth_audit_events_actor_idx
+    ON auth_audit_events ((actor->>'type'), (actor->>'id'), occurred_at);
+
+CREATE INDEX IF NOT EXISTS auth_audit_events_subject_idx
+    ON auth_audit_events ((subject->>'type'), (subject->>'id'), occurred_at);
+
+CREATE INDEX IF NOT EXISTS auth_audit_events_resource_idx
+    ON auth_audit_events ((resource->>'type'), (resource->>'id'), occurred_at);
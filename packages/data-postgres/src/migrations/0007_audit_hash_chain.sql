@@ -0,0 +1,17 @@
+-- Hash-chain audit events and record signed checkpoints of the chain head
+ALTER TABLE auth_audit_events
+    ADD COLUMN IF NOT EXISTS sequence BIGINT,
+    ADD COLUMN IF NOT EXISTS hash TEXT,
+    ADD COLUMN IF NOT EXISTS previous_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS auth_audit_events_sequence_idx
+    ON auth_audit_events (sequence)
+    WHERE sequence IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS auth_audit_checkpoints (
+    sequence BIGINT PRIMARY KEY,
+    event_id TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    token TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
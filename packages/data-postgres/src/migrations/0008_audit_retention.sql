@@ -0,0 +1,10 @@
+-- Chain links of audit events deleted by retention, so the remaining hash chain still verifies
+CREATE TABLE IF NOT EXISTS auth_audit_pruned_links (
+    sequence BIGINT PRIMARY KEY,
+    event_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    hash TEXT NOT NULL,
+    previous_hash TEXT,
+    pruned_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
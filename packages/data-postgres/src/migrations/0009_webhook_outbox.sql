@@ -0,0 +1,14 @@
+-- Webhook events written in the same transaction as the change that caused them, relayed to deliveries later
+CREATE TABLE IF NOT EXISTS auth_webhook_outbox (
+    id TEXT PRIMARY KEY,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    org_id TEXT,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    relayed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS auth_webhook_outbox_pending_idx
+    ON auth_webhook_outbox (created_at, id)
+    WHERE relayed_at IS NULL;
@@ -0,0 +1,3 @@
+-- Label and data filters evaluated before a subscription receives an event
+ALTER TABLE auth_webhook_subscriptions
+    ADD COLUMN IF NOT EXISTS filters JSONB;
@@ -0,0 +1,4 @@
+-- Previous signing secret kept valid during a rotation overlap
+ALTER TABLE auth_webhook_subscriptions
+    ADD COLUMN IF NOT EXISTS previous_secret TEXT,
+    ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMPTZ;
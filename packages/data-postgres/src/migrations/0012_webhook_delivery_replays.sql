@@ -0,0 +1,3 @@
+-- Replay lineage of webhook deliveries reset for another round of attempts
+ALTER TABLE auth_webhook_deliveries
+    ADD COLUMN IF NOT EXISTS replays JSONB;
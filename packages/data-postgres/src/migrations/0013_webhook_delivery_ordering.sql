@@ -0,0 +1,3 @@
+-- Ordered delivery partitioned by a field of the event data
+ALTER TABLE auth_webhook_subscriptions
+    ADD COLUMN IF NOT EXISTS ordering JSONB;
@@ -0,0 +1,31 @@
+-- Webhook delivery jobs for the Postgres queue adapter, claimed with FOR UPDATE SKIP LOCKED
+CREATE TABLE IF NOT EXISTS auth_webhook_queue (
+    id TEXT PRIMARY KEY,
+    sequence BIGSERIAL NOT NULL,
+    delivery_id TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    ordering_key TEXT,
+    metadata JSONB,
+    enqueued_at TIMESTAMPTZ NOT NULL,
+    available_at TIMESTAMPTZ NOT NULL,
+    lease_token TEXT
+);
+
+CREATE INDEX IF NOT EXISTS auth_webhook_queue_available_idx
+    ON auth_webhook_queue (available_at, sequence);
+
+CREATE INDEX IF NOT EXISTS auth_webhook_queue_ordering_idx
+    ON auth_webhook_queue (ordering_key, sequence)
+    WHERE ordering_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS auth_webhook_queue_dead_letters (
+    id TEXT PRIMARY KEY,
+    delivery_id TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    attempts INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    dead_letter_uri TEXT,
+    metadata JSONB,
+    enqueued_at TIMESTAMPTZ NOT NULL,
+    dead_lettered_at TIMESTAMPTZ NOT NULL
+);
@@ -0,0 +1,7 @@
+-- Ordering key stored on each delivery so workers can find the delivery ahead of it with an indexed lookup
+ALTER TABLE auth_webhook_deliveries
+    ADD COLUMN IF NOT EXISTS ordering_key TEXT;
+
+CREATE INDEX IF NOT EXISTS auth_webhook_deliveries_ordering_idx
+    ON auth_webhook_deliveries (ordering_key, created_at, id)
+    WHERE ordering_key IS NOT NULL AND status IN ('pending', 'delivering');
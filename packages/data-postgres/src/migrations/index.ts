@@ -9,4 +9,69 @@ export const postgresMigrations = [
     filename: "0002_overlay_expansion.sql",
     description: "Expand overlay tables for entitlements, sessions, and webhook registry support",
   },
+  {
+    id: "0003_refresh_token_rotation",
+    filename: "0003_refresh_token_rotation.sql",
+    description: "Track refresh-token families and consumed tokens for rotation with reuse detection",
+  },
+  {
+    id: "0004_role_definitions",
+    filename: "0004_role_definitions.sql",
+    description: "Add per-org role definitions with scope and entitlement bundles",
+  },
+  {
+    id: "0005_org_invitations",
+    filename: "0005_org_invitations.sql",
+    description: "Track organization invitations and their single-use invite tokens",
+  },
+  {
+    id: "0006_audit_event_indexes",
+    filename: "0006_audit_event_indexes.sql",
+    description: "Index audit events for filtered queries and keyset pagination",
+  },
+  {
+    id: "0007_audit_hash_chain",
+    filename: "0007_audit_hash_chain.sql",
+    description: "Hash-chain audit events and store signed chain checkpoints",
+  },
+  {
+    id: "0008_audit_retention",
+    filename: "0008_audit_retention.sql",
+    description: "Keep chain links of audit events deleted by retention",
+  },
+  {
+    id: "0009_webhook_outbox",
+    filename: "0009_webhook_outbox.sql",
+    description: "Transactional outbox for webhook events awaiting relay",
+  },
+  {
+    id: "0010_webhook_subscription_filters",
+    filename: "0010_webhook_subscription_filters.sql",
+    description: "Store label and data filters on webhook subscriptions",
+  },
+  {
+    id: "0011_webhook_secret_rotation",
+    filename: "0011_webhook_secret_rotation.sql",
+    description: "Keep the previous webhook secret during a rotation overlap",
+  },
+  {
+    id: "0012_webhook_delivery_replays",
+    filename: "0012_webhook_delivery_replays.sql",
+    description: "Record replay lineage on webhook deliveries",
+  },
+  {
+    id: "0013_webhook_delivery_ordering",
+    filename: "0013_webhook_delivery_ordering.sql",
+    description: "Store the ordered delivery key path on webhook subscriptions",
+  },
+  {
+    id: "0014_webhook_queue",
+    filename: "0014_webhook_queue.sql",
+    description: "Queue and dead-letter tables for the Postgres webhook queue adapter",
+  },
+  {
+    id: "0015_webhook_delivery_ordering_key",
+    filename: "0015_webhook_delivery_ordering_key.sql",
+    description: "Store the ordering key on webhook deliveries",
+  },
 ] as const;
@@ -0,0 +1,166 @@
+import {
+  err,
+  matchesWebhookSubscriptionFilters,
+  ok,
+  webhookDeliveryOrderingKey,
+  type CatalystError,
+  type Result,
+  type WebhookDeliveryRecord,
+  type WebhookQueueDelivery,
+  type WebhookQueuePort,
+} from "@catalyst-auth/contracts";
+
+import type { QueryExecutor } from "../executors/query-executor.js";
+import type { WebhookOutboxRecord } from "../repositories/webhook-outbox-repository.js";
+import {
+  createPostgresWebhookDeliveryStore,
+  createPostgresWebhookSubscriptionStore,
+} from "../repositories/webhook-repository.js";
+import type { PostgresTableNames } from "../tables.js";
+import type { PostgresTransactionManager } from "../transactions/transaction-manager.js";
+
+interface Clock {
+  now(): Date;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface WebhookOutboxRelayOptions {
+  readonly transactionManager: PostgresTransactionManager;
+  readonly tables?: Pick<PostgresTableNames, "webhookSubscriptions" | "webhookDeliveries">;
+  /** Receives every delivery the relay creates. Without a queue, deliveries wait for a polling worker. */
+  readonly queue?: WebhookQueuePort;
+  /** Outbox events relayed per transaction. Defaults to 100. */
+  readonly batchSize?: number;
+  readonly clock?: Clock;
+}
+
+export interface WebhookOutboxRelayRunResult {
+  readonly relayedEvents: number;
+  readonly deliveries: ReadonlyArray<WebhookDeliveryRecord>;
+  /** Deliveries the queue rejected. They stay pending in the deliveries table for a polling worker. */
+  readonly enqueueFailures: ReadonlyArray<{ readonly deliveryId: string; readonly error: CatalystError }>;
+}
+
+const createError = (code: string, message: string, details?: Record<string, unknown>): CatalystError => ({
+  code,
+  message,
+  details,
+});
+
+const describeCause = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/** Aborts the relay transaction so claimed events stay in the outbox. */
+class RelayAbort extends Error {
+  constructor(readonly error: CatalystError) {
+    super(error.message);
+  }
+}
+
+const unwrap = <TValue>(result: Result<TValue, CatalystError>): TValue => {
+  if (!result.ok) {
+    throw new RelayAbort(result.error);
+  }
+  return result.value;
+};
+
+/**
+ * Moves outbox events into webhook deliveries. Claiming events, creating their deliveries and marking them
+ * relayed share one transaction, so an event is either fully relayed or left for the next run. Deliveries are
+ * offered to the queue after commit; a crash in between leaves them pending rather than lost, which makes
+ * delivery at-least-once. Schedule `runOnce` from a worker loop.
+ */
+export class WebhookOutboxRelay {
+  private readonly batchSize: number;
+  private readonly clock: Clock;
+
+  constructor(private readonly options: WebhookOutboxRelayOptions) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.clock = options.clock ?? defaultClock;
+  }
+
+  async runOnce(): Promise<Result<WebhookOutboxRelayRunResult, CatalystError>> {
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      return err(
+        createError("webhook.outbox.invalid_batch_size", "Batch size must be a positive integer.", {
+          batchSize: this.batchSize,
+        }),
+      );
+    }
+
+    let relayed: { events: number; deliveries: WebhookDeliveryRecord[]; queued: WebhookQueueDelivery[] };
+    try {
+      relayed = await this.options.transactionManager.runInTransaction(async (executor, { outbox }) => {
+        const events = unwrap(await outbox.claimPending(this.batchSize));
+        const deliveries: WebhookDeliveryRecord[] = [];
+        const queued: WebhookQueueDelivery[] = [];
+        for (const event of events) {
+          for (const created of await this.createDeliveries(executor, event)) {
+            deliveries.push(created.delivery);
+            queued.push({ deliveryId: created.delivery.id, orderingKey: created.orderingKey });
+          }
+        }
+        unwrap(await outbox.markRelayed(events.map((event) => event.id)));
+        return { events: events.length, deliveries, queued };
+      });
+    } catch (error) {
+      const cause = error instanceof RelayAbort ? error.error : describeCause(error);
+      return err(createError("webhook.outbox.relay_failed", "Relaying webhook outbox events failed.", { cause }));
+    }
+
+    const enqueueFailures: Array<{ deliveryId: string; error: CatalystError }> = [];
+    if (this.options.queue) {
+      for (const delivery of relayed.queued) {
+        const enqueued = await this.options.queue.enqueue(delivery);
+        if (!enqueued.ok) {
+          enqueueFailures.push({ deliveryId: delivery.deliveryId, error: enqueued.error });
+        }
+      }
+    }
+
+    return ok({ relayedEvents: relayed.events, deliveries: relayed.deliveries, enqueueFailures });
+  }
+
+  private async createDeliveries(
+    executor: QueryExecutor,
+    event: WebhookOutboxRecord,
+  ): Promise<ReadonlyArray<{ delivery: WebhookDeliveryRecord; orderingKey?: string }>> {
+    const storeOptions = { tables: this.options.tables, clock: this.clock };
+    const subscriptionStore = createPostgresWebhookSubscriptionStore(executor, storeOptions);
+    const deliveryStore = createPostgresWebhookDeliveryStore(executor, storeOptions);
+    const subscriptions = unwrap(
+      await subscriptionStore.listSubscriptions({ orgId: event.orgId, active: true, eventType: event.eventType }),
+    );
+
+    const now = this.clock.now().toISOString();
+    const deliveries: Array<{ delivery: WebhookDeliveryRecord; orderingKey?: string }> = [];
+    for (const subscription of subscriptions) {
+      if (!subscription.active || !matchesWebhookSubscriptionFilters(subscription.filters, event.payload)) {
+        continue;
+      }
+      const orderingKey = webhookDeliveryOrderingKey(subscription, event.payload);
+      const delivery = unwrap(
+        await deliveryStore.createDelivery({
+          subscriptionId: subscription.id,
+          eventId: event.eventId,
+          status: "pending",
+          attemptCount: 0,
+          nextAttemptAt: now,
+          payload: { ...event.payload },
+          orderingKey,
+          createdAt: now,
+          updatedAt: now,
+        }),
+      );
+      deliveries.push({ delivery, orderingKey });
+    }
+    return deliveries;
+  }
+}
+
+export const createWebhookOutboxRelay = (options: WebhookOutboxRelayOptions): WebhookOutboxRelay =>
+  new WebhookOutboxRelay(options);
@@ -1,9 +1,12 @@
 import type {
+  AuditCheckpointSignerPort,
   AuditLogPort,
   CachePort,
   EntitlementStorePort,
+  InvitationStorePort,
   KeyStorePort,
   ProfileStorePort,
+  RefreshTokenStorePort,
   SessionStorePort,
   WebhookDeliveryStorePort,
   WebhookSubscriptionStorePort,
@@ -18,10 +21,16 @@ import { createPostgresEntitlementStore } from "./repositories/entitlement-repos
 import { createPostgresKeyStore } from "./repositories/key-repository.js";
 import { createPostgresProfileStore } from "./repositories/profile-repository.js";
 import { createPostgresSessionStore } from "./repositories/session-repository.js";
+import { createPostgresRefreshTokenStore } from "./repositories/refresh-token-repository.js";
+import { createPostgresInvitationStore } from "./repositories/invitation-repository.js";
 import {
   createPostgresWebhookDeliveryStore,
   createPostgresWebhookSubscriptionStore,
 } from "./repositories/webhook-repository.js";
+import {
+  createPostgresWebhookOutbox,
+  type PostgresWebhookOutbox,
+} from "./repositories/webhook-outbox-repository.js";
 import { PostgresTransactionManager } from "./transactions/transaction-manager.js";
 import { resolvePostgresTableNames, type PostgresTableNames } from "./tables.js";
 import { PostgresCacheInvalidator } from "./utils/cache-invalidation.js";
@@ -35,8 +44,12 @@ export interface PostgresDataSource {
   readonly keyStore: KeyStorePort;
   readonly auditLog: AuditLogPort;
   readonly sessionStore: SessionStorePort;
+  readonly refreshTokenStore: RefreshTokenStorePort;
+  readonly invitationStore: InvitationStorePort;
   readonly webhookSubscriptionStore: WebhookSubscriptionStorePort;
   readonly webhookDeliveryStore: WebhookDeliveryStorePort;
+  /** Enqueues webhook events outside a transaction; use the transaction context's outbox to pair them with writes. */
+  readonly webhookOutbox: PostgresWebhookOutbox;
   readonly transactionManager: PostgresTransactionManager;
 }
 
@@ -46,6 +59,15 @@ export interface CreatePostgresDataSourceOptions {
   readonly tables?: Partial<PostgresTableNames>;
   readonly cacheOptions?: PostgresCacheOptions;
   readonly telemetry?: PostgresTelemetryOptions;
+  /** Maximum number of parent group levels folded into effective identities. Defaults to 10. */
+  readonly maxGroupDepth?: number;
+  readonly audit?: PostgresAuditOptions;
+}
+
+export interface PostgresAuditOptions {
+  /** Signs periodic checkpoints of the audit hash chain, typically a `JwtService` with `audit` signing options. */
+  readonly checkpointSigner?: AuditCheckpointSignerPort;
+  readonly checkpointInterval?: number;
 }
 
 export interface PostgresCacheOptions {
@@ -84,20 +106,30 @@ export const createPostgresDataSource = (
     identityCache: options.cacheOptions?.effectiveIdentityCache,
     identityCacheKeyPrefix: options.cacheOptions?.effectiveIdentityCacheKeyPrefix,
     identityCacheTtlSeconds: options.cacheOptions?.effectiveIdentityCacheTtlSeconds,
+    maxGroupDepth: options.maxGroupDepth,
   });
   const entitlementStore = createPostgresEntitlementStore(executor, {
     tables,
     cacheInvalidator,
   });
   const keyStore = createPostgresKeyStore(executor, { tables });
-  const auditLog = createPostgresAuditLog(executor, { tables });
+  const auditLog = createPostgresAuditLog(executor, {
+    tables,
+    checkpointSigner: options.audit?.checkpointSigner,
+    checkpointInterval: options.audit?.checkpointInterval,
+    logger: telemetry.logger,
+  });
   const sessionStore = createPostgresSessionStore(executor, { tables });
+  const refreshTokenStore = createPostgresRefreshTokenStore(executor, { tables });
+  const invitationStore = createPostgresInvitationStore(executor, { tables });
   const webhookSubscriptionStore = createPostgresWebhookSubscriptionStore(executor, { tables });
   const webhookDeliveryStore = createPostgresWebhookDeliveryStore(executor, { tables });
+  const webhookOutbox = createPostgresWebhookOutbox(executor, { tables });
   const transactionManager = new PostgresTransactionManager({
     pool: options.pool,
     executor,
     telemetry,
+    tables,
   });
 
   return {
@@ -108,8 +140,11 @@ export const createPostgresDataSource = (
     keyStore,
     auditLog,
     sessionStore,
+    refreshTokenStore,
+    invitationStore,
     webhookSubscriptionStore,
     webhookDeliveryStore,
+    webhookOutbox,
     transactionManager,
   };
 };
@@ -0,0 +1,557 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  err,
+  ok,
+  type CatalystError,
+  type Result,
+  type WebhookQueueConsumerOptions,
+  type WebhookQueueDeadLetterOptions,
+  type WebhookQueueDelivery,
+  type WebhookQueueEnqueueOptions,
+  type WebhookQueueMessage,
+  type WebhookQueueMessageHandle,
+  type WebhookQueuePort,
+  type WebhookQueueRetryOptions,
+  type WebhookQueueSubscription,
+} from "@catalyst-auth/contracts";
+
+import type { QueryExecutor } from "../executors/query-executor.js";
+import type { PostgresTableNames } from "../tables.js";
+import { clone } from "../utils/clone.js";
+
+interface Clock {
+  now(): Date;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+type IdFactory = () => string;
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+export interface PostgresWebhookQueueTelemetry {
+  enqueue?(payload: { deliveryId: string; attempt: number; delaySeconds: number }): void;
+  ack?(payload: { deliveryId: string; attempt: number }): void;
+  retry?(payload: {
+    deliveryId: string;
+    attempt: number;
+    nextAttempt: number;
+    delaySeconds: number;
+  }): void;
+  deadLetter?(payload: {
+    deliveryId: string;
+    attempt: number;
+    attempts: number;
+    reason: string;
+    deadLetterUri?: string;
+  }): void;
+  error?(error: CatalystError, context: Record<string, unknown>): void;
+}
+
+export interface PostgresWebhookQueueOptions {
+  readonly tables?: Pick<PostgresTableNames, "webhookQueue" | "webhookQueueDeadLetters">;
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+  readonly telemetry?: PostgresWebhookQueueTelemetry;
+  /** Seconds a consumer waits before polling again when nothing was due. Defaults to 1. */
+  readonly pollIntervalSeconds?: number;
+  /** Set to `false` to drive the consumer with `pollOnce`, for example from a scheduler, instead of a poll loop. */
+  readonly autoPoll?: boolean;
+}
+
+export interface PostgresWebhookQueueDeadLetter {
+  readonly id: string;
+  readonly deliveryId: string;
+  readonly attempt: number;
+  readonly attempts: number;
+  readonly reason: string;
+  readonly deadLetterUri?: string;
+  readonly metadata?: Record<string, unknown>;
+  readonly enqueuedAt: string;
+  readonly deadLetteredAt: string;
+}
+
+interface WebhookQueueRow {
+  readonly id: string;
+  readonly sequence: string | number;
+  readonly delivery_id: string;
+  readonly attempt: number;
+  readonly ordering_key: string | null;
+  readonly metadata: Record<string, unknown> | null;
+  readonly enqueued_at: string;
+  readonly available_at: string;
+  readonly lease_token: string | null;
+}
+
+interface WebhookQueueDeadLetterRow {
+  readonly id: string;
+  readonly delivery_id: string;
+  readonly attempt: number;
+  readonly attempts: number;
+  readonly reason: string;
+  readonly dead_letter_uri: string | null;
+  readonly metadata: Record<string, unknown> | null;
+  readonly enqueued_at: string;
+  readonly dead_lettered_at: string;
+}
+
+interface Consumer {
+  readonly handler: (handle: WebhookQueueMessageHandle) => Promise<void>;
+  readonly concurrency: number;
+  readonly visibilityTimeoutMs: number;
+  readonly inFlight: Set<Promise<void>>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 1;
+const DEFAULT_VISIBILITY_TIMEOUT_SECONDS = 30;
+
+const createError = (
+  code: string,
+  message: string,
+  details?: Record<string, unknown>,
+  retryable = true,
+): CatalystError => ({
+  code,
+  message,
+  details,
+  retryable,
+});
+
+const describeCause = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const toDelayMilliseconds = (delaySeconds: number | undefined): number => {
+  if (!delaySeconds || !Number.isFinite(delaySeconds)) {
+    return 0;
+  }
+  return Math.max(0, Math.round(delaySeconds * 1000));
+};
+
+const toDeadLetter = (row: WebhookQueueDeadLetterRow): PostgresWebhookQueueDeadLetter => ({
+  id: row.id,
+  deliveryId: row.delivery_id,
+  attempt: Number(row.attempt),
+  attempts: Number(row.attempts),
+  reason: row.reason,
+  deadLetterUri: row.dead_letter_uri ?? undefined,
+  metadata: row.metadata ? clone(row.metadata) : undefined,
+  enqueuedAt: row.enqueued_at,
+  deadLetteredAt: row.dead_lettered_at,
+});
+
+/**
+ * `WebhookQueuePort` over a Postgres table, for deployments without Redis. Consumers claim due messages with
+ * `FOR UPDATE SKIP LOCKED` and lease them for the visibility timeout; a message whose lease lapses before it is
+ * settled is handed out again. Delays, retries, dead letters and ordering keys behave as in the Redis adapter:
+ * retries keep their place in an ordering key, and dead letters move to a separate table.
+ */
+export class PostgresWebhookQueue implements WebhookQueuePort {
+  private readonly queueTable: string;
+  private readonly deadLetterTable: string;
+  private readonly clock: Clock;
+  private readonly idFactory: IdFactory;
+  private readonly telemetry: PostgresWebhookQueueTelemetry;
+  private readonly pollIntervalMs: number;
+  private readonly autoPoll: boolean;
+  private consumer?: Consumer;
+
+  constructor(
+    private readonly executor: QueryExecutor,
+    options: PostgresWebhookQueueOptions = {},
+  ) {
+    this.queueTable = options.tables?.webhookQueue ?? "auth_webhook_queue";
+    this.deadLetterTable = options.tables?.webhookQueueDeadLetters ?? "auth_webhook_queue_dead_letters";
+    this.clock = options.clock ?? defaultClock;
+    this.idFactory = options.idFactory ?? defaultIdFactory;
+    this.telemetry = options.telemetry ?? {};
+    this.pollIntervalMs = toDelayMilliseconds(options.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS);
+    this.autoPoll = options.autoPoll ?? true;
+  }
+
+  async enqueue(
+    delivery: WebhookQueueDelivery,
+    options?: WebhookQueueEnqueueOptions,
+  ): Promise<Result<void, CatalystError>> {
+    const attempt = delivery.attempt ?? 1;
+    const delay = toDelayMilliseconds(options?.delaySeconds);
+    const now = this.clock.now();
+
+    try {
+      await this.executor.query(
+        `INSERT INTO ${this.queueTable} (
+          id,
+          delivery_id,
+          attempt,
+          ordering_key,
+          metadata,
+          enqueued_at,
+          available_at
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7)`,
+        [
+          this.idFactory(),
+          delivery.deliveryId,
+          attempt,
+          delivery.orderingKey ?? null,
+          options?.metadata ?? null,
+          now.toISOString(),
+          new Date(now.getTime() + delay).toISOString(),
+        ],
+      );
+      this.telemetry.enqueue?.({ deliveryId: delivery.deliveryId, attempt, delaySeconds: delay / 1000 });
+      return ok(undefined);
+    } catch (error) {
+      const enqueueError = createError("webhook.queue.postgres.enqueue_failed", "Failed to enqueue webhook delivery.", {
+        deliveryId: delivery.deliveryId,
+        attempt,
+        cause: describeCause(error),
+      });
+      this.telemetry.error?.(enqueueError, { operation: "enqueue" });
+      return err(enqueueError);
+    }
+  }
+
+  async consume(
+    handler: (handle: WebhookQueueMessageHandle) => Promise<void>,
+    options?: WebhookQueueConsumerOptions,
+  ): Promise<Result<WebhookQueueSubscription, CatalystError>> {
+    if (this.consumer) {
+      return err(
+        createError("webhook.queue.postgres.already_consuming", "A consumer is already registered for this queue.", {
+          queue: this.queueTable,
+        }),
+      );
+    }
+
+    const consumer: Consumer = {
+      handler,
+      concurrency: Math.max(1, options?.concurrency ?? 1),
+      visibilityTimeoutMs: toDelayMilliseconds(options?.visibilityTimeoutSeconds ?? DEFAULT_VISIBILITY_TIMEOUT_SECONDS),
+      inFlight: new Set(),
+    };
+    this.consumer = consumer;
+    if (this.autoPoll) {
+      this.schedulePoll(consumer, 0);
+    }
+
+    return ok({ close: () => this.closeConsumer(consumer) } satisfies WebhookQueueSubscription);
+  }
+
+  /**
+   * Claims due messages up to the consumer's free concurrency, hands them to its handler, and resolves with
+   * the number claimed once every handler has finished.
+   */
+  async pollOnce(): Promise<Result<number, CatalystError>> {
+    const consumer = this.consumer;
+    if (!consumer) {
+      return err(
+        createError(
+          "webhook.queue.postgres.not_consuming",
+          "No consumer is registered for this queue.",
+          { queue: this.queueTable },
+          false,
+        ),
+      );
+    }
+
+    const dispatched = await this.dispatch(consumer);
+    if (!dispatched.ok) {
+      return dispatched;
+    }
+    await Promise.all(dispatched.value);
+    return ok(dispatched.value.length);
+  }
+
+  async listDeadLetters(limit?: number): Promise<Result<ReadonlyArray<PostgresWebhookQueueDeadLetter>, CatalystError>> {
+    try {
+      const { rows } = await this.executor.query<WebhookQueueDeadLetterRow>(
+        `SELECT * FROM ${this.deadLetterTable}
+         ORDER BY dead_lettered_at ASC, id ASC
+         LIMIT $1`,
+        [limit ?? null],
+      );
+      return ok(rows.map((row) => toDeadLetter(row)));
+    } catch (error) {
+      return err(
+        createError("webhook.queue.postgres.read_failed", "Failed to load dead-lettered webhook deliveries.", {
+          cause: describeCause(error),
+        }),
+      );
+    }
+  }
+
+  /** Stops the consumer and waits for in-flight handlers. */
+  async close(): Promise<void> {
+    if (this.consumer) {
+      await this.closeConsumer(this.consumer);
+    }
+  }
+
+  private async closeConsumer(consumer: Consumer): Promise<void> {
+    if (this.consumer === consumer) {
+      this.consumer = undefined;
+    }
+    if (consumer.timer !== undefined) {
+      clearTimeout(consumer.timer);
+      consumer.timer = undefined;
+    }
+    await Promise.all(consumer.inFlight);
+  }
+
+  private schedulePoll(consumer: Consumer, delayMs: number): void {
+    consumer.timer = setTimeout(() => {
+      void this.poll(consumer);
+    }, delayMs);
+  }
+
+  private async poll(consumer: Consumer): Promise<void> {
+    if (this.consumer !== consumer) {
+      return;
+    }
+    const dispatched = await this.dispatch(consumer);
+    if (this.consumer !== consumer) {
+      return;
+    }
+    // Keep claiming without waiting while messages are due and handlers are free.
+    const busy = dispatched.ok && dispatched.value.length > 0 && consumer.inFlight.size < consumer.concurrency;
+    this.schedulePoll(consumer, busy ? 0 : this.pollIntervalMs);
+  }
+
+  private async dispatch(consumer: Consumer): Promise<Result<Array<Promise<void>>, CatalystError>> {
+    const capacity = consumer.concurrency - consumer.inFlight.size;
+    if (capacity <= 0) {
+      return ok([]);
+    }
+
+    const claimed = await this.claim(capacity, consumer.visibilityTimeoutMs);
+    if (!claimed.ok) {
+      this.telemetry.error?.(claimed.error, { operation: "claim" });
+      return claimed;
+    }
+
+    return ok(
+      claimed.value.map((row) => {
+        const task: Promise<void> = this.handle(consumer, row).finally(() => {
+          consumer.inFlight.delete(task);
+        });
+        consumer.inFlight.add(task);
+        return task;
+      }),
+    );
+  }
+
+  /**
+   * Leases due messages by moving `available_at` to the end of the visibility timeout. Only the oldest message
+   * of each ordering key can be claimed, and rows locked by concurrent consumers are skipped rather than awaited.
+   */
+  private async claim(
+    limit: number,
+    visibilityTimeoutMs: number,
+  ): Promise<Result<ReadonlyArray<WebhookQueueRow>, CatalystError>> {
+    const now = this.clock.now();
+    try {
+      const { rows } = await this.executor.query<WebhookQueueRow>(
+        `WITH due AS (
+           SELECT id FROM ${this.queueTable} AS job
+           WHERE available_at <= $1
+             AND NOT EXISTS (
+               SELECT 1 FROM ${this.queueTable} AS earlier
+               WHERE earlier.ordering_key = job.ordering_key AND earlier.sequence < job.sequence
+             )
+           ORDER BY available_at ASC, sequence ASC
+           LIMIT $4
+           FOR UPDATE SKIP LOCKED
+         )
+         UPDATE ${this.queueTable} AS job
+         SET available_at = $2, lease_token = $3
+         FROM due
+         WHERE job.id = due.id
+         RETURNING job.*`,
+        [now.toISOString(), new Date(now.getTime() + visibilityTimeoutMs).toISOString(), randomUUID(), limit],
+      );
+      return ok([...rows].sort((left, right) => Number(left.sequence) - Number(right.sequence)));
+    } catch (error) {
+      return err(
+        createError("webhook.queue.postgres.claim_failed", "Failed to claim webhook deliveries.", {
+          queue: this.queueTable,
+          cause: describeCause(error),
+        }),
+      );
+    }
+  }
+
+  private async handle(consumer: Consumer, row: WebhookQueueRow): Promise<void> {
+    let settled = false;
+    const leaseToken = row.lease_token ?? "";
+    const message: WebhookQueueMessage = {
+      id: row.id,
+      deliveryId: row.delivery_id,
+      attempt: Number(row.attempt),
+      enqueuedAt: row.enqueued_at,
+      metadata: row.metadata ? clone(row.metadata) : undefined,
+      orderingKey: row.ordering_key ?? undefined,
+    };
+
+    const settle = async (
+      operation: string,
+      action: () => Promise<number>,
+      onSuccess: () => void,
+    ): Promise<Result<void, CatalystError>> => {
+      if (settled) {
+        return ok(undefined);
+      }
+      settled = true;
+      try {
+        if ((await action()) === 0) {
+          const lost = createError(
+            "webhook.queue.postgres.lease_lost",
+            "The message lease expired before it was settled; another consumer may have claimed it.",
+            { queue: this.queueTable, jobId: message.id, deliveryId: message.deliveryId },
+            false,
+          );
+          this.telemetry.error?.(lost, { operation, jobId: message.id });
+          return err(lost);
+        }
+        onSuccess();
+        return ok(undefined);
+      } catch (error) {
+        const failure = createError("webhook.queue.postgres.consumer_failed", "Queue consumer failed to settle job.", {
+          queue: this.queueTable,
+          jobId: message.id,
+          deliveryId: message.deliveryId,
+          cause: describeCause(error),
+        });
+        this.telemetry.error?.(failure, { operation: "settle", jobId: message.id });
+        return err(failure);
+      }
+    };
+
+    const handle: WebhookQueueMessageHandle = {
+      message,
+      ack: () =>
+        settle(
+          "ack",
+          () => this.remove(message.id, leaseToken),
+          () => this.telemetry.ack?.({ deliveryId: message.deliveryId, attempt: message.attempt }),
+        ),
+      retry: (retryOptions) =>
+        settle(
+          "retry",
+          () => this.reschedule(message, leaseToken, retryOptions),
+          () =>
+            this.telemetry.retry?.({
+              deliveryId: message.deliveryId,
+              attempt: message.attempt,
+              nextAttempt: retryOptions.nextAttempt,
+              delaySeconds: retryOptions.delaySeconds,
+            }),
+        ),
+      deadLetter: (deadLetterOptions) =>
+        settle(
+          "deadLetter",
+          () => this.moveToDeadLetters(message, leaseToken, deadLetterOptions),
+          () =>
+            this.telemetry.deadLetter?.({
+              deliveryId: message.deliveryId,
+              attempt: message.attempt,
+              attempts: deadLetterOptions.attempts,
+              reason: deadLetterOptions.reason,
+              deadLetterUri: deadLetterOptions.deadLetterUri,
+            }),
+        ),
+    };
+
+    try {
+      await consumer.handler(handle);
+    } catch (error) {
+      if (settled) {
+        return;
+      }
+      // The message stays leased and is handed out again once the visibility timeout lapses.
+      const failure = createError("webhook.queue.postgres.handler_failed", "Unhandled error in queue consumer handler.", {
+        queue: this.queueTable,
+        jobId: message.id,
+        deliveryId: message.deliveryId,
+        cause: describeCause(error),
+      });
+      this.telemetry.error?.(failure, { operation: "handler", jobId: message.id });
+    }
+  }
+
+  private async remove(id: string, leaseToken: string): Promise<number> {
+    const { rows } = await this.executor.query<{ id: string }>(
+      `DELETE FROM ${this.queueTable} WHERE id = $1 AND lease_token = $2 RETURNING id`,
+      [id, leaseToken],
+    );
+    return rows.length;
+  }
+
+  /** Updates the message in place, so a retried message keeps its position within its ordering key. */
+  private async reschedule(
+    message: WebhookQueueMessage,
+    leaseToken: string,
+    options: WebhookQueueRetryOptions,
+  ): Promise<number> {
+    const now = this.clock.now();
+    const { rows } = await this.executor.query<{ id: string }>(
+      `UPDATE ${this.queueTable}
+       SET attempt = $3, metadata = $4, enqueued_at = $5, available_at = $6, lease_token = NULL
+       WHERE id = $1 AND lease_token = $2
+       RETURNING id`,
+      [
+        message.id,
+        leaseToken,
+        options.nextAttempt,
+        { ...message.metadata, ...options.metadata },
+        now.toISOString(),
+        new Date(now.getTime() + toDelayMilliseconds(options.delaySeconds)).toISOString(),
+      ],
+    );
+    return rows.length;
+  }
+
+  private async moveToDeadLetters(
+    message: WebhookQueueMessage,
+    leaseToken: string,
+    options: WebhookQueueDeadLetterOptions,
+  ): Promise<number> {
+    const { rows } = await this.executor.query<{ id: string }>(
+      `WITH removed AS (
+         DELETE FROM ${this.queueTable}
+         WHERE id = $1 AND lease_token = $2
+         RETURNING id, delivery_id, attempt, enqueued_at
+       )
+       INSERT INTO ${this.deadLetterTable} (
+         id,
+         delivery_id,
+         attempt,
+         attempts,
+         reason,
+         dead_letter_uri,
+         metadata,
+         enqueued_at,
+         dead_lettered_at
+       )
+       SELECT id, delivery_id, attempt, $3::integer, $4::text, $5::text, $6::jsonb, enqueued_at, $7::timestamptz
+       FROM removed
+       RETURNING id`,
+      [
+        message.id,
+        leaseToken,
+        options.attempts,
+        options.reason,
+        options.deadLetterUri ?? null,
+        { ...message.metadata, ...options.metadata },
+        this.clock.now().toISOString(),
+      ],
+    );
+    return rows.length;
+  }
+}
+
+export const createPostgresWebhookQueue = (
+  executor: QueryExecutor,
+  options?: PostgresWebhookQueueOptions,
+): PostgresWebhookQueue => new PostgresWebhookQueue(executor, options);
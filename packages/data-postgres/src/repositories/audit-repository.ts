@@ -4,14 +4,28 @@ import {
   err,
   ok,
   type AppendAuditEventInput,
+  type AuditChainRange,
+  type AuditChainVerification,
+  type AuditCheckpointRecord,
+  type AuditCheckpointSignerPort,
+  type AuditEventPage,
+  type AuditEventQuery,
   type AuditEventRecord,
   type AuditLogPort,
   type CatalystError,
   type Result,
 } from "@catalyst-auth/contracts";
+import { createCatalystLogger, type CatalystLogger } from "@catalyst-auth/telemetry";
 
 import type { PostgresTableNames } from "../tables.js";
 import type { QueryExecutor } from "../executors/query-executor.js";
+import {
+  AuditChainVerifier,
+  computeAuditEventHash,
+  toAuditChainLink,
+  type AuditChainLink,
+} from "../utils/audit-chain.js";
+import { decodeAuditCursor, encodeAuditCursor } from "../utils/audit-cursor.js";
 import { clone } from "../utils/clone.js";
 
 interface Clock {
@@ -32,6 +46,21 @@ interface AuditEventRow {
   readonly resource: Record<string, unknown> | null;
   readonly metadata: Record<string, unknown> | null;
   readonly correlation_id: string | null;
+  readonly sequence: string | number | null;
+  readonly hash: string | null;
+  readonly previous_hash: string | null;
+}
+
+interface AuditChainRow extends AuditEventRow {
+  readonly pruned: boolean;
+}
+
+interface AuditCheckpointRow {
+  readonly sequence: string | number;
+  readonly event_id: string;
+  readonly hash: string;
+  readonly token: string;
+  readonly created_at: string;
 }
 
 const toRecord = (row: AuditEventRow): AuditEventRecord => ({
@@ -44,29 +73,83 @@ const toRecord = (row: AuditEventRow): AuditEventRecord => ({
   resource: row.resource ? (clone(row.resource) as unknown as AuditEventRecord["resource"]) : undefined,
   metadata: row.metadata ? clone(row.metadata) : undefined,
   correlationId: row.correlation_id ?? undefined,
+  sequence: row.sequence === null ? undefined : Number(row.sequence),
+  hash: row.hash ?? undefined,
+  previousHash: row.previous_hash ?? undefined,
 });
 
+const toChainLink = (row: AuditChainRow): AuditChainLink =>
+  row.pruned
+    ? {
+        sequence: Number(row.sequence),
+        eventId: row.id,
+        hash: row.hash ?? undefined,
+        previousHash: row.previous_hash ?? undefined,
+      }
+    : toAuditChainLink(toRecord(row));
+
+const toCheckpoint = (row: AuditCheckpointRow): AuditCheckpointRecord => ({
+  sequence: Number(row.sequence),
+  eventId: row.event_id,
+  hash: row.hash,
+  token: row.token,
+  createdAt: row.created_at,
+});
+
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+const DEFAULT_CHECKPOINT_INTERVAL = 1000;
+const VERIFY_BATCH_SIZE = 500;
+const MAX_APPEND_ATTEMPTS = 5;
+
 interface PostgresAuditLogOptions {
-  readonly tables?: Pick<PostgresTableNames, "auditEvents">;
+  readonly tables?: Pick<PostgresTableNames, "auditEvents" | "auditCheckpoints" | "auditPrunedLinks">;
   readonly clock?: Clock;
+  /** Signs chain checkpoints, typically the `JwtService` configured with `audit` signing options. */
+  readonly checkpointSigner?: AuditCheckpointSignerPort;
+  /** Number of events between automatic checkpoints. Defaults to 1000; requires a checkpoint signer. */
+  readonly checkpointInterval?: number;
+  /** Reports automatic checkpoints that fail after their event was appended. */
+  readonly logger?: CatalystLogger;
 }
 
+const isUniqueViolation = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+
 const createError = (code: string, message: string, details?: Record<string, unknown>): CatalystError => ({
   code,
   message,
   details,
 });
 
+/**
+ * Appends events to a SHA-256 hash chain: each row stores its sequence, the hash of its contents and the hash of
+ * its predecessor. Appends are serialised within the process and the unique sequence index rejects concurrent
+ * writers, which retry against the new head. Rows written before `0007_audit_hash_chain` have no sequence and sit
+ * outside the chain. Deleting chained events moves their links to the pruned-links table so verification can step
+ * over them.
+ */
 export class PostgresAuditLog implements AuditLogPort {
   private readonly table: string;
+  private readonly checkpointTable: string;
+  private readonly prunedLinksTable: string;
   private readonly clock: Clock;
+  private readonly checkpointSigner?: AuditCheckpointSignerPort;
+  private readonly checkpointInterval: number;
+  private readonly logger: CatalystLogger;
+  private appendQueue: Promise<unknown> = Promise.resolve();
 
   constructor(
     private readonly executor: QueryExecutor,
     options: PostgresAuditLogOptions = {},
   ) {
     this.table = options.tables?.auditEvents ?? "auth_audit_events";
+    this.checkpointTable = options.tables?.auditCheckpoints ?? "auth_audit_checkpoints";
+    this.prunedLinksTable = options.tables?.auditPrunedLinks ?? "auth_audit_pruned_links";
     this.clock = options.clock ?? defaultClock;
+    this.checkpointSigner = options.checkpointSigner;
+    this.checkpointInterval = options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL;
+    this.logger = options.logger ?? createCatalystLogger({ name: "data-postgres" });
   }
 
   async appendEvent(input: AppendAuditEventInput): Promise<Result<AuditEventRecord, CatalystError>> {
@@ -77,38 +160,71 @@ export class PostgresAuditLog implements AuditLogPort {
       return err(createError("audit.postgres.invalid_action", "Action is required"));
     }
 
+    const task = this.appendQueue.then(() => this.appendChained(input));
+    this.appendQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async appendChained(input: AppendAuditEventInput): Promise<Result<AuditEventRecord, CatalystError>> {
     const occurredAt = input.occurredAt ?? this.clock.now().toISOString();
     const id = randomUUID();
 
-    const { rows } = await this.executor.query<AuditEventRow>(
-      `INSERT INTO ${this.table} (
-        id,
-        occurred_at,
-        category,
-        action,
-        actor,
-        subject,
-        resource,
-        metadata,
-        correlation_id
-      ) VALUES (
-        $1,$2,$3,$4,$5,$6,$7,$8,$9
-      )
-      RETURNING *`,
-      [
-        id,
-        occurredAt,
-        input.category,
-        input.action,
-        input.actor ?? null,
-        input.subject ?? null,
-        input.resource ?? null,
-        input.metadata ?? null,
-        input.correlationId ?? null,
-      ],
-    );
+    for (let attempt = 1; ; attempt += 1) {
+      const [head] = await this.loadChainLinks(1, undefined, 1, "desc");
+      const sequence = (head?.sequence ?? 0) + 1;
+      const previousHash = head?.hash;
+      const hash = computeAuditEventHash({ ...input, id, occurredAt, sequence, previousHash });
+
+      let record: AuditEventRecord;
+      try {
+        const { rows } = await this.executor.query<AuditEventRow>(
+          `INSERT INTO ${this.table} (
+            id,
+            occurred_at,
+            category,
+            action,
+            actor,
+            subject,
+            resource,
+            metadata,
+            correlation_id,
+            sequence,
+            hash,
+            previous_hash
+          ) VALUES (
+            $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12
+          )
+          RETURNING *`,
+          [
+            id,
+            occurredAt,
+            input.category,
+            input.action,
+            input.actor ?? null,
+            input.subject ?? null,
+            input.resource ?? null,
+            input.metadata ?? null,
+            input.correlationId ?? null,
+            sequence,
+            hash,
+            previousHash ?? null,
+          ],
+        );
 
-    return ok(toRecord(rows[0]));
+        record = toRecord(rows[0]);
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+        continue;
+      }
+
+      if (this.checkpointSigner && sequence % this.checkpointInterval === 0) {
+        // A failed automatic checkpoint does not undo the append; the next createCheckpoint call covers it.
+        await this.writeAutomaticCheckpoint(toAuditChainLink(record));
+      }
+      return ok(record);
+    }
   }
 
   async listEvents(): Promise<Result<ReadonlyArray<AuditEventRecord>, CatalystError>> {
@@ -117,6 +233,258 @@ export class PostgresAuditLog implements AuditLogPort {
     );
     return ok(rows.map((row) => toRecord(row)));
   }
+
+  /**
+   * Pages through events with keyset pagination on `(occurred_at, id)`, which the indexes added in
+   * `0006_audit_event_indexes` serve for every sort order.
+   */
+  async queryEvents(query: AuditEventQuery): Promise<Result<AuditEventPage, CatalystError>> {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+      return err(
+        createError("audit.postgres.invalid_limit", `Limit must be an integer between 1 and ${MAX_QUERY_LIMIT}`, {
+          limit,
+        }),
+      );
+    }
+    const cursor = query.cursor === undefined ? undefined : decodeAuditCursor(query.cursor);
+    if (query.cursor !== undefined && !cursor) {
+      return err(createError("audit.postgres.invalid_cursor", "Cursor is malformed"));
+    }
+
+    const descending = query.order === "desc";
+    const { rows } = await this.executor.query<AuditEventRow>(
+      `SELECT * FROM ${this.table}
+        WHERE ($1::text IS NULL OR category = $1)
+          AND ($2::text IS NULL OR action = $2)
+          AND ($3::text IS NULL OR actor->>'type' = $3)
+          AND ($4::text IS NULL OR actor->>'id' = $4)
+          AND ($5::text IS NULL OR subject->>'type' = $5)
+          AND ($6::text IS NULL OR subject->>'id' = $6)
+          AND ($7::text IS NULL OR resource->>'type' = $7)
+          AND ($8::text IS NULL OR resource->>'id' = $8)
+          AND ($9::text IS NULL OR correlation_id = $9)
+          AND ($10::timestamptz IS NULL OR occurred_at >= $10)
+          AND ($11::timestamptz IS NULL OR occurred_at < $11)
+          AND ($12::timestamptz IS NULL OR (occurred_at, id) ${descending ? "<" : ">"} ($12::timestamptz, $13::text))
+        ORDER BY occurred_at ${descending ? "DESC" : "ASC"}, id ${descending ? "DESC" : "ASC"}
+        LIMIT $14`,
+      [
+        query.category ?? null,
+        query.action ?? null,
+        query.actorType ?? null,
+        query.actorId ?? null,
+        query.subjectType ?? null,
+        query.subjectId ?? null,
+        query.resourceType ?? null,
+        query.resourceId ?? null,
+        query.correlationId ?? null,
+        query.occurredAfter ?? null,
+        query.occurredBefore ?? null,
+        cursor?.occurredAt ?? null,
+        cursor?.id ?? null,
+        limit + 1,
+      ],
+    );
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return ok({
+      events: page.map((row) => toRecord(row)),
+      nextCursor:
+        rows.length > limit && last ? encodeAuditCursor({ occurredAt: last.occurred_at, id: last.id }) : undefined,
+    });
+  }
+
+  /**
+   * Verifies the chain in batches ordered by sequence, comparing every stored checkpoint in the range against the
+   * recomputed hashes and, when a signer is configured, its signature.
+   */
+  async verifyChain(range: AuditChainRange = {}): Promise<Result<AuditChainVerification, CatalystError>> {
+    const fromSequence = range.fromSequence ?? 1;
+    const toSequence = range.toSequence;
+    if (
+      !Number.isInteger(fromSequence) ||
+      fromSequence < 1 ||
+      (toSequence !== undefined && (!Number.isInteger(toSequence) || toSequence < fromSequence))
+    ) {
+      return err(createError("audit.postgres.invalid_range", "Chain range is invalid", { fromSequence, toSequence }));
+    }
+
+    let previous: AuditChainLink | undefined;
+    if (fromSequence > 1) {
+      [previous] = await this.loadChainLinks(fromSequence - 1, fromSequence - 1, 1, "asc");
+      if (!previous) {
+        return ok({
+          valid: false,
+          checkedEvents: 0,
+          checkedCheckpoints: 0,
+          firstBreak: { sequence: fromSequence - 1, reason: "sequence_gap" },
+        });
+      }
+    }
+
+    const { rows: checkpointRows } = await this.executor.query<AuditCheckpointRow>(
+      `SELECT * FROM ${this.checkpointTable}
+        WHERE sequence >= $1 AND ($2::bigint IS NULL OR sequence <= $2)
+        ORDER BY sequence ASC`,
+      [fromSequence, toSequence ?? null],
+    );
+    const checkpoints = new Map(checkpointRows.map((row) => [Number(row.sequence), toCheckpoint(row)]));
+    const verifier = new AuditChainVerifier(fromSequence, previous, checkpoints, this.checkpointSigner);
+
+    for (;;) {
+      const links = await this.loadChainLinks(verifier.nextSequence, toSequence, VERIFY_BATCH_SIZE, "asc");
+      for (const link of links) {
+        const firstBreak = await verifier.check(link);
+        if (firstBreak) {
+          return ok({
+            valid: false,
+            checkedEvents: verifier.checkedEvents,
+            checkedCheckpoints: verifier.checkedCheckpoints,
+            firstBreak,
+          });
+        }
+      }
+      if (links.length < VERIFY_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    const truncation = verifier.checkTruncation();
+    return ok({
+      valid: truncation === undefined,
+      checkedEvents: verifier.checkedEvents,
+      checkedCheckpoints: verifier.checkedCheckpoints,
+      firstBreak: truncation,
+    });
+  }
+
+  /**
+   * Signs the current chain head. Returns `undefined` when the chain is empty.
+   */
+  async createCheckpoint(): Promise<Result<AuditCheckpointRecord | undefined, CatalystError>> {
+    if (!this.checkpointSigner) {
+      return err(createError("audit.postgres.checkpoint_unavailable", "No checkpoint signer is configured"));
+    }
+    const [head] = await this.loadChainLinks(1, undefined, 1, "desc");
+    if (!head) {
+      return ok(undefined);
+    }
+    return this.writeCheckpoint(head);
+  }
+
+  /**
+   * Deletes events by id. Chained events leave their link behind in the same statement, so a crash between the
+   * two writes cannot open a gap in the chain.
+   */
+  async deleteEvents(ids: ReadonlyArray<string>): Promise<Result<number, CatalystError>> {
+    if (ids.length === 0) {
+      return ok(0);
+    }
+    const { rows } = await this.executor.query<{ id: string }>(
+      `WITH deleted AS (
+        DELETE FROM ${this.table}
+        WHERE id = ANY($1::text[])
+        RETURNING id, occurred_at, category, sequence, hash, previous_hash
+      ), pruned AS (
+        INSERT INTO ${this.prunedLinksTable} (
+          sequence,
+          event_id,
+          category,
+          occurred_at,
+          hash,
+          previous_hash,
+          pruned_at
+        )
+        SELECT sequence, id, category, occurred_at, hash, previous_hash, $2
+        FROM deleted
+        WHERE sequence IS NOT NULL
+      )
+      SELECT id FROM deleted`,
+      [[...ids], this.clock.now().toISOString()],
+    );
+    return ok(rows.length);
+  }
+
+  /**
+   * Loads chain positions from live events and pruned links, ordered by sequence.
+   */
+  private async loadChainLinks(
+    fromSequence: number,
+    toSequence: number | undefined,
+    limit: number,
+    order: "asc" | "desc",
+  ): Promise<ReadonlyArray<AuditChainLink>> {
+    const { rows } = await this.executor.query<AuditChainRow>(
+      `SELECT id, occurred_at, category, action, actor, subject, resource, metadata, correlation_id,
+          sequence, hash, previous_hash, FALSE AS pruned
+        FROM ${this.table}
+        WHERE sequence >= $1 AND ($2::bigint IS NULL OR sequence <= $2)
+      UNION ALL
+      SELECT event_id, occurred_at, category, NULL, NULL, NULL, NULL, NULL, NULL,
+          sequence, hash, previous_hash, TRUE AS pruned
+        FROM ${this.prunedLinksTable}
+        WHERE sequence >= $1 AND ($2::bigint IS NULL OR sequence <= $2)
+      ORDER BY sequence ${order === "desc" ? "DESC" : "ASC"}
+      LIMIT $3`,
+      [fromSequence, toSequence ?? null, limit],
+    );
+    return rows.map((row) => toChainLink(row));
+  }
+
+  private async writeAutomaticCheckpoint(link: AuditChainLink): Promise<void> {
+    try {
+      const result = await this.writeCheckpoint(link);
+      if (!result.ok) {
+        this.logger.error("postgres.audit.checkpoint_failed", { sequence: link.sequence, code: result.error.code });
+      }
+    } catch (error) {
+      this.logger.error("postgres.audit.checkpoint_failed", {
+        sequence: link.sequence,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async writeCheckpoint(
+    link: AuditChainLink,
+  ): Promise<Result<AuditCheckpointRecord | undefined, CatalystError>> {
+    if (!this.checkpointSigner || link.hash === undefined) {
+      return ok(undefined);
+    }
+    const token = await this.checkpointSigner.signCheckpoint({
+      sequence: link.sequence,
+      eventId: link.eventId,
+      hash: link.hash,
+    });
+    if (!token.ok) {
+      return token;
+    }
+
+    const { rows } = await this.executor.query<AuditCheckpointRow>(
+      `INSERT INTO ${this.checkpointTable} (
+        sequence,
+        event_id,
+        hash,
+        token,
+        created_at
+      ) VALUES (
+        $1,$2,$3,$4,$5
+      )
+      ON CONFLICT (sequence) DO NOTHING
+      RETURNING *`,
+      [link.sequence, link.eventId, link.hash, token.value, this.clock.now().toISOString()],
+    );
+    if (rows[0]) {
+      return ok(toCheckpoint(rows[0]));
+    }
+    const { rows: existing } = await this.executor.query<AuditCheckpointRow>(
+      `SELECT * FROM ${this.checkpointTable} WHERE sequence = $1`,
+      [link.sequence],
+    );
+    return ok(existing[0] ? toCheckpoint(existing[0]) : undefined);
+  }
 }
 
 export const createPostgresAuditLog = (
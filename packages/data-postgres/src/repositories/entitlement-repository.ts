@@ -86,6 +86,14 @@ export class PostgresEntitlementStore implements EntitlementStorePort {
     this.cacheInvalidator = options.cacheInvalidator;
   }
 
+  async getEntitlement(id: string): Promise<EntitlementRecord | undefined> {
+    const { rows } = await this.executor.query<EntitlementRow>(
+      `SELECT * FROM ${this.tables.entitlements} WHERE id = $1 LIMIT 1`,
+      [id],
+    );
+    return rows.length > 0 ? toRecord(rows[0]) : undefined;
+  }
+
   async listEntitlements(subject: EntitlementQuery): Promise<ReadonlyArray<EntitlementRecord>> {
     const { rows } = await this.executor.query<EntitlementRow>(
       `SELECT * FROM ${this.tables.entitlements}
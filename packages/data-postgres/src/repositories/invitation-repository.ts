@@ -0,0 +1,188 @@
+import { randomUUID } from "node:crypto";
+
+import type {
+  CreateInvitationInput,
+  InvitationRecord,
+  InvitationStatus,
+  InvitationStorePort,
+  ListInvitationsOptions,
+  TransitionInvitationInput,
+} from "@catalyst-auth/contracts";
+
+import type { PostgresTableNames } from "../tables.js";
+import type { QueryExecutor } from "../executors/query-executor.js";
+
+type InvitationTables = Pick<PostgresTableNames, "invitations">;
+
+interface Clock {
+  now(): Date;
+}
+
+type IdFactory = () => string;
+
+interface PostgresInvitationStoreOptions {
+  readonly tables?: Partial<InvitationTables>;
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+}
+
+interface InvitationRow {
+  readonly id: string;
+  readonly org_id: string;
+  readonly email: string;
+  readonly role: string;
+  readonly group_ids: ReadonlyArray<string> | null;
+  readonly status: string;
+  readonly token_hash: string;
+  readonly invited_by_user_id: string;
+  readonly expires_at: string;
+  readonly sent_at: string;
+  readonly send_count: number;
+  readonly resolved_at: string | null;
+  readonly resolved_by_user_id: string | null;
+  readonly membership_id: string | null;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+const toInvitationRecord = (row: InvitationRow): InvitationRecord => ({
+  id: row.id,
+  orgId: row.org_id,
+  email: row.email,
+  role: row.role,
+  groupIds: row.group_ids ? [...row.group_ids] : [],
+  status: row.status as InvitationStatus,
+  tokenHash: row.token_hash,
+  invitedByUserId: row.invited_by_user_id,
+  expiresAt: row.expires_at,
+  sentAt: row.sent_at,
+  sendCount: Number(row.send_count),
+  resolvedAt: row.resolved_at ?? undefined,
+  resolvedByUserId: row.resolved_by_user_id ?? undefined,
+  membershipId: row.membership_id ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export class PostgresInvitationStore implements InvitationStorePort {
+  private readonly tables: InvitationTables;
+  private readonly clock: Clock;
+  private readonly idFactory: IdFactory;
+
+  constructor(
+    private readonly executor: QueryExecutor,
+    options: PostgresInvitationStoreOptions = {},
+  ) {
+    this.tables = {
+      invitations: options.tables?.invitations ?? "auth_invitations",
+    };
+    this.clock = options.clock ?? defaultClock;
+    this.idFactory = options.idFactory ?? defaultIdFactory;
+  }
+
+  async createInvitation(input: CreateInvitationInput): Promise<InvitationRecord> {
+    const createdAt = input.createdAt ?? this.clock.now().toISOString();
+    const { rows } = await this.executor.query<InvitationRow>(
+      `INSERT INTO ${this.tables.invitations} (
+        id,
+        org_id,
+        email,
+        role,
+        group_ids,
+        status,
+        token_hash,
+        invited_by_user_id,
+        expires_at,
+        sent_at,
+        send_count,
+        created_at,
+        updated_at
+      ) VALUES (
+        $1,$2,$3,$4,$5,'pending',$6,$7,$8,$9,1,$9,$9
+      )
+      RETURNING *`,
+      [
+        input.id ?? this.idFactory(),
+        input.orgId,
+        input.email,
+        input.role,
+        [...(input.groupIds ?? [])],
+        input.tokenHash,
+        input.invitedByUserId,
+        input.expiresAt,
+        createdAt,
+      ],
+    );
+
+    return toInvitationRecord(rows[0]);
+  }
+
+  async getInvitation(id: string): Promise<InvitationRecord | undefined> {
+    const { rows } = await this.executor.query<InvitationRow>(
+      `SELECT * FROM ${this.tables.invitations} WHERE id = $1 LIMIT 1`,
+      [id],
+    );
+
+    return rows.length > 0 ? toInvitationRecord(rows[0]) : undefined;
+  }
+
+  async listInvitations(options: ListInvitationsOptions = {}): Promise<ReadonlyArray<InvitationRecord>> {
+    const { rows } = await this.executor.query<InvitationRow>(
+      `SELECT * FROM ${this.tables.invitations}
+        WHERE ($1::text IS NULL OR org_id = $1)
+          AND ($2::text IS NULL OR email = $2)
+          AND ($3::text IS NULL OR status = $3)
+        ORDER BY created_at ASC`,
+      [options.orgId ?? null, options.email ?? null, options.status ?? null],
+    );
+
+    return rows.map(toInvitationRecord);
+  }
+
+  async transitionInvitation(
+    id: string,
+    input: TransitionInvitationInput,
+  ): Promise<InvitationRecord | undefined> {
+    const { rows } = await this.executor.query<InvitationRow>(
+      `UPDATE ${this.tables.invitations}
+        SET status = $4,
+          updated_at = $5,
+          token_hash = COALESCE($6, token_hash),
+          expires_at = COALESCE($7, expires_at),
+          sent_at = COALESCE($8, sent_at),
+          send_count = COALESCE($9, send_count),
+          resolved_at = COALESCE($10, resolved_at),
+          resolved_by_user_id = COALESCE($11, resolved_by_user_id),
+          membership_id = COALESCE($12, membership_id)
+        WHERE id = $1 AND status = $2 AND ($3::text IS NULL OR token_hash = $3)
+        RETURNING *`,
+      [
+        id,
+        input.expectedStatus,
+        input.expectedTokenHash ?? null,
+        input.status,
+        input.updatedAt,
+        input.tokenHash ?? null,
+        input.expiresAt ?? null,
+        input.sentAt ?? null,
+        input.sendCount ?? null,
+        input.resolvedAt ?? null,
+        input.resolvedByUserId ?? null,
+        input.membershipId ?? null,
+      ],
+    );
+
+    return rows.length > 0 ? toInvitationRecord(rows[0]) : undefined;
+  }
+}
+
+export const createPostgresInvitationStore = (
+  executor: QueryExecutor,
+  options?: PostgresInvitationStoreOptions,
+): InvitationStorePort => new PostgresInvitationStore(executor, options);
@@ -8,6 +8,7 @@ import type {
   MembershipRecord,
   OrgProfileRecord,
   ProfileStorePort,
+  RoleDefinitionRecord,
   UserProfileRecord,
 } from "@catalyst-auth/contracts";
 
@@ -17,7 +18,7 @@ import { clone } from "../utils/clone.js";
 import { PostgresCacheInvalidator } from "../utils/cache-invalidation.js";
 
 interface ProfileTables
-  extends Pick<PostgresTableNames, "users" | "orgs" | "groups" | "memberships" | "entitlements"> {}
+  extends Pick<PostgresTableNames, "users" | "orgs" | "groups" | "memberships" | "roles" | "entitlements"> {}
 
 interface PostgresProfileStoreOptions {
   readonly tables?: ProfileTables;
@@ -25,8 +26,13 @@ interface PostgresProfileStoreOptions {
   readonly identityCache?: CachePort<EffectiveIdentity>;
   readonly identityCacheKeyPrefix?: string;
   readonly identityCacheTtlSeconds?: number;
+  /** Maximum number of ancestor levels folded into effective identities through `parent_group_id`. Defaults to 10. */
+  readonly maxGroupDepth?: number;
 }
 
+const DEFAULT_MAX_GROUP_DEPTH = 10;
+const MAX_ROLE_INHERITANCE_DEPTH = 10;
+
 interface EntitlementSubject {
   readonly subjectKind: EntitlementSubjectKind;
   readonly subjectId: string;
@@ -74,6 +80,19 @@ interface MembershipRow {
   readonly updated_at: string;
 }
 
+interface RoleRow {
+  readonly id: string;
+  readonly org_id: string;
+  readonly name: string;
+  readonly description: string | null;
+  readonly scopes: ReadonlyArray<string> | null;
+  readonly entitlements: ReadonlyArray<string> | null;
+  readonly labels: LabelSet | null;
+  readonly inherits: string | null;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
 interface EntitlementRow {
   readonly entitlement: string;
 }
@@ -104,6 +123,16 @@ const dedupeStrings = (values: ReadonlyArray<string>): ReadonlyArray<string> =>
   return result;
 };
 
+const orderGroups = (
+  groups: ReadonlyArray<GroupRecord>,
+  ids: ReadonlyArray<string>,
+): ReadonlyArray<GroupRecord> => {
+  const byId = new Map(groups.map((group) => [group.id, group] as const));
+  return dedupeStrings(ids)
+    .map((id) => byId.get(id))
+    .filter((group): group is GroupRecord => Boolean(group));
+};
+
 const toUserRecord = (row: UserRow): UserProfileRecord => ({
   id: row.id,
   authentikId: row.authentik_id,
@@ -146,12 +175,26 @@ const toMembershipRecord = (row: MembershipRow): MembershipRecord => ({
   updatedAt: row.updated_at,
 });
 
+const toRoleRecord = (row: RoleRow): RoleDefinitionRecord => ({
+  id: row.id,
+  orgId: row.org_id,
+  name: row.name,
+  description: row.description ?? undefined,
+  scopes: [...(row.scopes ?? [])],
+  entitlements: [...(row.entitlements ?? [])],
+  labels: clone(row.labels ?? {}),
+  inherits: row.inherits ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
 export class PostgresProfileStore implements ProfileStorePort {
   private readonly tables: ProfileTables;
   private readonly cacheInvalidator?: PostgresCacheInvalidator;
   private readonly identityCache?: CachePort<EffectiveIdentity>;
   private readonly identityCacheKeyPrefix: string;
   private readonly identityCacheTtlSeconds?: number;
+  private readonly maxGroupDepth: number;
 
   constructor(
     private readonly executor: QueryExecutor,
@@ -162,12 +205,14 @@ export class PostgresProfileStore implements ProfileStorePort {
       orgs: options.tables?.orgs ?? "auth_orgs",
       groups: options.tables?.groups ?? "auth_groups",
       memberships: options.tables?.memberships ?? "auth_memberships",
+      roles: options.tables?.roles ?? "auth_roles",
       entitlements: options.tables?.entitlements ?? "auth_entitlements",
     };
     this.cacheInvalidator = options.cacheInvalidator;
     this.identityCache = options.identityCache;
     this.identityCacheKeyPrefix = options.identityCacheKeyPrefix ?? "effective-identity";
     this.identityCacheTtlSeconds = options.identityCacheTtlSeconds;
+    this.maxGroupDepth = Math.max(0, options.maxGroupDepth ?? DEFAULT_MAX_GROUP_DEPTH);
   }
 
   async getUserProfile(id: string): Promise<UserProfileRecord | undefined> {
@@ -278,6 +323,14 @@ export class PostgresProfileStore implements ProfileStorePort {
     return record;
   }
 
+  async getGroup(groupId: string): Promise<GroupRecord | undefined> {
+    const { rows } = await this.executor.query<GroupRow>(
+      `SELECT * FROM ${this.tables.groups} WHERE id = $1 LIMIT 1`,
+      [groupId],
+    );
+    return rows.length > 0 ? toGroupRecord(rows[0]) : undefined;
+  }
+
   async listGroups(orgId: string): Promise<ReadonlyArray<GroupRecord>> {
     const { rows } = await this.executor.query<GroupRow>(
       `SELECT * FROM ${this.tables.groups} WHERE org_id = $1 ORDER BY slug ASC`,
@@ -334,6 +387,93 @@ export class PostgresProfileStore implements ProfileStorePort {
     await this.cacheInvalidator?.invalidateGroups(record.orgId, [record.id]);
   }
 
+  async listRoles(orgId: string): Promise<ReadonlyArray<RoleDefinitionRecord>> {
+    const { rows } = await this.executor.query<RoleRow>(
+      `SELECT * FROM ${this.tables.roles} WHERE org_id = $1 ORDER BY name ASC`,
+      [orgId],
+    );
+    return rows.map((row) => toRoleRecord(row));
+  }
+
+  async getRole(orgId: string, name: string): Promise<RoleDefinitionRecord | undefined> {
+    const { rows } = await this.executor.query<RoleRow>(
+      `SELECT * FROM ${this.tables.roles} WHERE org_id = $1 AND name = $2 LIMIT 1`,
+      [orgId, name],
+    );
+    return rows.length > 0 ? toRoleRecord(rows[0]) : undefined;
+  }
+
+  async getRoleById(roleId: string): Promise<RoleDefinitionRecord | undefined> {
+    const { rows } = await this.executor.query<RoleRow>(
+      `SELECT * FROM ${this.tables.roles} WHERE id = $1 LIMIT 1`,
+      [roleId],
+    );
+    return rows.length > 0 ? toRoleRecord(rows[0]) : undefined;
+  }
+
+  async upsertRole(role: RoleDefinitionRecord): Promise<RoleDefinitionRecord> {
+    const { rows } = await this.executor.query<RoleRow>(
+      `INSERT INTO ${this.tables.roles} (
+        id,
+        org_id,
+        name,
+        description,
+        scopes,
+        entitlements,
+        labels,
+        inherits,
+        created_at,
+        updated_at
+      ) VALUES (
+        $1,$2,$3,$4,$5,$6,$7,$8,$9,$10
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        org_id = EXCLUDED.org_id,
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        scopes = EXCLUDED.scopes,
+        entitlements = EXCLUDED.entitlements,
+        labels = EXCLUDED.labels,
+        inherits = EXCLUDED.inherits,
+        updated_at = EXCLUDED.updated_at
+      RETURNING *`,
+      [
+        role.id,
+        role.orgId,
+        role.name,
+        role.description ?? null,
+        [...role.scopes],
+        [...role.entitlements],
+        role.labels ?? {},
+        role.inherits ?? null,
+        role.createdAt,
+        role.updatedAt,
+      ],
+    );
+    const record = toRoleRecord(rows[0]);
+    await this.cacheInvalidator?.invalidateOrg(record.orgId);
+    return record;
+  }
+
+  async deleteRole(roleId: string): Promise<void> {
+    const { rows } = await this.executor.query<RoleRow>(
+      `DELETE FROM ${this.tables.roles} WHERE id = $1 RETURNING *`,
+      [roleId],
+    );
+    if (rows.length === 0) {
+      return;
+    }
+    await this.cacheInvalidator?.invalidateOrg(rows[0].org_id);
+  }
+
+  async getMembership(membershipId: string): Promise<MembershipRecord | undefined> {
+    const { rows } = await this.executor.query<MembershipRow>(
+      `SELECT * FROM ${this.tables.memberships} WHERE id = $1 LIMIT 1`,
+      [membershipId],
+    );
+    return rows.length > 0 ? toMembershipRecord(rows[0]) : undefined;
+  }
+
   async listMembershipsByUser(userId: string): Promise<ReadonlyArray<MembershipRecord>> {
     const { rows } = await this.executor.query<MembershipRow>(
       `SELECT * FROM ${this.tables.memberships} WHERE user_id = $1 ORDER BY created_at ASC`,
@@ -443,15 +583,19 @@ export class PostgresProfileStore implements ProfileStorePort {
       throw new Error(`Org profile ${request.orgId} not found`);
     }
 
-    const groups = includeGroups && membership?.groupIds?.length
-      ? await this.fetchGroupsByIds(membership.groupIds)
+    const groupLevels = includeGroups && membership?.groupIds?.length
+      ? await this.resolveGroupLevels(membership.groupIds)
       : [];
 
+    const roleChain = membership ? await this.resolveRoleChain(membership.orgId, membership.role) : [];
+
+    // Inherited roles and ancestor groups are merged first so more specific labels take precedence.
     const labels = mergeLabelSets(
       user.labels,
       org?.labels,
+      ...[...roleChain].reverse().map((role) => role.labels),
       membership?.labelsDelta,
-      ...(includeGroups ? groups.map((group) => group.labels) : []),
+      ...[...groupLevels].reverse().flatMap((level) => level.map((group) => group.labels)),
     );
 
     const entitlements = await this.collectEntitlements({
@@ -463,11 +607,11 @@ export class PostgresProfileStore implements ProfileStorePort {
     const identity: EffectiveIdentity = {
       userId: user.id,
       orgId: org?.id,
-      groups: includeGroups ? dedupeStrings(groups.map((group) => group.id)) : [],
+      groups: dedupeStrings(groupLevels.flatMap((level) => level.map((group) => group.id))),
       labels,
-      roles: membership ? [membership.role] : [],
-      entitlements,
-      scopes: [],
+      roles: membership ? dedupeStrings([membership.role, ...roleChain.map((role) => role.name)]) : [],
+      entitlements: dedupeStrings([...entitlements, ...roleChain.flatMap((role) => role.entitlements)]),
+      scopes: dedupeStrings(roleChain.flatMap((role) => role.scopes)),
     };
 
     await this.cacheIdentity(cacheKey, identity, {
@@ -528,7 +672,7 @@ export class PostgresProfileStore implements ProfileStorePort {
     request: EffectiveIdentityRequest,
   ): Promise<MembershipRecord | undefined> {
     if (request.membershipId) {
-      const membership = await this.getMembershipById(request.membershipId);
+      const membership = await this.getMembership(request.membershipId);
       if (!membership) {
         throw new Error(`Membership ${request.membershipId} not found`);
       }
@@ -549,17 +693,6 @@ export class PostgresProfileStore implements ProfileStorePort {
     return memberships[0];
   }
 
-  private async getMembershipById(id: string): Promise<MembershipRecord | undefined> {
-    const { rows } = await this.executor.query<MembershipRow>(
-      `SELECT * FROM ${this.tables.memberships} WHERE id = $1 LIMIT 1`,
-      [id],
-    );
-    if (rows.length === 0) {
-      return undefined;
-    }
-    return toMembershipRecord(rows[0]);
-  }
-
   private async findMembershipForUserAndOrg(
     userId: string,
     orgId: string,
@@ -577,6 +710,62 @@ export class PostgresProfileStore implements ProfileStorePort {
     return toMembershipRecord(rows[0]);
   }
 
+  /**
+   * Resolves the role definition for a membership role followed by the roles it inherits from. Undefined roles
+   * end the chain, and the walk stops on cycles or after {@link MAX_ROLE_INHERITANCE_DEPTH} inherited roles.
+   */
+  private async resolveRoleChain(orgId: string, name: string): Promise<ReadonlyArray<RoleDefinitionRecord>> {
+    const chain: RoleDefinitionRecord[] = [];
+    const visited = new Set<string>();
+    let current = await this.getRole(orgId, name);
+    while (current && !visited.has(current.name) && chain.length <= MAX_ROLE_INHERITANCE_DEPTH) {
+      visited.add(current.name);
+      chain.push(current);
+      current = current.inherits ? await this.getRole(orgId, current.inherits) : undefined;
+    }
+    return chain;
+  }
+
+  /**
+   * Walks `parent_group_id` links one level per query, starting from the membership's groups. Parents outside the
+   * child's org are ignored, visited groups are skipped so cycles terminate, and the walk stops after
+   * `maxGroupDepth` ancestor levels.
+   */
+  private async resolveGroupLevels(
+    groupIds: ReadonlyArray<string>,
+  ): Promise<ReadonlyArray<ReadonlyArray<GroupRecord>>> {
+    const visited = new Set<string>();
+    const levels: GroupRecord[][] = [];
+    let frontier = orderGroups(await this.fetchGroupsByIds(dedupeStrings(groupIds)), groupIds);
+
+    while (frontier.length > 0 && levels.length <= this.maxGroupDepth) {
+      const level: GroupRecord[] = [];
+      for (const group of frontier) {
+        if (visited.has(group.id)) {
+          continue;
+        }
+        visited.add(group.id);
+        level.push(group);
+      }
+      if (level.length === 0) {
+        break;
+      }
+      levels.push(level);
+
+      const parentIds = dedupeStrings(
+        level
+          .map((group) => group.parentGroupId)
+          .filter((id): id is string => typeof id === "string" && !visited.has(id)),
+      );
+      const parents = orderGroups(await this.fetchGroupsByIds(parentIds), parentIds);
+      frontier = parents.filter((parent) =>
+        level.some((child) => child.parentGroupId === parent.id && child.orgId === parent.orgId),
+      );
+    }
+
+    return levels;
+  }
+
   private async fetchGroupsByIds(ids: ReadonlyArray<string>): Promise<ReadonlyArray<GroupRecord>> {
     if (ids.length === 0) {
       return [];
@@ -0,0 +1,192 @@
+import { randomUUID } from "node:crypto";
+
+import type {
+  CreateRefreshTokenFamilyInput,
+  IssueRefreshTokenInput,
+  RefreshTokenFamilyRecord,
+  RefreshTokenRecord,
+  RefreshTokenStorePort,
+} from "@catalyst-auth/contracts";
+
+import type { PostgresTableNames } from "../tables.js";
+import type { QueryExecutor } from "../executors/query-executor.js";
+
+type RefreshTokenTables = Pick<PostgresTableNames, "refreshTokenFamilies" | "refreshTokens">;
+
+interface Clock {
+  now(): Date;
+}
+
+type IdFactory = () => string;
+
+interface PostgresRefreshTokenStoreOptions {
+  readonly tables?: Partial<RefreshTokenTables>;
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+}
+
+interface RefreshTokenFamilyRow {
+  readonly id: string;
+  readonly user_id: string;
+  readonly client_id: string;
+  readonly session_id: string | null;
+  readonly org_id: string | null;
+  readonly scopes: ReadonlyArray<string> | null;
+  readonly created_at: string;
+  readonly revoked_at: string | null;
+  readonly revocation_reason: string | null;
+}
+
+interface RefreshTokenRow {
+  readonly id: string;
+  readonly family_id: string;
+  readonly parent_id: string | null;
+  readonly issued_at: string;
+  readonly consumed_at: string | null;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+const toFamilyRecord = (row: RefreshTokenFamilyRow): RefreshTokenFamilyRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  clientId: row.client_id,
+  sessionId: row.session_id ?? undefined,
+  orgId: row.org_id ?? undefined,
+  scopes: row.scopes ? [...row.scopes] : [],
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at ?? undefined,
+  revocationReason: row.revocation_reason ?? undefined,
+});
+
+const toTokenRecord = (row: RefreshTokenRow): RefreshTokenRecord => ({
+  id: row.id,
+  familyId: row.family_id,
+  parentId: row.parent_id ?? undefined,
+  issuedAt: row.issued_at,
+  consumedAt: row.consumed_at ?? undefined,
+});
+
+export class PostgresRefreshTokenStore implements RefreshTokenStorePort {
+  private readonly tables: RefreshTokenTables;
+  private readonly clock: Clock;
+  private readonly idFactory: IdFactory;
+
+  constructor(
+    private readonly executor: QueryExecutor,
+    options: PostgresRefreshTokenStoreOptions = {},
+  ) {
+    this.tables = {
+      refreshTokenFamilies: options.tables?.refreshTokenFamilies ?? "auth_refresh_token_families",
+      refreshTokens: options.tables?.refreshTokens ?? "auth_refresh_tokens",
+    };
+    this.clock = options.clock ?? defaultClock;
+    this.idFactory = options.idFactory ?? defaultIdFactory;
+  }
+
+  async createFamily(input: CreateRefreshTokenFamilyInput): Promise<RefreshTokenFamilyRecord> {
+    const { rows } = await this.executor.query<RefreshTokenFamilyRow>(
+      `INSERT INTO ${this.tables.refreshTokenFamilies} (
+        id,
+        user_id,
+        client_id,
+        session_id,
+        org_id,
+        scopes,
+        created_at
+      ) VALUES (
+        $1,$2,$3,$4,$5,$6,$7
+      )
+      RETURNING *`,
+      [
+        input.id ?? this.idFactory(),
+        input.userId,
+        input.clientId,
+        input.sessionId ?? null,
+        input.orgId ?? null,
+        [...input.scopes],
+        input.createdAt ?? this.clock.now().toISOString(),
+      ],
+    );
+
+    return toFamilyRecord(rows[0]);
+  }
+
+  async getFamily(id: string): Promise<RefreshTokenFamilyRecord | undefined> {
+    const { rows } = await this.executor.query<RefreshTokenFamilyRow>(
+      `SELECT * FROM ${this.tables.refreshTokenFamilies} WHERE id = $1 LIMIT 1`,
+      [id],
+    );
+
+    return rows.length > 0 ? toFamilyRecord(rows[0]) : undefined;
+  }
+
+  async revokeFamily(
+    id: string,
+    revokedAt: string,
+    reason?: string,
+  ): Promise<RefreshTokenFamilyRecord | undefined> {
+    const { rows } = await this.executor.query<RefreshTokenFamilyRow>(
+      `UPDATE ${this.tables.refreshTokenFamilies}
+        SET revoked_at = COALESCE(revoked_at, $2),
+          revocation_reason = CASE WHEN revoked_at IS NULL THEN $3 ELSE revocation_reason END
+        WHERE id = $1
+        RETURNING *`,
+      [id, revokedAt, reason ?? null],
+    );
+
+    return rows.length > 0 ? toFamilyRecord(rows[0]) : undefined;
+  }
+
+  async issueToken(input: IssueRefreshTokenInput): Promise<RefreshTokenRecord> {
+    const { rows } = await this.executor.query<RefreshTokenRow>(
+      `INSERT INTO ${this.tables.refreshTokens} (
+        id,
+        family_id,
+        parent_id,
+        issued_at
+      ) VALUES (
+        $1,$2,$3,$4
+      )
+      RETURNING *`,
+      [
+        input.id ?? this.idFactory(),
+        input.familyId,
+        input.parentId ?? null,
+        input.issuedAt ?? this.clock.now().toISOString(),
+      ],
+    );
+
+    return toTokenRecord(rows[0]);
+  }
+
+  async getToken(id: string): Promise<RefreshTokenRecord | undefined> {
+    const { rows } = await this.executor.query<RefreshTokenRow>(
+      `SELECT * FROM ${this.tables.refreshTokens} WHERE id = $1 LIMIT 1`,
+      [id],
+    );
+
+    return rows.length > 0 ? toTokenRecord(rows[0]) : undefined;
+  }
+
+  async consumeToken(id: string, consumedAt: string): Promise<RefreshTokenRecord | undefined> {
+    const { rows } = await this.executor.query<RefreshTokenRow>(
+      `UPDATE ${this.tables.refreshTokens}
+        SET consumed_at = $2
+        WHERE id = $1 AND consumed_at IS NULL
+        RETURNING *`,
+      [id, consumedAt],
+    );
+
+    return rows.length > 0 ? toTokenRecord(rows[0]) : undefined;
+  }
+}
+
+export const createPostgresRefreshTokenStore = (
+  executor: QueryExecutor,
+  options?: PostgresRefreshTokenStoreOptions,
+): RefreshTokenStorePort => new PostgresRefreshTokenStore(executor, options);
@@ -0,0 +1,181 @@
+import { randomUUID } from "node:crypto";
+
+import { err, ok, type CatalystError, type Result, type WebhookEventPayload } from "@catalyst-auth/contracts";
+
+import type { QueryExecutor } from "../executors/query-executor.js";
+import type { PostgresTableNames } from "../tables.js";
+import { clone } from "../utils/clone.js";
+
+interface Clock {
+  now(): Date;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+type IdFactory = () => string;
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+export interface WebhookOutboxEventInput {
+  /** Webhook event id sent to subscribers. Defaults to a random UUID. */
+  readonly eventId?: string;
+  readonly eventType: string;
+  /** Restricts the event to the org's subscriptions, as with `WebhookDispatcher`. */
+  readonly orgId?: string;
+  readonly data: Record<string, unknown>;
+  readonly occurredAt?: string;
+}
+
+export interface WebhookOutboxRecord {
+  readonly id: string;
+  readonly eventId: string;
+  readonly eventType: string;
+  readonly orgId?: string;
+  readonly payload: WebhookEventPayload;
+  readonly createdAt: string;
+  readonly relayedAt?: string;
+}
+
+interface WebhookOutboxRow {
+  readonly id: string;
+  readonly event_id: string;
+  readonly event_type: string;
+  readonly org_id: string | null;
+  readonly payload: WebhookEventPayload;
+  readonly created_at: string;
+  readonly relayed_at: string | null;
+}
+
+export interface PostgresWebhookOutboxOptions {
+  readonly tables?: Pick<PostgresTableNames, "webhookOutbox">;
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+}
+
+const createError = (code: string, message: string, details?: Record<string, unknown>): CatalystError => ({
+  code,
+  message,
+  details,
+});
+
+const describeCause = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const toRecord = (row: WebhookOutboxRow): WebhookOutboxRecord => ({
+  id: row.id,
+  eventId: row.event_id,
+  eventType: row.event_type,
+  orgId: row.org_id ?? undefined,
+  payload: clone(row.payload),
+  createdAt: row.created_at,
+  relayedAt: row.relayed_at ?? undefined,
+});
+
+/**
+ * Outbox of webhook events awaiting relay. Bound to a transaction's executor, `enqueue` commits or rolls back
+ * together with the writes that produced the event; `WebhookOutboxRelay` later turns rows into deliveries.
+ */
+export class PostgresWebhookOutbox {
+  private readonly table: string;
+  private readonly clock: Clock;
+  private readonly idFactory: IdFactory;
+
+  constructor(
+    private readonly executor: QueryExecutor,
+    options: PostgresWebhookOutboxOptions = {},
+  ) {
+    this.table = options.tables?.webhookOutbox ?? "auth_webhook_outbox";
+    this.clock = options.clock ?? defaultClock;
+    this.idFactory = options.idFactory ?? defaultIdFactory;
+  }
+
+  async enqueue(input: WebhookOutboxEventInput): Promise<Result<WebhookOutboxRecord, CatalystError>> {
+    if (!input.eventType?.trim()) {
+      return err(createError("webhook.outbox.invalid_event_type", "Event type is required."));
+    }
+
+    const createdAt = this.clock.now().toISOString();
+    const eventId = input.eventId ?? this.idFactory();
+    const payload: WebhookEventPayload = {
+      id: eventId,
+      type: input.eventType,
+      occurredAt: input.occurredAt ?? createdAt,
+      data: clone(input.data),
+    };
+
+    try {
+      const { rows } = await this.executor.query<WebhookOutboxRow>(
+        `INSERT INTO ${this.table} (
+          id,
+          event_id,
+          event_type,
+          org_id,
+          payload,
+          created_at
+        ) VALUES ($1,$2,$3,$4,$5,$6)
+        RETURNING *`,
+        [this.idFactory(), eventId, input.eventType, input.orgId ?? null, payload, createdAt],
+      );
+      return ok(toRecord(rows[0]));
+    } catch (error) {
+      return err(
+        createError("webhook.outbox.enqueue_failed", "Failed to enqueue webhook event.", {
+          eventType: input.eventType,
+          cause: describeCause(error),
+        }),
+      );
+    }
+  }
+
+  /**
+   * Locks the oldest unrelayed events. Rows stay locked until the surrounding transaction ends, and concurrent
+   * relays skip them instead of waiting.
+   */
+  async claimPending(limit: number): Promise<Result<ReadonlyArray<WebhookOutboxRecord>, CatalystError>> {
+    try {
+      const { rows } = await this.executor.query<WebhookOutboxRow>(
+        `SELECT * FROM ${this.table}
+         WHERE relayed_at IS NULL
+         ORDER BY created_at ASC, id ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED`,
+        [limit],
+      );
+      return ok(rows.map((row) => toRecord(row)));
+    } catch (error) {
+      return err(
+        createError("webhook.outbox.read_failed", "Failed to load pending webhook events.", {
+          cause: describeCause(error),
+        }),
+      );
+    }
+  }
+
+  async markRelayed(ids: ReadonlyArray<string>): Promise<Result<number, CatalystError>> {
+    if (ids.length === 0) {
+      return ok(0);
+    }
+    try {
+      const { rows } = await this.executor.query<{ id: string }>(
+        `UPDATE ${this.table}
+         SET relayed_at = $2
+         WHERE id = ANY($1::text[]) AND relayed_at IS NULL
+         RETURNING id`,
+        [ids, this.clock.now().toISOString()],
+      );
+      return ok(rows.length);
+    } catch (error) {
+      return err(
+        createError("webhook.outbox.update_failed", "Failed to mark webhook events as relayed.", {
+          cause: describeCause(error),
+        }),
+      );
+    }
+  }
+}
+
+export const createPostgresWebhookOutbox = (
+  executor: QueryExecutor,
+  options?: PostgresWebhookOutboxOptions,
+): PostgresWebhookOutbox => new PostgresWebhookOutbox(executor, options);
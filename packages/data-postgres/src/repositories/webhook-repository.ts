@@ -2,20 +2,27 @@ import { randomUUID } from "node:crypto";
 
 import {
   err,
+  expandWebhookEventTypePatterns,
   ok,
   type CatalystError,
   type CreateWebhookDeliveryInput,
   type CreateWebhookSubscriptionInput,
+  type FindOrderingPredecessorOptions,
   type ListPendingDeliveriesOptions,
   type ListWebhookDeliveriesOptions,
   type ListWebhookSubscriptionsOptions,
   type Result,
   type UpdateWebhookDeliveryInput,
+  type RotateWebhookSecretInput,
   type UpdateWebhookSubscriptionInput,
   type WebhookDeliveryRecord,
+  type WebhookDeliveryReplay,
   type WebhookDeliveryStatus,
+  type WebhookDeliveryOrdering,
   type WebhookDeliveryStorePort,
+  type WebhookPreviousSecret,
   type WebhookRetryPolicy,
+  type WebhookSubscriptionFilters,
   type WebhookSubscriptionRecord,
   type WebhookSubscriptionStorePort,
 } from "@catalyst-auth/contracts";
@@ -99,14 +106,32 @@ interface WebhookSubscriptionRow {
   readonly created_at: string;
   readonly updated_at: string;
   readonly metadata: Record<string, unknown> | null;
+  readonly filters: WebhookSubscriptionFilters | null;
+  readonly ordering: WebhookDeliveryOrdering | null;
+  readonly previous_secret: string | null;
+  readonly previous_secret_expires_at: string | Date | null;
 }
 
-const toSubscriptionRecord = (row: WebhookSubscriptionRow): WebhookSubscriptionRecord => ({
+const toTimestamp = (value: string | Date): string => (value instanceof Date ? value.toISOString() : value);
+
+/** The previous secret is reported only until its overlap ends. */
+const toPreviousSecret = (row: WebhookSubscriptionRow, now: Date): WebhookPreviousSecret | undefined => {
+  if (!row.previous_secret || !row.previous_secret_expires_at) {
+    return undefined;
+  }
+  const expiresAt = toTimestamp(row.previous_secret_expires_at);
+  return Date.parse(expiresAt) > now.getTime() ? { secret: row.previous_secret, expiresAt } : undefined;
+};
+
+const toSubscriptionRecord = (row: WebhookSubscriptionRow, now: Date): WebhookSubscriptionRecord => ({
   id: row.id,
   orgId: row.org_id ?? undefined,
   eventTypes: [...row.event_types],
+  filters: row.filters ? clone(row.filters) : undefined,
+  ordering: row.ordering ? clone(row.ordering) : undefined,
   targetUrl: row.target_url,
   secret: row.secret,
+  previousSecret: toPreviousSecret(row, now),
   headers: normalizeHeaders(row.headers ?? {}),
   retryPolicy: normalizeRetryPolicy(row.retry_policy),
   active: row.active,
@@ -126,6 +151,8 @@ interface WebhookDeliveryRow {
   readonly payload: Record<string, unknown>;
   readonly response: Record<string, unknown> | null;
   readonly error_message: string | null;
+  readonly replays: ReadonlyArray<WebhookDeliveryReplay> | null;
+  readonly ordering_key: string | null;
   readonly created_at: string;
   readonly updated_at: string;
 }
@@ -141,6 +168,8 @@ const toDeliveryRecord = (row: WebhookDeliveryRow): WebhookDeliveryRecord => ({
   payload: clone(row.payload ?? {}),
   response: row.response ? clone(row.response) : undefined,
   errorMessage: row.error_message ?? undefined,
+  replays: row.replays?.length ? clone(row.replays) : undefined,
+  orderingKey: row.ordering_key ?? undefined,
   createdAt: row.created_at,
   updatedAt: row.updated_at,
 });
@@ -193,9 +222,11 @@ class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
           active,
           created_at,
           updated_at,
-          metadata
+          metadata,
+          filters,
+          ordering
         ) VALUES (
-          $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11
+          $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13
         )
         RETURNING *`,
         [
@@ -210,10 +241,12 @@ class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
           createdAt,
           updatedAt,
           input.metadata ?? null,
+          input.filters ?? null,
+          input.ordering ?? null,
         ],
       );
 
-      return ok(toSubscriptionRecord(rows[0]));
+      return ok(toSubscriptionRecord(rows[0], this.clock.now()));
     } catch (error) {
       return err(
         createError("webhook.postgres.create_failed", "Failed to create webhook subscription.", {
@@ -249,6 +282,18 @@ class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
       paramIndex += 1;
     }
 
+    if (input.filters !== undefined) {
+      updates.push(`filters = $${paramIndex}`);
+      values.push(input.filters ?? null);
+      paramIndex += 1;
+    }
+
+    if (input.ordering !== undefined) {
+      updates.push(`ordering = $${paramIndex}`);
+      values.push(input.ordering ?? null);
+      paramIndex += 1;
+    }
+
     if (input.targetUrl !== undefined) {
       updates.push(`target_url = $${paramIndex}`);
       values.push(input.targetUrl);
@@ -305,7 +350,7 @@ class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
         return err(createError("webhook.postgres.not_found", "Webhook subscription not found.", { id }));
       }
 
-      return ok(toSubscriptionRecord(rows[0]));
+      return ok(toSubscriptionRecord(rows[0], this.clock.now()));
     } catch (error) {
       return err(
         createError("webhook.postgres.update_failed", "Failed to update webhook subscription.", {
@@ -322,7 +367,7 @@ class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
         `SELECT * FROM ${this.tables.webhookSubscriptions} WHERE id = $1`,
         [id],
       );
-      const record = rows[0] ? toSubscriptionRecord(rows[0]) : undefined;
+      const record = rows[0] ? toSubscriptionRecord(rows[0], this.clock.now()) : undefined;
       return ok(record);
     } catch (error) {
       return err(
@@ -358,8 +403,8 @@ class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
     }
 
     if (options.eventType) {
-      conditions.push(`$${paramIndex} = ANY(event_types)`);
-      values.push(options.eventType);
+      conditions.push(`event_types && $${paramIndex}::text[]`);
+      values.push(expandWebhookEventTypePatterns(options.eventType));
       paramIndex += 1;
     }
 
@@ -372,7 +417,8 @@ class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
          ORDER BY created_at ASC, id ASC`,
         values,
       );
-      return ok(rows.map((row) => toSubscriptionRecord(row)));
+      const now = this.clock.now();
+      return ok(rows.map((row) => toSubscriptionRecord(row, now)));
     } catch (error) {
       return err(
         createError("webhook.postgres.read_failed", "Failed to list webhook subscriptions.", {
@@ -395,6 +441,37 @@ class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
       );
     }
   }
+
+  async rotateSecret(
+    id: string,
+    input: RotateWebhookSecretInput,
+  ): Promise<Result<WebhookSubscriptionRecord, CatalystError>> {
+    const rotatedAt = input.rotatedAt ?? this.clock.now().toISOString();
+
+    try {
+      // The right-hand side of SET reads the row before the update, so the current secret moves over atomically.
+      const { rows } = await this.executor.query<WebhookSubscriptionRow>(
+        `UPDATE ${this.tables.webhookSubscriptions}
+         SET previous_secret = secret, previous_secret_expires_at = $2, secret = $1, updated_at = $3
+         WHERE id = $4
+         RETURNING *`,
+        [input.secret, input.previousSecretExpiresAt, rotatedAt, id],
+      );
+
+      if (rows.length === 0) {
+        return err(createError("webhook.postgres.not_found", "Webhook subscription not found.", { id }));
+      }
+
+      return ok(toSubscriptionRecord(rows[0], this.clock.now()));
+    } catch (error) {
+      return err(
+        createError("webhook.postgres.update_failed", "Failed to rotate webhook subscription secret.", {
+          id,
+          cause: error instanceof Error ? error.message : String(error),
+        }),
+      );
+    }
+  }
 }
 
 class PostgresWebhookDeliveryStore implements WebhookDeliveryStorePort {
@@ -435,9 +512,10 @@ class PostgresWebhookDeliveryStore implements WebhookDeliveryStorePort {
           response,
           error_message,
           created_at,
-          updated_at
+          updated_at,
+          ordering_key
         ) VALUES (
-          $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12
+          $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13
         )
         RETURNING *`,
         [
@@ -453,6 +531,7 @@ class PostgresWebhookDeliveryStore implements WebhookDeliveryStorePort {
           input.errorMessage ?? null,
           createdAt,
           updatedAt,
+          input.orderingKey ?? null,
         ],
       );
 
@@ -510,6 +589,12 @@ class PostgresWebhookDeliveryStore implements WebhookDeliveryStorePort {
       paramIndex += 1;
     }
 
+    if (input.replays !== undefined) {
+      updates.push(`replays = $${paramIndex}`);
+      values.push(JSON.stringify(input.replays));
+      paramIndex += 1;
+    }
+
     const updatedAt = input.updatedAt ?? this.clock.now().toISOString();
     updates.push(`updated_at = $${paramIndex}`);
     values.push(updatedAt);
@@ -639,6 +724,31 @@ class PostgresWebhookDeliveryStore implements WebhookDeliveryStorePort {
     }
   }
 
+  async findOrderingPredecessor(
+    options: FindOrderingPredecessorOptions,
+  ): Promise<Result<WebhookDeliveryRecord | undefined, CatalystError>> {
+    try {
+      const { rows } = await this.executor.query<WebhookDeliveryRow>(
+        `SELECT * FROM ${this.tables.webhookDeliveries}
+         WHERE ordering_key = $1
+           AND (created_at < $2 OR (created_at = $2 AND id < $3))
+           AND (status = 'pending' OR (status = 'delivering' AND updated_at >= $4))
+         ORDER BY created_at ASC, id ASC
+         LIMIT 1`,
+        [options.orderingKey, options.delivery.createdAt, options.delivery.id, options.deliveringSince],
+      );
+      return ok(rows[0] ? toDeliveryRecord(rows[0]) : undefined);
+    } catch (error) {
+      return err(
+        createError("webhook.postgres.delivery_read_failed", "Failed to load the ordering predecessor.", {
+          id: options.delivery.id,
+          orderingKey: options.orderingKey,
+          cause: error instanceof Error ? error.message : String(error),
+        }),
+      );
+    }
+  }
+
   async deleteDelivery(id: string): Promise<Result<void, CatalystError>> {
     try {
       await this.executor.query(`DELETE FROM ${this.tables.webhookDeliveries} WHERE id = $1`, [id]);
@@ -0,0 +1,155 @@
+import {
+  err,
+  ok,
+  type AuditArchiveSinkPort,
+  type AuditLogPort,
+  type CatalystError,
+  type Result,
+} from "@catalyst-auth/contracts";
+
+interface Clock {
+  now(): Date;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const DEFAULT_BATCH_SIZE = 500;
+
+export interface AuditRetentionPolicy {
+  readonly category: string;
+  /** Events older than this are archived and deleted. */
+  readonly maxAgeSeconds: number;
+}
+
+export interface AuditRetentionJobOptions {
+  readonly auditLog: AuditLogPort;
+  readonly sink: AuditArchiveSinkPort;
+  readonly policies: ReadonlyArray<AuditRetentionPolicy>;
+  /** Events archived and deleted per round trip. Defaults to 500, the audit query page limit. */
+  readonly batchSize?: number;
+  readonly clock?: Clock;
+}
+
+export interface AuditRetentionCategoryResult {
+  readonly category: string;
+  readonly occurredBefore: string;
+  readonly archived: number;
+  readonly deleted: number;
+}
+
+export interface AuditRetentionRunResult {
+  readonly categories: ReadonlyArray<AuditRetentionCategoryResult>;
+}
+
+const createError = (code: string, message: string, details?: Record<string, unknown>): CatalystError => ({
+  code,
+  message,
+  details,
+});
+
+/**
+ * Archives and deletes audit events past their category's retention age. Each batch is deleted only after the
+ * sink accepted it, so a failing sink stops the run without losing events; rerunning resumes where it stopped.
+ * Schedule `run` from a cron job or worker loop.
+ */
+export class AuditRetentionJob {
+  private readonly batchSize: number;
+  private readonly clock: Clock;
+
+  constructor(private readonly options: AuditRetentionJobOptions) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.clock = options.clock ?? defaultClock;
+  }
+
+  async run(): Promise<Result<AuditRetentionRunResult, CatalystError>> {
+    const { auditLog } = this.options;
+    const deleteEvents = auditLog.deleteEvents?.bind(auditLog);
+    if (!deleteEvents) {
+      return err(createError("audit.retention.unsupported", "The audit log does not support deleting events."));
+    }
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      return err(
+        createError("audit.retention.invalid_batch_size", "Batch size must be a positive integer.", {
+          batchSize: this.batchSize,
+        }),
+      );
+    }
+    const invalid = this.options.policies.find(
+      (policy) => !policy.category.trim() || !Number.isFinite(policy.maxAgeSeconds) || policy.maxAgeSeconds <= 0,
+    );
+    if (invalid) {
+      return err(
+        createError("audit.retention.invalid_policy", "Retention policies need a category and a positive age.", {
+          category: invalid.category,
+          maxAgeSeconds: invalid.maxAgeSeconds,
+        }),
+      );
+    }
+
+    const now = this.clock.now().getTime();
+    const categories: AuditRetentionCategoryResult[] = [];
+    for (const policy of this.options.policies) {
+      const occurredBefore = new Date(now - policy.maxAgeSeconds * 1000).toISOString();
+      const result = await this.applyPolicy(policy.category, occurredBefore, deleteEvents);
+      if (!result.ok) {
+        return result;
+      }
+      categories.push(result.value);
+    }
+    return ok({ categories });
+  }
+
+  private async applyPolicy(
+    category: string,
+    occurredBefore: string,
+    deleteEvents: NonNullable<AuditLogPort["deleteEvents"]>,
+  ): Promise<Result<AuditRetentionCategoryResult, CatalystError>> {
+    let archived = 0;
+    let deleted = 0;
+    for (;;) {
+      // Deleted rows drop out of the next query, so every round reads the first page again.
+      const page = await this.options.auditLog.queryEvents({
+        category,
+        occurredBefore,
+        order: "asc",
+        limit: this.batchSize,
+      });
+      if (!page.ok) {
+        return page;
+      }
+      const { events } = page.value;
+      if (events.length === 0) {
+        break;
+      }
+
+      const archivedBatch = await this.options.sink.archive({ category, occurredBefore, events });
+      if (!archivedBatch.ok) {
+        return err(
+          createError("audit.retention.archive_failed", "Archiving audit events failed.", {
+            category,
+            archived,
+            deleted,
+            cause: archivedBatch.error,
+          }),
+        );
+      }
+      archived += events.length;
+
+      const removed = await deleteEvents(events.map((event) => event.id));
+      if (!removed.ok) {
+        return removed;
+      }
+      deleted += removed.value;
+      // Nothing deleted means the same page would come back, so stop instead of archiving it twice.
+      if (removed.value === 0 || events.length < this.batchSize) {
+        break;
+      }
+    }
+    return ok({ category, occurredBefore, archived, deleted });
+  }
+}
+
+export const createAuditRetentionJob = (options: AuditRetentionJobOptions): AuditRetentionJob =>
+  new AuditRetentionJob(options);
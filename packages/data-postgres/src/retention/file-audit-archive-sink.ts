@@ -0,0 +1,55 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+
+import {
+  err,
+  ok,
+  type AuditArchiveBatch,
+  type AuditArchiveSinkPort,
+  type CatalystError,
+  type Result,
+} from "@catalyst-auth/contracts";
+
+export interface FileAuditArchiveSinkOptions {
+  readonly directory: string;
+  /** Resolves the file a batch is appended to. Defaults to `<category>.ndjson`. */
+  readonly fileName?: (batch: AuditArchiveBatch) => string;
+}
+
+const defaultFileName = (batch: AuditArchiveBatch): string =>
+  `${batch.category.replace(/[^A-Za-z0-9._-]/g, "_")}.ndjson`;
+
+/**
+ * Appends archived events as NDJSON, one file per category. Suited to tests and single-node deployments that
+ * ship the files elsewhere; production sinks typically write to object storage.
+ */
+export class FileAuditArchiveSink implements AuditArchiveSinkPort {
+  private readonly directory: string;
+  private readonly fileName: (batch: AuditArchiveBatch) => string;
+
+  constructor(options: FileAuditArchiveSinkOptions) {
+    this.directory = options.directory;
+    this.fileName = options.fileName ?? defaultFileName;
+  }
+
+  async archive(batch: AuditArchiveBatch): Promise<Result<void, CatalystError>> {
+    if (batch.events.length === 0) {
+      return ok(undefined);
+    }
+    const path = join(this.directory, this.fileName(batch));
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await appendFile(path, batch.events.map((event) => `${JSON.stringify(event)}\n`).join(""), "utf8");
+      return ok(undefined);
+    } catch (error) {
+      return err({
+        code: "audit.archive.write_failed",
+        message: "Failed to write audit archive file.",
+        details: { path, cause: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+}
+
+export const createFileAuditArchiveSink = (options: FileAuditArchiveSinkOptions): AuditArchiveSinkPort =>
+  new FileAuditArchiveSink(options);
@@ -5,6 +5,7 @@ import type {
   KeyRecord,
   MembershipRecord,
   OrgProfileRecord,
+  RoleDefinitionRecord,
   SessionRecord,
   UserProfileRecord,
   WebhookDeliveryRecord,
@@ -17,6 +18,7 @@ export interface PostgresSeedData {
   readonly users?: ReadonlyArray<UserProfileRecord>;
   readonly orgs?: ReadonlyArray<OrgProfileRecord>;
   readonly groups?: ReadonlyArray<GroupRecord>;
+  readonly roles?: ReadonlyArray<RoleDefinitionRecord>;
   readonly memberships?: ReadonlyArray<MembershipRecord>;
   readonly entitlements?: ReadonlyArray<EntitlementRecord>;
   readonly sessions?: ReadonlyArray<SessionRecord>;
@@ -42,6 +44,10 @@ export const seedPostgresDataSource = async (
     await dataSource.profileStore.upsertGroup(group);
   }
 
+  for (const role of seed.roles ?? []) {
+    await dataSource.profileStore.upsertRole(role);
+  }
+
   for (const membership of seed.memberships ?? []) {
     await dataSource.profileStore.upsertMembership(membership);
   }
@@ -179,9 +185,13 @@ export const seedPostgresDataSource = async (
         active,
         created_at,
         updated_at,
-        metadata
+        metadata,
+        filters,
+        ordering,
+        previous_secret,
+        previous_secret_expires_at
       ) VALUES (
-        $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11
+        $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15
       )
       ON CONFLICT (id) DO UPDATE SET
         org_id = EXCLUDED.org_id,
@@ -193,7 +203,11 @@ export const seedPostgresDataSource = async (
         active = EXCLUDED.active,
         created_at = EXCLUDED.created_at,
         updated_at = EXCLUDED.updated_at,
-        metadata = EXCLUDED.metadata`,
+        metadata = EXCLUDED.metadata,
+        filters = EXCLUDED.filters,
+        ordering = EXCLUDED.ordering,
+        previous_secret = EXCLUDED.previous_secret,
+        previous_secret_expires_at = EXCLUDED.previous_secret_expires_at`,
       [
         subscription.id,
         subscription.orgId ?? null,
@@ -206,6 +220,10 @@ export const seedPostgresDataSource = async (
         subscription.createdAt,
         subscription.updatedAt,
         subscription.metadata ?? null,
+        subscription.filters ?? null,
+        subscription.ordering ?? null,
+        subscription.previousSecret?.secret ?? null,
+        subscription.previousSecret?.expiresAt ?? null,
       ],
     );
   }
@@ -224,9 +242,11 @@ export const seedPostgresDataSource = async (
         response,
         error_message,
         created_at,
-        updated_at
+        updated_at,
+        replays,
+        ordering_key
       ) VALUES (
-        $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12
+        $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14
       )
       ON CONFLICT (id) DO UPDATE SET
         subscription_id = EXCLUDED.subscription_id,
@@ -239,7 +259,9 @@ export const seedPostgresDataSource = async (
         response = EXCLUDED.response,
         error_message = EXCLUDED.error_message,
         created_at = EXCLUDED.created_at,
-        updated_at = EXCLUDED.updated_at`,
+        updated_at = EXCLUDED.updated_at,
+        replays = EXCLUDED.replays,
+        ordering_key = EXCLUDED.ordering_key`,
       [
         delivery.id,
         delivery.subscriptionId,
@@ -253,6 +275,8 @@ export const seedPostgresDataSource = async (
         delivery.errorMessage ?? null,
         delivery.createdAt,
         delivery.updatedAt,
+        delivery.replays ? JSON.stringify(delivery.replays) : null,
+        delivery.orderingKey ?? null,
       ],
     );
   }
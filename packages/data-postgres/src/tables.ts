@@ -3,12 +3,21 @@ export interface PostgresTableNames {
   readonly orgs: string;
   readonly groups: string;
   readonly memberships: string;
+  readonly roles: string;
+  readonly invitations: string;
   readonly entitlements: string;
   readonly sessions: string;
+  readonly refreshTokenFamilies: string;
+  readonly refreshTokens: string;
   readonly keys: string;
   readonly auditEvents: string;
+  readonly auditCheckpoints: string;
+  readonly auditPrunedLinks: string;
   readonly webhookSubscriptions: string;
   readonly webhookDeliveries: string;
+  readonly webhookOutbox: string;
+  readonly webhookQueue: string;
+  readonly webhookQueueDeadLetters: string;
 }
 
 export const defaultPostgresTableNames: PostgresTableNames = {
@@ -16,12 +25,21 @@ export const defaultPostgresTableNames: PostgresTableNames = {
   orgs: "auth_orgs",
   groups: "auth_groups",
   memberships: "auth_memberships",
+  roles: "auth_roles",
+  invitations: "auth_invitations",
   entitlements: "auth_entitlements",
   sessions: "auth_sessions",
+  refreshTokenFamilies: "auth_refresh_token_families",
+  refreshTokens: "auth_refresh_tokens",
   keys: "auth_keys",
   auditEvents: "auth_audit_events",
+  auditCheckpoints: "auth_audit_checkpoints",
+  auditPrunedLinks: "auth_audit_pruned_links",
   webhookSubscriptions: "auth_webhook_subscriptions",
   webhookDeliveries: "auth_webhook_deliveries",
+  webhookOutbox: "auth_webhook_outbox",
+  webhookQueue: "auth_webhook_queue",
+  webhookQueueDeadLetters: "auth_webhook_queue_dead_letters",
 };
 
 export const resolvePostgresTableNames = (
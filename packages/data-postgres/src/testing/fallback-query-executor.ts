@@ -48,6 +48,19 @@ export interface MembershipRow {
   readonly updated_at: string;
 }
 
+export interface RoleRow {
+  readonly id: string;
+  readonly org_id: string;
+  readonly name: string;
+  readonly description: string | null;
+  readonly scopes: ReadonlyArray<string>;
+  readonly entitlements: ReadonlyArray<string>;
+  readonly labels: LabelSet | null;
+  readonly inherits: string | null;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
 export interface EntitlementRow {
   readonly id: string;
   readonly subject_kind: string;
@@ -66,6 +79,45 @@ export interface SessionRow {
   readonly metadata: Record<string, unknown> | null;
 }
 
+export interface RefreshTokenFamilyRow {
+  readonly id: string;
+  readonly user_id: string;
+  readonly client_id: string;
+  readonly session_id: string | null;
+  readonly org_id: string | null;
+  readonly scopes: ReadonlyArray<string>;
+  readonly created_at: string;
+  readonly revoked_at: string | null;
+  readonly revocation_reason: string | null;
+}
+
+export interface RefreshTokenRow {
+  readonly id: string;
+  readonly family_id: string;
+  readonly parent_id: string | null;
+  readonly issued_at: string;
+  readonly consumed_at: string | null;
+}
+
+export interface InvitationRow {
+  readonly id: string;
+  readonly org_id: string;
+  readonly email: string;
+  readonly role: string;
+  readonly group_ids: ReadonlyArray<string>;
+  readonly status: string;
+  readonly token_hash: string;
+  readonly invited_by_user_id: string;
+  readonly expires_at: string;
+  readonly sent_at: string;
+  readonly send_count: number;
+  readonly resolved_at: string | null;
+  readonly resolved_by_user_id: string | null;
+  readonly membership_id: string | null;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
 export interface KeyRow {
   readonly id: string;
   readonly hash: string;
@@ -100,6 +152,116 @@ export interface AuditEventRow {
   readonly resource: Record<string, unknown> | null;
   readonly metadata: Record<string, unknown> | null;
   readonly correlation_id: string | null;
+  readonly sequence: number | null;
+  readonly hash: string | null;
+  readonly previous_hash: string | null;
+}
+
+export interface AuditChainLinkRow extends Omit<AuditEventRow, "action"> {
+  readonly action: string | null;
+  readonly pruned: boolean;
+}
+
+export interface AuditPrunedLinkRow {
+  readonly sequence: number;
+  readonly event_id: string;
+  readonly category: string;
+  readonly occurred_at: string;
+  readonly hash: string;
+  readonly previous_hash: string | null;
+  readonly pruned_at: string;
+}
+
+export interface AuditCheckpointRow {
+  readonly sequence: number;
+  readonly event_id: string;
+  readonly hash: string;
+  readonly token: string;
+  readonly created_at: string;
+}
+
+export interface WebhookSubscriptionRow {
+  readonly id: string;
+  readonly org_id: string | null;
+  readonly event_types: ReadonlyArray<string>;
+  readonly target_url: string;
+  readonly secret: string;
+  readonly headers: Record<string, string> | null;
+  readonly retry_policy: Record<string, unknown> | null;
+  readonly active: boolean;
+  readonly created_at: string;
+  readonly updated_at: string;
+  readonly metadata: Record<string, unknown> | null;
+  readonly filters: Record<string, unknown> | null;
+  readonly ordering: Record<string, unknown> | null;
+  readonly previous_secret: string | null;
+  readonly previous_secret_expires_at: string | null;
+}
+
+export interface WebhookDeliveryRow {
+  readonly id: string;
+  readonly subscription_id: string;
+  readonly event_id: string;
+  readonly status: string;
+  readonly attempt_count: number;
+  readonly last_attempt_at: string | null;
+  readonly next_attempt_at: string | null;
+  readonly payload: Record<string, unknown>;
+  readonly response: Record<string, unknown> | null;
+  readonly error_message: string | null;
+  readonly replays: ReadonlyArray<Record<string, unknown>> | null;
+  readonly ordering_key: string | null;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+export interface WebhookOutboxRow {
+  readonly id: string;
+  readonly event_id: string;
+  readonly event_type: string;
+  readonly org_id: string | null;
+  readonly payload: Record<string, unknown>;
+  readonly created_at: string;
+  readonly relayed_at: string | null;
+}
+
+export interface WebhookQueueRow {
+  readonly id: string;
+  readonly sequence: number;
+  readonly delivery_id: string;
+  readonly attempt: number;
+  readonly ordering_key: string | null;
+  readonly metadata: Record<string, unknown> | null;
+  readonly enqueued_at: string;
+  readonly available_at: string;
+  readonly lease_token: string | null;
+}
+
+export interface WebhookQueueDeadLetterRow {
+  readonly id: string;
+  readonly delivery_id: string;
+  readonly attempt: number;
+  readonly attempts: number;
+  readonly reason: string;
+  readonly dead_letter_uri: string | null;
+  readonly metadata: Record<string, unknown> | null;
+  readonly enqueued_at: string;
+  readonly dead_lettered_at: string;
+}
+
+export interface WebhookSubscriptionFilter {
+  /** `undefined` matches every org, `null` only subscriptions without one. */
+  readonly orgId?: string | null;
+  readonly active?: boolean;
+  /** Matches subscriptions listening to any of these types or patterns. */
+  readonly eventTypes?: ReadonlyArray<string>;
+}
+
+export interface WebhookDeliveryFilter {
+  readonly subscriptionId?: string;
+  readonly eventId?: string;
+  readonly status?: string;
+  readonly limit?: number;
 }
 
 const cloneRow = <Row>(row: Row): Row => clone(row);
@@ -128,6 +290,57 @@ const subjectKey = (kind: string, id: string): string => `${kind}:${id}`;
 
 const ownerKey = (kind: string, id: string): string => `${kind}:${id}`;
 
+const duplicateKeyError = (column: string, value: string): Error => {
+  const error: Error & { code?: string; detail?: string } = new Error(
+    `duplicate key value violates unique constraint ${value}`,
+  );
+  error.code = "23505";
+  error.detail = `Key (${column})=(${value}) already exists.`;
+  return error;
+};
+
+export interface AuditEventFilter {
+  readonly category: string | null;
+  readonly action: string | null;
+  readonly actorType: string | null;
+  readonly actorId: string | null;
+  readonly subjectType: string | null;
+  readonly subjectId: string | null;
+  readonly resourceType: string | null;
+  readonly resourceId: string | null;
+  readonly correlationId: string | null;
+  readonly occurredAfter: string | null;
+  readonly occurredBefore: string | null;
+  readonly after: { readonly occurredAt: string; readonly id: string } | null;
+  readonly descending: boolean;
+  readonly limit: number;
+}
+
+const matchesDescriptor = (
+  descriptor: Record<string, unknown> | null,
+  type: string | null,
+  id: string | null,
+): boolean =>
+  (type === null || descriptor?.type === type) && (id === null || descriptor?.id === id);
+
+const sortByCreation = <Row extends { readonly id: string; readonly created_at: string }>(
+  rows: ReadonlyArray<Row>,
+): Row[] =>
+  rows
+    .map((row) => cloneRow(row))
+    .sort((left, right) => Date.parse(left.created_at) - Date.parse(right.created_at) || left.id.localeCompare(right.id));
+
+const compareAuditPosition = (
+  row: AuditEventRow,
+  position: { readonly occurredAt: string; readonly id: string },
+): number => {
+  const dateComparison = Date.parse(row.occurred_at) - Date.parse(position.occurredAt);
+  if (dateComparison !== 0) {
+    return dateComparison;
+  }
+  return row.id.localeCompare(position.id);
+};
+
 export class InMemoryPostgresDatabase {
   private readonly users = new Map<string, UserRow>();
   private readonly userAuthentikIndex = new Map<string, string>();
@@ -142,17 +355,34 @@ export class InMemoryPostgresDatabase {
   private readonly membershipUserIndex = new Map<string, Set<string>>();
   private readonly membershipOrgIndex = new Map<string, Set<string>>();
 
+  private readonly roles = new Map<string, RoleRow>();
+
   private readonly entitlements = new Map<string, EntitlementRow>();
   private readonly entitlementSubjectIndex = new Map<string, Set<string>>();
 
   private readonly sessions = new Map<string, SessionRow>();
   private readonly sessionUserIndex = new Map<string, Set<string>>();
 
+  private readonly refreshTokenFamilies = new Map<string, RefreshTokenFamilyRow>();
+  private readonly refreshTokens = new Map<string, RefreshTokenRow>();
+
+  private readonly invitations = new Map<string, InvitationRow>();
+
   private readonly keys = new Map<string, KeyRow>();
   private readonly keyHashIndex = new Map<string, string>();
   private readonly keyOwnerIndex = new Map<string, Set<string>>();
 
   private readonly auditEvents = new Map<string, AuditEventRow>();
+  private readonly auditSequenceIndex = new Map<number, string>();
+  private readonly auditCheckpoints = new Map<number, AuditCheckpointRow>();
+  private readonly auditPrunedLinks = new Map<number, AuditPrunedLinkRow>();
+
+  private readonly webhookSubscriptions = new Map<string, WebhookSubscriptionRow>();
+  private readonly webhookDeliveries = new Map<string, WebhookDeliveryRow>();
+  private readonly webhookOutbox = new Map<string, WebhookOutboxRow>();
+  private readonly webhookQueue = new Map<string, WebhookQueueRow>();
+  private readonly webhookQueueDeadLetters = new Map<string, WebhookQueueDeadLetterRow>();
+  private webhookQueueSequence = 0;
 
   setUser(row: UserRow): UserRow {
     const copy = cloneRow(row);
@@ -255,6 +485,47 @@ export class InMemoryPostgresDatabase {
     return rows;
   }
 
+  setRole(row: RoleRow): RoleRow {
+    const conflicting = this.getRoleByName(row.org_id, row.name);
+    if (conflicting && conflicting.id !== row.id) {
+      throw duplicateKeyError("org_id, name", `${row.org_id}, ${row.name}`);
+    }
+    const copy = cloneRow(row);
+    const existing = this.roles.get(copy.id);
+    this.roles.set(copy.id, existing ? { ...copy, created_at: existing.created_at } : copy);
+    return cloneRow(this.roles.get(copy.id) as RoleRow);
+  }
+
+  getRoleById(id: string): RoleRow | undefined {
+    const row = this.roles.get(id);
+    return row ? cloneRow(row) : undefined;
+  }
+
+  getRoleByName(orgId: string, name: string): RoleRow | undefined {
+    for (const row of this.roles.values()) {
+      if (row.org_id === orgId && row.name === name) {
+        return cloneRow(row);
+      }
+    }
+    return undefined;
+  }
+
+  listRolesByOrg(orgId: string): ReadonlyArray<RoleRow> {
+    return Array.from(this.roles.values())
+      .filter((row) => row.org_id === orgId)
+      .sort((left, right) => left.name.localeCompare(right.name))
+      .map((row) => cloneRow(row));
+  }
+
+  deleteRole(id: string): RoleRow | undefined {
+    const existing = this.roles.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    this.roles.delete(id);
+    return cloneRow(existing);
+  }
+
   setMembership(row: MembershipRow): MembershipRow {
     const copy = cloneRow(row);
     const existing = this.memberships.get(copy.id);
@@ -351,6 +622,11 @@ export class InMemoryPostgresDatabase {
     );
   }
 
+  getEntitlementById(id: string): EntitlementRow | undefined {
+    const row = this.entitlements.get(id);
+    return row ? cloneRow(row) : undefined;
+  }
+
   listEntitlementsBySubject(kind: string, id: string): ReadonlyArray<EntitlementRow> {
     const ids = this.entitlementSubjectIndex.get(subjectKey(kind, id));
     if (!ids) {
@@ -435,6 +711,109 @@ export class InMemoryPostgresDatabase {
     removeFromIndex(this.sessionUserIndex, existing.user_id, existing.id);
   }
 
+  insertRefreshTokenFamily(row: RefreshTokenFamilyRow): RefreshTokenFamilyRow {
+    if (this.refreshTokenFamilies.has(row.id)) {
+      throw duplicateKeyError("id", row.id);
+    }
+    const copy = cloneRow(row);
+    this.refreshTokenFamilies.set(copy.id, copy);
+    return cloneRow(copy);
+  }
+
+  getRefreshTokenFamily(id: string): RefreshTokenFamilyRow | undefined {
+    const row = this.refreshTokenFamilies.get(id);
+    return row ? cloneRow(row) : undefined;
+  }
+
+  revokeRefreshTokenFamily(id: string, revokedAt: string, reason: string | null): RefreshTokenFamilyRow | undefined {
+    const existing = this.refreshTokenFamilies.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    if (!existing.revoked_at) {
+      this.refreshTokenFamilies.set(id, { ...existing, revoked_at: revokedAt, revocation_reason: reason });
+    }
+    return this.getRefreshTokenFamily(id);
+  }
+
+  insertRefreshToken(row: RefreshTokenRow): RefreshTokenRow {
+    if (!this.refreshTokenFamilies.has(row.family_id)) {
+      const error: Error & { code?: string } = new Error(
+        `insert on refresh tokens violates foreign key constraint for family ${row.family_id}`,
+      );
+      error.code = "23503";
+      throw error;
+    }
+    if (this.refreshTokens.has(row.id)) {
+      throw duplicateKeyError("id", row.id);
+    }
+    const copy = cloneRow(row);
+    this.refreshTokens.set(copy.id, copy);
+    return cloneRow(copy);
+  }
+
+  getRefreshToken(id: string): RefreshTokenRow | undefined {
+    const row = this.refreshTokens.get(id);
+    return row ? cloneRow(row) : undefined;
+  }
+
+  consumeRefreshToken(id: string, consumedAt: string): RefreshTokenRow | undefined {
+    const existing = this.refreshTokens.get(id);
+    if (!existing || existing.consumed_at) {
+      return undefined;
+    }
+    const updated = { ...existing, consumed_at: consumedAt };
+    this.refreshTokens.set(id, updated);
+    return cloneRow(updated);
+  }
+
+  insertInvitation(row: InvitationRow): InvitationRow {
+    if (this.invitations.has(row.id)) {
+      throw duplicateKeyError("id", row.id);
+    }
+    const copy = cloneRow(row);
+    this.invitations.set(copy.id, copy);
+    return cloneRow(copy);
+  }
+
+  getInvitation(id: string): InvitationRow | undefined {
+    const row = this.invitations.get(id);
+    return row ? cloneRow(row) : undefined;
+  }
+
+  listInvitations(filter: {
+    orgId: string | null;
+    email: string | null;
+    status: string | null;
+  }): ReadonlyArray<InvitationRow> {
+    return Array.from(this.invitations.values())
+      .filter(
+        (row) =>
+          (filter.orgId === null || row.org_id === filter.orgId) &&
+          (filter.email === null || row.email === filter.email) &&
+          (filter.status === null || row.status === filter.status),
+      )
+      .sort((left, right) => left.created_at.localeCompare(right.created_at))
+      .map((row) => cloneRow(row));
+  }
+
+  updateInvitation(
+    id: string,
+    expected: { status: string; tokenHash: string | null },
+    update: (row: InvitationRow) => InvitationRow,
+  ): InvitationRow | undefined {
+    const existing = this.invitations.get(id);
+    if (!existing || existing.status !== expected.status) {
+      return undefined;
+    }
+    if (expected.tokenHash !== null && existing.token_hash !== expected.tokenHash) {
+      return undefined;
+    }
+    const updated = update(existing);
+    this.invitations.set(id, updated);
+    return cloneRow(updated);
+  }
+
   insertKey(row: KeyRow, { allowConflictUpdate = false }: { allowConflictUpdate?: boolean } = {}): KeyRow {
     const copy = cloneRow(row);
     const existing = this.keys.get(copy.id);
@@ -559,11 +938,87 @@ export class InMemoryPostgresDatabase {
   }
 
   insertAuditEvent(row: AuditEventRow): AuditEventRow {
+    if (row.sequence !== null) {
+      const existingId = this.auditSequenceIndex.get(row.sequence);
+      if (existingId && existingId !== row.id) {
+        throw duplicateKeyError("sequence", String(row.sequence));
+      }
+      this.auditSequenceIndex.set(row.sequence, row.id);
+    }
     const copy = cloneRow(row);
     this.auditEvents.set(copy.id, copy);
     return cloneRow(copy);
   }
 
+  listAuditChainLinks(
+    fromSequence: number,
+    toSequence: number | null,
+  ): ReadonlyArray<AuditChainLinkRow> {
+    const inRange = (sequence: number): boolean =>
+      sequence >= fromSequence && (toSequence === null || sequence <= toSequence);
+    const events = Array.from(this.auditEvents.values())
+      .filter((row) => row.sequence !== null && inRange(row.sequence))
+      .map((row): AuditChainLinkRow => ({ ...cloneRow(row), pruned: false }));
+    const pruned = Array.from(this.auditPrunedLinks.values())
+      .filter((row) => inRange(row.sequence))
+      .map((row): AuditChainLinkRow => ({
+        id: row.event_id,
+        occurred_at: row.occurred_at,
+        category: row.category,
+        action: null,
+        actor: null,
+        subject: null,
+        resource: null,
+        metadata: null,
+        correlation_id: null,
+        sequence: row.sequence,
+        hash: row.hash,
+        previous_hash: row.previous_hash,
+        pruned: true,
+      }));
+    return [...events, ...pruned].sort((left, right) => (left.sequence ?? 0) - (right.sequence ?? 0));
+  }
+
+  deleteAuditEvent(id: string): AuditEventRow | undefined {
+    const existing = this.auditEvents.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    this.auditEvents.delete(id);
+    if (existing.sequence !== null) {
+      this.auditSequenceIndex.delete(existing.sequence);
+    }
+    return cloneRow(existing);
+  }
+
+  insertAuditPrunedLink(row: AuditPrunedLinkRow): void {
+    if (this.auditPrunedLinks.has(row.sequence)) {
+      throw duplicateKeyError("sequence", String(row.sequence));
+    }
+    this.auditPrunedLinks.set(row.sequence, cloneRow(row));
+  }
+
+  insertAuditCheckpoint(row: AuditCheckpointRow): AuditCheckpointRow | undefined {
+    if (this.auditCheckpoints.has(row.sequence)) {
+      return undefined;
+    }
+    const copy = cloneRow(row);
+    this.auditCheckpoints.set(copy.sequence, copy);
+    return cloneRow(copy);
+  }
+
+  getAuditCheckpoint(sequence: number): AuditCheckpointRow | undefined {
+    const row = this.auditCheckpoints.get(sequence);
+    return row ? cloneRow(row) : undefined;
+  }
+
+  listAuditCheckpoints(fromSequence: number, toSequence: number | null): ReadonlyArray<AuditCheckpointRow> {
+    return Array.from(this.auditCheckpoints.values())
+      .filter((row) => row.sequence >= fromSequence && (toSequence === null || row.sequence <= toSequence))
+      .sort((left, right) => left.sequence - right.sequence)
+      .map((row) => cloneRow(row));
+  }
+
   listAuditEvents(): ReadonlyArray<AuditEventRow> {
     const rows = Array.from(this.auditEvents.values()).map((row) => cloneRow(row));
     rows.sort((left, right) => {
@@ -576,6 +1031,30 @@ export class InMemoryPostgresDatabase {
     return rows;
   }
 
+  queryAuditEvents(filter: AuditEventFilter): ReadonlyArray<AuditEventRow> {
+    const rows = this.listAuditEvents().filter((row) => {
+      const occurredAt = Date.parse(row.occurred_at);
+      return (
+        (filter.category === null || row.category === filter.category) &&
+        (filter.action === null || row.action === filter.action) &&
+        matchesDescriptor(row.actor, filter.actorType, filter.actorId) &&
+        matchesDescriptor(row.subject, filter.subjectType, filter.subjectId) &&
+        matchesDescriptor(row.resource, filter.resourceType, filter.resourceId) &&
+        (filter.correlationId === null || row.correlation_id === filter.correlationId) &&
+        (filter.occurredAfter === null || occurredAt >= Date.parse(filter.occurredAfter)) &&
+        (filter.occurredBefore === null || occurredAt < Date.parse(filter.occurredBefore)) &&
+        (filter.after === null ||
+          (filter.descending
+            ? compareAuditPosition(row, filter.after) < 0
+            : compareAuditPosition(row, filter.after) > 0))
+      );
+    });
+    if (filter.descending) {
+      rows.reverse();
+    }
+    return rows.slice(0, filter.limit);
+  }
+
   snapshotAuditEvents(): ReadonlyArray<AuditEventRecord> {
     return this.listAuditEvents().map((row) => ({
       id: row.id,
@@ -593,13 +1072,259 @@ export class InMemoryPostgresDatabase {
         : undefined,
       metadata: row.metadata ? clone(row.metadata) : undefined,
       correlationId: row.correlation_id ?? undefined,
+      sequence: row.sequence ?? undefined,
+      hash: row.hash ?? undefined,
+      previousHash: row.previous_hash ?? undefined,
     }));
   }
+
+  insertWebhookSubscription(row: WebhookSubscriptionRow): WebhookSubscriptionRow {
+    if (this.webhookSubscriptions.has(row.id)) {
+      throw duplicateKeyError("id", row.id);
+    }
+    this.webhookSubscriptions.set(row.id, cloneRow(row));
+    return cloneRow(row);
+  }
+
+  getWebhookSubscription(id: string): WebhookSubscriptionRow | undefined {
+    const row = this.webhookSubscriptions.get(id);
+    return row ? cloneRow(row) : undefined;
+  }
+
+  listWebhookSubscriptions(filter: WebhookSubscriptionFilter): ReadonlyArray<WebhookSubscriptionRow> {
+    return sortByCreation(
+      Array.from(this.webhookSubscriptions.values()).filter(
+        (row) =>
+          (filter.orgId === undefined || row.org_id === filter.orgId) &&
+          (filter.active === undefined || row.active === filter.active) &&
+          (filter.eventTypes === undefined || row.event_types.some((type) => filter.eventTypes?.includes(type))),
+      ),
+    );
+  }
+
+  updateWebhookSubscription(id: string, changes: Record<string, unknown>): WebhookSubscriptionRow | undefined {
+    const existing = this.webhookSubscriptions.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = cloneRow({ ...existing, ...changes } as WebhookSubscriptionRow);
+    this.webhookSubscriptions.set(id, updated);
+    return cloneRow(updated);
+  }
+
+  deleteWebhookSubscription(id: string): void {
+    this.webhookSubscriptions.delete(id);
+  }
+
+  insertWebhookDelivery(row: WebhookDeliveryRow): WebhookDeliveryRow {
+    if (this.webhookDeliveries.has(row.id)) {
+      throw duplicateKeyError("id", row.id);
+    }
+    this.webhookDeliveries.set(row.id, cloneRow(row));
+    return cloneRow(row);
+  }
+
+  getWebhookDelivery(id: string): WebhookDeliveryRow | undefined {
+    const row = this.webhookDeliveries.get(id);
+    return row ? cloneRow(row) : undefined;
+  }
+
+  listWebhookDeliveries(filter: WebhookDeliveryFilter): ReadonlyArray<WebhookDeliveryRow> {
+    const rows = sortByCreation(
+      Array.from(this.webhookDeliveries.values()).filter(
+        (row) =>
+          (filter.subscriptionId === undefined || row.subscription_id === filter.subscriptionId) &&
+          (filter.eventId === undefined || row.event_id === filter.eventId) &&
+          (filter.status === undefined || row.status === filter.status),
+      ),
+    );
+    return filter.limit === undefined ? rows : rows.slice(0, filter.limit);
+  }
+
+  listPendingWebhookDeliveries(before: string | null, limit: number | undefined): ReadonlyArray<WebhookDeliveryRow> {
+    const nextAttempt = (row: WebhookDeliveryRow): number =>
+      row.next_attempt_at === null ? Number.NEGATIVE_INFINITY : Date.parse(row.next_attempt_at);
+    const rows = sortByCreation(
+      Array.from(this.webhookDeliveries.values()).filter(
+        (row) =>
+          (row.status === "pending" || row.status === "delivering") &&
+          (before === null || nextAttempt(row) <= Date.parse(before)),
+      ),
+    ).sort((left, right) => nextAttempt(left) - nextAttempt(right));
+    return limit === undefined ? rows : rows.slice(0, limit);
+  }
+
+  findWebhookOrderingPredecessor(
+    orderingKey: string,
+    delivery: Pick<WebhookDeliveryRow, "created_at" | "id">,
+    deliveringSince: string,
+  ): WebhookDeliveryRow | undefined {
+    const createdAt = Date.parse(delivery.created_at);
+    return sortByCreation(
+      Array.from(this.webhookDeliveries.values()).filter(
+        (row) =>
+          row.ordering_key === orderingKey &&
+          (Date.parse(row.created_at) < createdAt || (Date.parse(row.created_at) === createdAt && row.id < delivery.id)) &&
+          (row.status === "pending" ||
+            (row.status === "delivering" && Date.parse(row.updated_at) >= Date.parse(deliveringSince))),
+      ),
+    )[0];
+  }
+
+  updateWebhookDelivery(id: string, changes: Record<string, unknown>): WebhookDeliveryRow | undefined {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = cloneRow({ ...existing, ...changes } as WebhookDeliveryRow);
+    this.webhookDeliveries.set(id, updated);
+    return cloneRow(updated);
+  }
+
+  deleteWebhookDelivery(id: string): void {
+    this.webhookDeliveries.delete(id);
+  }
+
+  insertWebhookOutboxEvent(row: WebhookOutboxRow): WebhookOutboxRow {
+    if (this.webhookOutbox.has(row.id)) {
+      throw duplicateKeyError("id", row.id);
+    }
+    this.webhookOutbox.set(row.id, cloneRow(row));
+    return cloneRow(row);
+  }
+
+  listPendingWebhookOutboxEvents(limit: number): ReadonlyArray<WebhookOutboxRow> {
+    return sortByCreation(Array.from(this.webhookOutbox.values()).filter((row) => row.relayed_at === null)).slice(
+      0,
+      limit,
+    );
+  }
+
+  markWebhookOutboxRelayed(ids: ReadonlyArray<string>, relayedAt: string): ReadonlyArray<string> {
+    const marked: string[] = [];
+    for (const id of ids) {
+      const row = this.webhookOutbox.get(id);
+      if (row && row.relayed_at === null) {
+        this.webhookOutbox.set(id, { ...row, relayed_at: relayedAt });
+        marked.push(id);
+      }
+    }
+    return marked;
+  }
+
+  insertWebhookQueueJob(row: Omit<WebhookQueueRow, "sequence">): WebhookQueueRow {
+    if (this.webhookQueue.has(row.id)) {
+      throw duplicateKeyError("id", row.id);
+    }
+    this.webhookQueueSequence += 1;
+    const stored: WebhookQueueRow = cloneRow({ ...row, sequence: this.webhookQueueSequence });
+    this.webhookQueue.set(stored.id, stored);
+    return cloneRow(stored);
+  }
+
+  /** Leases due jobs that are the oldest of their ordering key, like the adapter's SKIP LOCKED claim. */
+  claimWebhookQueueJobs(
+    now: string,
+    availableAt: string,
+    leaseToken: string,
+    limit: number,
+  ): ReadonlyArray<WebhookQueueRow> {
+    const jobs = Array.from(this.webhookQueue.values());
+    const claimable = jobs
+      .filter(
+        (row) =>
+          Date.parse(row.available_at) <= Date.parse(now) &&
+          !jobs.some(
+            (earlier) =>
+              row.ordering_key !== null && earlier.ordering_key === row.ordering_key && earlier.sequence < row.sequence,
+          ),
+      )
+      .sort(
+        (left, right) =>
+          Date.parse(left.available_at) - Date.parse(right.available_at) || left.sequence - right.sequence,
+      )
+      .slice(0, limit);
+    return claimable.map((row) => {
+      const leased: WebhookQueueRow = { ...row, available_at: availableAt, lease_token: leaseToken };
+      this.webhookQueue.set(row.id, leased);
+      return cloneRow(leased);
+    });
+  }
+
+  updateLeasedWebhookQueueJob(
+    id: string,
+    leaseToken: string,
+    changes: Partial<WebhookQueueRow>,
+  ): WebhookQueueRow | undefined {
+    const existing = this.webhookQueue.get(id);
+    if (!existing || existing.lease_token !== leaseToken) {
+      return undefined;
+    }
+    const updated = cloneRow({ ...existing, ...changes } as WebhookQueueRow);
+    this.webhookQueue.set(id, updated);
+    return cloneRow(updated);
+  }
+
+  deleteLeasedWebhookQueueJob(id: string, leaseToken: string): WebhookQueueRow | undefined {
+    const existing = this.webhookQueue.get(id);
+    if (!existing || existing.lease_token !== leaseToken) {
+      return undefined;
+    }
+    this.webhookQueue.delete(id);
+    return cloneRow(existing);
+  }
+
+  insertWebhookQueueDeadLetter(row: WebhookQueueDeadLetterRow): WebhookQueueDeadLetterRow {
+    if (this.webhookQueueDeadLetters.has(row.id)) {
+      throw duplicateKeyError("id", row.id);
+    }
+    this.webhookQueueDeadLetters.set(row.id, cloneRow(row));
+    return cloneRow(row);
+  }
+
+  listWebhookQueueDeadLetters(limit: number | null): ReadonlyArray<WebhookQueueDeadLetterRow> {
+    const rows = Array.from(this.webhookQueueDeadLetters.values())
+      .sort(
+        (left, right) =>
+          Date.parse(left.dead_lettered_at) - Date.parse(right.dead_lettered_at) || left.id.localeCompare(right.id),
+      )
+      .map((row) => cloneRow(row));
+    return limit === null ? rows : rows.slice(0, limit);
+  }
 }
 const normalizeSql = (sql: string): string => sql.replace(/\s+/g, " ").trim();
 
 const bool = (value: unknown): value is true => value === true;
 
+const text = (value: unknown): string | null => (value ?? null) as string | null;
+
+/** Mirrors Postgres reading back a JSONB parameter that was sent as serialized JSON text. */
+const json = <T>(value: unknown): T | null =>
+  (typeof value === "string" ? JSON.parse(value) : (value ?? null)) as T | null;
+
+const coalesce = <T>(value: unknown, fallback: T): T =>
+  value === null || value === undefined ? fallback : (value as T);
+
+/** Collects `column = $n` pairs from a SET or WHERE clause built by the webhook repositories. */
+const parameterBindings = (clause: string, params: ReadonlyArray<unknown>): Record<string, unknown> => {
+  const bindings: Record<string, unknown> = {};
+  for (const match of clause.matchAll(/(\w+) = \$(\d+)/g)) {
+    bindings[match[1]] = params[Number(match[2]) - 1];
+  }
+  return bindings;
+};
+
+/** Pairs the column list of an `INSERT INTO table (...) VALUES ($1, ...)` statement with its parameters. */
+const insertBindings = (sql: string, params: ReadonlyArray<unknown>): Record<string, unknown> => {
+  const columns = /\(([^)]*)\) VALUES/.exec(sql)?.[1].split(",") ?? [];
+  return Object.fromEntries(columns.map((column, index) => [column.trim(), params[index]]));
+};
+
+const limitClause = (sql: string): number | undefined => {
+  const match = /LIMIT (\d+)/.exec(sql);
+  return match ? Number(match[1]) : undefined;
+};
+
 export class InMemoryQueryExecutor implements QueryExecutor {
   constructor(
     private readonly database: InMemoryPostgresDatabase,
@@ -693,6 +1418,42 @@ export class InMemoryQueryExecutor implements QueryExecutor {
       return { rows: [] };
     }
 
+    if (normalized.startsWith(`INSERT INTO ${this.tables.roles} (`)) {
+      const row: RoleRow = {
+        id: params[0] as string,
+        org_id: params[1] as string,
+        name: params[2] as string,
+        description: (params[3] ?? null) as string | null,
+        scopes: ((params[4] as ReadonlyArray<string>) ?? []).slice(),
+        entitlements: ((params[5] as ReadonlyArray<string>) ?? []).slice(),
+        labels: (params[6] ?? null) as RoleRow["labels"],
+        inherits: (params[7] ?? null) as string | null,
+        created_at: params[8] as string,
+        updated_at: params[9] as string,
+      };
+      return { rows: [this.database.setRole(row) as Row] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.roles} WHERE id = $1`)) {
+      const row = this.database.getRoleById(params[0] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.roles} WHERE org_id = $1 AND name = $2`)) {
+      const row = this.database.getRoleByName(params[0] as string, params[1] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.roles} WHERE org_id = $1`)) {
+      const rows = this.database.listRolesByOrg(params[0] as string);
+      return { rows: rows as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`DELETE FROM ${this.tables.roles} WHERE id = $1`)) {
+      const row = this.database.deleteRole(params[0] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
     if (normalized.startsWith(`INSERT INTO ${this.tables.memberships} (`)) {
       const row: MembershipRow = {
         id: params[0] as string,
@@ -742,6 +1503,11 @@ export class InMemoryQueryExecutor implements QueryExecutor {
       return { rows: rows as unknown as Row[] };
     }
 
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.entitlements} WHERE id = $1`)) {
+      const row = this.database.getEntitlementById(params[0] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
     if (normalized.startsWith(`SELECT * FROM ${this.tables.entitlements} WHERE subject_kind = $1`)) {
       const rows = this.database.listEntitlementsBySubject(params[0] as string, params[1] as string);
       return { rows: rows as unknown as Row[] };
@@ -824,6 +1590,112 @@ export class InMemoryQueryExecutor implements QueryExecutor {
       return { rows: [] };
     }
 
+    if (normalized.startsWith(`INSERT INTO ${this.tables.refreshTokenFamilies} (`)) {
+      const row: RefreshTokenFamilyRow = {
+        id: params[0] as string,
+        user_id: params[1] as string,
+        client_id: params[2] as string,
+        session_id: (params[3] ?? null) as string | null,
+        org_id: (params[4] ?? null) as string | null,
+        scopes: ((params[5] as ReadonlyArray<string>) ?? []).slice(),
+        created_at: params[6] as string,
+        revoked_at: null,
+        revocation_reason: null,
+      };
+      return { rows: [this.database.insertRefreshTokenFamily(row) as Row] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.refreshTokenFamilies} WHERE id = $1`)) {
+      const row = this.database.getRefreshTokenFamily(params[0] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`UPDATE ${this.tables.refreshTokenFamilies} SET revoked_at`)) {
+      const row = this.database.revokeRefreshTokenFamily(
+        params[0] as string,
+        params[1] as string,
+        (params[2] ?? null) as string | null,
+      );
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`INSERT INTO ${this.tables.refreshTokens} (`)) {
+      const row: RefreshTokenRow = {
+        id: params[0] as string,
+        family_id: params[1] as string,
+        parent_id: (params[2] ?? null) as string | null,
+        issued_at: params[3] as string,
+        consumed_at: null,
+      };
+      return { rows: [this.database.insertRefreshToken(row) as Row] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.refreshTokens} WHERE id = $1`)) {
+      const row = this.database.getRefreshToken(params[0] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`UPDATE ${this.tables.refreshTokens} SET consumed_at = $2`)) {
+      const row = this.database.consumeRefreshToken(params[0] as string, params[1] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`INSERT INTO ${this.tables.invitations} (`)) {
+      const row: InvitationRow = {
+        id: params[0] as string,
+        org_id: params[1] as string,
+        email: params[2] as string,
+        role: params[3] as string,
+        group_ids: ((params[4] as ReadonlyArray<string>) ?? []).slice(),
+        status: "pending",
+        token_hash: params[5] as string,
+        invited_by_user_id: params[6] as string,
+        expires_at: params[7] as string,
+        sent_at: params[8] as string,
+        send_count: 1,
+        resolved_at: null,
+        resolved_by_user_id: null,
+        membership_id: null,
+        created_at: params[8] as string,
+        updated_at: params[8] as string,
+      };
+      return { rows: [this.database.insertInvitation(row) as Row] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.invitations} WHERE id = $1`)) {
+      const row = this.database.getInvitation(params[0] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.invitations} WHERE ($1::text IS NULL OR org_id = $1)`)) {
+      const rows = this.database.listInvitations({
+        orgId: (params[0] ?? null) as string | null,
+        email: (params[1] ?? null) as string | null,
+        status: (params[2] ?? null) as string | null,
+      });
+      return { rows: rows as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`UPDATE ${this.tables.invitations} SET status = $4`)) {
+      const row = this.database.updateInvitation(
+        params[0] as string,
+        { status: params[1] as string, tokenHash: (params[2] ?? null) as string | null },
+        (existing) => ({
+          ...existing,
+          status: params[3] as string,
+          updated_at: params[4] as string,
+          token_hash: coalesce(params[5], existing.token_hash),
+          expires_at: coalesce(params[6], existing.expires_at),
+          sent_at: coalesce(params[7], existing.sent_at),
+          send_count: coalesce(params[8], existing.send_count),
+          resolved_at: coalesce(params[9], existing.resolved_at),
+          resolved_by_user_id: coalesce(params[10], existing.resolved_by_user_id),
+          membership_id: coalesce(params[11], existing.membership_id),
+        }),
+      );
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
     if (normalized.startsWith(`INSERT INTO ${this.tables.keys} (`) && normalized.includes("ON CONFLICT")) {
       const row = this.buildKeyRow(params);
       return { rows: [this.database.insertKey(row, { allowConflictUpdate: true }) as Row] };
@@ -894,11 +1766,312 @@ export class InMemoryQueryExecutor implements QueryExecutor {
       return { rows: [this.database.insertAuditEvent(row) as Row] };
     }
 
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.auditEvents} WHERE ($1::text IS NULL OR category = $1)`)) {
+      const rows = this.database.queryAuditEvents({
+        category: text(params[0]),
+        action: text(params[1]),
+        actorType: text(params[2]),
+        actorId: text(params[3]),
+        subjectType: text(params[4]),
+        subjectId: text(params[5]),
+        resourceType: text(params[6]),
+        resourceId: text(params[7]),
+        correlationId: text(params[8]),
+        occurredAfter: text(params[9]),
+        occurredBefore: text(params[10]),
+        after: params[11] ? { occurredAt: params[11] as string, id: params[12] as string } : null,
+        descending: normalized.includes("ORDER BY occurred_at DESC"),
+        limit: params[13] as number,
+      });
+      return { rows: rows as unknown as Row[] };
+    }
+
+    if (
+      normalized.startsWith(
+        "SELECT id, occurred_at, category, action, actor, subject, resource, metadata, correlation_id, sequence, hash, previous_hash, FALSE AS pruned",
+      ) &&
+      normalized.includes(`FROM ${this.tables.auditEvents}`)
+    ) {
+      const rows = this.database.listAuditChainLinks(
+        Number(params[0]),
+        params[1] === null ? null : Number(params[1]),
+      );
+      const ordered = normalized.includes("ORDER BY sequence DESC") ? [...rows].reverse() : rows;
+      return { rows: ordered.slice(0, params[2] as number) as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`WITH deleted AS ( DELETE FROM ${this.tables.auditEvents}`)) {
+      const deleted: Array<{ id: string }> = [];
+      for (const id of params[0] as ReadonlyArray<string>) {
+        const row = this.database.deleteAuditEvent(id);
+        if (!row) {
+          continue;
+        }
+        if (row.sequence !== null && row.hash !== null) {
+          this.database.insertAuditPrunedLink({
+            sequence: row.sequence,
+            event_id: row.id,
+            category: row.category,
+            occurred_at: row.occurred_at,
+            hash: row.hash,
+            previous_hash: row.previous_hash,
+            pruned_at: params[1] as string,
+          });
+        }
+        deleted.push({ id: row.id });
+      }
+      return { rows: deleted as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`INSERT INTO ${this.tables.auditCheckpoints} (`)) {
+      const row = this.database.insertAuditCheckpoint({
+        sequence: Number(params[0]),
+        event_id: params[1] as string,
+        hash: params[2] as string,
+        token: params[3] as string,
+        created_at: params[4] as string,
+      });
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized === `SELECT * FROM ${this.tables.auditCheckpoints} WHERE sequence = $1`) {
+      const row = this.database.getAuditCheckpoint(Number(params[0]));
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.auditCheckpoints} WHERE sequence >= $1`)) {
+      const rows = this.database.listAuditCheckpoints(
+        Number(params[0]),
+        params[1] === null ? null : Number(params[1]),
+      );
+      return { rows: rows as unknown as Row[] };
+    }
+
     if (normalized.startsWith(`SELECT * FROM ${this.tables.auditEvents} ORDER BY`)) {
       const rows = this.database.listAuditEvents();
       return { rows: rows as unknown as Row[] };
     }
 
+    if (normalized.startsWith(`INSERT INTO ${this.tables.webhookSubscriptions} (`)) {
+      const row = this.database.insertWebhookSubscription({
+        id: params[0] as string,
+        org_id: text(params[1]),
+        event_types: [...(params[2] as ReadonlyArray<string>)],
+        target_url: params[3] as string,
+        secret: params[4] as string,
+        headers: (params[5] ?? null) as WebhookSubscriptionRow["headers"],
+        retry_policy: (params[6] ?? null) as WebhookSubscriptionRow["retry_policy"],
+        active: params[7] as boolean,
+        created_at: params[8] as string,
+        updated_at: params[9] as string,
+        metadata: (params[10] ?? null) as WebhookSubscriptionRow["metadata"],
+        filters: (params[11] ?? null) as WebhookSubscriptionRow["filters"],
+        ordering: (params[12] ?? null) as WebhookSubscriptionRow["ordering"],
+        previous_secret: text(params[13]),
+        previous_secret_expires_at: text(params[14]),
+      });
+      return { rows: [row as unknown as Row] };
+    }
+
+    if (normalized.startsWith(`UPDATE ${this.tables.webhookSubscriptions} SET previous_secret = secret`)) {
+      const existing = this.database.getWebhookSubscription(params[3] as string);
+      const row = existing
+        ? this.database.updateWebhookSubscription(existing.id, {
+            previous_secret: existing.secret,
+            previous_secret_expires_at: params[1],
+            secret: params[0],
+            updated_at: params[2],
+          })
+        : undefined;
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`UPDATE ${this.tables.webhookSubscriptions} SET`)) {
+      const [assignments, where] = normalized.split(" WHERE ");
+      const row = this.database.updateWebhookSubscription(
+        parameterBindings(where, params).id as string,
+        parameterBindings(assignments, params),
+      );
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized === `SELECT * FROM ${this.tables.webhookSubscriptions} WHERE id = $1`) {
+      const row = this.database.getWebhookSubscription(params[0] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.webhookSubscriptions}`)) {
+      const bindings = parameterBindings(normalized, params);
+      const eventTypes = /event_types && \$(\d+)/.exec(normalized);
+      const rows = this.database.listWebhookSubscriptions({
+        orgId: normalized.includes("org_id IS NULL") ? null : (bindings.org_id as string | undefined),
+        active: bindings.active as boolean | undefined,
+        eventTypes: eventTypes ? (params[Number(eventTypes[1]) - 1] as ReadonlyArray<string>) : undefined,
+      });
+      return { rows: rows as unknown as Row[] };
+    }
+
+    if (normalized === `DELETE FROM ${this.tables.webhookSubscriptions} WHERE id = $1`) {
+      this.database.deleteWebhookSubscription(params[0] as string);
+      return { rows: [] };
+    }
+
+    if (normalized.startsWith(`INSERT INTO ${this.tables.webhookDeliveries} (`)) {
+      const values = insertBindings(normalized, params);
+      const row = this.database.insertWebhookDelivery({
+        id: values.id as string,
+        subscription_id: values.subscription_id as string,
+        event_id: values.event_id as string,
+        status: values.status as string,
+        attempt_count: Number(values.attempt_count ?? 0),
+        last_attempt_at: text(values.last_attempt_at),
+        next_attempt_at: text(values.next_attempt_at),
+        payload: values.payload as Record<string, unknown>,
+        response: (values.response ?? null) as WebhookDeliveryRow["response"],
+        error_message: text(values.error_message),
+        created_at: values.created_at as string,
+        updated_at: values.updated_at as string,
+        replays: json<WebhookDeliveryRow["replays"]>(values.replays),
+        ordering_key: text(values.ordering_key),
+      });
+      return { rows: [row as unknown as Row] };
+    }
+
+    if (normalized.startsWith(`UPDATE ${this.tables.webhookDeliveries} SET`)) {
+      const [assignments, where] = normalized.split(" WHERE ");
+      const changes = parameterBindings(assignments, params);
+      const row = this.database.updateWebhookDelivery(
+        parameterBindings(where, params).id as string,
+        "replays" in changes ? { ...changes, replays: json(changes.replays) } : changes,
+      );
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized === `SELECT * FROM ${this.tables.webhookDeliveries} WHERE id = $1`) {
+      const row = this.database.getWebhookDelivery(params[0] as string);
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.webhookDeliveries} WHERE ordering_key = $1`)) {
+      const row = this.database.findWebhookOrderingPredecessor(
+        params[0] as string,
+        { created_at: params[1] as string, id: params[2] as string },
+        params[3] as string,
+      );
+      return { rows: row ? ([row] as unknown as Row[]) : [] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.webhookDeliveries} WHERE status IN ('pending', 'delivering')`)) {
+      const rows = this.database.listPendingWebhookDeliveries(
+        normalized.includes("next_attempt_at <= $1") ? (params[0] as string) : null,
+        limitClause(normalized),
+      );
+      return { rows: rows as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.webhookDeliveries}`)) {
+      const bindings = parameterBindings(normalized, params);
+      const rows = this.database.listWebhookDeliveries({
+        subscriptionId: bindings.subscription_id as string | undefined,
+        eventId: bindings.event_id as string | undefined,
+        status: bindings.status as string | undefined,
+        limit: limitClause(normalized),
+      });
+      return { rows: rows as unknown as Row[] };
+    }
+
+    if (normalized === `DELETE FROM ${this.tables.webhookDeliveries} WHERE id = $1`) {
+      this.database.deleteWebhookDelivery(params[0] as string);
+      return { rows: [] };
+    }
+
+    if (normalized.startsWith(`INSERT INTO ${this.tables.webhookOutbox} (`)) {
+      const row = this.database.insertWebhookOutboxEvent({
+        id: params[0] as string,
+        event_id: params[1] as string,
+        event_type: params[2] as string,
+        org_id: text(params[3]),
+        payload: params[4] as Record<string, unknown>,
+        created_at: params[5] as string,
+        relayed_at: null,
+      });
+      return { rows: [row as unknown as Row] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.webhookOutbox} WHERE relayed_at IS NULL`)) {
+      const rows = this.database.listPendingWebhookOutboxEvents(params[0] as number);
+      return { rows: rows as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`UPDATE ${this.tables.webhookOutbox} SET relayed_at = $2`)) {
+      const ids = this.database.markWebhookOutboxRelayed(params[0] as ReadonlyArray<string>, params[1] as string);
+      return { rows: ids.map((id) => ({ id })) as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`INSERT INTO ${this.tables.webhookQueue} (`)) {
+      const row = this.database.insertWebhookQueueJob({
+        id: params[0] as string,
+        delivery_id: params[1] as string,
+        attempt: Number(params[2]),
+        ordering_key: text(params[3]),
+        metadata: (params[4] ?? null) as Record<string, unknown> | null,
+        enqueued_at: params[5] as string,
+        available_at: params[6] as string,
+        lease_token: null,
+      });
+      return { rows: [row as unknown as Row] };
+    }
+
+    if (normalized.startsWith(`WITH due AS ( SELECT id FROM ${this.tables.webhookQueue}`)) {
+      const rows = this.database.claimWebhookQueueJobs(
+        params[0] as string,
+        params[1] as string,
+        params[2] as string,
+        params[3] as number,
+      );
+      return { rows: rows as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`UPDATE ${this.tables.webhookQueue} SET attempt = $3`)) {
+      const row = this.database.updateLeasedWebhookQueueJob(params[0] as string, params[1] as string, {
+        attempt: Number(params[2]),
+        metadata: (params[3] ?? null) as Record<string, unknown> | null,
+        enqueued_at: params[4] as string,
+        available_at: params[5] as string,
+        lease_token: null,
+      });
+      return { rows: (row ? [{ id: row.id }] : []) as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`DELETE FROM ${this.tables.webhookQueue} WHERE id = $1 AND lease_token = $2`)) {
+      const row = this.database.deleteLeasedWebhookQueueJob(params[0] as string, params[1] as string);
+      return { rows: (row ? [{ id: row.id }] : []) as unknown as Row[] };
+    }
+
+    if (normalized.startsWith(`WITH removed AS ( DELETE FROM ${this.tables.webhookQueue}`)) {
+      const removed = this.database.deleteLeasedWebhookQueueJob(params[0] as string, params[1] as string);
+      if (!removed) {
+        return { rows: [] };
+      }
+      const row = this.database.insertWebhookQueueDeadLetter({
+        id: removed.id,
+        delivery_id: removed.delivery_id,
+        attempt: removed.attempt,
+        attempts: Number(params[2]),
+        reason: params[3] as string,
+        dead_letter_uri: text(params[4]),
+        metadata: (params[5] ?? null) as Record<string, unknown> | null,
+        enqueued_at: removed.enqueued_at,
+        dead_lettered_at: params[6] as string,
+      });
+      return { rows: [{ id: row.id } as unknown as Row] };
+    }
+
+    if (normalized.startsWith(`SELECT * FROM ${this.tables.webhookQueueDeadLetters}`)) {
+      const rows = this.database.listWebhookQueueDeadLetters((params[0] ?? null) as number | null);
+      return { rows: rows as unknown as Row[] };
+    }
+
     if (normalized.startsWith("SELECT true") && normalized.includes(this.tables.entitlements)) {
       return { rows: [{ exists: bool(params[0]) } as Row] };
     }
@@ -955,6 +2128,9 @@ export class InMemoryQueryExecutor implements QueryExecutor {
       resource: (params[6] ?? null) as AuditEventRow["resource"],
       metadata: (params[7] ?? null) as AuditEventRow["metadata"],
       correlation_id: (params[8] ?? null) as string | null,
+      sequence: params[9] === undefined || params[9] === null ? null : Number(params[9]),
+      hash: (params[10] ?? null) as string | null,
+      previous_hash: (params[11] ?? null) as string | null,
     };
   }
 }
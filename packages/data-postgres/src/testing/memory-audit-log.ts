@@ -0,0 +1,344 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  err,
+  ok,
+  type AppendAuditEventInput,
+  type AuditChainRange,
+  type AuditChainVerification,
+  type AuditCheckpointRecord,
+  type AuditCheckpointSignerPort,
+  type AuditEventPage,
+  type AuditEventQuery,
+  type AuditEventRecord,
+  type AuditLogPort,
+  type CatalystError,
+  type Result,
+} from "@catalyst-auth/contracts";
+import { createCatalystLogger, type CatalystLogger } from "@catalyst-auth/telemetry";
+
+import {
+  AuditChainVerifier,
+  computeAuditEventHash,
+  toAuditChainLink,
+  type AuditChainLink,
+} from "../utils/audit-chain.js";
+import { decodeAuditCursor, encodeAuditCursor } from "../utils/audit-cursor.js";
+import { clone } from "../utils/clone.js";
+
+interface Clock {
+  now(): Date;
+}
+
+type IdFactory = () => string;
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+const DEFAULT_CHECKPOINT_INTERVAL = 1000;
+
+export interface MemoryAuditLogOptions {
+  /** Events to start from, for example a tampered copy of another log's `listEvents` output. */
+  readonly initialEvents?: ReadonlyArray<AuditEventRecord>;
+  readonly initialCheckpoints?: ReadonlyArray<AuditCheckpointRecord>;
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+  readonly checkpointSigner?: AuditCheckpointSignerPort;
+  /** Number of events between automatic checkpoints. Defaults to 1000; requires a checkpoint signer. */
+  readonly checkpointInterval?: number;
+  /** Reports automatic checkpoints that fail after their event was appended. */
+  readonly logger?: CatalystLogger;
+}
+
+const createError = (code: string, message: string, details?: Record<string, unknown>): CatalystError => ({
+  code,
+  message,
+  details,
+});
+
+const cloneEvent = (event: AuditEventRecord): AuditEventRecord => clone(event);
+
+const matchesDescriptor = (
+  descriptor: { readonly type?: unknown; readonly id?: unknown } | undefined,
+  type: string | undefined,
+  id: string | undefined,
+): boolean => (type === undefined || descriptor?.type === type) && (id === undefined || descriptor?.id === id);
+
+const compareEvents = (left: AuditEventRecord, right: { occurredAt: string; id: string }): number => {
+  const dateComparison = Date.parse(left.occurredAt) - Date.parse(right.occurredAt);
+  if (dateComparison !== 0) {
+    return dateComparison;
+  }
+  return left.id.localeCompare(right.id);
+};
+
+/**
+ * In-memory counterpart of {@link PostgresAuditLog} for tests. It hashes, chains, checkpoints, queries and
+ * verifies events with the same rules and error codes, so assertions written against one hold for the other.
+ */
+export class MemoryAuditLog implements AuditLogPort {
+  private readonly events: AuditEventRecord[] = [];
+  private readonly checkpoints = new Map<number, AuditCheckpointRecord>();
+  private readonly prunedLinks = new Map<number, AuditChainLink>();
+  private readonly clock: Clock;
+  private readonly idFactory: IdFactory;
+  private readonly checkpointSigner?: AuditCheckpointSignerPort;
+  private readonly checkpointInterval: number;
+  private readonly logger: CatalystLogger;
+
+  constructor(options: MemoryAuditLogOptions = {}) {
+    this.clock = options.clock ?? defaultClock;
+    this.idFactory = options.idFactory ?? defaultIdFactory;
+    this.checkpointSigner = options.checkpointSigner;
+    this.checkpointInterval = options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL;
+    this.logger = options.logger ?? createCatalystLogger({ name: "data-postgres" });
+    for (const event of options.initialEvents ?? []) {
+      this.events.push(cloneEvent(event));
+    }
+    for (const checkpoint of options.initialCheckpoints ?? []) {
+      this.checkpoints.set(checkpoint.sequence, { ...checkpoint });
+    }
+  }
+
+  async appendEvent(input: AppendAuditEventInput): Promise<Result<AuditEventRecord, CatalystError>> {
+    if (!input.category?.trim()) {
+      return err(createError("audit.postgres.invalid_category", "Category is required"));
+    }
+    if (!input.action?.trim()) {
+      return err(createError("audit.postgres.invalid_action", "Action is required"));
+    }
+
+    const head = this.head();
+    const sequence = (head?.sequence ?? 0) + 1;
+    const unhashed: Omit<AuditEventRecord, "hash"> = {
+      id: this.idFactory(),
+      occurredAt: input.occurredAt ?? this.clock.now().toISOString(),
+      category: input.category,
+      action: input.action,
+      actor: input.actor,
+      subject: input.subject,
+      resource: input.resource,
+      metadata: input.metadata,
+      correlationId: input.correlationId,
+      sequence,
+      previousHash: head?.hash,
+    };
+    const record = cloneEvent({ ...unhashed, hash: computeAuditEventHash(unhashed) });
+    this.events.push(record);
+
+    if (this.checkpointSigner && sequence % this.checkpointInterval === 0) {
+      await this.writeAutomaticCheckpoint(toAuditChainLink(record));
+    }
+    return ok(cloneEvent(record));
+  }
+
+  async listEvents(): Promise<Result<ReadonlyArray<AuditEventRecord>, CatalystError>> {
+    return ok(this.sortedEvents().map((event) => cloneEvent(event)));
+  }
+
+  async queryEvents(query: AuditEventQuery): Promise<Result<AuditEventPage, CatalystError>> {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+      return err(
+        createError("audit.postgres.invalid_limit", `Limit must be an integer between 1 and ${MAX_QUERY_LIMIT}`, {
+          limit,
+        }),
+      );
+    }
+    const cursor = query.cursor === undefined ? undefined : decodeAuditCursor(query.cursor);
+    if (query.cursor !== undefined && !cursor) {
+      return err(createError("audit.postgres.invalid_cursor", "Cursor is malformed"));
+    }
+
+    const descending = query.order === "desc";
+    const matches = this.sortedEvents().filter((event) => {
+      const occurredAt = Date.parse(event.occurredAt);
+      return (
+        (query.category === undefined || event.category === query.category) &&
+        (query.action === undefined || event.action === query.action) &&
+        matchesDescriptor(event.actor, query.actorType, query.actorId) &&
+        matchesDescriptor(event.subject, query.subjectType, query.subjectId) &&
+        matchesDescriptor(event.resource, query.resourceType, query.resourceId) &&
+        (query.correlationId === undefined || event.correlationId === query.correlationId) &&
+        (query.occurredAfter === undefined || occurredAt >= Date.parse(query.occurredAfter)) &&
+        (query.occurredBefore === undefined || occurredAt < Date.parse(query.occurredBefore)) &&
+        (!cursor || (descending ? compareEvents(event, cursor) < 0 : compareEvents(event, cursor) > 0))
+      );
+    });
+    if (descending) {
+      matches.reverse();
+    }
+
+    const page = matches.slice(0, limit);
+    const last = page[page.length - 1];
+    return ok({
+      events: page.map((event) => cloneEvent(event)),
+      nextCursor:
+        matches.length > limit && last ? encodeAuditCursor({ occurredAt: last.occurredAt, id: last.id }) : undefined,
+    });
+  }
+
+  async verifyChain(range: AuditChainRange = {}): Promise<Result<AuditChainVerification, CatalystError>> {
+    const fromSequence = range.fromSequence ?? 1;
+    const toSequence = range.toSequence;
+    if (
+      !Number.isInteger(fromSequence) ||
+      fromSequence < 1 ||
+      (toSequence !== undefined && (!Number.isInteger(toSequence) || toSequence < fromSequence))
+    ) {
+      return err(createError("audit.postgres.invalid_range", "Chain range is invalid", { fromSequence, toSequence }));
+    }
+
+    const inRange = (sequence: number): boolean =>
+      sequence >= fromSequence && (toSequence === undefined || sequence <= toSequence);
+    const links = this.chainLinks();
+
+    let previous: AuditChainLink | undefined;
+    if (fromSequence > 1) {
+      previous = links.find((link) => link.sequence === fromSequence - 1);
+      if (!previous) {
+        return ok({
+          valid: false,
+          checkedEvents: 0,
+          checkedCheckpoints: 0,
+          firstBreak: { sequence: fromSequence - 1, reason: "sequence_gap" },
+        });
+      }
+    }
+
+    const checkpoints = new Map(
+      Array.from(this.checkpoints.values())
+        .filter((checkpoint) => inRange(checkpoint.sequence))
+        .map((checkpoint) => [checkpoint.sequence, checkpoint]),
+    );
+    const verifier = new AuditChainVerifier(fromSequence, previous, checkpoints, this.checkpointSigner);
+    for (const link of links.filter((candidate) => inRange(candidate.sequence))) {
+      const firstBreak = await verifier.check(link);
+      if (firstBreak) {
+        return ok({
+          valid: false,
+          checkedEvents: verifier.checkedEvents,
+          checkedCheckpoints: verifier.checkedCheckpoints,
+          firstBreak,
+        });
+      }
+    }
+
+    const truncation = verifier.checkTruncation();
+    return ok({
+      valid: truncation === undefined,
+      checkedEvents: verifier.checkedEvents,
+      checkedCheckpoints: verifier.checkedCheckpoints,
+      firstBreak: truncation,
+    });
+  }
+
+  async createCheckpoint(): Promise<Result<AuditCheckpointRecord | undefined, CatalystError>> {
+    if (!this.checkpointSigner) {
+      return err(createError("audit.postgres.checkpoint_unavailable", "No checkpoint signer is configured"));
+    }
+    const head = this.head();
+    if (!head) {
+      return ok(undefined);
+    }
+    return this.writeCheckpoint(head);
+  }
+
+  async deleteEvents(ids: ReadonlyArray<string>): Promise<Result<number, CatalystError>> {
+    const targets = new Set(ids);
+    let deleted = 0;
+    for (let index = this.events.length - 1; index >= 0; index -= 1) {
+      const event = this.events[index];
+      if (!targets.has(event.id)) {
+        continue;
+      }
+      this.events.splice(index, 1);
+      if (event.sequence !== undefined) {
+        this.prunedLinks.set(event.sequence, {
+          sequence: event.sequence,
+          eventId: event.id,
+          hash: event.hash,
+          previousHash: event.previousHash,
+        });
+      }
+      deleted += 1;
+    }
+    return ok(deleted);
+  }
+
+  /** Snapshot of stored checkpoints, for seeding another log in tests. */
+  listCheckpoints(): ReadonlyArray<AuditCheckpointRecord> {
+    return Array.from(this.checkpoints.values())
+      .sort((left, right) => left.sequence - right.sequence)
+      .map((checkpoint) => ({ ...checkpoint }));
+  }
+
+  private sortedEvents(): AuditEventRecord[] {
+    return [...this.events].sort((left, right) => compareEvents(left, right));
+  }
+
+  private chainLinks(): AuditChainLink[] {
+    return [
+      ...this.events
+        .filter((event) => event.sequence !== undefined)
+        .map((event) => toAuditChainLink(cloneEvent(event))),
+      ...this.prunedLinks.values(),
+    ].sort((left, right) => left.sequence - right.sequence);
+  }
+
+  private head(): AuditChainLink | undefined {
+    const links = this.chainLinks();
+    return links[links.length - 1];
+  }
+
+  private async writeAutomaticCheckpoint(link: AuditChainLink): Promise<void> {
+    try {
+      const result = await this.writeCheckpoint(link);
+      if (!result.ok) {
+        this.logger.error("postgres.audit.checkpoint_failed", { sequence: link.sequence, code: result.error.code });
+      }
+    } catch (error) {
+      this.logger.error("postgres.audit.checkpoint_failed", {
+        sequence: link.sequence,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async writeCheckpoint(
+    link: AuditChainLink,
+  ): Promise<Result<AuditCheckpointRecord | undefined, CatalystError>> {
+    if (!this.checkpointSigner || link.hash === undefined) {
+      return ok(undefined);
+    }
+    const existing = this.checkpoints.get(link.sequence);
+    if (existing) {
+      return ok({ ...existing });
+    }
+    const token = await this.checkpointSigner.signCheckpoint({
+      sequence: link.sequence,
+      eventId: link.eventId,
+      hash: link.hash,
+    });
+    if (!token.ok) {
+      return token;
+    }
+    const checkpoint: AuditCheckpointRecord = {
+      sequence: link.sequence,
+      eventId: link.eventId,
+      hash: link.hash,
+      token: token.value,
+      createdAt: this.clock.now().toISOString(),
+    };
+    this.checkpoints.set(checkpoint.sequence, checkpoint);
+    return ok({ ...checkpoint });
+  }
+}
+
+export const createMemoryAuditLog = (options?: MemoryAuditLogOptions): MemoryAuditLog =>
+  new MemoryAuditLog(options);
@@ -4,20 +4,35 @@ import { runWithSpan } from "@catalyst-auth/telemetry";
 
 import { createPgQueryExecutor } from "../executors/pg-query-executor.js";
 import type { QueryExecutor } from "../executors/query-executor.js";
+import { PostgresWebhookOutbox } from "../repositories/webhook-outbox-repository.js";
+import type { PostgresTableNames } from "../tables.js";
 import type { PostgresTelemetryContext } from "../telemetry.js";
 
-export type TransactionCallback<T> = (executor: QueryExecutor) => Promise<T> | T;
+/**
+ * Helpers bound to the transaction's executor. Events enqueued on `outbox` are committed or rolled back with the
+ * callback's writes.
+ */
+export interface PostgresTransactionContext {
+  readonly outbox: PostgresWebhookOutbox;
+}
+
+export type TransactionCallback<T> = (
+  executor: QueryExecutor,
+  context: PostgresTransactionContext,
+) => Promise<T> | T;
 
 interface TransactionManagerOptions {
   readonly pool?: Pool;
   readonly executor?: QueryExecutor;
   readonly telemetry?: PostgresTelemetryContext;
+  readonly tables?: Pick<PostgresTableNames, "webhookOutbox">;
 }
 
 export class PostgresTransactionManager {
   private readonly pool?: Pool;
   private readonly executor?: QueryExecutor;
   private readonly telemetry?: PostgresTelemetryContext;
+  private readonly tables?: Pick<PostgresTableNames, "webhookOutbox">;
 
   constructor(options: TransactionManagerOptions) {
     if (!options.pool && !options.executor) {
@@ -26,6 +41,7 @@ export class PostgresTransactionManager {
     this.pool = options.pool;
     this.executor = options.executor;
     this.telemetry = options.telemetry;
+    this.tables = options.tables;
   }
 
   async runInTransaction<T>(callback: TransactionCallback<T>): Promise<T> {
@@ -34,7 +50,7 @@ export class PostgresTransactionManager {
         throw new Error("PostgresTransactionManager misconfigured without executor");
       }
       if (!this.telemetry) {
-        return callback(this.executor);
+        return callback(this.executor, this.createContext(this.executor));
       }
 
       return runWithSpan(
@@ -46,7 +62,7 @@ export class PostgresTransactionManager {
           this.telemetry!.logger.debug("postgres.transaction.inline", {
             mode: "executor",
           });
-          const result = await callback(this.executor!);
+          const result = await callback(this.executor!, this.createContext(this.executor!));
           this.telemetry!.logger.debug("postgres.transaction.inline_completed", {
             mode: "executor",
           });
@@ -63,7 +79,7 @@ export class PostgresTransactionManager {
       if (!telemetry) {
         await client.query("BEGIN");
         const executor = createPgQueryExecutor(client);
-        const result = await callback(executor);
+        const result = await callback(executor, this.createContext(executor));
         await client.query("COMMIT");
         return result;
       }
@@ -77,7 +93,7 @@ export class PostgresTransactionManager {
           telemetry.logger.debug("postgres.transaction.begin", {});
           await client.query("BEGIN");
           const executor = createPgQueryExecutor(client, { telemetry });
-          const result = await callback(executor);
+          const result = await callback(executor, this.createContext(executor));
           await client.query("COMMIT");
           telemetry.logger.info("postgres.transaction.commit", {
             durationMs: performance.now() - start,
@@ -111,4 +127,8 @@ export class PostgresTransactionManager {
       client.release();
     }
   }
+
+  private createContext(executor: QueryExecutor): PostgresTransactionContext {
+    return { outbox: new PostgresWebhookOutbox(executor, { tables: this.tables }) };
+  }
 }
@@ -3,4 +3,6 @@ declare module "node:fs/promises" {
     path: string | URL,
     options: { encoding: string } | string,
   ): Promise<string>;
+  export function appendFile(path: string, data: string, options?: { encoding: string } | string): Promise<void>;
+  export function mkdir(path: string, options?: { recursive?: boolean }): Promise<string | undefined>;
 }
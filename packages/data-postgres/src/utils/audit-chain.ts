@@ -0,0 +1,187 @@
+import { createHash } from "node:crypto";
+
+import type {
+  AuditChainBreak,
+  AuditCheckpointRecord,
+  AuditCheckpointSignerPort,
+  AuditEventRecord,
+} from "@catalyst-auth/contracts";
+
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((entry) => canonicalize(entry));
+  }
+  if (value && typeof value === "object") {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const entry = (value as Record<string, unknown>)[key];
+      if (entry !== undefined) {
+        sorted[key] = canonicalize(entry);
+      }
+    }
+    return sorted;
+  }
+  return value;
+};
+
+/**
+ * Hashes the event contents together with its chain position and predecessor hash. Keys are sorted and
+ * timestamps normalised so the hash does not depend on how the storage layer serialises the record.
+ */
+export const computeAuditEventHash = (event: Omit<AuditEventRecord, "hash">): string => {
+  const content = canonicalize({
+    id: event.id,
+    sequence: event.sequence,
+    occurredAt: new Date(event.occurredAt).toISOString(),
+    category: event.category,
+    action: event.action,
+    actor: event.actor,
+    subject: event.subject,
+    resource: event.resource,
+    metadata: event.metadata,
+    correlationId: event.correlationId,
+    previousHash: event.previousHash,
+  });
+  return createHash("sha256").update(JSON.stringify(content)).digest("hex");
+};
+
+/**
+ * One position in the hash chain. Events deleted by retention leave a link without contents, which still proves
+ * the order of its neighbours but can no longer be rehashed.
+ */
+export interface AuditChainLink {
+  readonly sequence: number;
+  readonly eventId: string;
+  readonly hash?: string;
+  readonly previousHash?: string;
+  readonly event?: AuditEventRecord;
+}
+
+export const toAuditChainLink = (event: AuditEventRecord): AuditChainLink => ({
+  sequence: event.sequence ?? Number.NaN,
+  eventId: event.id,
+  hash: event.hash,
+  previousHash: event.previousHash,
+  event,
+});
+
+/**
+ * Walks chained events in sequence order and reports the first broken link. Events are fed in batches so
+ * storage-backed logs can verify long ranges without loading them at once.
+ */
+export class AuditChainVerifier {
+  private previous?: AuditChainLink;
+  private expectedSequence: number;
+  private events = 0;
+  private checkpoints = 0;
+
+  constructor(
+    fromSequence: number,
+    previous: AuditChainLink | undefined,
+    private readonly checkpointsBySequence: ReadonlyMap<number, AuditCheckpointRecord>,
+    private readonly signer?: AuditCheckpointSignerPort,
+  ) {
+    this.expectedSequence = fromSequence;
+    this.previous = previous;
+  }
+
+  get checkedEvents(): number {
+    return this.events;
+  }
+
+  get checkedCheckpoints(): number {
+    return this.checkpoints;
+  }
+
+  get nextSequence(): number {
+    return this.expectedSequence;
+  }
+
+  async check(link: AuditChainLink): Promise<AuditChainBreak | undefined> {
+    const { sequence } = link;
+    if (sequence !== this.expectedSequence) {
+      return {
+        sequence: this.expectedSequence,
+        eventId: link.eventId,
+        reason: "sequence_gap",
+        expected: String(this.expectedSequence),
+        actual: String(sequence),
+      };
+    }
+    if (link.previousHash !== this.previous?.hash) {
+      return {
+        sequence,
+        eventId: link.eventId,
+        reason: "previous_hash_mismatch",
+        expected: this.previous?.hash,
+        actual: link.previousHash,
+      };
+    }
+    if (link.event) {
+      const hash = computeAuditEventHash(link.event);
+      if (hash !== link.hash) {
+        return { sequence, eventId: link.eventId, reason: "hash_mismatch", expected: hash, actual: link.hash };
+      }
+    }
+
+    const checkpoint = this.checkpointsBySequence.get(sequence);
+    if (checkpoint) {
+      const checkpointBreak = await this.checkCheckpoint(checkpoint, link);
+      if (checkpointBreak) {
+        return checkpointBreak;
+      }
+      this.checkpoints += 1;
+    }
+
+    this.previous = link;
+    this.expectedSequence += 1;
+    this.events += 1;
+    return undefined;
+  }
+
+  /**
+   * Reports checkpoints past the last verified event, which means the tail of the chain was removed.
+   */
+  checkTruncation(): AuditChainBreak | undefined {
+    const dangling = Array.from(this.checkpointsBySequence.values())
+      .filter((checkpoint) => checkpoint.sequence >= this.expectedSequence)
+      .sort((left, right) => left.sequence - right.sequence)[0];
+    if (!dangling) {
+      return undefined;
+    }
+    return {
+      sequence: dangling.sequence,
+      eventId: dangling.eventId,
+      reason: "checkpoint_mismatch",
+      expected: dangling.hash,
+    };
+  }
+
+  private async checkCheckpoint(
+    checkpoint: AuditCheckpointRecord,
+    link: AuditChainLink,
+  ): Promise<AuditChainBreak | undefined> {
+    if (checkpoint.hash !== link.hash || checkpoint.eventId !== link.eventId) {
+      return {
+        sequence: checkpoint.sequence,
+        eventId: link.eventId,
+        reason: "checkpoint_mismatch",
+        expected: checkpoint.hash,
+        actual: link.hash,
+      };
+    }
+    if (!this.signer) {
+      return undefined;
+    }
+    const verified = await this.signer.verifyCheckpoint(checkpoint.token);
+    if (
+      !verified.ok ||
+      verified.value.sequence !== checkpoint.sequence ||
+      verified.value.eventId !== checkpoint.eventId ||
+      verified.value.hash !== checkpoint.hash
+    ) {
+      return { sequence: checkpoint.sequence, eventId: link.eventId, reason: "checkpoint_signature_invalid" };
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Keyset position of the last audit event on a page. Pages are ordered by `occurredAt` then `id`, so the pair
+ * identifies where the next page starts regardless of concurrent inserts.
+ */
+export interface AuditCursor {
+  readonly occurredAt: string;
+  readonly id: string;
+}
+
+const toBase64Url = (value: string): string => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string): string => {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+export const encodeAuditCursor = (cursor: AuditCursor): string =>
+  toBase64Url(JSON.stringify([cursor.occurredAt, cursor.id]));
+
+/**
+ * Returns `undefined` for cursors that were not produced by {@link encodeAuditCursor}.
+ */
+export const decodeAuditCursor = (value: string): AuditCursor | undefined => {
+  try {
+    const decoded: unknown = JSON.parse(fromBase64Url(value));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === "string" &&
+      typeof decoded[1] === "string" &&
+      !Number.isNaN(Date.parse(decoded[0]))
+    ) {
+      return { occurredAt: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    return undefined;
+  }
+  return undefined;
+};
@@ -1,6 +1,11 @@
 import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
 import test from "node:test";
 
+import { PostgresAuditLog } from "../dist/repositories/audit-repository.js";
+import { defaultPostgresTableNames } from "../dist/tables.js";
+import { InMemoryPostgresDatabase, InMemoryQueryExecutor } from "../dist/testing/fallback-query-executor.js";
+import { MemoryAuditLog } from "../dist/testing/memory-audit-log.js";
 import { createTestPostgresDataSource } from "../dist/testing/test-data-source.js";
 
 const unwrapOk = (result) => {
@@ -33,6 +38,181 @@ test("appends and lists audit events", async () => {
   assert.equal(events[1].metadata?.source, "test");
 });
 
+const createCheckpointSigner = (secret = "checkpoint-secret") => {
+  const sign = (payload) => createHmac("sha256", secret).update(payload).digest("base64url");
+  return {
+    signCheckpoint: async (claims) => {
+      const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+      return { ok: true, value: `${payload}.${sign(payload)}` };
+    },
+    verifyCheckpoint: async (token) => {
+      const [payload, signature] = token.split(".");
+      if (sign(payload) !== signature) {
+        return { ok: false, error: { code: "token.invalid_signature", message: "Signature mismatch" } };
+      }
+      return { ok: true, value: JSON.parse(Buffer.from(payload, "base64url").toString()) };
+    },
+  };
+};
+
+const createChainedLogs = (options = {}) => {
+  const database = new InMemoryPostgresDatabase();
+  const executor = new InMemoryQueryExecutor(database, defaultPostgresTableNames);
+  return {
+    database,
+    postgres: new PostgresAuditLog(executor, { tables: defaultPostgresTableNames, ...options }),
+    memory: new MemoryAuditLog(options),
+  };
+};
+
+const appendSampleEvents = async (auditLog, count) => {
+  const events = [];
+  for (let index = 0; index < count; index += 1) {
+    events.push(
+      unwrapOk(
+        await auditLog.appendEvent({
+          category: "invitation",
+          action: "created",
+          actor: { type: "user", id: `user-${index}` },
+          metadata: { index, nested: { b: 1, a: 2 } },
+          occurredAt: `2024-02-0${index + 1}T00:00:00.000Z`,
+        }),
+      ),
+    );
+  }
+  return events;
+};
+
+test("chains appended audit events and verifies the chain", async () => {
+  const { postgres, memory } = createChainedLogs();
+
+  for (const auditLog of [postgres, memory]) {
+    const events = await appendSampleEvents(auditLog, 3);
+    assert.deepEqual(events.map((event) => event.sequence), [1, 2, 3]);
+    assert.equal(events[0].previousHash, undefined);
+    assert.equal(events[1].previousHash, events[0].hash);
+    assert.equal(events[2].previousHash, events[1].hash);
+
+    const verification = unwrapOk(await auditLog.verifyChain());
+    assert.deepEqual(verification, { valid: true, checkedEvents: 3, checkedCheckpoints: 0, firstBreak: undefined });
+
+    const partial = unwrapOk(await auditLog.verifyChain({ fromSequence: 2, toSequence: 2 }));
+    assert.equal(partial.valid, true);
+    assert.equal(partial.checkedEvents, 1);
+
+    const invalidRange = await auditLog.verifyChain({ fromSequence: 3, toSequence: 1 });
+    assert.equal(invalidRange.ok, false);
+    assert.equal(invalidRange.error.code, "audit.postgres.invalid_range");
+  }
+});
+
+test("reports the first broken link identically for postgres and memory logs", async () => {
+  const { database, postgres, memory } = createChainedLogs();
+  await appendSampleEvents(postgres, 4);
+  await appendSampleEvents(memory, 4);
+
+  const [, secondRow] = database.listAuditEvents();
+  database.insertAuditEvent({ ...secondRow, metadata: { index: 99 } });
+
+  const memoryEvents = unwrapOk(await memory.listEvents());
+  const tamperedMemory = new MemoryAuditLog({
+    initialEvents: memoryEvents.map((event) =>
+      event.sequence === 2 ? { ...event, metadata: { index: 99 } } : event,
+    ),
+  });
+
+  const postgresResult = unwrapOk(await postgres.verifyChain());
+  const memoryResult = unwrapOk(await tamperedMemory.verifyChain());
+  assert.equal(postgresResult.valid, false);
+  assert.equal(postgresResult.checkedEvents, 1);
+  assert.equal(postgresResult.firstBreak.sequence, 2);
+  assert.equal(postgresResult.firstBreak.reason, "hash_mismatch");
+  const summarize = ({ valid, checkedEvents, firstBreak }) => ({
+    valid,
+    checkedEvents,
+    sequence: firstBreak.sequence,
+    reason: firstBreak.reason,
+  });
+  assert.deepEqual(summarize(memoryResult), summarize(postgresResult));
+
+  const [, , thirdRow] = database.listAuditEvents();
+  database.deleteAuditEvent(thirdRow.id);
+  const gap = unwrapOk(await postgres.verifyChain({ fromSequence: 3 }));
+  assert.equal(gap.firstBreak.reason, "sequence_gap");
+  assert.equal(gap.firstBreak.sequence, 3);
+});
+
+test("signs periodic checkpoints and detects truncation and forged checkpoints", async () => {
+  const signer = createCheckpointSigner();
+  const { database, postgres, memory } = createChainedLogs({ checkpointSigner: signer, checkpointInterval: 2 });
+
+  for (const auditLog of [postgres, memory]) {
+    await appendSampleEvents(auditLog, 5);
+    const verification = unwrapOk(await auditLog.verifyChain());
+    assert.equal(verification.valid, true);
+    assert.equal(verification.checkedCheckpoints, 2);
+
+    const head = unwrapOk(await auditLog.createCheckpoint());
+    assert.equal(head.sequence, 5);
+    assert.deepEqual(unwrapOk(await signer.verifyCheckpoint(head.token)), {
+      sequence: 5,
+      eventId: head.eventId,
+      hash: head.hash,
+    });
+  }
+
+  const rows = database.listAuditEvents();
+  database.deleteAuditEvent(rows[4].id);
+  database.deleteAuditEvent(rows[3].id);
+  const truncated = unwrapOk(await postgres.verifyChain());
+  assert.equal(truncated.valid, false);
+  assert.equal(truncated.firstBreak.reason, "checkpoint_mismatch");
+  assert.equal(truncated.firstBreak.sequence, 4);
+
+  const forged = new MemoryAuditLog({
+    checkpointSigner: signer,
+    initialEvents: unwrapOk(await memory.listEvents()),
+    initialCheckpoints: memory
+      .listCheckpoints()
+      .map((checkpoint) => (checkpoint.sequence === 2 ? { ...checkpoint, token: `${checkpoint.token}x` } : checkpoint)),
+  });
+  const forgedResult = unwrapOk(await forged.verifyChain());
+  assert.equal(forgedResult.firstBreak.reason, "checkpoint_signature_invalid");
+  assert.equal(forgedResult.firstBreak.sequence, 2);
+
+  const unsigned = await new MemoryAuditLog().createCheckpoint();
+  assert.equal(unsigned.ok, false);
+  assert.equal(unsigned.error.code, "audit.postgres.checkpoint_unavailable");
+});
+
+test("keeps appended events when an automatic checkpoint fails", async () => {
+  const failures = [];
+  const logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: (message, context) => failures.push({ message, ...context }),
+    child: () => logger,
+  };
+  const signer = {
+    ...createCheckpointSigner(),
+    signCheckpoint: async () => {
+      throw new Error("signing key unavailable");
+    },
+  };
+  const { postgres, memory } = createChainedLogs({ checkpointSigner: signer, checkpointInterval: 2, logger });
+
+  for (const auditLog of [postgres, memory]) {
+    const events = await appendSampleEvents(auditLog, 2);
+    assert.deepEqual(events.map((event) => event.sequence), [1, 2]);
+    assert.equal(unwrapOk(await auditLog.listEvents()).length, 2);
+  }
+  assert.deepEqual(failures, [
+    { message: "postgres.audit.checkpoint_failed", sequence: 2, error: "signing key unavailable" },
+    { message: "postgres.audit.checkpoint_failed", sequence: 2, error: "signing key unavailable" },
+  ]);
+});
+
 test("validates audit event input", async () => {
   const dataSource = await createTestPostgresDataSource();
   const invalidCategory = await dataSource.auditLog.appendEvent({ category: " ", action: "x" });
@@ -43,3 +223,61 @@ test("validates audit event input", async () => {
   assert.equal(invalidAction.ok, false);
   assert.equal(invalidAction.error.code, "audit.postgres.invalid_action");
 });
+
+test("queries audit events with filters and cursor pagination", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const { auditLog } = dataSource;
+
+  for (let index = 0; index < 5; index += 1) {
+    unwrapOk(
+      await auditLog.appendEvent({
+        category: index < 4 ? "invitation" : "forward_auth",
+        action: index % 2 === 0 ? "created" : "accepted",
+        actor: { type: "user", id: index < 2 ? "user-1" : "user-2" },
+        resource: { type: "invitation", id: `inv-${index}` },
+        correlationId: index === 3 ? "corr-3" : undefined,
+        occurredAt: `2024-01-0${index + 1}T00:00:00.000Z`,
+      }),
+    );
+  }
+
+  const firstPage = unwrapOk(await auditLog.queryEvents({ category: "invitation", limit: 3 }));
+  assert.deepEqual(
+    firstPage.events.map((event) => event.resource?.id),
+    ["inv-0", "inv-1", "inv-2"],
+  );
+  assert.ok(firstPage.nextCursor);
+
+  const secondPage = unwrapOk(
+    await auditLog.queryEvents({ category: "invitation", limit: 3, cursor: firstPage.nextCursor }),
+  );
+  assert.deepEqual(secondPage.events.map((event) => event.resource?.id), ["inv-3"]);
+  assert.equal(secondPage.nextCursor, undefined);
+
+  const newestFirst = unwrapOk(await auditLog.queryEvents({ actorId: "user-2", order: "desc", limit: 2 }));
+  assert.deepEqual(newestFirst.events.map((event) => event.resource?.id), ["inv-4", "inv-3"]);
+  const olderPage = unwrapOk(
+    await auditLog.queryEvents({ actorId: "user-2", order: "desc", limit: 2, cursor: newestFirst.nextCursor }),
+  );
+  assert.deepEqual(olderPage.events.map((event) => event.resource?.id), ["inv-2"]);
+
+  const ranged = unwrapOk(
+    await auditLog.queryEvents({
+      action: "created",
+      occurredAfter: "2024-01-02T00:00:00.000Z",
+      occurredBefore: "2024-01-05T00:00:00.000Z",
+    }),
+  );
+  assert.deepEqual(ranged.events.map((event) => event.resource?.id), ["inv-2"]);
+
+  const correlated = unwrapOk(await auditLog.queryEvents({ correlationId: "corr-3", resourceType: "invitation" }));
+  assert.deepEqual(correlated.events.map((event) => event.resource?.id), ["inv-3"]);
+
+  const invalidCursor = await auditLog.queryEvents({ cursor: "not-a-cursor" });
+  assert.equal(invalidCursor.ok, false);
+  assert.equal(invalidCursor.error.code, "audit.postgres.invalid_cursor");
+
+  const invalidLimit = await auditLog.queryEvents({ limit: 0 });
+  assert.equal(invalidLimit.ok, false);
+  assert.equal(invalidLimit.error.code, "audit.postgres.invalid_limit");
+});
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import { createAuditRetentionJob } from "../dist/retention/audit-retention-job.js";
+import { createFileAuditArchiveSink } from "../dist/retention/file-audit-archive-sink.js";
+import { MemoryAuditLog } from "../dist/testing/memory-audit-log.js";
+import { createTestPostgresDataSource } from "../dist/testing/test-data-source.js";
+import { unwrapOk } from "./fixtures.js";
+
+const clock = { now: () => new Date("2024-03-01T00:00:00.000Z") };
+
+const appendEvents = async (auditLog) => {
+  const days = ["2024-01-01", "2024-01-15", "2024-02-20", "2024-02-28"];
+  for (const [index, day] of days.entries()) {
+    for (const category of ["session", "invitation"]) {
+      unwrapOk(
+        await auditLog.appendEvent({
+          category,
+          action: "created",
+          metadata: { index },
+          occurredAt: `${day}T00:00:00.000Z`,
+        }),
+      );
+    }
+  }
+};
+
+for (const [name, createAuditLog] of [
+  ["postgres", async () => (await createTestPostgresDataSource()).auditLog],
+  ["memory", async () => new MemoryAuditLog()],
+]) {
+  test(`archives and deletes expired events per category (${name})`, async () => {
+    const directory = await mkdtemp(join(tmpdir(), "audit-archive-"));
+    try {
+      const auditLog = await createAuditLog();
+      await appendEvents(auditLog);
+
+      const job = createAuditRetentionJob({
+        auditLog,
+        sink: createFileAuditArchiveSink({ directory }),
+        policies: [
+          { category: "session", maxAgeSeconds: 30 * 24 * 60 * 60 },
+          { category: "invitation", maxAgeSeconds: 5 * 24 * 60 * 60 },
+        ],
+        batchSize: 2,
+        clock,
+      });
+
+      const result = unwrapOk(await job.run());
+      assert.deepEqual(result.categories, [
+        { category: "session", occurredBefore: "2024-01-31T00:00:00.000Z", archived: 2, deleted: 2 },
+        { category: "invitation", occurredBefore: "2024-02-25T00:00:00.000Z", archived: 3, deleted: 3 },
+      ]);
+
+      const archivedSessions = (await readFile(join(directory, "session.ndjson"), "utf8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      assert.deepEqual(archivedSessions.map((event) => event.metadata.index), [0, 1]);
+      const archivedInvitations = (await readFile(join(directory, "invitation.ndjson"), "utf8")).trim().split("\n");
+      assert.equal(archivedInvitations.length, 3);
+
+      const remaining = unwrapOk(await auditLog.listEvents());
+      // Events sharing an occurredAt are ordered by their random ids.
+      assert.deepEqual(
+        remaining.map((event) => `${event.category}:${event.metadata.index}`).sort(),
+        ["invitation:3", "session:2", "session:3"],
+      );
+
+      const verification = unwrapOk(await auditLog.verifyChain());
+      assert.equal(verification.valid, true);
+      assert.equal(verification.checkedEvents, 8);
+
+      const next = unwrapOk(await auditLog.appendEvent({ category: "session", action: "created" }));
+      assert.equal(next.sequence, 9);
+      assert.equal(unwrapOk(await auditLog.verifyChain()).valid, true);
+
+      const rerun = unwrapOk(await job.run());
+      assert.deepEqual(
+        rerun.categories.map((category) => category.deleted),
+        [0, 0],
+      );
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+}
+
+test("keeps events when the archive sink fails", async () => {
+  const auditLog = new MemoryAuditLog();
+  await appendEvents(auditLog);
+
+  const job = createAuditRetentionJob({
+    auditLog,
+    sink: { archive: async () => ({ ok: false, error: { code: "sink.down", message: "Sink unavailable" } }) },
+    policies: [{ category: "session", maxAgeSeconds: 60 }],
+    clock,
+  });
+
+  const result = await job.run();
+  assert.equal(result.ok, false);
+  assert.equal(result.error.code, "audit.retention.archive_failed");
+  assert.equal(unwrapOk(await auditLog.listEvents()).length, 8);
+
+  const invalid = await createAuditRetentionJob({
+    auditLog,
+    sink: createFileAuditArchiveSink({ directory: tmpdir() }),
+    policies: [{ category: "session", maxAgeSeconds: 0 }],
+  }).run();
+  assert.equal(invalid.ok, false);
+  assert.equal(invalid.error.code, "audit.retention.invalid_policy");
+});
@@ -52,7 +52,9 @@ test("persists and queries entitlements by subject", async () => {
     "feature:gamma",
   ]);
 
+  assert.equal((await entitlementStore.getEntitlement("ent-membership"))?.entitlement, "feature:gamma");
   await entitlementStore.removeEntitlement("ent-membership");
+  assert.equal(await entitlementStore.getEntitlement("ent-membership"), undefined);
   const afterRemoval = await entitlementStore.listEntitlements({
     subjectKind: "membership",
     subjectId: "m-1",
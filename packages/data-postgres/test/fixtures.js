@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+
+export const unwrapOk = (result) => {
+  assert.equal(result.ok, true, `Expected ok result but received error ${JSON.stringify(result.error)}`);
+  return result.value;
+};
+
+const T0 = Date.parse("2024-01-01T00:00:00.000Z");
+
+/** A clock starting at `T0` that only moves when `advance` is called. */
+export const createClock = () => {
+  let current = T0;
+  return {
+    now: () => new Date(current),
+    advance(seconds) {
+      current += seconds * 1000;
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createTestPostgresDataSource } from "../dist/testing/test-data-source.js";
+
+test("stores invitations and applies each transition at most once", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const { invitationStore } = dataSource;
+
+  const invitation = await invitationStore.createInvitation({
+    id: "inv-1",
+    orgId: "org-1",
+    email: "new@example.com",
+    role: "member",
+    groupIds: ["group-1"],
+    tokenHash: "hash-1",
+    invitedByUserId: "user-1",
+    expiresAt: "2024-01-08T00:00:00.000Z",
+    createdAt: "2024-01-01T00:00:00.000Z",
+  });
+  assert.equal(invitation.status, "pending");
+  assert.deepEqual(invitation.groupIds, ["group-1"]);
+  assert.equal(invitation.sendCount, 1);
+  assert.equal(invitation.sentAt, "2024-01-01T00:00:00.000Z");
+
+  const resent = await invitationStore.transitionInvitation("inv-1", {
+    expectedStatus: "pending",
+    status: "pending",
+    tokenHash: "hash-2",
+    sentAt: "2024-01-02T00:00:00.000Z",
+    sendCount: 2,
+    updatedAt: "2024-01-02T00:00:00.000Z",
+  });
+  assert.equal(resent?.tokenHash, "hash-2");
+  assert.equal(resent?.expiresAt, "2024-01-08T00:00:00.000Z");
+
+  const stale = await invitationStore.transitionInvitation("inv-1", {
+    expectedStatus: "pending",
+    expectedTokenHash: "hash-1",
+    status: "accepted",
+    updatedAt: "2024-01-03T00:00:00.000Z",
+  });
+  assert.equal(stale, undefined);
+
+  const accepted = await invitationStore.transitionInvitation("inv-1", {
+    expectedStatus: "pending",
+    expectedTokenHash: "hash-2",
+    status: "accepted",
+    resolvedAt: "2024-01-03T00:00:00.000Z",
+    resolvedByUserId: "user-2",
+    membershipId: "m-2",
+    updatedAt: "2024-01-03T00:00:00.000Z",
+  });
+  assert.equal(accepted?.status, "accepted");
+  assert.equal(accepted?.resolvedByUserId, "user-2");
+
+  const replayed = await invitationStore.transitionInvitation("inv-1", {
+    expectedStatus: "pending",
+    status: "declined",
+    updatedAt: "2024-01-04T00:00:00.000Z",
+  });
+  assert.equal(replayed, undefined);
+
+  assert.equal((await invitationStore.listInvitations({ orgId: "org-1", status: "accepted" })).length, 1);
+  assert.equal((await invitationStore.listInvitations({ email: "other@example.com" })).length, 0);
+  assert.equal(await invitationStore.getInvitation("missing"), undefined);
+});
@@ -53,6 +53,8 @@ test("stores and retrieves profiles, memberships, and effective identities", asy
     createdAt: "2024-01-01T00:00:00.000Z",
     updatedAt: "2024-01-01T00:00:00.000Z",
   });
+  assert.equal((await profileStore.getGroup("group-1"))?.slug, "engineering");
+  assert.equal((await profileStore.getMembership("m-1"))?.role, "admin");
 
   await entitlementStore.upsertEntitlement({
     id: "ent-1",
@@ -97,6 +99,114 @@ test("stores and retrieves profiles, memberships, and effective identities", asy
   ]);
 });
 
+test("folds ancestor groups into effective identities", async () => {
+  const dataSource = await createTestPostgresDataSource(undefined, { maxGroupDepth: 2 });
+  const { profileStore } = dataSource;
+
+  await profileStore.upsertUserProfile({ ...exampleUser, primaryOrgId: "org-1" });
+  await profileStore.upsertOrgProfile({
+    id: "org-1",
+    slug: "acme",
+    status: "active",
+    ownerUserId: "user-1",
+    profile: { name: "Acme" },
+    labels: {},
+    settings: {},
+  });
+
+  const groups = [
+    { id: "company", parentGroupId: undefined, labels: { tier: "company" } },
+    { id: "engineering", parentGroupId: "company", labels: { department: "eng", tier: "eng" } },
+    { id: "backend", parentGroupId: "engineering", labels: { tier: "backend" } },
+    { id: "payments", parentGroupId: "backend", labels: { oncall: true } },
+    { id: "loop-a", parentGroupId: "loop-b", labels: {} },
+    { id: "loop-b", parentGroupId: "loop-a", labels: {} },
+  ];
+  for (const group of groups) {
+    await profileStore.upsertGroup({ ...group, orgId: "org-1", slug: group.id, name: group.id });
+  }
+
+  await profileStore.upsertMembership({
+    id: "m-1",
+    userId: "user-1",
+    orgId: "org-1",
+    role: "member",
+    groupIds: ["payments", "loop-a"],
+    labelsDelta: {},
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  });
+
+  const identity = await profileStore.computeEffectiveIdentity({ userId: "user-1" });
+  assert.deepEqual(identity.groups, ["payments", "loop-a", "backend", "loop-b", "engineering"]);
+  assert.equal(identity.labels.tier, "backend");
+  assert.equal(identity.labels.department, "eng");
+  assert.equal(identity.labels.oncall, true);
+});
+
+test("expands role definitions into identity scopes and entitlements", async () => {
+  const role = (name, overrides = {}) => ({
+    id: `role-${name}`,
+    orgId: "org-1",
+    name,
+    scopes: [],
+    entitlements: [],
+    labels: {},
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  });
+
+  const dataSource = await createTestPostgresDataSource({
+    users: [{ ...exampleUser, primaryOrgId: "org-1" }],
+    orgs: [
+      {
+        id: "org-1",
+        slug: "acme",
+        status: "active",
+        ownerUserId: "user-1",
+        profile: { name: "Acme" },
+        labels: {},
+        settings: {},
+      },
+    ],
+    roles: [
+      role("member", { scopes: ["documents:read"], entitlements: ["feature:reports"], labels: { tier: "member" } }),
+      role("admin", { description: "Org admins", inherits: "member", scopes: ["org:manage"], labels: { tier: "admin" } }),
+    ],
+    memberships: [
+      {
+        id: "m-1",
+        userId: "user-1",
+        orgId: "org-1",
+        role: "admin",
+        groupIds: [],
+        labelsDelta: {},
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+      },
+    ],
+  });
+  const { profileStore } = dataSource;
+
+  const identity = await profileStore.computeEffectiveIdentity({ userId: "user-1" });
+  assert.deepEqual(identity.roles, ["admin", "member"]);
+  assert.deepEqual(identity.scopes, ["org:manage", "documents:read"]);
+  assert.deepEqual(identity.entitlements, ["feature:reports"]);
+  assert.equal(identity.labels.tier, "admin");
+
+  assert.deepEqual((await profileStore.listRoles("org-1")).map((entry) => entry.name), ["admin", "member"]);
+  assert.equal((await profileStore.getRole("org-1", "admin"))?.description, "Org admins");
+  assert.equal((await profileStore.getRoleById("role-member"))?.name, "member");
+  await assert.rejects(profileStore.upsertRole(role("admin", { id: "role-duplicate" })), { code: "23505" });
+
+  await profileStore.deleteRole("role-member");
+  assert.equal(await profileStore.getRoleById("role-member"), undefined);
+  const reduced = await profileStore.computeEffectiveIdentity({ userId: "user-1" });
+  assert.deepEqual(reduced.roles, ["admin"]);
+  assert.deepEqual(reduced.scopes, ["org:manage"]);
+});
+
 test("validates memberships when computing identities", async () => {
   const dataSource = await createTestPostgresDataSource();
   const { profileStore } = dataSource;
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createTestPostgresDataSource } from "../dist/testing/test-data-source.js";
+
+test("rotates refresh tokens within a family and consumes each token once", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const { refreshTokenStore } = dataSource;
+
+  const family = await refreshTokenStore.createFamily({
+    id: "fam-1",
+    userId: "user-1",
+    clientId: "cli-1",
+    sessionId: "sess-1",
+    scopes: ["read", "write"],
+    createdAt: "2024-01-01T00:00:00.000Z",
+  });
+  assert.deepEqual(family.scopes, ["read", "write"]);
+  assert.equal(family.revokedAt, undefined);
+
+  await refreshTokenStore.issueToken({ id: "rt-1", familyId: "fam-1", issuedAt: "2024-01-01T00:00:00.000Z" });
+  const consumed = await refreshTokenStore.consumeToken("rt-1", "2024-01-01T01:00:00.000Z");
+  assert.equal(consumed?.consumedAt, "2024-01-01T01:00:00.000Z");
+  assert.equal(await refreshTokenStore.consumeToken("rt-1", "2024-01-01T02:00:00.000Z"), undefined);
+
+  const next = await refreshTokenStore.issueToken({
+    id: "rt-2",
+    familyId: "fam-1",
+    parentId: "rt-1",
+    issuedAt: "2024-01-01T01:00:00.000Z",
+  });
+  assert.equal(next.parentId, "rt-1");
+  assert.equal((await refreshTokenStore.getToken("rt-2"))?.consumedAt, undefined);
+
+  const revoked = await refreshTokenStore.revokeFamily("fam-1", "2024-01-01T02:00:00.000Z", "reuse_detected");
+  assert.equal(revoked?.revokedAt, "2024-01-01T02:00:00.000Z");
+  const unchanged = await refreshTokenStore.revokeFamily("fam-1", "2024-01-01T03:00:00.000Z", "manual");
+  assert.equal(unchanged?.revocationReason, "reuse_detected");
+  assert.equal(await refreshTokenStore.revokeFamily("missing", "2024-01-01T03:00:00.000Z"), undefined);
+  assert.equal(await refreshTokenStore.getFamily("missing"), undefined);
+});
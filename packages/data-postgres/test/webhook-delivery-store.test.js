@@ -1,6 +1,7 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 
+import { createPostgresWebhookDeliveryStore } from "../dist/repositories/webhook-repository.js";
 import { createTestPostgresDataSource } from "../dist/testing/test-data-source.js";
 
 const unwrapOk = (result) => {
@@ -91,3 +92,102 @@ test("creates deliveries, updates status, and lists pending items", async () =>
   const afterDelete = unwrapOk(await webhookDeliveryStore.getDelivery(created.id));
   assert.equal(afterDelete, undefined);
 });
+
+test("persists replay lineage on deliveries", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const { webhookSubscriptionStore } = dataSource;
+  const queries = [];
+  const webhookDeliveryStore = createPostgresWebhookDeliveryStore({
+    query: (sql, params) => {
+      queries.push({ sql, params });
+      return dataSource.executor.query(sql, params);
+    },
+  });
+
+  const subscription = unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      eventTypes: ["key.issued"],
+      targetUrl: "https://hooks.example.com/events",
+      secret: "hook-secret",
+    }),
+  );
+  const created = unwrapOk(
+    await webhookDeliveryStore.createDelivery({
+      subscriptionId: subscription.id,
+      eventId: "event-1",
+      status: "dead_lettered",
+      attemptCount: 5,
+      payload: { id: "event-1", type: "key.issued" },
+      errorMessage: "HTTP 500",
+    }),
+  );
+  assert.equal(created.replays, undefined);
+
+  const replay = {
+    replayedAt: "2024-01-02T00:00:00.000Z",
+    trigger: "dead_letter_redrive",
+    previousStatus: "dead_lettered",
+    previousAttemptCount: 5,
+    previousErrorMessage: "HTTP 500",
+  };
+  unwrapOk(
+    await webhookDeliveryStore.updateDelivery(created.id, {
+      status: "pending",
+      attemptCount: 0,
+      errorMessage: null,
+      replays: [replay],
+    }),
+  );
+
+  // node-postgres sends JS arrays as Postgres array literals, so the JSONB column needs serialized JSON.
+  const update = queries.find(({ sql }) => sql.includes("replays = "));
+  const replaysParam = update.params.find((param) => typeof param === "string" && param.startsWith("[{"));
+  assert.deepEqual(JSON.parse(replaysParam), [replay]);
+
+  const fetched = unwrapOk(await webhookDeliveryStore.getDelivery(created.id));
+  assert.equal(fetched.status, "pending");
+  assert.deepEqual(fetched.replays, [replay]);
+});
+
+test("finds the oldest unsettled delivery ahead of one with the same ordering key", async () => {
+  const { webhookSubscriptionStore, webhookDeliveryStore } = await createTestPostgresDataSource();
+  const subscription = unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      eventTypes: ["user.updated"],
+      targetUrl: "https://hooks.example.com/events",
+      secret: "hook-secret",
+    }),
+  );
+  const create = async (id, createdAt, overrides = {}) =>
+    unwrapOk(
+      await webhookDeliveryStore.createDelivery({
+        id,
+        subscriptionId: subscription.id,
+        eventId: `event-${id}`,
+        payload: { id: `event-${id}`, type: "user.updated" },
+        orderingKey: `${subscription.id}:user-1`,
+        createdAt,
+        ...overrides,
+      }),
+    );
+
+  await create("stale", "2024-01-01T00:00:00.000Z", { status: "delivering", updatedAt: "2024-01-01T00:00:01.000Z" });
+  await create("settled", "2024-01-01T00:00:01.000Z", { status: "succeeded" });
+  await create("other-key", "2024-01-01T00:00:02.000Z", { orderingKey: `${subscription.id}:user-2` });
+  const first = await create("first", "2024-01-01T00:00:03.000Z");
+  const second = await create("second", "2024-01-01T00:00:03.000Z");
+  assert.equal(first.orderingKey, `${subscription.id}:user-1`);
+
+  const find = async (delivery, deliveringSince) =>
+    unwrapOk(
+      await webhookDeliveryStore.findOrderingPredecessor({
+        orderingKey: `${subscription.id}:user-1`,
+        delivery,
+        deliveringSince,
+      }),
+    );
+
+  assert.equal((await find(second, "2024-01-01T00:00:00.000Z"))?.id, "stale");
+  assert.equal((await find(second, "2024-01-01T00:05:00.000Z"))?.id, "first");
+  assert.equal(await find(first, "2024-01-01T00:05:00.000Z"), undefined);
+});
@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createWebhookOutboxRelay } from "../dist/outbox/webhook-outbox-relay.js";
+import { createTestPostgresDataSource } from "../dist/testing/test-data-source.js";
+import { unwrapOk } from "./fixtures.js";
+
+const createQueue = (failFor = new Set()) => {
+  const enqueued = [];
+  const jobs = [];
+  return {
+    enqueued,
+    jobs,
+    async enqueue(job) {
+      if (failFor.has(job.deliveryId)) {
+        return { ok: false, error: { code: "queue.unavailable", message: "Queue offline" } };
+      }
+      enqueued.push(job.deliveryId);
+      jobs.push(job);
+      return { ok: true, value: undefined };
+    },
+  };
+};
+
+test("relays outbox events into deliveries for matching subscriptions and enqueues them", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const { webhookSubscriptionStore, transactionManager } = dataSource;
+
+  const orgSubscription = unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      orgId: "org-1",
+      eventTypes: ["key.issued"],
+      targetUrl: "https://hooks.example.com/org-1",
+      secret: "org-secret",
+    }),
+  );
+  unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      orgId: "org-2",
+      eventTypes: ["key.issued"],
+      targetUrl: "https://hooks.example.com/org-2",
+      secret: "other-secret",
+    }),
+  );
+
+  const queued = await transactionManager.runInTransaction(async (_executor, { outbox }) =>
+    unwrapOk(await outbox.enqueue({ eventId: "evt-1", eventType: "key.issued", orgId: "org-1", data: { id: "key-1" } })),
+  );
+  assert.equal(queued.payload.id, "evt-1");
+  assert.equal(queued.relayedAt, undefined);
+
+  const queue = createQueue();
+  const relay = createWebhookOutboxRelay({ transactionManager, queue });
+
+  const firstRun = unwrapOk(await relay.runOnce());
+  assert.equal(firstRun.relayedEvents, 1);
+  assert.deepEqual(
+    firstRun.deliveries.map((delivery) => delivery.subscriptionId),
+    [orgSubscription.id],
+  );
+  assert.ok(firstRun.deliveries.every((delivery) => delivery.status === "pending"));
+  assert.ok(firstRun.deliveries.every((delivery) => delivery.payload.data.id === "key-1"));
+  assert.deepEqual(queue.enqueued, firstRun.deliveries.map((delivery) => delivery.id));
+  assert.deepEqual(firstRun.enqueueFailures, []);
+
+  const secondRun = unwrapOk(await relay.runOnce());
+  assert.equal(secondRun.relayedEvents, 0);
+  assert.equal(secondRun.deliveries.length, 0);
+});
+
+test("enqueues deliveries to ordered subscriptions with their ordering key", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const { webhookSubscriptionStore, transactionManager } = dataSource;
+
+  const ordered = unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      eventTypes: ["membership.*"],
+      ordering: { keyPath: "userId" },
+      targetUrl: "https://hooks.example.com/ordered",
+      secret: "ordered-secret",
+    }),
+  );
+  assert.deepEqual(ordered.ordering, { keyPath: "userId" });
+  const unordered = unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      eventTypes: ["membership.*"],
+      targetUrl: "https://hooks.example.com/unordered",
+      secret: "unordered-secret",
+    }),
+  );
+
+  await transactionManager.runInTransaction(async (_executor, { outbox }) => {
+    unwrapOk(await outbox.enqueue({ eventType: "membership.created", data: { id: "m-1", userId: "user-1" } }));
+    unwrapOk(await outbox.enqueue({ eventType: "membership.removed", data: { id: "m-1" } }));
+  });
+
+  const queue = createQueue();
+  const run = unwrapOk(await createWebhookOutboxRelay({ transactionManager, queue }).runOnce());
+  const keyFor = (subscriptionId, eventType) => {
+    const delivery = run.deliveries.find(
+      (candidate) => candidate.subscriptionId === subscriptionId && candidate.payload.type === eventType,
+    );
+    return queue.jobs.find((job) => job.deliveryId === delivery.id).orderingKey;
+  };
+  assert.equal(keyFor(ordered.id, "membership.created"), `${ordered.id}:user-1`);
+  assert.equal(keyFor(ordered.id, "membership.removed"), undefined);
+  assert.equal(keyFor(unordered.id, "membership.created"), undefined);
+
+  const cleared = unwrapOk(await webhookSubscriptionStore.updateSubscription(ordered.id, { ordering: null }));
+  assert.equal(cleared.ordering, undefined);
+});
+
+test("keeps deliveries the queue rejects pending for polling workers", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const { webhookSubscriptionStore, webhookDeliveryStore, transactionManager } = dataSource;
+
+  unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      eventTypes: ["session.ended"],
+      targetUrl: "https://hooks.example.com/sessions",
+      secret: "session-secret",
+    }),
+  );
+  await transactionManager.runInTransaction(async (_executor, { outbox }) =>
+    unwrapOk(await outbox.enqueue({ eventType: "session.ended", data: { id: "session-1" } })),
+  );
+
+  const rejected = new Set();
+  const queue = createQueue(rejected);
+  const relay = createWebhookOutboxRelay({
+    transactionManager,
+    queue: {
+      enqueue: async (job) => {
+        rejected.add(job.deliveryId);
+        return queue.enqueue(job);
+      },
+    },
+  });
+
+  const run = unwrapOk(await relay.runOnce());
+  assert.equal(run.deliveries.length, 1);
+  assert.equal(run.enqueueFailures.length, 1);
+  assert.equal(run.enqueueFailures[0].deliveryId, run.deliveries[0].id);
+  assert.equal(run.enqueueFailures[0].error.code, "queue.unavailable");
+
+  const pending = unwrapOk(await webhookDeliveryStore.listPendingDeliveries());
+  assert.deepEqual(pending.map((delivery) => delivery.id), [run.deliveries[0].id]);
+});
+
+test("rejects invalid outbox events and batch sizes", async () => {
+  const dataSource = await createTestPostgresDataSource();
+
+  const result = await dataSource.webhookOutbox.enqueue({ eventType: " ", data: {} });
+  assert.equal(result.ok, false);
+  assert.equal(result.error.code, "webhook.outbox.invalid_event_type");
+
+  const relay = createWebhookOutboxRelay({ transactionManager: dataSource.transactionManager, batchSize: 0 });
+  const run = await relay.runOnce();
+  assert.equal(run.ok, false);
+  assert.equal(run.error.code, "webhook.outbox.invalid_batch_size");
+});
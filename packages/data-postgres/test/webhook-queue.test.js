@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createPostgresWebhookQueue } from "../dist/queue/postgres-webhook-queue.js";
+import { createTestPostgresDataSource } from "../dist/testing/test-data-source.js";
+import { createClock, unwrapOk } from "./fixtures.js";
+
+const createQueue = async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const clock = createClock();
+  let nextId = 1;
+  const queue = createPostgresWebhookQueue(dataSource.executor, {
+    clock,
+    idFactory: () => `job-${nextId++}`,
+    autoPoll: false,
+  });
+  return { queue, clock };
+};
+
+/** Consumes with a handler that settles each message with the next scripted action. */
+const consumeWith = async (queue, settle, options) => {
+  const seen = [];
+  unwrapOk(
+    await queue.consume(async (handle) => {
+      seen.push({ ...handle.message });
+      await settle(handle);
+    }, options),
+  );
+  return seen;
+};
+
+test("delays messages, retries them with a new delay, and dead-letters them", async () => {
+  const { queue, clock } = await createQueue();
+  unwrapOk(await queue.enqueue({ deliveryId: "del-1" }, { delaySeconds: 10, metadata: { source: "relay" } }));
+
+  const outcomes = [
+    (handle) => handle.retry({ delaySeconds: 30, nextAttempt: 2, metadata: { reason: "HTTP 500" } }),
+    (handle) => handle.deadLetter({ reason: "HTTP 500", attempts: 2, deadLetterUri: "https://dlq.example.com" }),
+  ];
+  const seen = await consumeWith(queue, (handle) => outcomes.shift()(handle));
+
+  assert.equal(unwrapOk(await queue.pollOnce()), 0);
+  clock.advance(10);
+  assert.equal(unwrapOk(await queue.pollOnce()), 1);
+  assert.deepEqual(seen[0], {
+    id: "job-1",
+    deliveryId: "del-1",
+    attempt: 1,
+    enqueuedAt: "2024-01-01T00:00:00.000Z",
+    metadata: { source: "relay" },
+    orderingKey: undefined,
+  });
+
+  clock.advance(29);
+  assert.equal(unwrapOk(await queue.pollOnce()), 0);
+  clock.advance(1);
+  assert.equal(unwrapOk(await queue.pollOnce()), 1);
+  assert.equal(seen[1].attempt, 2);
+  assert.deepEqual(seen[1].metadata, { source: "relay", reason: "HTTP 500" });
+
+  assert.deepEqual(unwrapOk(await queue.listDeadLetters()), [
+    {
+      id: "job-1",
+      deliveryId: "del-1",
+      attempt: 2,
+      attempts: 2,
+      reason: "HTTP 500",
+      deadLetterUri: "https://dlq.example.com",
+      metadata: { source: "relay", reason: "HTTP 500" },
+      enqueuedAt: "2024-01-01T00:00:10.000Z",
+      deadLetteredAt: "2024-01-01T00:00:40.000Z",
+    },
+  ]);
+  clock.advance(3600);
+  assert.equal(unwrapOk(await queue.pollOnce()), 0);
+  await queue.close();
+});
+
+test("hands out unsettled messages again after the visibility timeout and rejects the stale lease", async () => {
+  const { queue, clock } = await createQueue();
+  unwrapOk(await queue.enqueue({ deliveryId: "del-1" }));
+
+  const handles = [];
+  unwrapOk(
+    await queue.consume(
+      async (handle) => {
+        handles.push(handle);
+      },
+      { concurrency: 2, visibilityTimeoutSeconds: 60 },
+    ),
+  );
+
+  assert.equal(unwrapOk(await queue.pollOnce()), 1);
+  clock.advance(59);
+  assert.equal(unwrapOk(await queue.pollOnce()), 0);
+  clock.advance(1);
+  assert.equal(unwrapOk(await queue.pollOnce()), 1);
+  assert.deepEqual(
+    handles.map((handle) => handle.message.id),
+    ["job-1", "job-1"],
+  );
+
+  const stale = await handles[0].ack();
+  assert.equal(stale.ok, false);
+  assert.equal(stale.error.code, "webhook.queue.postgres.lease_lost");
+  unwrapOk(await handles[1].ack());
+
+  clock.advance(3600);
+  assert.equal(unwrapOk(await queue.pollOnce()), 0);
+  await queue.close();
+});
+
+test("limits claims to the free concurrency", async () => {
+  const { queue } = await createQueue();
+  for (const deliveryId of ["del-1", "del-2", "del-3"]) {
+    unwrapOk(await queue.enqueue({ deliveryId }));
+  }
+  const seen = await consumeWith(queue, (handle) => handle.ack(), { concurrency: 2 });
+
+  assert.equal(unwrapOk(await queue.pollOnce()), 2);
+  assert.equal(unwrapOk(await queue.pollOnce()), 1);
+  assert.deepEqual(
+    seen.map((message) => message.deliveryId),
+    ["del-1", "del-2", "del-3"],
+  );
+
+  const second = await queue.consume(async () => undefined);
+  assert.equal(second.ok, false);
+  assert.equal(second.error.code, "webhook.queue.postgres.already_consuming");
+  await queue.close();
+});
+
+test("hands out messages sharing an ordering key one at a time, keeping retries in place", async () => {
+  const { queue, clock } = await createQueue();
+  unwrapOk(await queue.enqueue({ deliveryId: "del-a", orderingKey: "sub-1:user-1" }));
+  unwrapOk(await queue.enqueue({ deliveryId: "del-b", orderingKey: "sub-1:user-1" }));
+  unwrapOk(await queue.enqueue({ deliveryId: "del-c", orderingKey: "sub-1:user-2" }));
+
+  let failFirst = true;
+  const seen = await consumeWith(
+    queue,
+    (handle) => {
+      if (handle.message.deliveryId === "del-a" && failFirst) {
+        failFirst = false;
+        return handle.retry({ delaySeconds: 30, nextAttempt: 2 });
+      }
+      return handle.ack();
+    },
+    { concurrency: 5 },
+  );
+
+  assert.equal(unwrapOk(await queue.pollOnce()), 2);
+  clock.advance(30);
+  assert.equal(unwrapOk(await queue.pollOnce()), 1);
+  assert.equal(unwrapOk(await queue.pollOnce()), 1);
+  assert.deepEqual(
+    seen.map((message) => `${message.deliveryId}#${message.attempt}`),
+    ["del-a#1", "del-c#1", "del-a#2", "del-b#1"],
+  );
+  assert.equal(seen[3].orderingKey, "sub-1:user-1");
+  await queue.close();
+});
@@ -1,6 +1,7 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 
+import { createPostgresWebhookSubscriptionStore } from "../dist/repositories/webhook-repository.js";
 import { createTestPostgresDataSource } from "../dist/testing/test-data-source.js";
 
 const unwrapOk = (result) => {
@@ -86,3 +87,84 @@ test("rejects subscriptions without event types", async () => {
   assert.equal(update.ok, false);
   assert.equal(update.error.code, "webhook.postgres.event_types_required");
 });
+
+test("stores filters and lists wildcard subscriptions for matching event types", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  const { webhookSubscriptionStore } = dataSource;
+
+  const wildcard = unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      eventTypes: ["membership.*"],
+      filters: { data: { orgId: "org-1" } },
+      targetUrl: "https://example.com/memberships",
+      secret: "memberships",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    }),
+  );
+  assert.deepEqual(wildcard.filters, { data: { orgId: "org-1" } });
+
+  const catchAll = unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      eventTypes: ["*"],
+      targetUrl: "https://example.com/all",
+      secret: "all",
+      createdAt: "2024-01-01T00:00:01.000Z",
+    }),
+  );
+  unwrapOk(
+    await webhookSubscriptionStore.createSubscription({
+      eventTypes: ["key.*"],
+      targetUrl: "https://example.com/keys",
+      secret: "keys",
+    }),
+  );
+
+  const listed = unwrapOk(await webhookSubscriptionStore.listSubscriptions({ eventType: "membership.created" }));
+  assert.deepEqual(
+    listed.map((subscription) => subscription.id),
+    [wildcard.id, catchAll.id],
+  );
+
+  const cleared = unwrapOk(await webhookSubscriptionStore.updateSubscription(wildcard.id, { filters: null }));
+  assert.equal(cleared.filters, undefined);
+});
+
+test("rotates secrets and drops the previous secret once the overlap ends", async () => {
+  const dataSource = await createTestPostgresDataSource();
+  let now = new Date("2024-01-01T00:00:00.000Z");
+  const store = createPostgresWebhookSubscriptionStore(dataSource.executor, {
+    tables: dataSource.tables,
+    clock: { now: () => now },
+  });
+
+  const created = unwrapOk(
+    await store.createSubscription({
+      eventTypes: ["user.created"],
+      targetUrl: "https://example.com/rotate",
+      secret: "secret-1",
+    }),
+  );
+  assert.equal(created.previousSecret, undefined);
+
+  const rotated = unwrapOk(
+    await store.rotateSecret(created.id, {
+      secret: "secret-2",
+      previousSecretExpiresAt: "2024-01-02T00:00:00.000Z",
+    }),
+  );
+  assert.equal(rotated.secret, "secret-2");
+  assert.deepEqual(rotated.previousSecret, { secret: "secret-1", expiresAt: "2024-01-02T00:00:00.000Z" });
+  assert.equal(rotated.updatedAt, "2024-01-01T00:00:00.000Z");
+
+  now = new Date("2024-01-02T00:00:00.000Z");
+  const expired = unwrapOk(await store.getSubscription(created.id));
+  assert.equal(expired?.secret, "secret-2");
+  assert.equal(expired?.previousSecret, undefined);
+
+  const missing = await store.rotateSecret("missing", {
+    secret: "secret-3",
+    previousSecretExpiresAt: "2024-01-03T00:00:00.000Z",
+  });
+  assert.equal(missing.ok, false);
+  assert.equal(missing.error.code, "webhook.postgres.not_found");
+});
@@ -0,0 +1,144 @@
+import {
+  JwksKeyResolver,
+  createRemoteJwksLoader,
+  decodeJwt,
+  matchesAudience,
+  toStringArray,
+  verifyJwtSignature,
+  type JwtAlgorithm,
+} from "./jwks.js";
+
+export type AccessTokenAlgorithm = JwtAlgorithm;
+
+export type AccessTokenVerification =
+  | {
+      readonly status: "verified";
+      readonly subject: string;
+      readonly claims: Record<string, unknown>;
+      readonly expiresAt?: string;
+    }
+  | { readonly status: "invalid"; readonly reason: string }
+  | { readonly status: "unverifiable"; readonly reason: "opaque_token" | "unknown_key" | "jwks_unavailable" };
+
+export interface AccessTokenVerifier {
+  verify(token: string): Promise<AccessTokenVerification>;
+}
+
+export interface JwksAccessTokenVerifierOptions {
+  readonly jwksUri: string;
+  readonly issuer: string | ReadonlyArray<string>;
+  readonly audience?: string | ReadonlyArray<string>;
+  readonly algorithms?: ReadonlyArray<AccessTokenAlgorithm>;
+  readonly clockToleranceSeconds?: number;
+  readonly jwksCacheTtlSeconds?: number;
+  readonly jwksRefreshCooldownSeconds?: number;
+  readonly fetch?: typeof fetch;
+  readonly now?: () => Date;
+}
+
+const DEFAULT_ALGORITHMS: ReadonlyArray<AccessTokenAlgorithm> = ["RS256", "EdDSA"];
+const DEFAULT_JWKS_CACHE_TTL_SECONDS = 300;
+const DEFAULT_JWKS_REFRESH_COOLDOWN_SECONDS = 30;
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 30;
+
+/**
+ * Verifies JWT access tokens locally against the identity provider's JWKS so the forward-auth hot path
+ * avoids an introspection round trip. Tokens that cannot be checked locally (opaque tokens or tokens
+ * signed by a key missing from the JWKS) are reported as `unverifiable` so callers can fall back to
+ * `IdpAdapterPort.validateAccessToken`.
+ */
+export class JwksAccessTokenVerifier implements AccessTokenVerifier {
+  private readonly issuers: ReadonlySet<string>;
+  private readonly audiences?: ReadonlySet<string>;
+  private readonly algorithms: ReadonlySet<AccessTokenAlgorithm>;
+  private readonly clockToleranceMs: number;
+  private readonly keys: JwksKeyResolver;
+  private readonly now: () => Date;
+
+  constructor(options: JwksAccessTokenVerifierOptions) {
+    if (!options.jwksUri) {
+      throw new Error("JwksAccessTokenVerifier requires a jwksUri");
+    }
+    const issuers = toStringArray(options.issuer);
+    if (issuers.length === 0) {
+      throw new Error("JwksAccessTokenVerifier requires at least one issuer");
+    }
+
+    this.issuers = new Set(issuers);
+    const audiences = toStringArray(options.audience);
+    this.audiences = audiences.length > 0 ? new Set(audiences) : undefined;
+    this.algorithms = new Set(options.algorithms ?? DEFAULT_ALGORITHMS);
+    this.clockToleranceMs = Math.max(0, options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS) * 1000;
+    this.now = options.now ?? (() => new Date());
+    this.keys = new JwksKeyResolver({
+      load: createRemoteJwksLoader(options.jwksUri, options.fetch ?? fetch),
+      cacheTtlSeconds: options.jwksCacheTtlSeconds ?? DEFAULT_JWKS_CACHE_TTL_SECONDS,
+      refreshCooldownSeconds: options.jwksRefreshCooldownSeconds ?? DEFAULT_JWKS_REFRESH_COOLDOWN_SECONDS,
+      now: this.now,
+    });
+  }
+
+  async verify(token: string): Promise<AccessTokenVerification> {
+    const decoded = decodeJwt<Record<string, unknown>>(token);
+    if (!decoded) {
+      return { status: "unverifiable", reason: "opaque_token" };
+    }
+
+    if (!this.algorithms.has(decoded.algorithm as AccessTokenAlgorithm)) {
+      return { status: "invalid", reason: "unsupported_algorithm" };
+    }
+    const algorithm = decoded.algorithm as AccessTokenAlgorithm;
+
+    const key = await this.keys.resolve(algorithm, decoded.keyId);
+    if (!key.ok) {
+      return { status: "unverifiable", reason: key.reason };
+    }
+
+    if (!verifyJwtSignature(algorithm, decoded.signingInput, decoded.signature, key.key)) {
+      return { status: "invalid", reason: "invalid_signature" };
+    }
+
+    return this.validateClaims(decoded.claims);
+  }
+
+  private validateClaims(claims: Record<string, unknown>): AccessTokenVerification {
+    if (typeof claims.iss !== "string" || !this.issuers.has(claims.iss)) {
+      return { status: "invalid", reason: "invalid_issuer" };
+    }
+
+    if (this.audiences && !matchesAudience(claims.aud, this.audiences)) {
+      return { status: "invalid", reason: "invalid_audience" };
+    }
+
+    const nowMs = this.now().getTime();
+    if (typeof claims.exp !== "number") {
+      return { status: "invalid", reason: "missing_expiry" };
+    }
+    if (claims.exp * 1000 + this.clockToleranceMs <= nowMs) {
+      return { status: "invalid", reason: "token_expired" };
+    }
+    if (claims.nbf !== undefined) {
+      if (typeof claims.nbf !== "number") {
+        return { status: "invalid", reason: "malformed_claims" };
+      }
+      if (claims.nbf * 1000 - this.clockToleranceMs > nowMs) {
+        return { status: "invalid", reason: "token_not_yet_valid" };
+      }
+    }
+
+    if (typeof claims.sub !== "string" || claims.sub.length === 0) {
+      return { status: "invalid", reason: "missing_subject" };
+    }
+
+    return {
+      status: "verified",
+      subject: claims.sub,
+      claims,
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+    };
+  }
+}
+
+export const createJwksAccessTokenVerifier = (
+  options: JwksAccessTokenVerifierOptions,
+): AccessTokenVerifier => new JwksAccessTokenVerifier(options);
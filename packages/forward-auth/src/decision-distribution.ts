@@ -1,6 +1,10 @@
 import { createPrivateKey, createPublicKey, type KeyObject } from "node:crypto";
 
-import type { ForwardAuthRequest, ForwardAuthResponse } from "./types.js";
+import type { CachePort } from "@catalyst-auth/contracts";
+
+import type { DecisionJwtVerifier } from "./decision-verifier.js";
+import type { PublicJwk } from "./jwks.js";
+import type { DecisionCacheEntry, ForwardAuthLogger, ForwardAuthRequest, ForwardAuthResponse } from "./types.js";
 
 export interface DecisionCacheWarmerOptions {
   readonly fetch: typeof fetch;
@@ -35,6 +39,17 @@ export interface DecisionJwksResponseOptions {
   readonly cacheControlSeconds?: number;
 }
 
+export interface DecisionKeyRotationEvent {
+  readonly tokenType: string;
+  readonly keyId: string;
+}
+
+export interface DecisionKeyRotationHandlerOptions {
+  readonly verifier?: Pick<DecisionJwtVerifier, "refreshKeys">;
+  readonly decisionCache?: CachePort<DecisionCacheEntry>;
+  readonly logger?: ForwardAuthLogger;
+}
+
 export const createDecisionCacheWarmer = (options: DecisionCacheWarmerOptions) =>
   async (): Promise<DecisionCacheWarmResult[]> => {
     const results: DecisionCacheWarmResult[] = [];
@@ -93,6 +108,28 @@ export const createDecisionJwksResponse = (
   return new Response(JSON.stringify(jwks), { status: 200, headers });
 };
 
+/**
+ * Builds a listener for `JwtService.onKeyRotation` that reloads decision verification keys and purges
+ * decisions cached under the previous signer.
+ */
+export const createDecisionKeyRotationHandler = (options: DecisionKeyRotationHandlerOptions) =>
+  async (event: DecisionKeyRotationEvent): Promise<void> => {
+    if (event.tokenType !== "decision") {
+      return;
+    }
+    try {
+      await options.verifier?.refreshKeys();
+    } catch (error) {
+      options.logger?.warn?.("Failed to refresh decision keys after rotation", error);
+    }
+    try {
+      await options.decisionCache?.purgeByTag?.("decision-jwt");
+    } catch (error) {
+      options.logger?.warn?.("Failed to purge decision cache after rotation", error);
+    }
+    options.logger?.info?.("Decision signing key rotated", { keyId: event.keyId });
+  };
+
 export interface ForwardAuthLike {
   handle(request: ForwardAuthRequest): Promise<ForwardAuthResponse>;
 }
@@ -131,10 +168,10 @@ const buildCacheControl = (seconds: number): string => `public, max-age=${Math.m
 
 const ensureLeadingSlash = (path: string): string => (path.startsWith("/") ? path : `/${path}`);
 
-const toPublicJwk = (input: DecisionJwkInput): Record<string, unknown> => {
+export const toPublicJwk = (input: DecisionJwkInput): PublicJwk => {
   const keyObject = toKeyObject(input.privateKey);
   const publicKey = keyObject.type === "private" ? createPublicKey(keyObject) : keyObject;
-  const exported = publicKey.export({ format: "jwk" }) as Record<string, unknown>;
+  const exported = publicKey.export({ format: "jwk" }) as PublicJwk;
   return {
     ...exported,
     use: "sig",
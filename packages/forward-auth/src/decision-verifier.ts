@@ -0,0 +1,213 @@
+import type { CachePort, DecisionTokenClaims, ResourceDescriptor } from "@catalyst-auth/contracts";
+
+import { toPublicJwk, type DecisionJwkInput } from "./decision-distribution.js";
+import {
+  JwksKeyResolver,
+  createRemoteJwksLoader,
+  decodeJwt,
+  matchesAudience,
+  toStringArray,
+  verifyJwtSignature,
+  type JwksLoader,
+  type JwtAlgorithm,
+} from "./jwks.js";
+
+export interface DecisionRevocationEntry {
+  readonly jti: string;
+  readonly revokedAt: string;
+  readonly reason?: string;
+}
+
+export interface DecisionJwtExpectation {
+  readonly action: string;
+  readonly resource?: ResourceDescriptor;
+}
+
+export type DecisionJwtVerification =
+  | { readonly status: "verified"; readonly claims: DecisionTokenClaims }
+  | { readonly status: "invalid"; readonly reason: string };
+
+export interface DecisionRevocationOptions {
+  readonly expiresAt?: string;
+  readonly reason?: string;
+}
+
+export interface DecisionJwtVerifier {
+  verify(token: string, expected: DecisionJwtExpectation): Promise<DecisionJwtVerification>;
+  revoke(jti: string, options?: DecisionRevocationOptions): Promise<void>;
+  isRevoked(jti: string): Promise<boolean>;
+  refreshKeys(): Promise<void>;
+}
+
+export interface DecisionJwtVerifierOptions {
+  readonly issuer: string | ReadonlyArray<string>;
+  readonly audience?: string | ReadonlyArray<string>;
+  /** Signing keys as passed to `createDecisionJwksResponse`; only the derived public keys are used. */
+  readonly keys?: ReadonlyArray<DecisionJwkInput>;
+  /** Remote JWKS endpoint, typically the route serving `createDecisionJwksResponse`. */
+  readonly jwksUri?: string;
+  readonly fetch?: typeof fetch;
+  readonly jwksCacheTtlSeconds?: number;
+  readonly jwksRefreshCooldownSeconds?: number;
+  readonly revocationCache?: CachePort<DecisionRevocationEntry>;
+  readonly revocationKeyPrefix?: string;
+  readonly clockToleranceSeconds?: number;
+  readonly now?: () => Date;
+}
+
+const SUPPORTED_ALGORITHMS: ReadonlySet<string> = new Set<JwtAlgorithm>(["RS256", "EdDSA"]);
+const DEFAULT_REVOCATION_PREFIX = "forward-auth:decision-revoked";
+const DEFAULT_JWKS_CACHE_TTL_SECONDS = 300;
+const DEFAULT_JWKS_REFRESH_COOLDOWN_SECONDS = 30;
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 5;
+
+/**
+ * Verifies decision JWTs before the forward-auth service honours a cached decision. Tokens must be signed by
+ * a published decision key, carry `token_type: "decision"`, and be bound to the action and resource of the
+ * current request so a decision minted for one route cannot be replayed against another.
+ */
+export class JwksDecisionJwtVerifier implements DecisionJwtVerifier {
+  private readonly issuers: ReadonlySet<string>;
+  private readonly audiences?: ReadonlySet<string>;
+  private readonly keys: JwksKeyResolver;
+  private readonly revocationCache?: CachePort<DecisionRevocationEntry>;
+  private readonly revocationKeyPrefix: string;
+  private readonly clockToleranceMs: number;
+  private readonly now: () => Date;
+
+  constructor(options: DecisionJwtVerifierOptions) {
+    const issuers = toStringArray(options.issuer);
+    if (issuers.length === 0) {
+      throw new Error("DecisionJwtVerifier requires at least one issuer");
+    }
+
+    this.issuers = new Set(issuers);
+    const audiences = toStringArray(options.audience);
+    this.audiences = audiences.length > 0 ? new Set(audiences) : undefined;
+    this.revocationCache = options.revocationCache;
+    this.revocationKeyPrefix = options.revocationKeyPrefix ?? DEFAULT_REVOCATION_PREFIX;
+    this.clockToleranceMs = Math.max(0, options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS) * 1000;
+    this.now = options.now ?? (() => new Date());
+    this.keys = new JwksKeyResolver({
+      load: resolveLoader(options),
+      cacheTtlSeconds: options.jwksCacheTtlSeconds ?? DEFAULT_JWKS_CACHE_TTL_SECONDS,
+      refreshCooldownSeconds: options.jwksRefreshCooldownSeconds ?? DEFAULT_JWKS_REFRESH_COOLDOWN_SECONDS,
+      now: this.now,
+    });
+  }
+
+  async verify(token: string, expected: DecisionJwtExpectation): Promise<DecisionJwtVerification> {
+    const decoded = decodeJwt<Partial<DecisionTokenClaims>>(token);
+    if (!decoded) {
+      return { status: "invalid", reason: "malformed_token" };
+    }
+
+    if (!SUPPORTED_ALGORITHMS.has(decoded.algorithm)) {
+      return { status: "invalid", reason: "unsupported_algorithm" };
+    }
+    const algorithm = decoded.algorithm as JwtAlgorithm;
+
+    const key = await this.keys.resolve(algorithm, decoded.keyId);
+    if (!key.ok) {
+      return { status: "invalid", reason: key.reason };
+    }
+    if (!verifyJwtSignature(algorithm, decoded.signingInput, decoded.signature, key.key)) {
+      return { status: "invalid", reason: "invalid_signature" };
+    }
+
+    const claims = decoded.claims;
+    const claimsFailure = this.validateClaims(claims, expected);
+    if (claimsFailure) {
+      return { status: "invalid", reason: claimsFailure };
+    }
+
+    if (await this.isRevoked(claims.jti as string)) {
+      return { status: "invalid", reason: "decision_revoked" };
+    }
+
+    return { status: "verified", claims: claims as DecisionTokenClaims };
+  }
+
+  async revoke(jti: string, options: DecisionRevocationOptions = {}): Promise<void> {
+    if (!this.revocationCache) {
+      throw new Error("DecisionJwtVerifier requires a revocationCache to revoke decisions");
+    }
+    const nowMs = this.now().getTime();
+    const ttlSeconds = options.expiresAt
+      ? Math.max(1, Math.ceil((new Date(options.expiresAt).getTime() - nowMs + this.clockToleranceMs) / 1000))
+      : undefined;
+    const entry: DecisionRevocationEntry = {
+      jti,
+      revokedAt: new Date(nowMs).toISOString(),
+      ...(options.reason ? { reason: options.reason } : {}),
+    };
+    await this.revocationCache.set(this.revocationKey(jti), entry, {
+      ttlSeconds,
+      tags: ["decision-revocation"],
+    });
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    if (!this.revocationCache) {
+      return false;
+    }
+    const entry = await this.revocationCache.get(this.revocationKey(jti));
+    return entry !== undefined;
+  }
+
+  async refreshKeys(): Promise<void> {
+    await this.keys.refresh();
+  }
+
+  private validateClaims(
+    claims: Partial<DecisionTokenClaims>,
+    expected: DecisionJwtExpectation,
+  ): string | undefined {
+    if (claims.token_type !== "decision") {
+      return "invalid_token_type";
+    }
+    if (typeof claims.iss !== "string" || !this.issuers.has(claims.iss)) {
+      return "invalid_issuer";
+    }
+    if (this.audiences && !matchesAudience(claims.aud, this.audiences)) {
+      return "invalid_audience";
+    }
+    if (typeof claims.exp !== "number") {
+      return "missing_expiry";
+    }
+    if (claims.exp * 1000 + this.clockToleranceMs <= this.now().getTime()) {
+      return "decision_expired";
+    }
+    if (typeof claims.jti !== "string" || claims.jti.length === 0) {
+      return "missing_jti";
+    }
+    if (claims.action !== expected.action) {
+      return "action_mismatch";
+    }
+    if (
+      claims.resource?.type !== expected.resource?.type ||
+      claims.resource?.id !== expected.resource?.id
+    ) {
+      return "resource_mismatch";
+    }
+    return undefined;
+  }
+
+  private revocationKey(jti: string): string {
+    return `${this.revocationKeyPrefix}:${jti}`;
+  }
+}
+
+export const createDecisionJwtVerifier = (options: DecisionJwtVerifierOptions): DecisionJwtVerifier =>
+  new JwksDecisionJwtVerifier(options);
+
+const resolveLoader = (options: DecisionJwtVerifierOptions): JwksLoader => {
+  if (options.keys && options.keys.length > 0) {
+    const jwks = { keys: options.keys.map(toPublicJwk) };
+    return () => jwks;
+  }
+  if (options.jwksUri) {
+    return createRemoteJwksLoader(options.jwksUri, options.fetch ?? fetch);
+  }
+  throw new Error("DecisionJwtVerifier requires signing keys or a jwksUri");
+};
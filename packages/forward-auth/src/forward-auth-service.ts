@@ -8,12 +8,15 @@ import type {
   KeyStorePort,
   PolicyDecision,
   PolicyEnginePort,
+  PolicyEvaluationInput,
   SessionRecord,
   SessionDescriptor,
   SessionStorePort,
   SessionTouchUpdate,
 } from "@catalyst-auth/contracts";
 
+import type { AccessTokenVerifier } from "./access-token-verifier.js";
+import type { DecisionJwtExpectation, DecisionJwtVerifier } from "./decision-verifier.js";
 import type {
   DecisionCacheEntry,
   ForwardAuthConfig,
@@ -38,7 +41,9 @@ export class ForwardAuthService {
   private readonly idp: IdpAdapterPort;
   private readonly policyEngine: PolicyEnginePort;
   private readonly keyStore?: KeyStorePort;
+  private readonly accessTokenVerifier?: AccessTokenVerifier;
   private readonly cache?: CachePort<DecisionCacheEntry>;
+  private readonly decisionVerifier?: DecisionJwtVerifier;
   private readonly auditLog?: AuditLogPort;
   private readonly sessionStore?: SessionStorePort;
   private readonly logger?: ForwardAuthLogger;
@@ -48,6 +53,7 @@ export class ForwardAuthService {
   private readonly buildResource?: ForwardAuthConfig["buildResource"];
   private readonly buildEnvironment?: ForwardAuthConfig["buildEnvironment"];
   private readonly hashApiKey?: ForwardAuthConfig["hashApiKey"];
+  private readonly explainDenials: boolean;
   private readonly now: () => Date;
 
   constructor(dependencies: {
@@ -57,11 +63,14 @@ export class ForwardAuthService {
     this.idp = dependencies.idp;
     this.policyEngine = dependencies.policyEngine;
     this.keyStore = config.keyStore;
+    this.accessTokenVerifier = config.accessTokenVerifier;
     this.cache = config.decisionCache;
+    this.decisionVerifier = config.decisionVerifier;
     this.auditLog = config.auditLog;
     this.sessionStore = config.sessionStore;
     this.logger = config.logger;
     this.hashApiKey = config.hashApiKey ?? defaultHashApiKey;
+    this.explainDenials = config.explainDenials ?? false;
     this.decisionTtlSeconds = Math.max(
       1,
       config.decisionCacheTtlSeconds ?? DEFAULT_DECISION_TTL_SECONDS,
@@ -75,7 +84,11 @@ export class ForwardAuthService {
 
   async handle(request: ForwardAuthRequest): Promise<ForwardAuthResponse> {
     const headers = normalizeHeaders(request.headers);
-    const cached = await this.tryResolveCachedDecision(headers["x-decision-jwt"]);
+    const action =
+      request.action ?? this.buildAction?.(request) ?? `${request.method.toUpperCase()} ${request.path}`;
+    const resource = request.resource ?? this.buildResource?.(request);
+
+    const cached = await this.tryResolveCachedDecision(headers["x-decision-jwt"], { action, resource });
     if (cached) {
       return cached;
     }
@@ -97,19 +110,12 @@ export class ForwardAuthService {
 
     const identity = identityResult.identity;
     await this.ensureSessionRecord(identity, headers);
-    const action =
-      request.action ?? this.buildAction?.(request) ?? `${request.method.toUpperCase()} ${request.path}`;
-    const resource = request.resource ?? this.buildResource?.(request);
 
     const environmentFromBuilder = this.buildEnvironment?.(request, identity);
     const environment = mergeEnvironment(environmentFromBuilder, request.environment);
 
-    const policyResult = await this.policyEngine.evaluate({
-      identity,
-      action,
-      resource,
-      environment,
-    });
+    const evaluationInput: PolicyEvaluationInput = { identity, action, resource, environment };
+    const policyResult = await this.policyEngine.evaluate(evaluationInput);
 
     if (!policyResult.ok) {
       this.logger?.error?.("Policy evaluation failed", policyResult.error);
@@ -118,7 +124,8 @@ export class ForwardAuthService {
 
     const decision = policyResult.value;
     if (!decision.allow) {
-      return this.forbidden(decision.reason ?? "policy_denied", decision.obligations);
+      const denied = this.forbidden(decision.reason ?? "policy_denied", decision.obligations);
+      return this.explainDenials ? this.attachPolicyTrace(denied, evaluationInput) : denied;
     }
 
     const response = this.buildAllowResponse(identity, decision);
@@ -127,6 +134,37 @@ export class ForwardAuthService {
   }
 
   private async resolveAccessTokenIdentity(token: string, orgId?: string): Promise<IdentityResolution> {
+    const subjectResult = await this.resolveAccessTokenSubject(token);
+    if (!subjectResult.ok) {
+      return subjectResult;
+    }
+
+    const identityResult = await this.idp.buildEffectiveIdentity(subjectResult.subject, orgId);
+    if (!identityResult.ok) {
+      this.logger?.error?.("Failed to build effective identity", identityResult.error);
+      return { ok: false, response: this.failure("identity_resolution_error", 502, identityResult.error.message) };
+    }
+
+    return { ok: true, identity: identityResult.value };
+  }
+
+  private async resolveAccessTokenSubject(
+    token: string,
+  ): Promise<{ readonly ok: true; readonly subject: string } | { readonly ok: false; readonly response: ForwardAuthResponse }> {
+    if (this.accessTokenVerifier) {
+      const verification = await this.accessTokenVerifier.verify(token);
+      if (verification.status === "verified") {
+        return { ok: true, subject: verification.subject };
+      }
+      if (verification.status === "invalid") {
+        this.logger?.debug?.("Access token rejected by local verification", verification.reason);
+        return { ok: false, response: this.unauthorized(verification.reason) };
+      }
+      if (verification.reason === "jwks_unavailable") {
+        this.logger?.warn?.("JWKS unavailable, falling back to access token introspection");
+      }
+    }
+
     const validationResult = await this.idp.validateAccessToken(token);
     if (!validationResult.ok) {
       this.logger?.error?.("Access token validation failed", validationResult.error);
@@ -138,13 +176,7 @@ export class ForwardAuthService {
       return { ok: false, response: this.unauthorized("inactive_token") };
     }
 
-    const identityResult = await this.idp.buildEffectiveIdentity(validation.subject, orgId);
-    if (!identityResult.ok) {
-      this.logger?.error?.("Failed to build effective identity", identityResult.error);
-      return { ok: false, response: this.failure("identity_resolution_error", 502, identityResult.error.message) };
-    }
-
-    return { ok: true, identity: identityResult.value };
+    return { ok: true, subject: validation.subject };
   }
 
   private async resolveApiKeyIdentity(secret: string, orgId?: string): Promise<IdentityResolution> {
@@ -265,11 +297,21 @@ export class ForwardAuthService {
     }
   }
 
-  private async tryResolveCachedDecision(token?: string): Promise<ForwardAuthResponse | undefined> {
+  private async tryResolveCachedDecision(
+    token: string | undefined,
+    expected: DecisionJwtExpectation,
+  ): Promise<ForwardAuthResponse | undefined> {
     if (!token || !this.cache) {
       return undefined;
     }
     const cacheKey = this.cacheKey(token);
+    if (this.decisionVerifier) {
+      const verification = await this.decisionVerifier.verify(token, expected);
+      if (verification.status !== "verified") {
+        this.logger?.debug?.("Ignoring decision JWT that failed verification", verification.reason);
+        return undefined;
+      }
+    }
     const cached = await this.cache.get(cacheKey);
     if (!cached) {
       return undefined;
@@ -401,6 +443,28 @@ export class ForwardAuthService {
     return { status: 200, headers };
   }
 
+  private async attachPolicyTrace(
+    response: ForwardAuthResponse,
+    input: PolicyEvaluationInput,
+  ): Promise<ForwardAuthResponse> {
+    if (!this.policyEngine.explain) {
+      return response;
+    }
+    const explanation = await this.policyEngine.explain(input);
+    if (!explanation.ok) {
+      this.logger?.warn?.("Policy explanation failed", explanation.error);
+      return response;
+    }
+    const trace = {
+      defaultApplied: explanation.value.defaultApplied,
+      rules: explanation.value.rules,
+    };
+    return {
+      ...response,
+      headers: { ...response.headers, "x-forward-auth-policy-trace": JSON.stringify(trace) },
+    };
+  }
+
   private unauthorized(reason: string): ForwardAuthResponse {
     return { status: 401, headers: { "x-forward-auth-error": reason } };
   }
@@ -1,5 +1,28 @@
 export { ForwardAuthService, defaultHashApiKey } from "./forward-auth-service.js";
 export { createForwardAuthFetchHandler } from "./forward-auth-fetch-handler.js";
+export {
+  JwksAccessTokenVerifier,
+  createJwksAccessTokenVerifier,
+} from "./access-token-verifier.js";
+export type {
+  AccessTokenAlgorithm,
+  AccessTokenVerification,
+  AccessTokenVerifier,
+  JwksAccessTokenVerifierOptions,
+} from "./access-token-verifier.js";
+export {
+  JwksDecisionJwtVerifier,
+  createDecisionJwtVerifier,
+} from "./decision-verifier.js";
+export type {
+  DecisionJwtExpectation,
+  DecisionJwtVerification,
+  DecisionJwtVerifier,
+  DecisionJwtVerifierOptions,
+  DecisionRevocationEntry,
+  DecisionRevocationOptions,
+} from "./decision-verifier.js";
+export type { JwtAlgorithm, PublicJwk, PublicJwks } from "./jwks.js";
 export type {
   ForwardAuthRequest,
   ForwardAuthResponse,
@@ -14,6 +37,7 @@ export { buildTraefikForwardAuthConfig } from "./traefik-config.js";
 export {
   createDecisionCacheWarmer,
   createDecisionJwksResponse,
+  createDecisionKeyRotationHandler,
   warmDecisionsWithService,
 } from "./decision-distribution.js";
 export type {
@@ -27,6 +51,8 @@ export type {
   DecisionWarmRequest,
   DecisionJwkInput,
   DecisionJwksResponseOptions,
+  DecisionKeyRotationEvent,
+  DecisionKeyRotationHandlerOptions,
   ForwardAuthLike,
 } from "./decision-distribution.js";
 export {
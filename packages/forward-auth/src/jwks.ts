@@ -0,0 +1,209 @@
+import { createPublicKey, createVerify, verify as nodeVerify, type KeyObject } from "node:crypto";
+
+export type JwtAlgorithm = "RS256" | "EdDSA";
+
+export interface PublicJwk {
+  readonly kty: string;
+  readonly kid?: string;
+  readonly alg?: string;
+  readonly use?: string;
+  readonly [parameter: string]: unknown;
+}
+
+export interface PublicJwks {
+  readonly keys: ReadonlyArray<PublicJwk>;
+}
+
+export type JwksLoader = () => Promise<PublicJwks | undefined> | PublicJwks | undefined;
+
+export type JwksKeyResolution =
+  | { readonly ok: true; readonly key: KeyObject }
+  | { readonly ok: false; readonly reason: "unknown_key" | "jwks_unavailable" };
+
+export interface DecodedJwt<TClaims> {
+  readonly algorithm: string;
+  readonly keyId?: string;
+  readonly claims: TClaims;
+  readonly signingInput: Uint8Array;
+  readonly signature: Uint8Array;
+}
+
+interface JwksKeyResolverOptions {
+  readonly load: JwksLoader;
+  readonly cacheTtlSeconds: number;
+  readonly refreshCooldownSeconds: number;
+  readonly now: () => Date;
+}
+
+interface CachedKeySet {
+  readonly keys: ReadonlyArray<PublicJwk>;
+  readonly loadedAt: number;
+}
+
+/**
+ * Caches a JWKS document and resolves verification keys by algorithm and `kid`. Unknown key ids trigger a
+ * rate-limited reload so rotated keys are picked up without hammering the JWKS endpoint.
+ */
+export class JwksKeyResolver {
+  private readonly load: JwksLoader;
+  private readonly cacheTtlMs: number;
+  private readonly refreshCooldownMs: number;
+  private readonly now: () => Date;
+  private readonly publicKeys = new Map<string, KeyObject>();
+  private cached?: CachedKeySet;
+  private inflight?: Promise<CachedKeySet | undefined>;
+
+  constructor(options: JwksKeyResolverOptions) {
+    this.load = options.load;
+    this.cacheTtlMs = Math.max(0, options.cacheTtlSeconds) * 1000;
+    this.refreshCooldownMs = Math.max(0, options.refreshCooldownSeconds) * 1000;
+    this.now = options.now;
+  }
+
+  async resolve(algorithm: JwtAlgorithm, keyId: string | undefined): Promise<JwksKeyResolution> {
+    const nowMs = this.now().getTime();
+    let keySet = this.cached && nowMs - this.cached.loadedAt < this.cacheTtlMs ? this.cached : undefined;
+    keySet = keySet ?? (await this.refresh());
+    if (!keySet) {
+      return { ok: false, reason: "jwks_unavailable" };
+    }
+
+    let jwk = selectKey(keySet.keys, algorithm, keyId);
+    if (!jwk && nowMs - keySet.loadedAt >= this.refreshCooldownMs) {
+      // An unknown kid usually means the signer rotated keys since our last fetch.
+      const refreshed = await this.refresh();
+      jwk = refreshed ? selectKey(refreshed.keys, algorithm, keyId) : undefined;
+    }
+    if (!jwk) {
+      return { ok: false, reason: "unknown_key" };
+    }
+
+    const key = this.importKey(jwk);
+    return key ? { ok: true, key } : { ok: false, reason: "unknown_key" };
+  }
+
+  refresh(): Promise<CachedKeySet | undefined> {
+    if (!this.inflight) {
+      this.inflight = this.loadKeySet().finally(() => {
+        this.inflight = undefined;
+      });
+    }
+    return this.inflight;
+  }
+
+  private async loadKeySet(): Promise<CachedKeySet | undefined> {
+    try {
+      const jwks = await this.load();
+      if (!jwks || !Array.isArray(jwks.keys)) {
+        return this.cached;
+      }
+      this.publicKeys.clear();
+      this.cached = { keys: jwks.keys, loadedAt: this.now().getTime() };
+      return this.cached;
+    } catch {
+      return this.cached;
+    }
+  }
+
+  private importKey(jwk: PublicJwk): KeyObject | undefined {
+    const cacheKey = JSON.stringify(jwk);
+    const existing = this.publicKeys.get(cacheKey);
+    if (existing) {
+      return existing;
+    }
+    try {
+      const key = createPublicKey({ key: jwk, format: "jwk" });
+      this.publicKeys.set(cacheKey, key);
+      return key;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export const createRemoteJwksLoader = (jwksUri: string, fetchFn: typeof fetch): JwksLoader => async () => {
+  const response = await fetchFn(jwksUri, { headers: { accept: "application/json" } });
+  if (!response.ok) {
+    return undefined;
+  }
+  return (await response.json()) as PublicJwks;
+};
+
+export const decodeJwt = <TClaims>(token: string): DecodedJwt<TClaims> | undefined => {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    return undefined;
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<{ readonly alg?: unknown; readonly kid?: unknown }>(encodedHeader);
+  const claims = decodeSegment<TClaims>(encodedPayload);
+  if (!header || typeof header.alg !== "string" || !claims) {
+    return undefined;
+  }
+
+  return {
+    algorithm: header.alg,
+    keyId: typeof header.kid === "string" ? header.kid : undefined,
+    claims,
+    signingInput: Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    signature: Buffer.from(encodedSignature, "base64url"),
+  };
+};
+
+export const verifyJwtSignature = (
+  algorithm: JwtAlgorithm,
+  data: Uint8Array,
+  signature: Uint8Array,
+  key: KeyObject,
+): boolean => {
+  try {
+    if (algorithm === "RS256") {
+      const verifier = createVerify("RSA-SHA256");
+      verifier.update(data);
+      verifier.end();
+      return verifier.verify(key, signature);
+    }
+    return nodeVerify(null, data, key, signature);
+  } catch {
+    return false;
+  }
+};
+
+export const matchesAudience = (claim: unknown, expected: ReadonlySet<string>): boolean => {
+  const audiences = typeof claim === "string" ? [claim] : Array.isArray(claim) ? claim : [];
+  return audiences.some((audience) => typeof audience === "string" && expected.has(audience));
+};
+
+export const toStringArray = (value: string | ReadonlyArray<string> | undefined): ReadonlyArray<string> => {
+  if (value === undefined) {
+    return [];
+  }
+  return (typeof value === "string" ? [value] : [...value]).filter((entry) => entry.length > 0);
+};
+
+const selectKey = (
+  keys: ReadonlyArray<PublicJwk>,
+  algorithm: JwtAlgorithm,
+  keyId: string | undefined,
+): PublicJwk | undefined => {
+  const candidates = keys.filter(
+    (key) => (!key.use || key.use === "sig") && (!key.alg || key.alg === algorithm) && matchesKeyType(key, algorithm),
+  );
+  if (keyId) {
+    return candidates.find((key) => key.kid === keyId);
+  }
+  return candidates.length === 1 ? candidates[0] : undefined;
+};
+
+const matchesKeyType = (key: PublicJwk, algorithm: JwtAlgorithm): boolean =>
+  algorithm === "RS256" ? key.kty === "RSA" : key.kty === "OKP";
+
+const decodeSegment = <T>(segment: string): T | undefined => {
+  try {
+    const parsed = JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as unknown;
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? (parsed as T) : undefined;
+  } catch {
+    return undefined;
+  }
+};
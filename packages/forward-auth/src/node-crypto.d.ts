@@ -9,11 +9,26 @@ declare module "node:crypto" {
     export(options: { readonly format: string }): Record<string, unknown>;
   }
 
+  export interface Verify {
+    update(data: string | Uint8Array): Verify;
+    end(): void;
+    verify(key: KeyObject | string | Uint8Array, signature: Uint8Array): boolean;
+  }
+
   export function createHash(algorithm: string): Hash;
   export function createPrivateKey(
     key: string | Uint8Array | { readonly key: string | Uint8Array; readonly format?: string; readonly type?: string },
   ): KeyObject;
-  export function createPublicKey(key: KeyObject | string | Uint8Array): KeyObject;
+  export function createPublicKey(
+    key: KeyObject | string | Uint8Array | { readonly key: Record<string, unknown>; readonly format: "jwk" },
+  ): KeyObject;
+  export function createVerify(algorithm: string): Verify;
+  export function verify(
+    algorithm: string | null,
+    data: Uint8Array,
+    key: KeyObject | string | Uint8Array,
+    signature: Uint8Array,
+  ): boolean;
 }
 
 declare interface Buffer extends Uint8Array {
@@ -7,6 +7,9 @@ import type {
   SessionStorePort,
 } from "@catalyst-auth/contracts";
 
+import type { AccessTokenVerifier } from "./access-token-verifier.js";
+import type { DecisionJwtVerifier } from "./decision-verifier.js";
+
 export interface DecisionCacheEntry {
   readonly headers: Record<string, string>;
   readonly expiresAt: string;
@@ -39,10 +42,25 @@ export interface ForwardAuthConfig {
   readonly decisionCache?: CachePort<DecisionCacheEntry>;
   readonly decisionCacheKeyPrefix?: string;
   readonly decisionCacheTtlSeconds?: number;
+  /**
+   * Verifies signature, audience, action/resource binding and revocation status of `x-decision-jwt`
+   * headers before a cached decision is honoured. Without it cached decisions are looked up by token only.
+   */
+  readonly decisionVerifier?: DecisionJwtVerifier;
   readonly keyStore?: KeyStorePort;
+  /**
+   * Verifies JWT access tokens locally before falling back to identity provider introspection.
+   * Opaque tokens and tokens signed with an unknown key are still validated by the identity provider.
+   */
+  readonly accessTokenVerifier?: AccessTokenVerifier;
   readonly auditLog?: AuditLogPort;
   readonly sessionStore?: SessionStorePort;
   readonly hashApiKey?: (secret: string) => Promise<string> | string;
+  /**
+   * Attaches the policy engine's rule-by-rule explanation to denied responses in `x-forward-auth-policy-trace`.
+   * Intended for debugging; the trace exposes rule ids and conditions to whoever receives the response.
+   */
+  readonly explainDenials?: boolean;
   readonly logger?: ForwardAuthLogger;
   readonly now?: () => Date;
   readonly buildAction?: (request: ForwardAuthRequest) => string;
@@ -0,0 +1,192 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createPublicKey, createSign, generateKeyPairSync, sign } from "node:crypto";
+
+import { ForwardAuthService, createJwksAccessTokenVerifier } from "@catalyst-auth/forward-auth";
+
+const ok = (value) => ({ ok: true, value });
+
+const NOW = new Date("2024-01-01T00:00:00.000Z");
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+const ISSUER = "https://idp.example.com";
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const signToken = ({ algorithm, privateKey, keyId }, claims) => {
+  const header = encode({ alg: algorithm, typ: "JWT", ...(keyId ? { kid: keyId } : {}) });
+  const payload = encode(claims);
+  const input = Buffer.from(`${header}.${payload}`);
+  const signature =
+    algorithm === "RS256"
+      ? createSign("RSA-SHA256").update(input).sign(privateKey)
+      : sign(null, input, privateKey);
+  return `${header}.${payload}.${Buffer.from(signature).toString("base64url")}`;
+};
+
+const createSigner = (algorithm, keyId) => {
+  const { privateKey } =
+    algorithm === "RS256" ? generateKeyPairSync("rsa", { modulusLength: 2048 }) : generateKeyPairSync("ed25519");
+  const jwk = { ...createPublicKey(privateKey).export({ format: "jwk" }), kid: keyId, alg: algorithm, use: "sig" };
+  return { algorithm, privateKey, keyId, jwk };
+};
+
+const createJwksFetch = (initialKeys) => {
+  const state = { keys: initialKeys, calls: 0 };
+  const fetch = async () => {
+    state.calls += 1;
+    return new Response(JSON.stringify({ keys: state.keys }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  };
+  return { state, fetch };
+};
+
+const baseClaims = (overrides = {}) => ({
+  iss: ISSUER,
+  sub: "user-1",
+  aud: "forward-auth",
+  iat: NOW_SECONDS,
+  exp: NOW_SECONDS + 300,
+  ...overrides,
+});
+
+test("verifies RS256 and EdDSA access tokens against the JWKS", async () => {
+  const rsa = createSigner("RS256", "rsa-1");
+  const ed = createSigner("EdDSA", "ed-1");
+  const jwks = createJwksFetch([rsa.jwk, ed.jwk]);
+  const verifier = createJwksAccessTokenVerifier({
+    jwksUri: "https://idp.example.com/jwks",
+    issuer: ISSUER,
+    audience: "forward-auth",
+    fetch: jwks.fetch,
+    now: () => NOW,
+  });
+
+  const rsaResult = await verifier.verify(signToken(rsa, baseClaims()));
+  assert.equal(rsaResult.status, "verified");
+  assert.equal(rsaResult.subject, "user-1");
+  assert.equal(rsaResult.expiresAt, new Date((NOW_SECONDS + 300) * 1000).toISOString());
+
+  const edResult = await verifier.verify(signToken(ed, baseClaims({ sub: "user-2" })));
+  assert.equal(edResult.status, "verified");
+  assert.equal(edResult.subject, "user-2");
+  assert.equal(jwks.state.calls, 1, "JWKS should be fetched once and cached");
+});
+
+test("rejects tokens with invalid signatures or claims", async () => {
+  const signer = createSigner("EdDSA", "ed-1");
+  const impostor = createSigner("EdDSA", "ed-1");
+  const jwks = createJwksFetch([signer.jwk]);
+  const verifier = createJwksAccessTokenVerifier({
+    jwksUri: "https://idp.example.com/jwks",
+    issuer: ISSUER,
+    audience: ["forward-auth"],
+    clockToleranceSeconds: 30,
+    fetch: jwks.fetch,
+    now: () => NOW,
+  });
+
+  const cases = [
+    [signToken(impostor, baseClaims()), "invalid_signature"],
+    [signToken(signer, baseClaims({ iss: "https://evil.example.com" })), "invalid_issuer"],
+    [signToken(signer, baseClaims({ aud: ["other"] })), "invalid_audience"],
+    [signToken(signer, baseClaims({ exp: NOW_SECONDS - 31 })), "token_expired"],
+    [signToken(signer, baseClaims({ nbf: NOW_SECONDS + 31 })), "token_not_yet_valid"],
+  ];
+
+  for (const [token, reason] of cases) {
+    const result = await verifier.verify(token);
+    assert.deepEqual(result, { status: "invalid", reason });
+  }
+
+  const withinSkew = await verifier.verify(signToken(signer, baseClaims({ exp: NOW_SECONDS - 10 })));
+  assert.equal(withinSkew.status, "verified");
+});
+
+test("refreshes the JWKS when an unknown kid is presented", async () => {
+  const original = createSigner("RS256", "rsa-1");
+  const rotated = createSigner("RS256", "rsa-2");
+  const jwks = createJwksFetch([original.jwk]);
+  let now = NOW;
+  const verifier = createJwksAccessTokenVerifier({
+    jwksUri: "https://idp.example.com/jwks",
+    issuer: ISSUER,
+    jwksRefreshCooldownSeconds: 10,
+    fetch: jwks.fetch,
+    now: () => now,
+  });
+
+  assert.equal((await verifier.verify(signToken(original, baseClaims()))).status, "verified");
+
+  jwks.state.keys = [original.jwk, rotated.jwk];
+  const rotatedToken = signToken(rotated, baseClaims());
+  assert.deepEqual(await verifier.verify(rotatedToken), { status: "unverifiable", reason: "unknown_key" });
+  assert.equal(jwks.state.calls, 1, "refresh should respect the cooldown");
+
+  now = new Date(NOW.getTime() + 11_000);
+  assert.equal((await verifier.verify(rotatedToken)).status, "verified");
+  assert.equal(jwks.state.calls, 2);
+});
+
+test("forward auth skips introspection for locally verified tokens and falls back for opaque tokens", async () => {
+  const signer = createSigner("EdDSA", "ed-1");
+  const jwks = createJwksFetch([signer.jwk]);
+  const introspected = [];
+
+  const idp = {
+    async validateAccessToken(token) {
+      introspected.push(token);
+      return ok({ active: true, subject: "user-opaque" });
+    },
+    async buildEffectiveIdentity(userId) {
+      return ok({ userId, groups: [], labels: {}, roles: [], entitlements: [], scopes: [] });
+    },
+  };
+  const policyEngine = {
+    async evaluate() {
+      return ok({ allow: true });
+    },
+  };
+
+  const service = new ForwardAuthService(
+    { idp, policyEngine },
+    {
+      now: () => NOW,
+      accessTokenVerifier: createJwksAccessTokenVerifier({
+        jwksUri: "https://idp.example.com/jwks",
+        issuer: ISSUER,
+        audience: "forward-auth",
+        fetch: jwks.fetch,
+        now: () => NOW,
+      }),
+    },
+  );
+
+  const verified = await service.handle({
+    method: "GET",
+    path: "/space",
+    headers: { authorization: `Bearer ${signToken(signer, baseClaims())}` },
+  });
+  assert.equal(verified.status, 200);
+  assert.equal(verified.headers["x-user-sub"], "user-1");
+  assert.deepEqual(introspected, []);
+
+  const opaque = await service.handle({
+    method: "GET",
+    path: "/space",
+    headers: { authorization: "Bearer opaque-token" },
+  });
+  assert.equal(opaque.status, 200);
+  assert.equal(opaque.headers["x-user-sub"], "user-opaque");
+  assert.deepEqual(introspected, ["opaque-token"]);
+
+  const expired = await service.handle({
+    method: "GET",
+    path: "/space",
+    headers: { authorization: `Bearer ${signToken(signer, baseClaims({ exp: NOW_SECONDS - 600 }))}` },
+  });
+  assert.equal(expired.status, 401);
+  assert.equal(expired.headers["x-forward-auth-error"], "token_expired");
+  assert.deepEqual(introspected, ["opaque-token"]);
+});
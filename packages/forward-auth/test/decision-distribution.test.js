@@ -5,6 +5,7 @@ import { generateKeyPairSync } from "node:crypto";
 import {
   createDecisionCacheWarmer,
   createDecisionJwksResponse,
+  createDecisionKeyRotationHandler,
   warmDecisionsWithService,
 } from "@catalyst-auth/forward-auth";
 
@@ -87,3 +88,30 @@ test("warms decisions directly via service handle", async () => {
   assert.equal(handled[1].method, "post");
   assert.equal(results[1].decisionJwt, "decision-2");
 });
+
+test("refreshes decision keys and purges cached decisions on rotation", async () => {
+  const calls = [];
+  const handler = createDecisionKeyRotationHandler({
+    verifier: {
+      async refreshKeys() {
+        calls.push("refresh");
+      },
+    },
+    decisionCache: {
+      async get() {
+        return undefined;
+      },
+      async set() {},
+      async delete() {},
+      async purgeByTag(tag) {
+        calls.push(`purge:${tag}`);
+      },
+    },
+  });
+
+  await handler({ tokenType: "access", keyId: "access-2" });
+  assert.deepEqual(calls, []);
+
+  await handler({ tokenType: "decision", keyId: "decision-2" });
+  assert.deepEqual(calls, ["refresh", "purge:decision-jwt"]);
+});
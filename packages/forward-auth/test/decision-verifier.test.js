@@ -0,0 +1,192 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign } from "node:crypto";
+
+import {
+  ForwardAuthService,
+  createDecisionJwksResponse,
+  createDecisionJwtVerifier,
+} from "@catalyst-auth/forward-auth";
+
+const ok = (value) => ({ ok: true, value });
+
+const NOW = new Date("2024-01-01T00:00:00.000Z");
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+const ISSUER = "https://auth.example.com";
+
+const createCacheStub = () => {
+  const store = new Map();
+  return {
+    store,
+    async get(key) {
+      return store.get(key)?.value;
+    },
+    async set(key, value, options) {
+      store.set(key, { value, options });
+    },
+    async delete(key) {
+      store.delete(key);
+    },
+  };
+};
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const signDecision = (privateKey, claims, keyId = "decision-1") => {
+  const header = encode({ alg: "EdDSA", typ: "JWT", kid: keyId });
+  const payload = encode(claims);
+  const signature = sign(null, Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${Buffer.from(signature).toString("base64url")}`;
+};
+
+const decisionClaims = (overrides = {}) => ({
+  iss: ISSUER,
+  sub: "user-1",
+  aud: "traefik",
+  action: "GET /space",
+  groups: [],
+  roles: [],
+  entitlements: [],
+  scopes: [],
+  labels: {},
+  token_type: "decision",
+  iat: NOW_SECONDS,
+  exp: NOW_SECONDS + 60,
+  jti: "decision-jti-1",
+  ...overrides,
+});
+
+test("verifies decision JWTs against published keys and bound claims", async () => {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  const verifier = createDecisionJwtVerifier({
+    issuer: ISSUER,
+    audience: "traefik",
+    keys: [{ algorithm: "EdDSA", privateKey, keyId: "decision-1" }],
+    now: () => NOW,
+  });
+  const expected = { action: "GET /space" };
+
+  const verified = await verifier.verify(signDecision(privateKey, decisionClaims()), expected);
+  assert.equal(verified.status, "verified");
+  assert.equal(verified.claims.jti, "decision-jti-1");
+
+  const { privateKey: otherKey } = generateKeyPairSync("ed25519");
+  const cases = [
+    [signDecision(otherKey, decisionClaims()), expected, "invalid_signature"],
+    [signDecision(privateKey, decisionClaims({ token_type: "access" })), expected, "invalid_token_type"],
+    [signDecision(privateKey, decisionClaims({ aud: "other" })), expected, "invalid_audience"],
+    [signDecision(privateKey, decisionClaims({ exp: NOW_SECONDS - 60 })), expected, "decision_expired"],
+    [signDecision(privateKey, decisionClaims()), { action: "POST /space" }, "action_mismatch"],
+    [
+      signDecision(privateKey, decisionClaims({ resource: { type: "http", id: "/space" } })),
+      { action: "GET /space", resource: { type: "http", id: "/admin" } },
+      "resource_mismatch",
+    ],
+    [signDecision(privateKey, decisionClaims(), "unknown"), expected, "unknown_key"],
+    ["decision.jwt", expected, "malformed_token"],
+  ];
+
+  for (const [token, expectation, reason] of cases) {
+    assert.deepEqual(await verifier.verify(token, expectation), { status: "invalid", reason });
+  }
+});
+
+test("loads decision keys from the JWKS endpoint", async () => {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  let fetches = 0;
+  const verifier = createDecisionJwtVerifier({
+    issuer: ISSUER,
+    jwksUri: "http://forward-auth:3001/decision/jwks",
+    fetch: async () => {
+      fetches += 1;
+      return createDecisionJwksResponse({
+        keys: [{ algorithm: "EdDSA", privateKey, keyId: "decision-1" }],
+      });
+    },
+    now: () => NOW,
+  });
+
+  const result = await verifier.verify(signDecision(privateKey, decisionClaims()), { action: "GET /space" });
+  assert.equal(result.status, "verified");
+  assert.equal(fetches, 1);
+});
+
+test("rejects revoked decision JWTs stored in the revocation cache", async () => {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  const revocationCache = createCacheStub();
+  const verifier = createDecisionJwtVerifier({
+    issuer: ISSUER,
+    keys: [{ algorithm: "EdDSA", privateKey, keyId: "decision-1" }],
+    revocationCache,
+    now: () => NOW,
+  });
+  const token = signDecision(privateKey, decisionClaims());
+
+  assert.equal((await verifier.verify(token, { action: "GET /space" })).status, "verified");
+
+  await verifier.revoke("decision-jti-1", {
+    expiresAt: new Date((NOW_SECONDS + 60) * 1000).toISOString(),
+    reason: "membership_removed",
+  });
+  const stored = revocationCache.store.get("forward-auth:decision-revoked:decision-jti-1");
+  assert.equal(stored.value.reason, "membership_removed");
+  assert.equal(stored.options.ttlSeconds, 65);
+  assert.equal(await verifier.isRevoked("decision-jti-1"), true);
+
+  assert.deepEqual(await verifier.verify(token, { action: "GET /space" }), {
+    status: "invalid",
+    reason: "decision_revoked",
+  });
+});
+
+test("forward auth only honours cached decisions for the route they were minted for", async () => {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  const cache = createCacheStub();
+  const token = signDecision(privateKey, decisionClaims());
+  await cache.set(`forward-auth:decision:${token}`, {
+    headers: { "x-user-sub": "user-1" },
+    expiresAt: new Date((NOW_SECONDS + 60) * 1000).toISOString(),
+  });
+
+  const idp = {
+    async validateAccessToken() {
+      throw new Error("cached decisions should not reach the identity provider");
+    },
+  };
+  const policyEngine = {
+    async evaluate() {
+      throw new Error("cached decisions should not reach the policy engine");
+    },
+  };
+
+  const service = new ForwardAuthService(
+    { idp, policyEngine },
+    {
+      decisionCache: cache,
+      now: () => NOW,
+      decisionVerifier: createDecisionJwtVerifier({
+        issuer: ISSUER,
+        audience: "traefik",
+        keys: [{ algorithm: "EdDSA", privateKey, keyId: "decision-1" }],
+        now: () => NOW,
+      }),
+    },
+  );
+
+  const cached = await service.handle({
+    method: "get",
+    path: "/space",
+    headers: { "x-decision-jwt": token },
+  });
+  assert.equal(cached.status, 200);
+  assert.equal(cached.headers["x-user-sub"], "user-1");
+  assert.equal(cached.headers["x-decision-jwt"], token);
+
+  const replayed = await service.handle({
+    method: "get",
+    path: "/admin",
+    headers: { "x-decision-jwt": token },
+  });
+  assert.equal(replayed.status, 401);
+  assert.equal(replayed.headers["x-forward-auth-error"], "missing_credentials");
+});
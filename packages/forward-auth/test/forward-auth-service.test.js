@@ -303,6 +303,59 @@ test("returns forbidden when policy denies", async () => {
   assert.strictEqual(response.headers["x-forward-auth-error"], "nope");
 });
 
+test("attaches policy traces to denied responses when explainDenials is enabled", async () => {
+  const idp = {
+    async validateAccessToken() {
+      return ok({ active: true, subject: "user-1" });
+    },
+    async buildEffectiveIdentity() {
+      return ok({ userId: "user-1", groups: [], labels: {}, roles: [], entitlements: [], scopes: [] });
+    },
+  };
+
+  const explained = [];
+  const rules = [
+    {
+      index: 0,
+      ruleId: "admins",
+      effect: "allow",
+      actionMatched: true,
+      resourceMatched: true,
+      conditionsMatched: false,
+      failedCondition: "anyRoles",
+      matched: false,
+      selected: false,
+    },
+  ];
+  const policyEngine = {
+    async evaluate() {
+      return ok({ allow: false, reason: "policy.default.deny" });
+    },
+    async explain(input) {
+      explained.push(input);
+      return ok({ decision: { allow: false, reason: "policy.default.deny" }, rules, defaultApplied: true });
+    },
+  };
+
+  const request = { method: "get", path: "/admin", headers: { authorization: "Bearer token" } };
+
+  const silent = await new ForwardAuthService({ idp, policyEngine }).handle(request);
+  assert.strictEqual(silent.status, 403);
+  assert.strictEqual(silent.headers["x-forward-auth-policy-trace"], undefined);
+  assert.strictEqual(explained.length, 0);
+
+  const service = new ForwardAuthService({ idp, policyEngine }, { explainDenials: true });
+  const response = await service.handle(request);
+
+  assert.strictEqual(response.status, 403);
+  assert.strictEqual(response.headers["x-forward-auth-error"], "policy.default.deny");
+  assert.deepStrictEqual(JSON.parse(response.headers["x-forward-auth-policy-trace"]), {
+    defaultApplied: true,
+    rules,
+  });
+  assert.strictEqual(explained[0].action, "GET /admin");
+});
+
 test("exchanges API keys for merged identities and records usage", async () => {
   const dataSource = await createTestPostgresDataSource();
   const keySecret = "key-secret";
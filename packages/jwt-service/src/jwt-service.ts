@@ -1,62 +1,87 @@
-import { createPrivateKey, createSign, randomUUID, sign as nodeSign, type KeyObject } from "node:crypto";
+import {
+  createSign,
+  createVerify,
+  randomUUID,
+  sign as nodeSign,
+  verify as nodeVerify,
+  type KeyObject,
+} from "node:crypto";
 
 import {
   err,
   ok,
+  type AccessTokenClaims,
+  type ActorClaim,
+  type AuditCheckpointClaims,
+  type AuditCheckpointSignerPort,
   type CatalystError,
+  type DecisionTokenClaims,
   type JwtDescriptor,
   type MintAccessTokenInput,
   type MintDecisionJwtInput,
   type MintRefreshTokenInput,
+  type RefreshTokenClaims,
   type Result,
   type TokenPair,
   type TokenServicePort,
+  type VerifyTokenOptions,
 } from "@catalyst-auth/contracts";
 
+import { SignerKeyring, parseInstant, type NormalizedSignerConfig } from "./keyring.js";
 import type {
   AccessTokenOptions,
+  AuditCheckpointTokenOptions,
   DecisionTokenOptions,
   JwtServiceOptions,
+  KeyringSignerConfig,
+  PublishedSigner,
   RefreshTokenOptions,
+  RotateSignerOptions,
+  SignedTokenType,
   SupportedTokenAlgorithm,
-  TokenSignerConfig,
+  SigningKeyRotationEvent,
+  SigningKeyRotationListener,
 } from "./types.js";
 
 const DEFAULT_DECISION_TTL_SECONDS = 55;
 const DEFAULT_ACCESS_TTL_SECONDS = 900;
 const DEFAULT_REFRESH_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
-
-interface NormalizedSignerConfig {
-  readonly algorithm: SupportedTokenAlgorithm;
-  readonly key: KeyObject;
-  readonly keyId?: string;
-}
+const DEFAULT_AUDIT_CHECKPOINT_TTL_SECONDS = 60 * 60 * 24 * 365 * 10; // 10 years
+const DEFAULT_CLOCK_SKEW_SECONDS = 30;
 
 interface NormalizedDecisionConfig {
-  readonly signer: NormalizedSignerConfig;
+  readonly keyring: SignerKeyring;
   readonly audience?: string | ReadonlyArray<string>;
   readonly defaultTtlSeconds: number;
 }
 
 interface NormalizedAccessConfig {
-  readonly signer: NormalizedSignerConfig;
+  readonly keyring: SignerKeyring;
   readonly audience?: string | ReadonlyArray<string>;
   readonly defaultTtlSeconds: number;
   readonly scopeClaim: "scope" | "scopes";
 }
 
 interface NormalizedRefreshConfig {
-  readonly signer: NormalizedSignerConfig;
+  readonly keyring: SignerKeyring;
+  readonly defaultTtlSeconds: number;
+}
+
+interface NormalizedAuditConfig {
+  readonly keyring: SignerKeyring;
   readonly defaultTtlSeconds: number;
 }
 
-export class JwtService implements TokenServicePort {
+export class JwtService implements TokenServicePort, AuditCheckpointSignerPort {
   private readonly issuer: string;
   private readonly decision?: NormalizedDecisionConfig;
   private readonly access?: NormalizedAccessConfig;
   private readonly refresh?: NormalizedRefreshConfig;
+  private readonly audit?: NormalizedAuditConfig;
   private readonly now: () => Date;
   private readonly jtiFactory: () => string;
+  private readonly clockSkewSeconds: number;
+  private readonly rotationListeners = new Set<SigningKeyRotationListener>();
 
   constructor(options: JwtServiceOptions) {
     if (!options.issuer || options.issuer.trim().length === 0) {
@@ -67,8 +92,13 @@ export class JwtService implements TokenServicePort {
     this.decision = options.decision ? normalizeDecisionOptions(options.decision) : undefined;
     this.access = options.access ? normalizeAccessOptions(options.access) : undefined;
     this.refresh = options.refresh ? normalizeRefreshOptions(options.refresh) : undefined;
+    this.audit = options.audit ? normalizeAuditOptions(options.audit) : undefined;
     this.now = options.now ?? (() => new Date());
     this.jtiFactory = options.jtiFactory ?? randomUUID;
+    this.clockSkewSeconds = Math.max(0, options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS);
+    if (options.onKeyRotation) {
+      this.rotationListeners.add(options.onKeyRotation);
+    }
 
     if (!this.decision) {
       throw new Error("JwtService requires decision token configuration");
@@ -122,10 +152,14 @@ export class JwtService implements TokenServicePort {
       payload.environment = cloneRecord(input.environment);
     }
 
-    const header = this.buildHeader(this.decision.signer);
+    const signer = this.decision.keyring.active(this.now().getTime());
+    if (!signer) {
+      return err(signerUnavailableError("decision"));
+    }
+    const header = this.buildHeader(signer);
 
     try {
-      const token = signJwt(header, payload, this.decision.signer);
+      const token = signJwt(header, payload, signer);
       return ok({
         token,
         expiresAt: new Date(expiresAtSeconds * 1000).toISOString(),
@@ -185,14 +219,22 @@ export class JwtService implements TokenServicePort {
       }
     }
 
+    if (input.actor) {
+      payload.act = cloneActor(input.actor);
+    }
+
     if (input.metadata) {
       payload.metadata = cloneRecord(input.metadata);
     }
 
-    const header = this.buildHeader(this.access.signer);
+    const signer = this.access.keyring.active(this.now().getTime());
+    if (!signer) {
+      return err(signerUnavailableError("access"));
+    }
+    const header = this.buildHeader(signer);
 
     try {
-      const token = signJwt(header, payload, this.access.signer);
+      const token = signJwt(header, payload, signer);
       return ok({ token, expiresAt: new Date(expiresAtSeconds * 1000).toISOString() });
     } catch (error) {
       return err(signingError(error));
@@ -225,21 +267,29 @@ export class JwtService implements TokenServicePort {
       token_type: "refresh",
       iat: issuedAt,
       exp: expiresAtSeconds,
-      jti: this.jtiFactory(),
+      jti: input.tokenId ?? this.jtiFactory(),
     };
 
     if (input.sessionId) {
       payload.session = input.sessionId;
     }
 
+    if (input.familyId) {
+      payload.fid = input.familyId;
+    }
+
     if (input.metadata) {
       payload.metadata = cloneRecord(input.metadata);
     }
 
-    const header = this.buildHeader(this.refresh.signer);
+    const signer = this.refresh.keyring.active(this.now().getTime());
+    if (!signer) {
+      return err(signerUnavailableError("refresh"));
+    }
+    const header = this.buildHeader(signer);
 
     try {
-      const token = signJwt(header, payload, this.refresh.signer);
+      const token = signJwt(header, payload, signer);
       return ok({ token, expiresAt: new Date(expiresAtSeconds * 1000).toISOString() });
     } catch (error) {
       return err(signingError(error));
@@ -267,6 +317,287 @@ export class JwtService implements TokenServicePort {
     });
   }
 
+  async verifyAccessToken(
+    token: string,
+    options: VerifyTokenOptions = {},
+  ): Promise<Result<AccessTokenClaims, CatalystError>> {
+    const result = this.verifyToken("access", token, options);
+    if (!result.ok) {
+      return result;
+    }
+    const claims = result.value;
+    if (typeof claims.client_id !== "string") {
+      return err(verificationError("access", "invalid_claims", "Access token is missing client_id"));
+    }
+    return ok(claims as unknown as AccessTokenClaims);
+  }
+
+  async verifyRefreshToken(
+    token: string,
+    options: VerifyTokenOptions = {},
+  ): Promise<Result<RefreshTokenClaims, CatalystError>> {
+    const result = this.verifyToken("refresh", token, options);
+    if (!result.ok) {
+      return result;
+    }
+    const claims = result.value;
+    if (typeof claims.client_id !== "string") {
+      return err(verificationError("refresh", "invalid_claims", "Refresh token is missing client_id"));
+    }
+    return ok(claims as unknown as RefreshTokenClaims);
+  }
+
+  async verifyDecisionJwt(
+    token: string,
+    options: VerifyTokenOptions = {},
+  ): Promise<Result<DecisionTokenClaims, CatalystError>> {
+    const result = this.verifyToken("decision", token, options);
+    if (!result.ok) {
+      return result;
+    }
+    const claims = result.value;
+    if (typeof claims.action !== "string") {
+      return err(verificationError("decision", "invalid_claims", "Decision token is missing action"));
+    }
+    return ok(claims as unknown as DecisionTokenClaims);
+  }
+
+  /**
+   * Signs an audit chain checkpoint with the `audit` keyring. The checkpoint binds the chain sequence, event id
+   * and hash so a recomputed chain no longer matches its signed checkpoints.
+   */
+  async signCheckpoint(claims: AuditCheckpointClaims): Promise<Result<string, CatalystError>> {
+    if (!this.audit) {
+      return err(createError("token.audit.unsupported", "Audit checkpoint signing is not configured"));
+    }
+
+    const issuedAt = Math.floor(this.now().getTime() / 1000);
+    const payload: Record<string, unknown> = {
+      iss: this.issuer,
+      sub: "audit_log",
+      iat: issuedAt,
+      exp: issuedAt + this.audit.defaultTtlSeconds,
+      jti: this.jtiFactory(),
+      token_type: "audit",
+      seq: claims.sequence,
+      event_id: claims.eventId,
+      hash: claims.hash,
+    };
+
+    const signer = this.audit.keyring.active(this.now().getTime());
+    if (!signer) {
+      return err(signerUnavailableError("audit"));
+    }
+
+    try {
+      return ok(signJwt(this.buildHeader(signer), payload, signer));
+    } catch (error) {
+      return err(signingError(error));
+    }
+  }
+
+  async verifyCheckpoint(token: string): Promise<Result<AuditCheckpointClaims, CatalystError>> {
+    const result = this.verifyToken("audit", token, {});
+    if (!result.ok) {
+      return result;
+    }
+    const claims = result.value;
+    if (typeof claims.seq !== "number" || typeof claims.event_id !== "string" || typeof claims.hash !== "string") {
+      return err(verificationError("audit", "invalid_claims", "Audit checkpoint is missing seq, event_id or hash"));
+    }
+    return ok({ sequence: claims.seq, eventId: claims.event_id, hash: claims.hash });
+  }
+
+  /**
+   * Adds a signer to the keyring for the given token type and schedules the previously active signer for
+   * retirement. Registered rotation listeners are notified so verifiers can refresh their JWKS caches.
+   */
+  async rotate(
+    tokenType: SignedTokenType,
+    signer: KeyringSignerConfig,
+    options: RotateSignerOptions = {},
+  ): Promise<Result<SigningKeyRotationEvent, CatalystError>> {
+    const config = this.resolveTokenConfig(tokenType);
+    if (!config) {
+      return err(createError("token.rotation.unsupported", `${tokenType} token signing is not configured`));
+    }
+    if (config.keyring.hasKeyId(signer.keyId)) {
+      return err(
+        createError("token.rotation.duplicate_key", "Signer key id is already present in the keyring", {
+          tokenType,
+          keyId: signer.keyId,
+        }),
+      );
+    }
+
+    const nowMs = this.now().getTime();
+    let rotation: ReturnType<SignerKeyring["rotate"]>;
+    let activeFrom: number;
+    try {
+      activeFrom = parseInstant(options.activeFrom, "activeFrom") ?? nowMs;
+      const retirePreviousAt =
+        parseInstant(options.retirePreviousAt, "retirePreviousAt") ?? activeFrom + config.defaultTtlSeconds * 1000;
+      if (retirePreviousAt < activeFrom) {
+        return err(
+          createError("token.rotation.invalid_window", "Previous signer cannot retire before the new signer activates", {
+            tokenType,
+            keyId: signer.keyId,
+          }),
+        );
+      }
+      rotation = config.keyring.rotate(signer, activeFrom, retirePreviousAt, nowMs, `${tokenType} token`);
+    } catch (error) {
+      return err(
+        createError("token.rotation.invalid_signer", "Failed to add signer to keyring", {
+          tokenType,
+          keyId: signer.keyId,
+          cause: error instanceof Error ? error.message : String(error),
+        }),
+      );
+    }
+
+    const event: SigningKeyRotationEvent = {
+      tokenType,
+      keyId: signer.keyId,
+      activeFrom: new Date(activeFrom).toISOString(),
+      previousKeyId: rotation.previous?.keyId,
+      previousRetireAt:
+        rotation.previousRetireAt !== undefined ? new Date(rotation.previousRetireAt).toISOString() : undefined,
+      rotatedAt: new Date(nowMs).toISOString(),
+    };
+    await this.notifyRotation(event);
+    return ok(event);
+  }
+
+  /**
+   * Registers a listener invoked after every successful rotation. Returns a function that removes it.
+   */
+  onKeyRotation(listener: SigningKeyRotationListener): () => void {
+    this.rotationListeners.add(listener);
+    return () => {
+      this.rotationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Lists signers whose public keys should be published in JWKS for the given token type, including
+   * scheduled signers that have not activated yet and retiring signers whose tokens may still be live.
+   */
+  listPublishedSigners(tokenType: SignedTokenType): ReadonlyArray<PublishedSigner> {
+    const config = this.resolveTokenConfig(tokenType);
+    return config ? config.keyring.published(this.now().getTime()) : [];
+  }
+
+  private verifyToken(
+    tokenType: SignedTokenType,
+    token: string,
+    options: VerifyTokenOptions,
+  ): Result<Record<string, unknown>, CatalystError> {
+    const config = this.resolveTokenConfig(tokenType);
+    if (!config) {
+      return err(createError(`token.${tokenType}.unsupported`, `${capitalize(tokenType)} token verification is not configured`));
+    }
+
+    const decoded = decodeJwt(token);
+    if (!decoded) {
+      return err(verificationError(tokenType, "malformed", "Token is not a well-formed JWT"));
+    }
+
+    const nowMs = this.now().getTime();
+    const verificationKey = config.keyring.verificationKey(decoded.header.alg, decoded.header.kid, nowMs);
+    if (!verificationKey) {
+      return err(
+        verificationError(tokenType, "unknown_key", "Token was not signed by a published key", {
+          algorithm: decoded.header.alg,
+          keyId: decoded.header.kid,
+        }),
+      );
+    }
+    if (!verifySignature(decoded.signingInput, decoded.signature, verificationKey.algorithm, verificationKey.key)) {
+      return err(verificationError(tokenType, "invalid_signature", "Token signature is invalid"));
+    }
+
+    const claims = decoded.payload;
+    if (claims.token_type !== tokenType) {
+      return err(
+        verificationError(tokenType, "invalid_token_type", `Expected a ${tokenType} token`, {
+          tokenType: claims.token_type,
+        }),
+      );
+    }
+    if (claims.iss !== this.issuer) {
+      return err(verificationError(tokenType, "invalid_issuer", "Token issuer is not trusted", { issuer: claims.iss }));
+    }
+    if (typeof claims.sub !== "string" || typeof claims.jti !== "string") {
+      return err(verificationError(tokenType, "invalid_claims", "Token is missing sub or jti"));
+    }
+
+    const expectedAudience = options.audience ?? ("audience" in config ? config.audience : undefined);
+    if (expectedAudience !== undefined && !matchesAudience(claims.aud, expectedAudience)) {
+      return err(
+        verificationError(tokenType, "invalid_audience", "Token audience does not match", {
+          audience: claims.aud,
+          expected: expectedAudience,
+        }),
+      );
+    }
+
+    const skewMs = Math.max(0, options.clockSkewSeconds ?? this.clockSkewSeconds) * 1000;
+    if (typeof claims.exp !== "number" || typeof claims.iat !== "number") {
+      return err(verificationError(tokenType, "invalid_claims", "Token is missing exp or iat"));
+    }
+    if (claims.exp * 1000 + skewMs <= nowMs) {
+      return err(
+        verificationError(tokenType, "expired", "Token has expired", {
+          expiredAt: new Date(claims.exp * 1000).toISOString(),
+        }),
+      );
+    }
+    const notBefore = typeof claims.nbf === "number" ? claims.nbf : claims.iat;
+    if (notBefore * 1000 - skewMs > nowMs) {
+      return err(
+        verificationError(tokenType, "not_yet_valid", "Token is not valid yet", {
+          notBefore: new Date(notBefore * 1000).toISOString(),
+        }),
+      );
+    }
+
+    return ok(claims);
+  }
+
+  private resolveTokenConfig(
+    tokenType: SignedTokenType,
+  ):
+    | {
+        readonly keyring: SignerKeyring;
+        readonly defaultTtlSeconds: number;
+        readonly audience?: string | ReadonlyArray<string>;
+      }
+    | undefined {
+    switch (tokenType) {
+      case "decision":
+        return this.decision;
+      case "access":
+        return this.access;
+      case "refresh":
+        return this.refresh;
+      case "audit":
+        return this.audit;
+      default:
+        return undefined;
+    }
+  }
+
+  private async notifyRotation(event: SigningKeyRotationEvent): Promise<void> {
+    for (const listener of this.rotationListeners) {
+      try {
+        await listener(event);
+      } catch {
+        // Listeners refresh downstream caches; a failing listener must not undo a completed rotation.
+      }
+    }
+  }
+
   private buildHeader(signer: NormalizedSignerConfig): Record<string, unknown> {
     const header: Record<string, unknown> = {
       alg: signer.algorithm,
@@ -284,39 +615,28 @@ export class JwtService implements TokenServicePort {
 export const createJwtService = (options: JwtServiceOptions): TokenServicePort => new JwtService(options);
 
 const normalizeDecisionOptions = (options: DecisionTokenOptions): NormalizedDecisionConfig => ({
-  signer: normalizeSigner(options.signer),
+  keyring: new SignerKeyring(options, "Decision token"),
   audience: options.audience,
   defaultTtlSeconds: Math.max(1, options.defaultTtlSeconds ?? DEFAULT_DECISION_TTL_SECONDS),
 });
 
 const normalizeAccessOptions = (options: AccessTokenOptions): NormalizedAccessConfig => ({
-  signer: normalizeSigner(options.signer),
+  keyring: new SignerKeyring(options, "Access token"),
   audience: options.audience,
   defaultTtlSeconds: Math.max(1, options.defaultTtlSeconds ?? DEFAULT_ACCESS_TTL_SECONDS),
   scopeClaim: options.scopeClaim ?? "scope",
 });
 
 const normalizeRefreshOptions = (options: RefreshTokenOptions): NormalizedRefreshConfig => ({
-  signer: normalizeSigner(options.signer),
+  keyring: new SignerKeyring(options, "Refresh token"),
   defaultTtlSeconds: Math.max(1, options.defaultTtlSeconds ?? DEFAULT_REFRESH_TTL_SECONDS),
 });
 
-const normalizeSigner = (signer: TokenSignerConfig): NormalizedSignerConfig => ({
-  algorithm: signer.algorithm,
-  key: toKeyObject(signer.privateKey),
-  keyId: signer.keyId,
+const normalizeAuditOptions = (options: AuditCheckpointTokenOptions): NormalizedAuditConfig => ({
+  keyring: new SignerKeyring(options, "Audit checkpoint"),
+  defaultTtlSeconds: Math.max(1, options.defaultTtlSeconds ?? DEFAULT_AUDIT_CHECKPOINT_TTL_SECONDS),
 });
 
-const toKeyObject = (value: TokenSignerConfig["privateKey"]): KeyObject => {
-  if (isKeyObject(value)) {
-    return value;
-  }
-  return createPrivateKey(value);
-};
-
-const isKeyObject = (value: TokenSignerConfig["privateKey"]): value is KeyObject =>
-  typeof value === "object" && value !== null && typeof (value as KeyObject).type === "string";
-
 const signJwt = (
   header: Record<string, unknown>,
   payload: Record<string, unknown>,
@@ -346,6 +666,70 @@ const signInput = (input: string, signer: NormalizedSignerConfig): string => {
   throw new Error(`Unsupported signing algorithm: ${signer.algorithm}`);
 };
 
+interface DecodedJwt {
+  readonly header: { readonly alg: string; readonly kid?: string };
+  readonly payload: Record<string, unknown>;
+  readonly signingInput: string;
+  readonly signature: Uint8Array;
+}
+
+const decodeJwt = (token: string): DecodedJwt | undefined => {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    return undefined;
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = parseSegment(encodedHeader);
+  const payload = parseSegment(encodedPayload);
+  if (!header || !payload || typeof header.alg !== "string") {
+    return undefined;
+  }
+  return {
+    header: { alg: header.alg, kid: typeof header.kid === "string" ? header.kid : undefined },
+    payload,
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: Buffer.from(encodedSignature, "base64url"),
+  };
+};
+
+const parseSegment = (segment: string): Record<string, unknown> | undefined => {
+  try {
+    const parsed = JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as unknown;
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const verifySignature = (
+  input: string,
+  signature: Uint8Array,
+  algorithm: SupportedTokenAlgorithm,
+  key: KeyObject,
+): boolean => {
+  try {
+    if (algorithm === "RS256") {
+      const verifier = createVerify("RSA-SHA256");
+      verifier.update(input);
+      verifier.end();
+      return verifier.verify(key, signature);
+    }
+    return nodeVerify(null, Buffer.from(input), key, signature);
+  } catch {
+    return false;
+  }
+};
+
+const matchesAudience = (claim: unknown, expected: string | ReadonlyArray<string>): boolean => {
+  const expectedValues: ReadonlyArray<string> = typeof expected === "string" ? [expected] : expected;
+  const actualValues = typeof claim === "string" ? [claim] : Array.isArray(claim) ? claim : [];
+  return actualValues.some((value) => typeof value === "string" && expectedValues.includes(value));
+};
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
 const toBase64Url = (input: string | Buffer): string =>
   Buffer.from(input)
     .toString("base64")
@@ -357,6 +741,11 @@ const cloneRecord = <T extends Record<string, unknown>>(value: T): T => ({
   ...value,
 });
 
+const cloneActor = (actor: ActorClaim): ActorClaim => ({
+  sub: actor.sub,
+  ...(actor.act ? { act: cloneActor(actor.act) } : {}),
+});
+
 const cloneResource = (
   resource: Required<MintDecisionJwtInput>["resource"],
 ): Record<string, unknown> => ({
@@ -373,6 +762,23 @@ const signingError = (error: unknown): CatalystError => ({
   },
 });
 
+const signerUnavailableError = (tokenType: SignedTokenType): CatalystError => ({
+  code: "token.signer_unavailable",
+  message: `No active ${tokenType} token signer`,
+  details: { tokenType },
+});
+
+const verificationError = (
+  tokenType: SignedTokenType,
+  reason: string,
+  message: string,
+  details?: Record<string, unknown>,
+): CatalystError => ({
+  code: `token.${tokenType}.${reason}`,
+  message,
+  details: { tokenType, ...details },
+});
+
 const createError = (code: string, message: string, details?: Record<string, unknown>): CatalystError => ({
   code,
   message,
@@ -0,0 +1,179 @@
+import { createPrivateKey, createPublicKey, type KeyObject } from "node:crypto";
+
+import type {
+  KeyringSignerConfig,
+  PublishedSigner,
+  SignerOptions,
+  SupportedTokenAlgorithm,
+  TokenSignerConfig,
+} from "./types.js";
+
+export interface NormalizedSignerConfig {
+  readonly algorithm: SupportedTokenAlgorithm;
+  readonly key: KeyObject;
+  readonly keyId?: string;
+}
+
+interface KeyringEntry {
+  readonly signer: NormalizedSignerConfig;
+  readonly activeFrom?: number;
+  retireAt?: number;
+  publicKey?: KeyObject;
+}
+
+/**
+ * Ordered set of signers for one token type. Minting always uses the most recently activated signer, while
+ * verification material for every signer that has not been retired stays available for JWKS publication.
+ */
+export class SignerKeyring {
+  private readonly entries: KeyringEntry[];
+
+  constructor(options: SignerOptions, label: string) {
+    if (options.signer && options.signers) {
+      throw new Error(`${label} accepts either signer or signers, not both`);
+    }
+    if (options.signer) {
+      this.entries = [{ signer: normalizeSigner(options.signer) }];
+      return;
+    }
+    if (!options.signers || options.signers.length === 0) {
+      throw new Error(`${label} requires at least one signer`);
+    }
+
+    this.entries = [];
+    for (const signer of options.signers) {
+      this.add(signer, label);
+    }
+  }
+
+  active(nowMs: number): NormalizedSignerConfig | undefined {
+    return this.activeEntry(nowMs)?.signer;
+  }
+
+  published(nowMs: number): ReadonlyArray<PublishedSigner> {
+    const active = this.activeEntry(nowMs);
+    return this.entries
+      .filter((entry) => entry.retireAt === undefined || entry.retireAt > nowMs)
+      .map((entry) => ({
+        algorithm: entry.signer.algorithm,
+        privateKey: entry.signer.key,
+        keyId: entry.signer.keyId,
+        activeFrom: toIso(entry.activeFrom),
+        retireAt: toIso(entry.retireAt),
+        active: entry === active,
+      }));
+  }
+
+  /**
+   * Adds a signer and schedules the currently active signer for retirement. Returns the previous active
+   * signer so callers can report which key is being phased out.
+   */
+  rotate(
+    signer: KeyringSignerConfig,
+    activeFrom: number,
+    retirePreviousAt: number,
+    nowMs: number,
+    label: string,
+  ): { readonly previous?: NormalizedSignerConfig; readonly previousRetireAt?: number } {
+    const previous = this.activeEntry(Math.max(nowMs, activeFrom - 1));
+    this.add({ ...signer, activeFrom: new Date(activeFrom) }, label);
+    if (!previous) {
+      return {};
+    }
+    if (previous.retireAt === undefined || previous.retireAt > retirePreviousAt) {
+      previous.retireAt = retirePreviousAt;
+    }
+    return { previous: previous.signer, previousRetireAt: previous.retireAt };
+  }
+
+  /**
+   * Resolves the public key used to verify a token header. Tokens without a `kid` are only accepted when a
+   * single published signer uses the requested algorithm.
+   */
+  verificationKey(
+    algorithm: string,
+    keyId: string | undefined,
+    nowMs: number,
+  ): { readonly key: KeyObject; readonly algorithm: SupportedTokenAlgorithm } | undefined {
+    const candidates = this.entries.filter(
+      (entry) =>
+        entry.signer.algorithm === algorithm && (entry.retireAt === undefined || entry.retireAt > nowMs),
+    );
+    const entry = keyId
+      ? candidates.find((candidate) => candidate.signer.keyId === keyId)
+      : candidates.length === 1
+        ? candidates[0]
+        : undefined;
+    if (!entry) {
+      return undefined;
+    }
+    if (!entry.publicKey) {
+      entry.publicKey = createPublicKey(entry.signer.key);
+    }
+    return { key: entry.publicKey, algorithm: entry.signer.algorithm };
+  }
+
+  hasKeyId(keyId: string): boolean {
+    return this.entries.some((entry) => entry.signer.keyId === keyId);
+  }
+
+  private add(signer: KeyringSignerConfig, label: string): void {
+    if (!signer.keyId || signer.keyId.trim().length === 0) {
+      throw new Error(`${label} keyring signers require a keyId`);
+    }
+    if (this.hasKeyId(signer.keyId)) {
+      throw new Error(`${label} keyring already contains key ${signer.keyId}`);
+    }
+    const activeFrom = parseInstant(signer.activeFrom, `${label} signer ${signer.keyId} activeFrom`);
+    const retireAt = parseInstant(signer.retireAt, `${label} signer ${signer.keyId} retireAt`);
+    if (activeFrom !== undefined && retireAt !== undefined && retireAt <= activeFrom) {
+      throw new Error(`${label} signer ${signer.keyId} must retire after it becomes active`);
+    }
+    this.entries.push({ signer: normalizeSigner(signer), activeFrom, retireAt });
+  }
+
+  private activeEntry(nowMs: number): KeyringEntry | undefined {
+    let selected: KeyringEntry | undefined;
+    for (const entry of this.entries) {
+      const started = entry.activeFrom === undefined || entry.activeFrom <= nowMs;
+      const retired = entry.retireAt !== undefined && entry.retireAt <= nowMs;
+      if (!started || retired) {
+        continue;
+      }
+      if (!selected || (entry.activeFrom ?? -Infinity) >= (selected.activeFrom ?? -Infinity)) {
+        selected = entry;
+      }
+    }
+    return selected;
+  }
+}
+
+export const normalizeSigner = (signer: TokenSignerConfig): NormalizedSignerConfig => ({
+  algorithm: signer.algorithm,
+  key: toKeyObject(signer.privateKey),
+  keyId: signer.keyId,
+});
+
+export const parseInstant = (value: string | Date | undefined, label: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = value instanceof Date ? value.getTime() : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`${label} must be a valid date`);
+  }
+  return time;
+};
+
+const toIso = (value: number | undefined): string | undefined =>
+  value === undefined ? undefined : new Date(value).toISOString();
+
+const toKeyObject = (value: TokenSignerConfig["privateKey"]): KeyObject => {
+  if (isKeyObject(value)) {
+    return value;
+  }
+  return createPrivateKey(value);
+};
+
+const isKeyObject = (value: TokenSignerConfig["privateKey"]): value is KeyObject =>
+  typeof value === "object" && value !== null && typeof (value as KeyObject).type === "string";
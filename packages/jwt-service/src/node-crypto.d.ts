@@ -9,16 +9,30 @@ declare module "node:crypto" {
     sign(key: KeyObject | string | Uint8Array): Uint8Array;
   }
 
+  export interface Verify {
+    update(data: string | Uint8Array): Verify;
+    end(): void;
+    verify(key: KeyObject | string | Uint8Array, signature: Uint8Array): boolean;
+  }
+
   export function createPrivateKey(
     key: string | Uint8Array | { readonly key: string | Uint8Array; readonly format?: string; readonly type?: string },
   ): KeyObject;
+  export function createPublicKey(key: KeyObject | string | Uint8Array): KeyObject;
   export function createSign(algorithm: string): Signer;
+  export function createVerify(algorithm: string): Verify;
   export function randomUUID(): string;
   export function sign(
     algorithm: string | null,
     data: Uint8Array,
     key: KeyObject | string | Uint8Array,
   ): Uint8Array;
+  export function verify(
+    algorithm: string | null,
+    data: Uint8Array,
+    key: KeyObject | string | Uint8Array,
+    signature: Uint8Array,
+  ): boolean;
 }
 
 declare interface Buffer extends Uint8Array {
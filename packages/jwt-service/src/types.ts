@@ -8,21 +8,71 @@ export interface TokenSignerConfig {
   readonly keyId?: string;
 }
 
-export interface DecisionTokenOptions {
-  readonly signer: TokenSignerConfig;
+/**
+ * A signer participating in a rotation keyring. The signer with the latest `activeFrom` that has already
+ * started mints new tokens; every signer that has not reached `retireAt` stays published for verification.
+ */
+export interface KeyringSignerConfig extends TokenSignerConfig {
+  readonly keyId: string;
+  readonly activeFrom?: string | Date;
+  readonly retireAt?: string | Date;
+}
+
+export type SignedTokenType = "decision" | "access" | "refresh" | "audit";
+
+export interface SignerOptions {
+  /** Single signer; equivalent to a keyring containing one always-active key. */
+  readonly signer?: TokenSignerConfig;
+  readonly signers?: ReadonlyArray<KeyringSignerConfig>;
+}
+
+export interface PublishedSigner {
+  readonly algorithm: SupportedTokenAlgorithm;
+  readonly privateKey: KeyObject;
+  readonly keyId?: string;
+  readonly activeFrom?: string;
+  readonly retireAt?: string;
+  readonly active: boolean;
+}
+
+export interface RotateSignerOptions {
+  /** Defaults to the current time, making the new signer active immediately. */
+  readonly activeFrom?: string | Date;
+  /** Defaults to the new signer's activation plus the token type's default TTL. */
+  readonly retirePreviousAt?: string | Date;
+}
+
+export interface SigningKeyRotationEvent {
+  readonly tokenType: SignedTokenType;
+  readonly keyId: string;
+  readonly activeFrom: string;
+  readonly previousKeyId?: string;
+  readonly previousRetireAt?: string;
+  readonly rotatedAt: string;
+}
+
+export type SigningKeyRotationListener = (event: SigningKeyRotationEvent) => void | Promise<void>;
+
+export interface DecisionTokenOptions extends SignerOptions {
   readonly audience?: string | ReadonlyArray<string>;
   readonly defaultTtlSeconds?: number;
 }
 
-export interface AccessTokenOptions {
-  readonly signer: TokenSignerConfig;
+export interface AccessTokenOptions extends SignerOptions {
   readonly audience?: string | ReadonlyArray<string>;
   readonly defaultTtlSeconds?: number;
   readonly scopeClaim?: "scope" | "scopes";
 }
 
-export interface RefreshTokenOptions {
-  readonly signer: TokenSignerConfig;
+export interface RefreshTokenOptions extends SignerOptions {
+  readonly defaultTtlSeconds?: number;
+}
+
+/**
+ * Signs audit chain checkpoints. Checkpoints are verified long after they are minted, so the default lifetime is
+ * ten years and retired signers should stay published for as long as checkpoints must verify.
+ */
+export interface AuditCheckpointTokenOptions extends SignerOptions {
   readonly defaultTtlSeconds?: number;
 }
 
@@ -31,6 +81,10 @@ export interface JwtServiceOptions {
   readonly decision?: DecisionTokenOptions;
   readonly access?: AccessTokenOptions;
   readonly refresh?: RefreshTokenOptions;
+  readonly audit?: AuditCheckpointTokenOptions;
   readonly now?: () => Date;
   readonly jtiFactory?: () => string;
+  /** Tolerance applied to `exp`, `nbf` and `iat` when verifying tokens. Defaults to 30 seconds. */
+  readonly clockSkewSeconds?: number;
+  readonly onKeyRotation?: SigningKeyRotationListener;
 }
@@ -1,2 +1,4 @@
 export type { MemoryKeyStoreOptions } from "./memory-key-store.js";
 export { MemoryKeyStore, createMemoryKeyStore } from "./memory-key-store.js";
+export type { MemoryRefreshTokenStoreOptions } from "./memory-refresh-token-store.js";
+export { MemoryRefreshTokenStore, createMemoryRefreshTokenStore } from "./memory-refresh-token-store.js";
@@ -0,0 +1,126 @@
+import { randomUUID } from "node:crypto";
+
+import type {
+  CreateRefreshTokenFamilyInput,
+  IssueRefreshTokenInput,
+  RefreshTokenFamilyRecord,
+  RefreshTokenRecord,
+  RefreshTokenStorePort,
+} from "@catalyst-auth/contracts";
+
+interface Clock {
+  now(): Date;
+}
+
+type IdFactory = () => string;
+
+export interface MemoryRefreshTokenStoreOptions {
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+const cloneFamily = (family: RefreshTokenFamilyRecord): RefreshTokenFamilyRecord => ({
+  ...family,
+  scopes: [...family.scopes],
+});
+
+const cloneToken = (token: RefreshTokenRecord): RefreshTokenRecord => ({ ...token });
+
+export class MemoryRefreshTokenStore implements RefreshTokenStorePort {
+  private readonly clock: Clock;
+  private readonly idFactory: IdFactory;
+  private readonly families = new Map<string, RefreshTokenFamilyRecord>();
+  private readonly tokens = new Map<string, RefreshTokenRecord>();
+
+  constructor(options: MemoryRefreshTokenStoreOptions = {}) {
+    this.clock = options.clock ?? defaultClock;
+    this.idFactory = options.idFactory ?? defaultIdFactory;
+  }
+
+  async createFamily(input: CreateRefreshTokenFamilyInput): Promise<RefreshTokenFamilyRecord> {
+    const id = input.id ?? this.idFactory();
+    if (this.families.has(id)) {
+      throw new Error(`Refresh token family ${id} already exists`);
+    }
+
+    const family: RefreshTokenFamilyRecord = {
+      id,
+      userId: input.userId,
+      clientId: input.clientId,
+      sessionId: input.sessionId,
+      orgId: input.orgId,
+      scopes: [...input.scopes],
+      createdAt: input.createdAt ?? this.clock.now().toISOString(),
+    };
+    this.families.set(id, family);
+    return cloneFamily(family);
+  }
+
+  async getFamily(id: string): Promise<RefreshTokenFamilyRecord | undefined> {
+    const family = this.families.get(id);
+    return family ? cloneFamily(family) : undefined;
+  }
+
+  async revokeFamily(
+    id: string,
+    revokedAt: string,
+    reason?: string,
+  ): Promise<RefreshTokenFamilyRecord | undefined> {
+    const family = this.families.get(id);
+    if (!family) {
+      return undefined;
+    }
+    if (family.revokedAt) {
+      return cloneFamily(family);
+    }
+
+    const revoked: RefreshTokenFamilyRecord = { ...family, revokedAt, revocationReason: reason };
+    this.families.set(id, revoked);
+    return cloneFamily(revoked);
+  }
+
+  async issueToken(input: IssueRefreshTokenInput): Promise<RefreshTokenRecord> {
+    if (!this.families.has(input.familyId)) {
+      throw new Error(`Refresh token family ${input.familyId} not found`);
+    }
+    const id = input.id ?? this.idFactory();
+    if (this.tokens.has(id)) {
+      throw new Error(`Refresh token ${id} already exists`);
+    }
+
+    const token: RefreshTokenRecord = {
+      id,
+      familyId: input.familyId,
+      parentId: input.parentId,
+      issuedAt: input.issuedAt ?? this.clock.now().toISOString(),
+    };
+    this.tokens.set(id, token);
+    return cloneToken(token);
+  }
+
+  async getToken(id: string): Promise<RefreshTokenRecord | undefined> {
+    const token = this.tokens.get(id);
+    return token ? cloneToken(token) : undefined;
+  }
+
+  async consumeToken(id: string, consumedAt: string): Promise<RefreshTokenRecord | undefined> {
+    const token = this.tokens.get(id);
+    if (!token || token.consumedAt) {
+      return undefined;
+    }
+
+    const consumed: RefreshTokenRecord = { ...token, consumedAt };
+    this.tokens.set(id, consumed);
+    return cloneToken(consumed);
+  }
+}
+
+export const createMemoryRefreshTokenStore = (
+  options: MemoryRefreshTokenStoreOptions = {},
+): MemoryRefreshTokenStore => new MemoryRefreshTokenStore(options);
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createMemoryRefreshTokenStore } from '../dist/index.js';
+
+test('tracks refresh token families and consumes tokens once', async () => {
+  let generated = 0;
+  const store = createMemoryRefreshTokenStore({
+    clock: { now: () => new Date('2024-01-01T00:00:00.000Z') },
+    idFactory: () => `id-${++generated}`,
+  });
+
+  const family = await store.createFamily({
+    userId: 'user-1',
+    clientId: 'cli-1',
+    sessionId: 'sess-1',
+    scopes: ['read'],
+  });
+  assert.equal(family.id, 'id-1');
+  assert.equal(family.createdAt, '2024-01-01T00:00:00.000Z');
+
+  const first = await store.issueToken({ familyId: family.id });
+  const second = await store.issueToken({ familyId: family.id, parentId: first.id });
+  assert.equal(second.parentId, 'id-2');
+
+  const consumed = await store.consumeToken(first.id, '2024-01-01T00:05:00.000Z');
+  assert.equal(consumed.consumedAt, '2024-01-01T00:05:00.000Z');
+  assert.equal(await store.consumeToken(first.id, '2024-01-01T00:06:00.000Z'), undefined);
+  assert.equal(await store.consumeToken('missing', '2024-01-01T00:06:00.000Z'), undefined);
+  assert.equal((await store.getToken(first.id)).consumedAt, '2024-01-01T00:05:00.000Z');
+
+  const revoked = await store.revokeFamily(family.id, '2024-01-01T00:06:00.000Z', 'reuse_detected');
+  assert.equal(revoked.revocationReason, 'reuse_detected');
+  const again = await store.revokeFamily(family.id, '2024-01-01T00:07:00.000Z', 'manual');
+  assert.equal(again.revokedAt, '2024-01-01T00:06:00.000Z');
+  assert.equal(again.revocationReason, 'reuse_detected');
+
+  family.scopes.push('write');
+  assert.deepEqual((await store.getFamily(family.id)).scopes, ['read']);
+  await assert.rejects(() => store.issueToken({ familyId: 'missing' }));
+});
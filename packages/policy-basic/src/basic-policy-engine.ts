@@ -4,10 +4,13 @@ import type {
   PolicyDecision,
   PolicyEnginePort,
   PolicyEvaluationInput,
+  PolicyExplanation,
+  PolicyRuleTrace,
   Result,
 } from "@catalyst-auth/contracts";
 import { ok } from "@catalyst-auth/contracts";
 
+import { compilePolicyExpression, type CompiledPolicyExpression } from "./expression.js";
 import type {
   BasicPolicyConditions,
   BasicPolicyEffect,
@@ -193,6 +196,7 @@ interface NormalizedConditions {
   readonly requireLabels?: LabelSet;
   readonly forbidLabels?: LabelSet;
   readonly environment?: Record<string, unknown>;
+  readonly expression?: CompiledPolicyExpression;
 }
 
 const hasConditions = (conditions: NormalizedConditions): boolean =>
@@ -207,11 +211,30 @@ const hasConditions = (conditions: NormalizedConditions): boolean =>
       conditions.allEntitlements?.length ||
       (conditions.requireLabels && Object.keys(conditions.requireLabels).length > 0) ||
       (conditions.forbidLabels && Object.keys(conditions.forbidLabels).length > 0) ||
-      (conditions.environment && Object.keys(conditions.environment).length > 0),
+      (conditions.environment && Object.keys(conditions.environment).length > 0) ||
+      conditions.expression,
   );
 
+const compileExpression = (
+  expression: string | undefined,
+  ruleId: string | undefined,
+): CompiledPolicyExpression | undefined => {
+  if (expression === undefined) {
+    return undefined;
+  }
+  try {
+    return compilePolicyExpression(expression);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Policy rule${ruleId ? ` ${ruleId}` : ""} has an invalid expression: ${message}`, {
+      cause: error,
+    });
+  }
+};
+
 const normalizeConditions = (
-  input?: BasicPolicyConditions,
+  input: BasicPolicyConditions | undefined,
+  ruleId: string | undefined,
 ): NormalizedConditions | undefined => {
   if (!input) {
     return undefined;
@@ -228,6 +251,7 @@ const normalizeConditions = (
     requireLabels: input.requireLabels ? clone(input.requireLabels) : undefined,
     forbidLabels: input.forbidLabels ? clone(input.forbidLabels) : undefined,
     environment: input.environment ? clone(input.environment) : undefined,
+    expression: compileExpression(input.expression, ruleId),
   };
   return hasConditions(normalized) ? normalized : undefined;
 };
@@ -281,47 +305,50 @@ const normalizeRule = (rule: BasicPolicyRule): NormalizedRule => {
     resourceTypeMatcher: rule.resourceType ? createMatcher(rule.resourceType) : undefined,
     resourceIdMatcher: rule.resourceId ? createMatcher(rule.resourceId) : undefined,
     resourceLabels,
-    conditions: normalizeConditions(rule.conditions),
+    conditions: normalizeConditions(rule.conditions, rule.id),
     reason,
     obligations,
     decisionJwtFactory: toDecisionJwtFactory(rule.decisionJwt),
   };
 };
 
-const matchesResource = (
+type ResourceMismatch = "missing" | "type" | "id" | "labels";
+
+const findResourceMismatch = (
   rule: NormalizedRule,
   resource: PolicyEvaluationInput["resource"],
-): boolean => {
+): ResourceMismatch | undefined => {
   if (!rule.resourceTypeMatcher && !rule.resourceIdMatcher && !rule.resourceLabels) {
-    return true;
+    return undefined;
   }
   if (!resource) {
-    return false;
+    return "missing";
   }
   if (
     rule.resourceTypeMatcher &&
     (!resource.type || !rule.resourceTypeMatcher.test(resource.type))
   ) {
-    return false;
+    return "type";
   }
   if (
     rule.resourceIdMatcher &&
     (!resource.id || !rule.resourceIdMatcher.test(resource.id))
   ) {
-    return false;
+    return "id";
   }
   if (!labelsContainAll(resource.labels, rule.resourceLabels)) {
-    return false;
+    return "labels";
   }
-  return true;
+  return undefined;
 };
 
-const matchesConditions = (
+const findFailedCondition = (
   conditions: NormalizedConditions | undefined,
   input: PolicyEvaluationInput,
-): boolean => {
+  now: () => Date,
+): keyof NormalizedConditions | undefined => {
   if (!conditions) {
-    return true;
+    return undefined;
   }
 
   const identity = input.identity;
@@ -331,40 +358,75 @@ const matchesConditions = (
   const entitlementSet = new Set(identity.entitlements);
 
   if (!includesAny(roleSet, conditions.anyRoles)) {
-    return false;
+    return "anyRoles";
   }
   if (!includesAll(roleSet, conditions.allRoles)) {
-    return false;
+    return "allRoles";
   }
   if (!includesAny(groupSet, conditions.anyGroups)) {
-    return false;
+    return "anyGroups";
   }
   if (!includesAll(groupSet, conditions.allGroups)) {
-    return false;
+    return "allGroups";
   }
   if (!includesAny(scopeSet, conditions.anyScopes)) {
-    return false;
+    return "anyScopes";
   }
   if (!includesAll(scopeSet, conditions.allScopes)) {
-    return false;
+    return "allScopes";
   }
   if (!includesAny(entitlementSet, conditions.anyEntitlements)) {
-    return false;
+    return "anyEntitlements";
   }
   if (!includesAll(entitlementSet, conditions.allEntitlements)) {
-    return false;
+    return "allEntitlements";
   }
   if (!labelsContainAll(identity.labels, conditions.requireLabels)) {
-    return false;
+    return "requireLabels";
   }
   if (!labelsContainNone(identity.labels, conditions.forbidLabels)) {
-    return false;
+    return "forbidLabels";
   }
   if (!matchesRecord(conditions.environment, input.environment)) {
-    return false;
+    return "environment";
+  }
+  if (
+    conditions.expression &&
+    !conditions.expression.evaluate({
+      identity,
+      action: input.action,
+      resource: input.resource,
+      environment: input.environment,
+      now: now(),
+    })
+  ) {
+    return "expression";
   }
 
-  return true;
+  return undefined;
+};
+
+const traceRule = (
+  rule: NormalizedRule,
+  index: number,
+  input: PolicyEvaluationInput,
+  now: () => Date,
+): PolicyRuleTrace => {
+  const actionMatched = matchesAction(rule.actionMatchers, input.action);
+  const resourceMismatch = findResourceMismatch(rule, input.resource);
+  const failedCondition = findFailedCondition(rule.conditions, input, now);
+  return {
+    index,
+    ruleId: rule.id,
+    effect: rule.effect,
+    actionMatched,
+    resourceMatched: resourceMismatch === undefined,
+    resourceMismatch,
+    conditionsMatched: failedCondition === undefined,
+    failedCondition,
+    matched: actionMatched && resourceMismatch === undefined && failedCondition === undefined,
+    selected: false,
+  };
 };
 
 const DEFAULT_DENY_DECISION: PolicyDecision = {
@@ -375,12 +437,14 @@ const DEFAULT_DENY_DECISION: PolicyDecision = {
 export class BasicPolicyEngine implements PolicyEnginePort {
   private readonly rules: ReadonlyArray<NormalizedRule>;
   private readonly defaultDecision: PolicyDecision;
+  private readonly clock: () => Date;
 
   constructor(options: BasicPolicyEngineOptions) {
     this.rules = options.rules.map(normalizeRule);
     this.defaultDecision = options.defaultDecision
       ? cloneDecision(options.defaultDecision)
       : { ...DEFAULT_DENY_DECISION };
+    this.clock = options.clock ?? (() => new Date());
   }
 
   async evaluate(
@@ -392,10 +456,10 @@ export class BasicPolicyEngine implements PolicyEnginePort {
       if (!matchesAction(rule.actionMatchers, input.action)) {
         continue;
       }
-      if (!matchesResource(rule, input.resource)) {
+      if (findResourceMismatch(rule, input.resource)) {
         continue;
       }
-      if (!matchesConditions(rule.conditions, input)) {
+      if (findFailedCondition(rule.conditions, input, this.clock)) {
         continue;
       }
 
@@ -417,6 +481,33 @@ export class BasicPolicyEngine implements PolicyEnginePort {
     return ok(cloneDecision(this.defaultDecision));
   }
 
+  /**
+   * Traces every rule against the input. Unlike `evaluate`, all checks run for every rule so the trace shows
+   * each reason a rule did not apply; the selected rule follows the same deny-overrides ordering.
+   */
+  async explain(
+    input: PolicyEvaluationInput,
+  ): Promise<Result<PolicyExplanation, CatalystError>> {
+    const traces = this.rules.map((rule, index) => traceRule(rule, index, input, this.clock));
+    const denyIndex = traces.findIndex((trace) => trace.matched && trace.effect === "deny");
+    const selectedIndex = denyIndex >= 0 ? denyIndex : traces.findIndex((trace) => trace.matched);
+
+    if (selectedIndex < 0) {
+      return ok({ decision: cloneDecision(this.defaultDecision), rules: traces, defaultApplied: true });
+    }
+
+    const rule = this.rules[selectedIndex];
+    return ok({
+      decision: {
+        allow: rule.effect === "allow",
+        reason: rule.reason,
+        obligations: rule.obligations ? clone(rule.obligations) : undefined,
+      },
+      rules: traces.map((trace, index) => (index === selectedIndex ? { ...trace, selected: true } : trace)),
+      defaultApplied: false,
+    });
+  }
+
   private async buildDecision(
     rule: NormalizedRule,
     input: PolicyEvaluationInput,
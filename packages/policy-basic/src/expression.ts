@@ -0,0 +1,579 @@
+import type { PolicyEvaluationInput } from "@catalyst-auth/contracts";
+
+/**
+ * Values visible to a policy expression. `now` is derived from the engine clock in UTC so time-of-day rules are
+ * deterministic regardless of the host timezone.
+ */
+export interface PolicyExpressionContext {
+  readonly identity: PolicyEvaluationInput["identity"];
+  readonly action: string;
+  readonly resource?: PolicyEvaluationInput["resource"];
+  readonly environment?: Record<string, unknown>;
+  readonly now: Date;
+}
+
+export interface CompiledPolicyExpression {
+  readonly source: string;
+  readonly evaluate: (context: PolicyExpressionContext) => boolean;
+}
+
+export class PolicyExpressionError extends Error {
+  readonly expression: string;
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position} in expression "${expression}"`);
+    this.name = "PolicyExpressionError";
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 4096;
+const ROOTS: ReadonlySet<string> = new Set(["identity", "action", "resource", "environment", "now"]);
+const FORBIDDEN_SEGMENTS: ReadonlySet<string> = new Set(["__proto__", "prototype", "constructor"]);
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+type TokenKind = "identifier" | "string" | "number" | "operator" | "punctuation" | "end";
+
+interface Token {
+  readonly kind: TokenKind;
+  readonly value: string;
+  readonly position: number;
+}
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!"];
+const PUNCTUATION = new Set(["(", ")", "[", "]", ",", "."]);
+const KEYWORD_OPERATORS: ReadonlyMap<string, string> = new Map([
+  ["and", "&&"],
+  ["or", "||"],
+  ["not", "!"],
+  ["in", "in"],
+]);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = "";
+      index += 1;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\\" && index + 1 < source.length) {
+          index += 1;
+        }
+        value += source[index];
+        index += 1;
+      }
+      if (index >= source.length) {
+        throw new PolicyExpressionError("Unterminated string literal", source, start);
+      }
+      index += 1;
+      tokens.push({ kind: "string", value, position: start });
+      continue;
+    }
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(source.slice(index));
+    if (numberMatch && (char !== "-" || !isOperand(tokens[tokens.length - 1]))) {
+      tokens.push({ kind: "number", value: numberMatch[0], position: index });
+      index += numberMatch[0].length;
+      continue;
+    }
+    const identifierMatch = /^[A-Za-z_$][\w$]*/.exec(source.slice(index));
+    if (identifierMatch) {
+      const word = identifierMatch[0];
+      const keyword = KEYWORD_OPERATORS.get(word);
+      tokens.push(
+        keyword
+          ? { kind: "operator", value: keyword, position: index }
+          : { kind: "identifier", value: word, position: index },
+      );
+      index += word.length;
+      continue;
+    }
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+    if (operator) {
+      tokens.push({ kind: "operator", value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+    if (PUNCTUATION.has(char)) {
+      tokens.push({ kind: "punctuation", value: char, position: index });
+      index += 1;
+      continue;
+    }
+    throw new PolicyExpressionError(`Unexpected character "${char}"`, source, index);
+  }
+  tokens.push({ kind: "end", value: "", position: source.length });
+  return tokens;
+};
+
+const isOperand = (token: Token | undefined): boolean =>
+  token !== undefined &&
+  (token.kind === "identifier" ||
+    token.kind === "string" ||
+    token.kind === "number" ||
+    (token.kind === "punctuation" && (token.value === ")" || token.value === "]")));
+
+type Evaluator = (context: PolicyExpressionContext) => unknown;
+
+interface FunctionDefinition {
+  readonly arity: number;
+  readonly compile: (args: ReadonlyArray<CompiledNode>, fail: (message: string) => never) => Evaluator;
+}
+
+interface CompiledNode {
+  readonly evaluate: Evaluator;
+  readonly literal?: { readonly value: unknown };
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+  );
+
+const parseTimeOfDay = (value: unknown): number | undefined => {
+  if (!isString(value)) {
+    return undefined;
+  }
+  const match = TIME_OF_DAY_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+};
+
+const minutesOfDay = (date: Date): number => date.getUTCHours() * 60 + date.getUTCMinutes();
+
+const FUNCTIONS: Readonly<Record<string, FunctionDefinition>> = {
+  startsWith: {
+    arity: 2,
+    compile: ([value, prefix]) => (context) => {
+      const subject = value.evaluate(context);
+      const candidate = prefix.evaluate(context);
+      return isString(subject) && isString(candidate) && subject.startsWith(candidate);
+    },
+  },
+  endsWith: {
+    arity: 2,
+    compile: ([value, suffix]) => (context) => {
+      const subject = value.evaluate(context);
+      const candidate = suffix.evaluate(context);
+      return isString(subject) && isString(candidate) && subject.endsWith(candidate);
+    },
+  },
+  glob: {
+    arity: 2,
+    compile: ([value, pattern], fail) => {
+      if (pattern.literal) {
+        if (!isString(pattern.literal.value)) {
+          fail("glob() pattern must be a string");
+        }
+        const expression = globToRegExp(pattern.literal.value as string);
+        return (context) => {
+          const subject = value.evaluate(context);
+          return isString(subject) && expression.test(subject);
+        };
+      }
+      return (context) => {
+        const subject = value.evaluate(context);
+        const candidate = pattern.evaluate(context);
+        return isString(subject) && isString(candidate) && globToRegExp(candidate).test(subject);
+      };
+    },
+  },
+  between: {
+    arity: 3,
+    compile: ([value, min, max]) => (context) => {
+      const subject = value.evaluate(context);
+      const lower = min.evaluate(context);
+      const upper = max.evaluate(context);
+      return isNumber(subject) && isNumber(lower) && isNumber(upper) && subject >= lower && subject <= upper;
+    },
+  },
+  timeBetween: {
+    arity: 2,
+    compile: ([start, end], fail) => {
+      for (const bound of [start, end]) {
+        if (bound.literal && parseTimeOfDay(bound.literal.value) === undefined) {
+          fail('timeBetween() bounds must be "HH:MM" strings');
+        }
+      }
+      return (context) => {
+        const from = parseTimeOfDay(start.evaluate(context));
+        const to = parseTimeOfDay(end.evaluate(context));
+        if (from === undefined || to === undefined) {
+          return false;
+        }
+        const current = minutesOfDay(context.now);
+        // Windows whose end precedes their start wrap past midnight, e.g. "22:00" to "06:00".
+        return from <= to ? current >= from && current < to : current >= from || current < to;
+      };
+    },
+  },
+};
+
+const readProperty = (target: unknown, key: string): unknown => {
+  if (target === null || target === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(target)) {
+    if (key === "length") {
+      return target.length;
+    }
+    return /^\d+$/.test(key) ? target[Number(key)] : undefined;
+  }
+  if (isString(target)) {
+    return key === "length" ? target.length : undefined;
+  }
+  if (typeof target !== "object") {
+    return undefined;
+  }
+  return Object.prototype.hasOwnProperty.call(target, key)
+    ? (target as Record<string, unknown>)[key]
+    : undefined;
+};
+
+const resolveRoot = (context: PolicyExpressionContext, root: string): unknown => {
+  switch (root) {
+    case "identity":
+      return context.identity;
+    case "action":
+      return context.action;
+    case "resource":
+      return context.resource;
+    case "environment":
+      return context.environment;
+    default:
+      return {
+        hour: context.now.getUTCHours(),
+        minute: context.now.getUTCMinutes(),
+        dayOfWeek: context.now.getUTCDay(),
+        time: context.now.toISOString().slice(11, 16),
+        timestamp: context.now.getTime(),
+      };
+  }
+};
+
+/**
+ * A missing value equals nothing but an explicit `null` literal, so `resource.attributes.orgId == identity.orgId`
+ * cannot match when both attributes are absent. `!=` is always the negation of `==`, so a deny rule such as
+ * `identity.labels.dept != "finance"` still matches identities without the label.
+ */
+const compareEquality = (
+  operator: string,
+  left: unknown,
+  right: unknown,
+  nullLiterals: { readonly left: boolean; readonly right: boolean },
+): boolean => {
+  const equal =
+    left === undefined || right === undefined
+      ? (left === undefined && nullLiterals.right) || (right === undefined && nullLiterals.left)
+      : left === right;
+  return operator === "==" ? equal : !equal;
+};
+
+const compare = (operator: string, left: unknown, right: unknown): boolean => {
+  const comparable = (isNumber(left) && isNumber(right)) || (isString(left) && isString(right));
+  if (!comparable) {
+    return false;
+  }
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+};
+
+const contains = (haystack: unknown, needle: unknown): boolean => {
+  if (Array.isArray(haystack)) {
+    return haystack.includes(needle);
+  }
+  if (isString(haystack) && isString(needle)) {
+    return haystack.includes(needle);
+  }
+  return false;
+};
+
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): CompiledNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== "end") {
+      this.fail(`Unexpected token "${next.value}"`, next.position);
+    }
+    return node;
+  }
+
+  private parseOr(): CompiledNode {
+    let left = this.parseAnd();
+    while (this.matchOperator("||")) {
+      const lhs = left;
+      const rhs = this.parseAnd();
+      left = { evaluate: (context) => lhs.evaluate(context) === true || rhs.evaluate(context) === true };
+    }
+    return left;
+  }
+
+  private parseAnd(): CompiledNode {
+    let left = this.parseNot();
+    while (this.matchOperator("&&")) {
+      const lhs = left;
+      const rhs = this.parseNot();
+      left = { evaluate: (context) => lhs.evaluate(context) === true && rhs.evaluate(context) === true };
+    }
+    return left;
+  }
+
+  private parseNot(): CompiledNode {
+    if (this.matchOperator("!")) {
+      const operand = this.parseNot();
+      return { evaluate: (context) => operand.evaluate(context) !== true };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): CompiledNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+    if (token.kind !== "operator") {
+      return left;
+    }
+
+    if (token.value === "in" || (token.value === "!" && this.peek(1).value === "in")) {
+      const negated = token.value === "!";
+      this.index += negated ? 2 : 1;
+      const right = this.parsePrimary();
+      return {
+        evaluate: (context) => contains(right.evaluate(context), left.evaluate(context)) !== negated,
+      };
+    }
+
+    if (["==", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+      this.index += 1;
+      const right = this.parsePrimary();
+      const operator = token.value;
+      if (operator === "==" || operator === "!=") {
+        const nullLiterals = { left: left.literal?.value === null, right: right.literal?.value === null };
+        return {
+          evaluate: (context) => compareEquality(operator, left.evaluate(context), right.evaluate(context), nullLiterals),
+        };
+      }
+      return { evaluate: (context) => compare(operator, left.evaluate(context), right.evaluate(context)) };
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): CompiledNode {
+    const token = this.next();
+    switch (token.kind) {
+      case "string":
+        return literal(token.value);
+      case "number":
+        return literal(Number(token.value));
+      case "identifier":
+        return this.parseIdentifier(token);
+      case "punctuation":
+        if (token.value === "(") {
+          const inner = this.parseOr();
+          this.expectPunctuation(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          return this.parseList();
+        }
+        break;
+      default:
+        break;
+    }
+    return this.fail(
+      token.kind === "end" ? "Unexpected end of expression" : `Unexpected token "${token.value}"`,
+      token.position,
+    );
+  }
+
+  private parseIdentifier(token: Token): CompiledNode {
+    if (token.value === "true" || token.value === "false") {
+      return literal(token.value === "true");
+    }
+    if (token.value === "null") {
+      return literal(null);
+    }
+
+    if (this.peek().value === "(" && this.peek().kind === "punctuation") {
+      return this.parseCall(token);
+    }
+
+    if (!ROOTS.has(token.value)) {
+      this.fail(
+        `Unknown identifier "${token.value}"; expected one of ${[...ROOTS].join(", ")}`,
+        token.position,
+      );
+    }
+
+    const root = token.value;
+    const segments: string[] = [];
+    for (;;) {
+      const next = this.peek();
+      if (next.kind !== "punctuation" || (next.value !== "." && next.value !== "[")) {
+        break;
+      }
+      this.index += 1;
+      const bracketed = next.value === "[";
+      const segment = this.next();
+      const validSegment = bracketed
+        ? segment.kind === "string" || segment.kind === "number"
+        : segment.kind === "identifier";
+      if (!validSegment) {
+        this.fail("Expected a property name", segment.position);
+      }
+      if (bracketed) {
+        this.expectPunctuation("]");
+      }
+      if (FORBIDDEN_SEGMENTS.has(segment.value)) {
+        this.fail(`Property "${segment.value}" is not accessible`, segment.position);
+      }
+      segments.push(segment.value);
+    }
+
+    return {
+      evaluate: (context) => {
+        let value = resolveRoot(context, root);
+        for (const segment of segments) {
+          value = readProperty(value, segment);
+        }
+        return value;
+      },
+    };
+  }
+
+  private parseCall(token: Token): CompiledNode {
+    const definition = Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)
+      ? FUNCTIONS[token.value]
+      : undefined;
+    if (!definition) {
+      this.fail(`Unknown function "${token.value}"`, token.position);
+    }
+    this.expectPunctuation("(");
+    const args: CompiledNode[] = [];
+    if (!this.matchPunctuation(")")) {
+      do {
+        args.push(this.parseOr());
+      } while (this.matchPunctuation(","));
+      this.expectPunctuation(")");
+    }
+    if (args.length !== definition.arity) {
+      this.fail(
+        `${token.value}() expects ${definition.arity} arguments but received ${args.length}`,
+        token.position,
+      );
+    }
+    return { evaluate: definition.compile(args, (message) => this.fail(message, token.position)) };
+  }
+
+  private parseList(): CompiledNode {
+    const items: CompiledNode[] = [];
+    if (!this.matchPunctuation("]")) {
+      do {
+        items.push(this.parsePrimary());
+      } while (this.matchPunctuation(","));
+      this.expectPunctuation("]");
+    }
+    if (items.every((item) => item.literal)) {
+      return literal(items.map((item) => item.literal?.value));
+    }
+    return { evaluate: (context) => items.map((item) => item.evaluate(context)) };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== "end") {
+      this.index += 1;
+    }
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === "operator" && token.value === value) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === "punctuation" && token.value === value) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      const token = this.peek();
+      this.fail(`Expected "${value}"`, token.position);
+    }
+  }
+
+  private fail(message: string, position: number): never {
+    throw new PolicyExpressionError(message, this.source, position);
+  }
+}
+
+const literal = (value: unknown): CompiledNode => ({ evaluate: () => value, literal: { value } });
+
+/**
+ * Parses and compiles a condition expression such as
+ * `resource.attributes.ownerId == identity.userId && timeBetween("09:00", "17:00")`. Expressions are pure: they can
+ * only read own properties of the evaluation input and call the built-in helpers, and any type mismatch at
+ * evaluation time yields `false` rather than throwing. Syntax errors, unknown identifiers, and unknown functions are
+ * reported as {@link PolicyExpressionError}s when the expression is compiled.
+ */
+export const compilePolicyExpression = (source: string): CompiledPolicyExpression => {
+  const trimmed = source.trim();
+  if (!trimmed) {
+    throw new PolicyExpressionError("Expression must not be empty", source, 0);
+  }
+  if (trimmed.length > MAX_EXPRESSION_LENGTH) {
+    throw new PolicyExpressionError(
+      `Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`,
+      trimmed.slice(0, 32),
+      MAX_EXPRESSION_LENGTH,
+    );
+  }
+  const root = new Parser(trimmed).parse();
+  return {
+    source: trimmed,
+    evaluate: (context) => root.evaluate(context) === true,
+  };
+};
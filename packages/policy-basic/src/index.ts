@@ -1,4 +1,6 @@
 export { BasicPolicyEngine, createBasicPolicyEngine } from "./basic-policy-engine.js";
+export { PolicyExpressionError, compilePolicyExpression } from "./expression.js";
+export type { CompiledPolicyExpression, PolicyExpressionContext } from "./expression.js";
 export type {
   BasicPolicyConditions,
   BasicPolicyEngineOptions,
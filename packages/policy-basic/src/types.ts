@@ -14,6 +14,11 @@ export interface BasicPolicyConditions {
   readonly requireLabels?: LabelSet;
   readonly forbidLabels?: LabelSet;
   readonly environment?: Record<string, unknown>;
+  /**
+   * Boolean expression evaluated against `identity`, `action`, `resource`, `environment`, and `now`, e.g.
+   * `resource.attributes.ownerId == identity.userId`. Compiled once when the engine is constructed.
+   */
+  readonly expression?: string;
 }
 
 export type DecisionJwtFactory = (
@@ -36,4 +41,6 @@ export interface BasicPolicyRule {
 export interface BasicPolicyEngineOptions {
   readonly rules: ReadonlyArray<BasicPolicyRule>;
   readonly defaultDecision?: PolicyDecision;
+  /** Clock used for `now` and `timeBetween()` in condition expressions. Defaults to the system clock. */
+  readonly clock?: () => Date;
 }
@@ -143,4 +143,236 @@ describe('BasicPolicyEngine', () => {
     assert.equal(decision.allow, true);
     assert.equal(decision.decisionJwt, 'user-1:doc-555');
   });
+
+  test('evaluates ownership and comparison expressions against the request', async () => {
+    const engine = createBasicPolicyEngine({
+      rules: [
+        {
+          id: 'owner-edit',
+          action: 'documents.update',
+          effect: 'allow',
+          conditions: {
+            expression:
+              'resource.attributes.ownerId == identity.userId && resource.attributes.size <= 1024',
+          },
+        },
+        {
+          id: 'staff-read',
+          action: 'documents.read',
+          effect: 'allow',
+          conditions: {
+            expression:
+              'identity.labels.plan in ["pro", "enterprise"] and startsWith(resource.id, "doc-") ' +
+              'and not glob(environment.requestIp, "10.*") and between(environment.riskScore, 0, 50)',
+          },
+        },
+      ],
+    });
+
+    const ownedResource = { ...baseResource, attributes: { ownerId: 'user-1', size: 512 } };
+    const owned = await evaluate(engine, { action: 'documents.update', resource: ownedResource });
+    assert.equal(owned.allow, true);
+
+    const foreign = await evaluate(engine, {
+      action: 'documents.update',
+      resource: { ...baseResource, attributes: { ownerId: 'user-2', size: 512 } },
+    });
+    assert.equal(foreign.allow, false);
+
+    const untyped = await evaluate(engine, {
+      action: 'documents.update',
+      resource: { ...baseResource, attributes: { ownerId: 'user-1', size: '512' } },
+    });
+    assert.equal(untyped.allow, false);
+
+    const read = await evaluate(engine, { environment: { requestIp: '127.0.0.1', riskScore: 20 } });
+    assert.equal(read.allow, true);
+
+    const internalNetwork = await evaluate(engine, { environment: { requestIp: '10.0.0.4', riskScore: 20 } });
+    assert.equal(internalNetwork.allow, false);
+
+    const risky = await evaluate(engine, { environment: { requestIp: '127.0.0.1', riskScore: 80 } });
+    assert.equal(risky.allow, false);
+  });
+
+  test('does not match equality between missing values unless compared with null', async () => {
+    const engine = createBasicPolicyEngine({
+      rules: [
+        {
+          id: 'own',
+          action: 'documents.read',
+          effect: 'allow',
+          conditions: { expression: 'resource.attributes.orgId == identity.orgId' },
+        },
+        {
+          id: 'other-org',
+          action: 'documents.update',
+          effect: 'allow',
+          conditions: { expression: 'resource.attributes.orgId != identity.orgId' },
+        },
+        {
+          id: 'unowned',
+          action: 'documents.delete',
+          effect: 'allow',
+          conditions: { expression: 'resource.attributes.ownerId == null' },
+        },
+      ],
+    });
+    const { orgId, ...identityWithoutOrg } = baseIdentity;
+    const bareResource = { type: 'doc', id: 'd1' };
+
+    const bothMissing = await evaluate(engine, { identity: identityWithoutOrg, resource: bareResource });
+    assert.equal(bothMissing.allow, false);
+    assert.equal(bothMissing.reason, 'policy.default.deny');
+
+    const oneMissing = await evaluate(engine, { action: 'documents.update', resource: bareResource });
+    assert.equal(oneMissing.allow, true);
+
+    const bothMissingUnequal = await evaluate(engine, {
+      action: 'documents.update',
+      identity: identityWithoutOrg,
+      resource: bareResource,
+    });
+    assert.equal(bothMissingUnequal.allow, true);
+
+    const sameOrg = await evaluate(engine, { resource: { ...bareResource, attributes: { orgId } } });
+    assert.equal(sameOrg.allow, true);
+
+    const unowned = await evaluate(engine, { action: 'documents.delete', resource: bareResource });
+    assert.equal(unowned.allow, true);
+  });
+
+  test('matches inequality deny rules for identities without the attribute', async () => {
+    const engine = createBasicPolicyEngine({
+      rules: [
+        { id: 'allow-reports', action: 'reports.read', effect: 'allow' },
+        {
+          id: 'finance-only',
+          action: 'reports.read',
+          effect: 'deny',
+          conditions: { expression: 'identity.labels.dept != "finance"' },
+        },
+      ],
+    });
+
+    const unlabeled = await evaluate(engine, { action: 'reports.read' });
+    assert.equal(unlabeled.allow, false);
+    assert.equal(unlabeled.reason, 'policy.rule.finance-only.deny');
+
+    const finance = await evaluate(engine, {
+      action: 'reports.read',
+      identity: { ...baseIdentity, labels: { ...baseIdentity.labels, dept: 'finance' } },
+    });
+    assert.equal(finance.allow, true);
+  });
+
+  test('evaluates time-of-day windows with the configured clock', async () => {
+    let now = new Date('2024-01-01T23:30:00.000Z');
+    const engine = createBasicPolicyEngine({
+      clock: () => now,
+      rules: [
+        {
+          id: 'maintenance-window',
+          action: 'documents.*',
+          effect: 'allow',
+          conditions: { expression: 'timeBetween("22:00", "06:00") && now.dayOfWeek != 0' },
+        },
+      ],
+    });
+
+    assert.equal((await evaluate(engine)).allow, true);
+
+    now = new Date('2024-01-02T12:00:00.000Z');
+    assert.equal((await evaluate(engine)).allow, false);
+
+    now = new Date('2024-01-07T23:30:00.000Z');
+    assert.equal((await evaluate(engine)).allow, false);
+  });
+
+  test('explains which checks each rule failed', async () => {
+    const engine = createBasicPolicyEngine({
+      rules: [
+        { id: 'admins', action: 'documents.*', effect: 'allow', conditions: { anyRoles: ['admin'] } },
+        { id: 'billing', action: 'billing.*', effect: 'allow' },
+        {
+          id: 'owners',
+          action: 'documents.read',
+          effect: 'allow',
+          resourceType: 'folder',
+          conditions: { expression: 'resource.attributes.ownerId == identity.userId' },
+        },
+        {
+          id: 'mfa-required',
+          action: 'documents.read',
+          effect: 'deny',
+          conditions: { environment: { mfa: false } },
+          decisionJwt: () => 'should-not-be-minted',
+        },
+      ],
+    });
+
+    const result = await engine.explain({
+      identity: baseIdentity,
+      action: 'documents.read',
+      resource: baseResource,
+      environment: { mfa: false },
+    });
+    assert.equal(result.ok, true);
+    const explanation = result.value;
+
+    assert.equal(explanation.defaultApplied, false);
+    assert.deepEqual(explanation.decision, {
+      allow: false,
+      reason: 'policy.rule.mfa-required.deny',
+      obligations: undefined,
+    });
+    assert.deepEqual(
+      explanation.rules.map(({ ruleId, actionMatched, resourceMismatch, failedCondition, matched, selected }) => ({
+        ruleId,
+        actionMatched,
+        resourceMismatch,
+        failedCondition,
+        matched,
+        selected,
+      })),
+      [
+        { ruleId: 'admins', actionMatched: true, resourceMismatch: undefined, failedCondition: 'anyRoles', matched: false, selected: false },
+        { ruleId: 'billing', actionMatched: false, resourceMismatch: undefined, failedCondition: undefined, matched: false, selected: false },
+        { ruleId: 'owners', actionMatched: true, resourceMismatch: 'type', failedCondition: 'expression', matched: false, selected: false },
+        { ruleId: 'mfa-required', actionMatched: true, resourceMismatch: undefined, failedCondition: undefined, matched: true, selected: true },
+      ],
+    );
+
+    const fallback = await engine.explain({ identity: baseIdentity, action: 'reports.read' });
+    assert.equal(fallback.value.defaultApplied, true);
+    assert.equal(fallback.value.decision.reason, 'policy.default.deny');
+    assert.equal(fallback.value.rules.some((rule) => rule.selected), false);
+  });
+
+  test('rejects invalid expressions when the engine is constructed', () => {
+    const cases = [
+      ['resource.attributes.ownerId ==', /Unexpected end of expression/],
+      ['user.id == "1"', /Unknown identifier "user"/],
+      ['exec("rm")', /Unknown function "exec"/],
+      ['startsWith(resource.id)', /startsWith\(\) expects 2 arguments but received 1/],
+      ['timeBetween("9am", "17:00")', /timeBetween\(\) bounds must be "HH:MM" strings/],
+      ['identity.constructor == null', /Property "constructor" is not accessible/],
+      ['identity.userId == "a" ) ', /Unexpected token "\)"/],
+    ];
+
+    for (const [expression, message] of cases) {
+      assert.throws(
+        () =>
+          createBasicPolicyEngine({
+            rules: [{ id: 'broken', action: 'documents.read', effect: 'allow', conditions: { expression } }],
+          }),
+        (error) => {
+          assert.match(error.message, /^Policy rule broken has an invalid expression: /);
+          assert.match(error.message, message);
+          assert.equal(error.cause.name, 'PolicyExpressionError');
+          return true;
+        },
+      );
+    }
+  });
 });
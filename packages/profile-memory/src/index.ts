@@ -1,2 +1,4 @@
 export { createInMemoryProfileStore, InMemoryProfileStore } from "./memory-profile-store.js";
 export type { InMemoryProfileStoreOptions } from "./memory-profile-store.js";
+export { createInMemoryInvitationStore, InMemoryInvitationStore } from "./memory-invitation-store.js";
+export type { InMemoryInvitationStoreOptions } from "./memory-invitation-store.js";
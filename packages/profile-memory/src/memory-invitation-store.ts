@@ -0,0 +1,121 @@
+import { randomUUID } from "node:crypto";
+
+import type {
+  CreateInvitationInput,
+  InvitationRecord,
+  InvitationStorePort,
+  ListInvitationsOptions,
+  TransitionInvitationInput,
+} from "@catalyst-auth/contracts";
+
+interface Clock {
+  now(): Date;
+}
+
+type IdFactory = () => string;
+
+export interface InMemoryInvitationStoreOptions {
+  readonly initialInvitations?: ReadonlyArray<InvitationRecord>;
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+const cloneInvitation = (invitation: InvitationRecord): InvitationRecord => ({
+  ...invitation,
+  groupIds: [...invitation.groupIds],
+});
+
+const matchesOptions = (invitation: InvitationRecord, options: ListInvitationsOptions): boolean =>
+  (options.orgId === undefined || invitation.orgId === options.orgId) &&
+  (options.email === undefined || invitation.email === options.email) &&
+  (options.status === undefined || invitation.status === options.status);
+
+export class InMemoryInvitationStore implements InvitationStorePort {
+  private readonly invitations = new Map<string, InvitationRecord>();
+  private readonly clock: Clock;
+  private readonly idFactory: IdFactory;
+
+  constructor(options: InMemoryInvitationStoreOptions = {}) {
+    this.clock = options.clock ?? defaultClock;
+    this.idFactory = options.idFactory ?? defaultIdFactory;
+    for (const invitation of options.initialInvitations ?? []) {
+      this.invitations.set(invitation.id, cloneInvitation(invitation));
+    }
+  }
+
+  async createInvitation(input: CreateInvitationInput): Promise<InvitationRecord> {
+    const id = input.id ?? this.idFactory();
+    if (this.invitations.has(id)) {
+      throw new Error(`Invitation ${id} already exists`);
+    }
+
+    const createdAt = input.createdAt ?? this.clock.now().toISOString();
+    const invitation: InvitationRecord = {
+      id,
+      orgId: input.orgId,
+      email: input.email,
+      role: input.role,
+      groupIds: [...(input.groupIds ?? [])],
+      status: "pending",
+      tokenHash: input.tokenHash,
+      invitedByUserId: input.invitedByUserId,
+      expiresAt: input.expiresAt,
+      sentAt: createdAt,
+      sendCount: 1,
+      createdAt,
+      updatedAt: createdAt,
+    };
+    this.invitations.set(id, invitation);
+    return cloneInvitation(invitation);
+  }
+
+  async getInvitation(id: string): Promise<InvitationRecord | undefined> {
+    const invitation = this.invitations.get(id);
+    return invitation ? cloneInvitation(invitation) : undefined;
+  }
+
+  async listInvitations(options: ListInvitationsOptions = {}): Promise<ReadonlyArray<InvitationRecord>> {
+    return Array.from(this.invitations.values())
+      .filter((invitation) => matchesOptions(invitation, options))
+      .sort((left, right) => left.createdAt.localeCompare(right.createdAt))
+      .map(cloneInvitation);
+  }
+
+  async transitionInvitation(
+    id: string,
+    input: TransitionInvitationInput,
+  ): Promise<InvitationRecord | undefined> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.status !== input.expectedStatus) {
+      return undefined;
+    }
+    if (input.expectedTokenHash !== undefined && invitation.tokenHash !== input.expectedTokenHash) {
+      return undefined;
+    }
+
+    const updated: InvitationRecord = {
+      ...invitation,
+      status: input.status,
+      updatedAt: input.updatedAt,
+      tokenHash: input.tokenHash ?? invitation.tokenHash,
+      expiresAt: input.expiresAt ?? invitation.expiresAt,
+      sentAt: input.sentAt ?? invitation.sentAt,
+      sendCount: input.sendCount ?? invitation.sendCount,
+      resolvedAt: input.resolvedAt ?? invitation.resolvedAt,
+      resolvedByUserId: input.resolvedByUserId ?? invitation.resolvedByUserId,
+      membershipId: input.membershipId ?? invitation.membershipId,
+    };
+    this.invitations.set(id, updated);
+    return cloneInvitation(updated);
+  }
+}
+
+export const createInMemoryInvitationStore = (
+  options: InMemoryInvitationStoreOptions = {},
+): InMemoryInvitationStore => new InMemoryInvitationStore(options);
@@ -7,6 +7,7 @@ import type {
   MembershipRecord,
   GroupRecord,
   EffectiveIdentityRequest,
+  RoleDefinitionRecord,
 } from "@catalyst-auth/contracts";
 
 export interface InMemoryProfileStoreOptions {
@@ -14,8 +15,19 @@ export interface InMemoryProfileStoreOptions {
   readonly initialOrgs?: ReadonlyArray<OrgProfileRecord>;
   readonly initialGroups?: ReadonlyArray<GroupRecord>;
   readonly initialMemberships?: ReadonlyArray<MembershipRecord>;
+  readonly initialRoles?: ReadonlyArray<RoleDefinitionRecord>;
+  /**
+   * Maximum number of ancestor levels folded into effective identities through `parentGroupId`.
+   * Defaults to 10.
+   */
+  readonly maxGroupDepth?: number;
 }
 
+const DEFAULT_MAX_GROUP_DEPTH = 10;
+const MAX_ROLE_INHERITANCE_DEPTH = 10;
+
+const roleKey = (orgId: string, name: string): string => `${orgId}:${name}`;
+
 const structuredCloneFn: (<T>(value: T) => T) | undefined =
   (globalThis as unknown as { structuredClone?: <T>(value: T) => T }).structuredClone;
 
@@ -62,8 +74,12 @@ export class InMemoryProfileStore implements ProfileStorePort {
   private readonly memberships = new Map<string, MembershipRecord>();
   private readonly membershipsByUser = new Map<string, Set<string>>();
   private readonly membershipsByOrg = new Map<string, Set<string>>();
+  private readonly roles = new Map<string, RoleDefinitionRecord>();
+  private readonly roleNameIndex = new Map<string, string>();
+  private readonly maxGroupDepth: number;
 
   constructor(options: InMemoryProfileStoreOptions = {}) {
+    this.maxGroupDepth = Math.max(0, options.maxGroupDepth ?? DEFAULT_MAX_GROUP_DEPTH);
     for (const user of options.initialUsers ?? []) {
       this.saveUserProfile(user);
     }
@@ -76,6 +92,9 @@ export class InMemoryProfileStore implements ProfileStorePort {
     for (const membership of options.initialMemberships ?? []) {
       this.saveMembership(membership);
     }
+    for (const role of options.initialRoles ?? []) {
+      this.saveRole(role);
+    }
   }
 
   async getUserProfile(id: string): Promise<UserProfileRecord | undefined> {
@@ -103,6 +122,11 @@ export class InMemoryProfileStore implements ProfileStorePort {
     return clone(stored);
   }
 
+  async getGroup(groupId: string): Promise<GroupRecord | undefined> {
+    const group = this.groups.get(groupId);
+    return group ? clone(group) : undefined;
+  }
+
   async listGroups(orgId: string): Promise<ReadonlyArray<GroupRecord>> {
     const groupIds = this.groupsByOrg.get(orgId);
     if (!groupIds) {
@@ -129,6 +153,42 @@ export class InMemoryProfileStore implements ProfileStorePort {
     this.removeGroupFromMemberships(groupId, existing.orgId);
   }
 
+  async listRoles(orgId: string): Promise<ReadonlyArray<RoleDefinitionRecord>> {
+    return Array.from(this.roles.values())
+      .filter((role) => role.orgId === orgId)
+      .sort((left, right) => left.name.localeCompare(right.name))
+      .map((role) => clone(role));
+  }
+
+  async getRole(orgId: string, name: string): Promise<RoleDefinitionRecord | undefined> {
+    const role = this.findRole(orgId, name);
+    return role ? clone(role) : undefined;
+  }
+
+  async getRoleById(roleId: string): Promise<RoleDefinitionRecord | undefined> {
+    const role = this.roles.get(roleId);
+    return role ? clone(role) : undefined;
+  }
+
+  async upsertRole(role: RoleDefinitionRecord): Promise<RoleDefinitionRecord> {
+    const stored = this.saveRole(role);
+    return clone(stored);
+  }
+
+  async deleteRole(roleId: string): Promise<void> {
+    const existing = this.roles.get(roleId);
+    if (!existing) {
+      return;
+    }
+    this.roles.delete(roleId);
+    this.roleNameIndex.delete(roleKey(existing.orgId, existing.name));
+  }
+
+  async getMembership(membershipId: string): Promise<MembershipRecord | undefined> {
+    const membership = this.memberships.get(membershipId);
+    return membership ? clone(membership) : undefined;
+  }
+
   async listMembershipsByUser(userId: string): Promise<ReadonlyArray<MembershipRecord>> {
     const membershipIds = this.membershipsByUser.get(userId);
     if (!membershipIds) {
@@ -179,20 +239,24 @@ export class InMemoryProfileStore implements ProfileStorePort {
       throw new Error(`Org profile ${request.orgId} not found`);
     }
 
+    const groupLevels = request.includeGroups === false
+      ? []
+      : this.resolveGroupLevels(membership?.groupIds ?? []);
+
+    const roleChain = membership ? this.resolveRoleChain(membership.orgId, membership.role) : [];
+
+    // Inherited roles and ancestor groups are merged first so more specific labels take precedence.
     const labels = mergeLabelSets(
       user.labels,
       org?.labels,
+      ...[...roleChain].reverse().map((role) => role.labels),
       membership?.labelsDelta,
-      ...(request.includeGroups === false
-        ? []
-        : this.collectGroupLabels(membership?.groupIds ?? [])),
+      ...[...groupLevels].reverse().flatMap((level) => level.map((group) => group.labels)),
     );
 
-    const groups = request.includeGroups === false
-      ? []
-      : this.collectGroupIds(membership?.groupIds ?? []);
+    const groups = dedupe(groupLevels.flatMap((level) => level.map((group) => group.id)));
 
-    const roles = membership ? [membership.role] : [];
+    const roles = membership ? dedupe([membership.role, ...roleChain.map((role) => role.name)]) : [];
 
     return {
       userId: user.id,
@@ -200,8 +264,8 @@ export class InMemoryProfileStore implements ProfileStorePort {
       groups,
       labels,
       roles,
-      entitlements: [],
-      scopes: [],
+      entitlements: dedupe(roleChain.flatMap((role) => role.entitlements)),
+      scopes: dedupe(roleChain.flatMap((role) => role.scopes)),
     };
   }
 
@@ -242,18 +306,61 @@ export class InMemoryProfileStore implements ProfileStorePort {
     return undefined;
   }
 
-  private collectGroupLabels(groupIds: ReadonlyArray<string>): ReadonlyArray<LabelSet> {
-    return groupIds
-      .map((id) => this.groups.get(id))
-      .filter((group): group is GroupRecord => Boolean(group))
-      .map((group) => group.labels);
+  /**
+   * Resolves the role definition for a membership role followed by the roles it inherits from. Undefined roles
+   * end the chain, and the walk stops on cycles or after {@link MAX_ROLE_INHERITANCE_DEPTH} inherited roles.
+   */
+  private resolveRoleChain(orgId: string, name: string): ReadonlyArray<RoleDefinitionRecord> {
+    const chain: RoleDefinitionRecord[] = [];
+    const visited = new Set<string>();
+    let current = this.findRole(orgId, name);
+    while (current && !visited.has(current.name) && chain.length <= MAX_ROLE_INHERITANCE_DEPTH) {
+      visited.add(current.name);
+      chain.push(current);
+      current = current.inherits ? this.findRole(orgId, current.inherits) : undefined;
+    }
+    return chain;
   }
 
-  private collectGroupIds(groupIds: ReadonlyArray<string>): ReadonlyArray<string> {
-    const resolvedIds = groupIds
-      .map((id) => (this.groups.has(id) ? id : undefined))
-      .filter((id): id is string => Boolean(id));
-    return dedupe(resolvedIds);
+  private findRole(orgId: string, name: string): RoleDefinitionRecord | undefined {
+    const roleId = this.roleNameIndex.get(roleKey(orgId, name));
+    return roleId ? this.roles.get(roleId) : undefined;
+  }
+
+  /**
+   * Walks `parentGroupId` links breadth-first from the membership's groups. The first level holds the direct
+   * groups; each following level holds their parents within the same org. Groups already visited are skipped so
+   * cycles terminate, and the walk stops after `maxGroupDepth` ancestor levels.
+   */
+  private resolveGroupLevels(groupIds: ReadonlyArray<string>): ReadonlyArray<ReadonlyArray<GroupRecord>> {
+    const visited = new Set<string>();
+    const levels: GroupRecord[][] = [];
+    let frontier = groupIds
+      .map((id) => this.groups.get(id))
+      .filter((group): group is GroupRecord => Boolean(group));
+
+    while (frontier.length > 0 && levels.length <= this.maxGroupDepth) {
+      const level: GroupRecord[] = [];
+      for (const group of frontier) {
+        if (visited.has(group.id)) {
+          continue;
+        }
+        visited.add(group.id);
+        level.push(group);
+      }
+      if (level.length === 0) {
+        break;
+      }
+      levels.push(level);
+      frontier = level
+        .map((group) => {
+          const parent = group.parentGroupId ? this.groups.get(group.parentGroupId) : undefined;
+          return parent && parent.orgId === group.orgId ? parent : undefined;
+        })
+        .filter((group): group is GroupRecord => Boolean(group));
+    }
+
+    return levels;
   }
 
   private linkGroupToOrg(groupId: string, orgId: string): void {
@@ -325,6 +432,22 @@ export class InMemoryProfileStore implements ProfileStorePort {
     return stored;
   }
 
+  private saveRole(role: RoleDefinitionRecord): RoleDefinitionRecord {
+    const key = roleKey(role.orgId, role.name);
+    const conflictingId = this.roleNameIndex.get(key);
+    if (conflictingId && conflictingId !== role.id) {
+      throw new Error(`Role ${role.name} already exists in org ${role.orgId}`);
+    }
+    const stored = clone(role);
+    const existing = this.roles.get(role.id);
+    if (existing) {
+      this.roleNameIndex.delete(roleKey(existing.orgId, existing.name));
+    }
+    this.roles.set(role.id, stored);
+    this.roleNameIndex.set(key, role.id);
+    return stored;
+  }
+
   private saveMembership(membership: MembershipRecord): MembershipRecord {
     const stored = clone(membership);
     const existing = this.memberships.get(membership.id);
@@ -0,0 +1,64 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createInMemoryInvitationStore } from '../dist/index.js';
+
+test('transitions invitations only from the expected status and token hash', async () => {
+  const store = createInMemoryInvitationStore({
+    clock: { now: () => new Date('2024-01-01T00:00:00.000Z') },
+    idFactory: () => 'inv-1',
+  });
+
+  const invitation = await store.createInvitation({
+    orgId: 'org-1',
+    email: 'new@example.com',
+    role: 'member',
+    groupIds: ['group-1'],
+    tokenHash: 'hash-1',
+    invitedByUserId: 'user-1',
+    expiresAt: '2024-01-08T00:00:00.000Z',
+  });
+  assert.equal(invitation.id, 'inv-1');
+  assert.equal(invitation.status, 'pending');
+  assert.equal(invitation.sendCount, 1);
+
+  const resent = await store.transitionInvitation('inv-1', {
+    expectedStatus: 'pending',
+    status: 'pending',
+    tokenHash: 'hash-2',
+    sendCount: 2,
+    updatedAt: '2024-01-02T00:00:00.000Z',
+  });
+  assert.equal(resent?.tokenHash, 'hash-2');
+
+  const stale = await store.transitionInvitation('inv-1', {
+    expectedStatus: 'pending',
+    expectedTokenHash: 'hash-1',
+    status: 'accepted',
+    updatedAt: '2024-01-03T00:00:00.000Z',
+  });
+  assert.equal(stale, undefined);
+
+  const accepted = await store.transitionInvitation('inv-1', {
+    expectedStatus: 'pending',
+    expectedTokenHash: 'hash-2',
+    status: 'accepted',
+    resolvedAt: '2024-01-03T00:00:00.000Z',
+    resolvedByUserId: 'user-2',
+    membershipId: 'm-2',
+    updatedAt: '2024-01-03T00:00:00.000Z',
+  });
+  assert.equal(accepted?.status, 'accepted');
+  assert.equal(accepted?.membershipId, 'm-2');
+
+  const replayed = await store.transitionInvitation('inv-1', {
+    expectedStatus: 'pending',
+    expectedTokenHash: 'hash-2',
+    status: 'declined',
+    updatedAt: '2024-01-04T00:00:00.000Z',
+  });
+  assert.equal(replayed, undefined);
+
+  assert.equal((await store.listInvitations({ orgId: 'org-1', status: 'accepted' })).length, 1);
+  assert.equal((await store.listInvitations({ status: 'pending' })).length, 0);
+});
@@ -93,8 +93,10 @@ test('membership indexes update on insert and removal', async () => {
   const byOrg = await store.listMembershipsByOrg(baseOrg.id);
   assert.equal(byOrg.length, 1);
   assert.deepEqual(byOrg[0], membership);
+  assert.deepEqual(await store.getMembership(membership.id), membership);
 
   await store.removeMembership(membership.id);
+  assert.equal(await store.getMembership(membership.id), undefined);
 
   const afterRemovalUser = await store.listMembershipsByUser(baseUser.id);
   const afterRemovalOrg = await store.listMembershipsByOrg(baseOrg.id);
@@ -117,8 +119,10 @@ test('deleting a group unlinks it from org and memberships', async () => {
 
   const groupsBefore = await store.listGroups(baseOrg.id);
   assert.equal(groupsBefore.length, 1);
+  assert.deepEqual(await store.getGroup(baseGroup.id), baseGroup);
 
   await store.deleteGroup(baseGroup.id);
+  assert.equal(await store.getGroup(baseGroup.id), undefined);
 
   const groupsAfter = await store.listGroups(baseOrg.id);
   assert.equal(groupsAfter.length, 0);
@@ -187,6 +191,99 @@ test('computeEffectiveIdentity merges labels, dedupes groups, and respects flags
   assert.equal(explicitMembership.orgId, baseOrg.id);
 });
 
+test('computeEffectiveIdentity folds ancestor groups and stops at cycles and the depth limit', async () => {
+  const groups = [
+    { ...baseGroup, id: 'engineering', slug: 'engineering', labels: { cohort: 'eng', plan: 'eng' } },
+    { ...baseGroup, id: 'backend', slug: 'backend', parentGroupId: 'engineering', labels: { plan: 'backend' } },
+    { ...baseGroup, id: 'payments', slug: 'payments', parentGroupId: 'backend', labels: { oncall: true } },
+    { ...baseGroup, id: 'foreign', orgId: 'org-2', slug: 'foreign', labels: { leaked: true } },
+    { ...baseGroup, id: 'cycle-a', slug: 'cycle-a', parentGroupId: 'cycle-b', labels: {} },
+    { ...baseGroup, id: 'cycle-b', slug: 'cycle-b', parentGroupId: 'cycle-a', labels: {} },
+  ];
+  groups.push({ ...baseGroup, id: 'contractors', slug: 'contractors', parentGroupId: 'foreign', labels: {} });
+
+  const store = createInMemoryProfileStore({
+    initialUsers: [baseUser],
+    initialOrgs: [baseOrg],
+    initialGroups: groups,
+    initialMemberships: [
+      { ...baseMembership, groupIds: ['payments', 'cycle-a', 'contractors'], labelsDelta: {} },
+    ],
+  });
+
+  const identity = await store.computeEffectiveIdentity({ userId: baseUser.id });
+  assert.deepEqual(identity.groups, [
+    'payments',
+    'cycle-a',
+    'contractors',
+    'backend',
+    'cycle-b',
+    'engineering',
+  ]);
+  assert.equal(identity.labels.plan, 'backend');
+  assert.equal(identity.labels.cohort, 'eng');
+  assert.equal(identity.labels.oncall, true);
+  assert.equal(identity.labels.leaked, undefined);
+
+  const shallow = createInMemoryProfileStore({
+    maxGroupDepth: 1,
+    initialUsers: [baseUser],
+    initialOrgs: [baseOrg],
+    initialGroups: groups,
+    initialMemberships: [{ ...baseMembership, groupIds: ['payments'], labelsDelta: {} }],
+  });
+  const limited = await shallow.computeEffectiveIdentity({ userId: baseUser.id });
+  assert.deepEqual(limited.groups, ['payments', 'backend']);
+  assert.equal(limited.labels.cohort, undefined);
+});
+
+test('computeEffectiveIdentity expands role definitions and their inheritance', async () => {
+  const role = (name, overrides = {}) => ({
+    id: `role-${name}`,
+    orgId: 'org-1',
+    name,
+    scopes: [],
+    entitlements: [],
+    labels: {},
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+  const store = createInMemoryProfileStore({
+    initialUsers: [baseUser],
+    initialOrgs: [baseOrg],
+    initialMemberships: [{ ...baseMembership, labelsDelta: {} }],
+    initialRoles: [
+      role('viewer', { scopes: ['documents:read'], entitlements: ['feature:reports'], labels: { tier: 'viewer', audit: true } }),
+      role('editor', { inherits: 'viewer', scopes: ['documents:write', 'documents:read'], labels: { tier: 'editor' } }),
+      role('admin', { inherits: 'editor', scopes: ['org:manage'], entitlements: ['feature:billing'] }),
+    ],
+  });
+
+  const identity = await store.computeEffectiveIdentity({ userId: baseUser.id });
+  assert.deepEqual(identity.roles, ['admin', 'editor', 'viewer']);
+  assert.deepEqual(identity.scopes, ['org:manage', 'documents:write', 'documents:read']);
+  assert.deepEqual(identity.entitlements, ['feature:billing', 'feature:reports']);
+  assert.equal(identity.labels.tier, 'editor');
+  assert.equal(identity.labels.audit, true);
+
+  await store.upsertRole(role('viewer', { inherits: 'admin', scopes: ['documents:read'] }));
+  const cyclic = await store.computeEffectiveIdentity({ userId: baseUser.id });
+  assert.deepEqual(cyclic.roles, ['admin', 'editor', 'viewer']);
+
+  assert.deepEqual((await store.listRoles('org-1')).map((entry) => entry.name), ['admin', 'editor', 'viewer']);
+  assert.equal((await store.getRole('org-1', 'editor')).inherits, 'viewer');
+  await assert.rejects(store.upsertRole(role('editor', { id: 'role-duplicate' })), /Role editor already exists/);
+
+  assert.equal((await store.getRoleById('role-editor')).name, 'editor');
+  await store.deleteRole('role-editor');
+  assert.equal(await store.getRole('org-1', 'editor'), undefined);
+  assert.equal(await store.getRoleById('role-editor'), undefined);
+  const truncated = await store.computeEffectiveIdentity({ userId: baseUser.id });
+  assert.deepEqual(truncated.roles, ['admin']);
+  assert.deepEqual(truncated.scopes, ['org:manage']);
+});
+
 test('computeEffectiveIdentity throws for missing or mismatched entities', async () => {
   const store = createInMemoryProfileStore();
   await store.upsertUserProfile(baseUser);
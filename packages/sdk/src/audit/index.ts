@@ -0,0 +1,216 @@
+import {
+  err,
+  ok,
+  type AuditEventPage,
+  type AuditEventQuery,
+  type AuditEventRecord,
+  type AuditExportFormat,
+  type AuditLogPort,
+  type CatalystError,
+  type Result,
+} from "@catalyst-auth/contracts";
+import { z } from "../vendor/zod.js";
+
+import type { CatalystSdkDependencies } from "../index.js";
+import { createOperationError, createValidationError } from "../shared/errors.js";
+import { safeParse } from "../shared/validation.js";
+
+const MAX_QUERY_LIMIT = 500;
+
+const queryEventsSchema: z.ZodType<AuditEventQuery> = z.object({
+  category: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  actorType: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  subjectType: z.string().min(1).optional(),
+  subjectId: z.string().min(1).optional(),
+  resourceType: z.string().min(1).optional(),
+  resourceId: z.string().min(1).optional(),
+  correlationId: z.string().min(1).optional(),
+  occurredAfter: z.string().min(1).optional(),
+  occurredBefore: z.string().min(1).optional(),
+  order: z.enum(["asc", "desc"] as const).optional(),
+  limit: z.number().int().positive().optional(),
+  cursor: z.string().min(1).optional(),
+});
+
+export interface AuditExportRequest {
+  readonly format: AuditExportFormat;
+  readonly occurredAfter: string;
+  readonly occurredBefore: string;
+  readonly category?: string;
+  readonly action?: string;
+  /** Events fetched per query while streaming. Defaults to the maximum page size. */
+  readonly pageSize?: number;
+}
+
+const exportEventsSchema: z.ZodType<AuditExportRequest> = z.object({
+  format: z.enum(["ndjson", "csv"] as const),
+  occurredAfter: z.string().min(1),
+  occurredBefore: z.string().min(1),
+  category: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  pageSize: z.number().int().positive().optional(),
+});
+
+const CSV_COLUMNS = [
+  "id",
+  "occurredAt",
+  "category",
+  "action",
+  "actorType",
+  "actorId",
+  "subjectType",
+  "subjectId",
+  "resourceType",
+  "resourceId",
+  "correlationId",
+  "sequence",
+  "hash",
+  "metadata",
+] as const;
+
+/** Leading characters that make spreadsheet applications evaluate a cell as a formula. */
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number | undefined): string => {
+  if (value === undefined) {
+    return "";
+  }
+  // Audit fields carry caller-supplied ids and metadata, so text cells that could run as formulas are quoted.
+  const text = typeof value === "string" && CSV_FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (event: AuditEventRecord): string =>
+  [
+    event.id,
+    event.occurredAt,
+    event.category,
+    event.action,
+    event.actor?.type,
+    event.actor?.id,
+    event.subject?.type,
+    event.subject?.id,
+    event.resource?.type,
+    event.resource?.id,
+    event.correlationId,
+    event.sequence,
+    event.hash,
+    event.metadata === undefined ? undefined : JSON.stringify(event.metadata),
+  ]
+    .map((value) => escapeCsv(value))
+    .join(",");
+
+const formatEvent = (event: AuditEventRecord, format: AuditExportFormat): string =>
+  format === "csv" ? `${toCsvRow(event)}\r\n` : `${JSON.stringify(event)}\n`;
+
+const findQueryIssue = (query: AuditEventQuery): string | undefined => {
+  if (query.limit !== undefined && query.limit > MAX_QUERY_LIMIT) {
+    return `limit: Expected at most ${MAX_QUERY_LIMIT}`;
+  }
+  for (const field of ["occurredAfter", "occurredBefore"] as const) {
+    const value = query[field];
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      return `${field}: Expected an ISO-8601 timestamp`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Read access to the audit log for investigations and compliance reporting.
+ */
+export interface AuditModule {
+  readonly queryEvents: (
+    request: z.infer<typeof queryEventsSchema>,
+  ) => Promise<Result<AuditEventPage, CatalystError>>;
+  /**
+   * Streams every event in `[occurredAfter, occurredBefore)` as NDJSON lines or CSV rows (with a header row),
+   * paging through the log instead of loading it whole like `listEvents`. The first page is fetched before the
+   * stream is returned so configuration errors surface as results; later page failures throw from the iterator.
+   */
+  readonly exportEvents: (
+    request: AuditExportRequest,
+  ) => Promise<Result<AsyncIterable<string>, CatalystError>>;
+}
+
+const createQueryEvents = (deps: CatalystSdkDependencies): AuditModule["queryEvents"] => async (request) => {
+  const parsed = safeParse(queryEventsSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const issue = findQueryIssue(parsed.value);
+  if (issue) {
+    return err(createValidationError(issue));
+  }
+  if (!deps.auditLog) {
+    return err(createOperationError("audit.unavailable", "No audit log is configured."));
+  }
+  return deps.auditLog.queryEvents(parsed.value);
+};
+
+async function* streamExport(
+  auditLog: AuditLogPort,
+  query: AuditEventQuery,
+  format: AuditExportFormat,
+  firstPage: AuditEventPage,
+): AsyncIterable<string> {
+  if (format === "csv") {
+    yield `${CSV_COLUMNS.join(",")}\r\n`;
+  }
+  let page = firstPage;
+  for (;;) {
+    for (const event of page.events) {
+      yield formatEvent(event, format);
+    }
+    if (!page.nextCursor) {
+      return;
+    }
+    const next = await auditLog.queryEvents({ ...query, cursor: page.nextCursor });
+    if (!next.ok) {
+      throw new Error(`Audit export failed: ${next.error.code} ${next.error.message}`);
+    }
+    page = next.value;
+  }
+}
+
+const createExportEvents = (deps: CatalystSdkDependencies): AuditModule["exportEvents"] => async (request) => {
+  const parsed = safeParse(exportEventsSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const { format, occurredAfter, occurredBefore, category, action, pageSize } = parsed.value;
+  const issue = findQueryIssue({ occurredAfter, occurredBefore, limit: pageSize });
+  if (issue) {
+    return err(createValidationError(issue));
+  }
+  if (Date.parse(occurredBefore) <= Date.parse(occurredAfter)) {
+    return err(createValidationError("occurredBefore: Expected a timestamp after occurredAfter"));
+  }
+  if (!deps.auditLog) {
+    return err(createOperationError("audit.unavailable", "No audit log is configured."));
+  }
+
+  const query: AuditEventQuery = {
+    category,
+    action,
+    occurredAfter,
+    occurredBefore,
+    order: "asc",
+    limit: pageSize ?? MAX_QUERY_LIMIT,
+  };
+  const firstPage = await deps.auditLog.queryEvents(query);
+  if (!firstPage.ok) {
+    return firstPage;
+  }
+  return ok(streamExport(deps.auditLog, query, format, firstPage.value));
+};
+
+/**
+ * Creates the {@link AuditModule} bound to the provided dependencies.
+ */
+export const createAuditModule = (deps: CatalystSdkDependencies): AuditModule => ({
+  queryEvents: createQueryEvents(deps),
+  exportEvents: createExportEvents(deps),
+});
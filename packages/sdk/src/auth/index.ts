@@ -1,9 +1,15 @@
 import {
   err,
   ok,
+  type ActorClaim,
   type CatalystError,
+  type EffectiveIdentity,
   type JwtDescriptor,
+  type KeyRecord,
   type MintDecisionJwtInput,
+  type RefreshTokenClaims,
+  type RefreshTokenFamilyRecord,
+  type RefreshTokenStorePort,
   type Result,
   type SessionDescriptor,
   type TokenPair,
@@ -11,7 +17,9 @@ import {
 import { z } from "../vendor/zod.js";
 
 import type { CatalystSdkDependencies } from "../index.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
 import { createNotFoundError, createOperationError, createValidationError } from "../shared/errors.js";
+import { publishDomainEvent, recordAuditEvent } from "../shared/events.js";
 import { labelSetSchema } from "../shared/schemas.js";
 import { safeParse } from "../shared/validation.js";
 
@@ -49,6 +57,73 @@ const refreshSchema: z.ZodType<RefreshSessionInput> = z.object({
  */
 export type RefreshSessionRequest = z.infer<typeof refreshSchema>;
 
+type IssueTokensInput = {
+  readonly userId: string;
+  readonly clientId: string;
+  readonly scopes: ReadonlyArray<string>;
+  readonly orgId?: string | undefined;
+  readonly sessionId?: string | undefined;
+};
+
+const issueTokensSchema: z.ZodType<IssueTokensInput> = z.object({
+  userId: z.string().min(1),
+  clientId: z.string().min(1),
+  scopes: z.array(z.string().min(1)),
+  orgId: z.string().min(1).optional(),
+  sessionId: z.string().min(1).optional(),
+});
+
+/**
+ * Input payload for the {@link AuthModule.issueTokens} flow.
+ */
+export type IssueTokensRequest = z.infer<typeof issueTokensSchema>;
+
+/**
+ * RFC 8693 token type identifiers accepted as exchange subject tokens.
+ */
+export const ACCESS_TOKEN_TYPE = "urn:ietf:params:oauth:token-type:access_token";
+export const API_KEY_TOKEN_TYPE = "urn:catalyst:params:oauth:token-type:api_key";
+
+type SubjectTokenType = typeof ACCESS_TOKEN_TYPE | typeof API_KEY_TOKEN_TYPE;
+
+type ExchangeTokenInput = {
+  readonly subjectToken: string;
+  readonly subjectTokenType: SubjectTokenType;
+  readonly clientId: string;
+  readonly audience: string;
+  readonly scopes?: ReadonlyArray<string> | undefined;
+  readonly orgId?: string | undefined;
+  readonly ttlSeconds?: number | undefined;
+};
+
+const exchangeTokenSchema: z.ZodType<ExchangeTokenInput> = z.object({
+  subjectToken: z.string().min(1),
+  subjectTokenType: z.enum([ACCESS_TOKEN_TYPE, API_KEY_TOKEN_TYPE]),
+  clientId: z.string().min(1),
+  audience: z.string().min(1),
+  scopes: z.array(z.string().min(1)).optional(),
+  orgId: z.string().min(1).optional(),
+  ttlSeconds: z.number().int().positive().optional(),
+});
+
+/**
+ * Input payload for the {@link AuthModule.exchangeToken} flow. `clientId` identifies the service acting on
+ * behalf of the subject and becomes the outermost `act` claim of the issued token.
+ */
+export type ExchangeTokenRequest = z.infer<typeof exchangeTokenSchema>;
+
+/**
+ * Result payload returned by {@link AuthModule.exchangeToken}, mirroring the RFC 8693 token response.
+ */
+export interface ExchangeTokenResult {
+  readonly accessToken: string;
+  readonly issuedTokenType: typeof ACCESS_TOKEN_TYPE;
+  readonly tokenType: "Bearer";
+  readonly expiresAt: string;
+  readonly audience: string;
+  readonly scopes: ReadonlyArray<string>;
+}
+
 type VerifySessionInput = {
   readonly userId: string;
   readonly sessionId: string;
@@ -121,10 +196,12 @@ export interface SignOutResult {
  */
 export interface AuthModule {
   readonly signInWithCode: (request: SignInWithCodeRequest) => Promise<Result<TokenPair, CatalystError>>;
+  readonly issueTokens: (request: IssueTokensRequest) => Promise<Result<TokenPair, CatalystError>>;
   readonly refreshSession: (request: RefreshSessionRequest) => Promise<Result<TokenPair, CatalystError>>;
   readonly verifySession: (request: VerifySessionRequest) => Promise<Result<VerifySessionResult, CatalystError>>;
   readonly signOut: (request: SignOutRequest) => Promise<Result<SignOutResult, CatalystError>>;
   readonly issueDecisionToken: (request: MintDecisionJwtInput) => Promise<Result<JwtDescriptor, CatalystError>>;
+  readonly exchangeToken: (request: ExchangeTokenRequest) => Promise<Result<ExchangeTokenResult, CatalystError>>;
 }
 
 const createSignIn = (deps: CatalystSdkDependencies): AuthModule["signInWithCode"] => async (request) => {
@@ -139,11 +216,141 @@ const createSignIn = (deps: CatalystSdkDependencies): AuthModule["signInWithCode
   return ok(result.value);
 };
 
+/**
+ * Verification failures that indicate the refresh token was not minted by the token service, so it still
+ * belongs to the identity provider.
+ */
+const FOREIGN_REFRESH_TOKEN_CODES: ReadonlySet<string> = new Set([
+  "token.refresh.malformed",
+  "token.refresh.unknown_key",
+  "token.refresh.unsupported",
+]);
+
+const mintFamilyTokens = async (
+  deps: CatalystSdkDependencies,
+  store: RefreshTokenStorePort,
+  family: RefreshTokenFamilyRecord,
+  parentId?: string,
+): Promise<Result<TokenPair, CatalystError>> => {
+  const token = await store.issueToken({ familyId: family.id, parentId });
+  return deps.tokenService.mintTokenPair(
+    {
+      subject: family.userId,
+      clientId: family.clientId,
+      scopes: family.scopes,
+      orgId: family.orgId,
+      sessionId: family.sessionId,
+    },
+    {
+      subject: family.userId,
+      clientId: family.clientId,
+      sessionId: family.sessionId,
+      tokenId: token.id,
+      familyId: family.id,
+    },
+  );
+};
+
+const createIssueTokens = (deps: CatalystSdkDependencies): AuthModule["issueTokens"] => async (request) => {
+  const parsed = safeParse(issueTokensSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  if (!deps.refreshTokenStore) {
+    return err(
+      createOperationError("auth.refresh_rotation_unavailable", "A refresh token store is required to issue tokens."),
+    );
+  }
+  const family = await deps.refreshTokenStore.createFamily(parsed.value);
+  return mintFamilyTokens(deps, deps.refreshTokenStore, family);
+};
+
+const revokeReusedFamily = async (
+  deps: CatalystSdkDependencies,
+  store: RefreshTokenStorePort,
+  family: RefreshTokenFamilyRecord,
+  claims: RefreshTokenClaims,
+): Promise<CatalystError> => {
+  const revokedAt = new Date().toISOString();
+  await store.revokeFamily(family.id, revokedAt, "reuse_detected");
+  const session = family.sessionId ? await deps.sessionStore.getSession(family.sessionId) : undefined;
+  if (family.sessionId) {
+    await deps.sessionStore.deleteSession(family.sessionId);
+  }
+  await recordAuditEvent(deps, {
+    category: "token",
+    action: "reuse_detected",
+    occurredAt: revokedAt,
+    subject: { type: "user", id: family.userId },
+    resource: {
+      type: "refresh_token_family",
+      id: family.id,
+      labels: { clientId: family.clientId, sessionId: family.sessionId },
+    },
+    metadata: { operation: "auth.refreshSession", tokenId: claims.jti, sessionEnded: Boolean(session) },
+  });
+  if (session) {
+    await publishDomainEvent(deps, { type: "session.ended", occurredAt: revokedAt, data: session });
+  }
+  return createOperationError(
+    "auth.refresh_token_reused",
+    "Refresh token was already used; the session has been revoked.",
+    { familyId: family.id, sessionId: family.sessionId, tokenId: claims.jti },
+  );
+};
+
+const rotateRefreshToken = async (
+  deps: CatalystSdkDependencies,
+  store: RefreshTokenStorePort,
+  request: RefreshSessionRequest,
+  claims: RefreshTokenClaims,
+): Promise<Result<TokenPair, CatalystError>> => {
+  if (claims.client_id !== request.clientId) {
+    return err(
+      createOperationError("auth.refresh_token_invalid", "Refresh token was issued to a different client.", {
+        clientId: request.clientId,
+      }),
+    );
+  }
+  const family = claims.fid ? await store.getFamily(claims.fid) : undefined;
+  if (!family) {
+    return err(createNotFoundError("Refresh token family", { familyId: claims.fid, tokenId: claims.jti }));
+  }
+  if (family.revokedAt) {
+    return err(
+      createOperationError("auth.refresh_token_revoked", "Refresh token family has been revoked.", {
+        familyId: family.id,
+        revokedAt: family.revokedAt,
+        reason: family.revocationReason,
+      }),
+    );
+  }
+
+  const consumed = await store.consumeToken(claims.jti, new Date().toISOString());
+  if (!consumed) {
+    const known = await store.getToken(claims.jti);
+    if (!known || known.familyId !== family.id) {
+      return err(createNotFoundError("Refresh token", { familyId: family.id, tokenId: claims.jti }));
+    }
+    return err(await revokeReusedFamily(deps, store, family, claims));
+  }
+  return mintFamilyTokens(deps, store, family, consumed.id);
+};
+
 const createRefresh = (deps: CatalystSdkDependencies): AuthModule["refreshSession"] => async (request) => {
   const parsed = safeParse(refreshSchema, request, createValidationError);
   if (!parsed.ok) {
     return parsed;
   }
+  if (deps.refreshTokenStore) {
+    const verified = await deps.tokenService.verifyRefreshToken(parsed.value.refreshToken);
+    if (verified.ok) {
+      return rotateRefreshToken(deps, deps.refreshTokenStore, parsed.value, verified.value);
+    }
+    if (!FOREIGN_REFRESH_TOKEN_CODES.has(verified.error.code)) {
+      return verified;
+    }
+  }
   const result = await deps.idp.refreshTokens(parsed.value);
   if (!result.ok) {
     return result;
@@ -211,13 +418,248 @@ const createIssueDecisionToken = (
   return deps.tokenService.mintDecisionJwt(parsed.value);
 };
 
+interface ExchangeSubject {
+  readonly identity: EffectiveIdentity;
+  readonly sessionId?: string;
+  readonly actor?: ActorClaim;
+  readonly expiresAt?: number;
+}
+
+const dedupe = (values: ReadonlyArray<string>): ReadonlyArray<string> => Array.from(new Set(values));
+
+/**
+ * Catalyst access tokens omit the `scope` claim when they were minted without scopes, so a missing claim is an
+ * empty grant rather than the identity's full scope set.
+ */
+const parseScopeClaims = (claims: {
+  readonly scope?: string;
+  readonly scopes?: ReadonlyArray<string>;
+}): ReadonlyArray<string> =>
+  claims.scopes ? [...claims.scopes] : claims.scope ? claims.scope.split(" ").filter(Boolean) : [];
+
+const resolveAccessTokenSubject = async (
+  deps: CatalystSdkDependencies,
+  request: ExchangeTokenRequest,
+): Promise<Result<ExchangeSubject, CatalystError>> => {
+  const verified = await deps.tokenService.verifyAccessToken(request.subjectToken);
+  if (!verified.ok) {
+    return verified;
+  }
+  const claims = verified.value;
+  if (request.orgId !== undefined && request.orgId !== claims.org) {
+    return err(
+      createOperationError("auth.token_exchange_org_mismatch", "Subject token was not issued for the requested org.", {
+        orgId: request.orgId,
+        tokenOrgId: claims.org,
+      }),
+    );
+  }
+  const identityResult = await deps.idp.buildEffectiveIdentity(claims.sub, claims.org);
+  if (!identityResult.ok) {
+    return identityResult;
+  }
+  const identity = identityResult.value;
+  const granted = parseScopeClaims(claims);
+  return ok({
+    identity: { ...identity, scopes: identity.scopes.filter((scope) => granted.includes(scope)) },
+    sessionId: claims.session,
+    actor: claims.act,
+    expiresAt: claims.exp,
+  });
+};
+
+const isKeyActive = (key: KeyRecord, now: Date): boolean =>
+  key.status === "active" && (!key.expiresAt || new Date(key.expiresAt).getTime() > now.getTime());
+
+const resolveApiKeySubject = async (
+  deps: CatalystSdkDependencies,
+  request: ExchangeTokenRequest,
+): Promise<Result<ExchangeSubject, CatalystError>> => {
+  if (!deps.hashApiKey) {
+    return err(
+      createOperationError("auth.token_exchange_unavailable", "API key exchange requires a hashApiKey dependency."),
+    );
+  }
+  const keyResult = await deps.keyStore.getKeyByHash(await deps.hashApiKey(request.subjectToken));
+  if (!keyResult.ok) {
+    return keyResult;
+  }
+  const key = keyResult.value;
+  if (!key || !isKeyActive(key, new Date())) {
+    return err(createOperationError("auth.token_exchange_invalid_subject", "API key is not active."));
+  }
+  if (key.owner.kind === "user") {
+    const identityResult = await deps.idp.buildEffectiveIdentity(key.owner.id, request.orgId);
+    if (!identityResult.ok) {
+      return identityResult;
+    }
+    const identity = identityResult.value;
+    return ok({
+      identity: {
+        ...identity,
+        labels: { ...identity.labels, ...key.labels },
+        scopes: dedupe([...identity.scopes, ...key.scopes]),
+      },
+    });
+  }
+  return ok({
+    identity: {
+      userId: `key:${key.id}`,
+      orgId: key.owner.kind === "org" ? key.owner.id : request.orgId,
+      groups: [],
+      labels: { ...key.labels },
+      roles: [],
+      entitlements: [],
+      scopes: dedupe(key.scopes),
+    },
+  });
+};
+
+const createExchangeToken = (deps: CatalystSdkDependencies): AuthModule["exchangeToken"] => async (request) => {
+  const parsed = safeParse(exchangeTokenSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  if (!deps.policyEngine) {
+    return err(
+      createOperationError("auth.token_exchange_unavailable", "A policy engine is required to exchange tokens."),
+    );
+  }
+  const exchange = parsed.value;
+  const subjectResult =
+    exchange.subjectTokenType === ACCESS_TOKEN_TYPE
+      ? await resolveAccessTokenSubject(deps, exchange)
+      : await resolveApiKeySubject(deps, exchange);
+  if (!subjectResult.ok) {
+    return subjectResult;
+  }
+  const subject = subjectResult.value;
+
+  const scopes = dedupe(exchange.scopes ?? subject.identity.scopes);
+  const escalated = scopes.filter((scope) => !subject.identity.scopes.includes(scope));
+  if (escalated.length > 0) {
+    return err(
+      createOperationError("auth.token_exchange_scope_escalation", "Requested scopes exceed the subject's scopes.", {
+        scopes: escalated,
+      }),
+    );
+  }
+
+  const decision = await deps.policyEngine.evaluate({
+    identity: subject.identity,
+    action: "token.exchange",
+    resource: { type: "audience", id: exchange.audience, attributes: { scopes } },
+    environment: { clientId: exchange.clientId, subjectTokenType: exchange.subjectTokenType },
+  });
+  if (!decision.ok) {
+    return decision;
+  }
+  if (!decision.value.allow) {
+    return err(
+      createOperationError("auth.token_exchange_denied", "Token exchange was denied by policy.", {
+        reason: decision.value.reason,
+        audience: exchange.audience,
+      }),
+    );
+  }
+
+  const remainingSeconds =
+    subject.expiresAt === undefined ? undefined : subject.expiresAt - Math.floor(Date.now() / 1000);
+  const ttlSeconds =
+    remainingSeconds === undefined
+      ? exchange.ttlSeconds
+      : Math.max(1, Math.min(exchange.ttlSeconds ?? remainingSeconds, remainingSeconds));
+  const minted = await deps.tokenService.mintAccessToken({
+    subject: subject.identity.userId,
+    clientId: exchange.clientId,
+    scopes,
+    orgId: subject.identity.orgId,
+    sessionId: subject.sessionId,
+    audience: exchange.audience,
+    ttlSeconds,
+    actor: { sub: exchange.clientId, ...(subject.actor ? { act: subject.actor } : {}) },
+  });
+  if (!minted.ok) {
+    return minted;
+  }
+  return ok({
+    accessToken: minted.value.token,
+    issuedTokenType: ACCESS_TOKEN_TYPE,
+    tokenType: "Bearer",
+    expiresAt: minted.value.expiresAt,
+    audience: exchange.audience,
+    scopes,
+  });
+};
+
 /**
  * Creates the {@link AuthModule} bound to the provided dependencies.
  */
+const loadRefreshTokenFamily = async (
+  deps: CatalystSdkDependencies,
+  refreshToken: string,
+): Promise<RefreshTokenFamilyRecord | undefined> => {
+  if (!deps.refreshTokenStore) {
+    return undefined;
+  }
+  const verified = await deps.tokenService.verifyRefreshToken(refreshToken);
+  return verified.ok && verified.value.fid ? deps.refreshTokenStore.getFamily(verified.value.fid) : undefined;
+};
+
+/**
+ * Audit events recorded for token issuance, refresh-token rotation, and delegated exchanges. A detected
+ * refresh-token reuse fails the refresh, so the rotation records it and publishes `session.ended` itself.
+ */
+export const authAuditTrail: SdkAuditTrail<AuthModule> = {
+  issueTokens: {
+    category: "token",
+    action: "issued",
+    describe: (request) => ({
+      subject: { type: "user", id: request.userId },
+      resource: {
+        type: "client",
+        id: request.clientId,
+        labels: { orgId: request.orgId, sessionId: request.sessionId, scopes: [...request.scopes] },
+      },
+    }),
+  },
+  refreshSession: {
+    category: "token",
+    action: "refreshed",
+    loadBefore: (deps, request) => loadRefreshTokenFamily(deps, request.refreshToken),
+    describe: (request, _value, before) => {
+      const family = before as RefreshTokenFamilyRecord | undefined;
+      return family
+        ? {
+            subject: { type: "user", id: family.userId },
+            resource: {
+              type: "refresh_token_family",
+              id: family.id,
+              labels: { clientId: family.clientId, sessionId: family.sessionId },
+            },
+          }
+        : { resource: { type: "client", id: request.clientId } };
+    },
+  },
+  exchangeToken: {
+    category: "token",
+    action: "exchanged",
+    describe: (request, result) => ({
+      resource: {
+        type: "client",
+        id: request.clientId,
+        labels: { audience: result.audience, subjectTokenType: request.subjectTokenType },
+      },
+    }),
+  },
+};
+
 export const createAuthModule = (deps: CatalystSdkDependencies): AuthModule => ({
   signInWithCode: createSignIn(deps),
+  issueTokens: createIssueTokens(deps),
   refreshSession: createRefresh(deps),
   verifySession: createVerify(deps),
   signOut: createSignOut(deps),
   issueDecisionToken: createIssueDecisionToken(deps),
+  exchangeToken: createExchangeToken(deps),
 });
@@ -2,6 +2,8 @@ import { ok, type CatalystError, type EntitlementRecord, type Result } from "@ca
 import { z } from "../vendor/zod.js";
 
 import type { CatalystSdkDependencies } from "../index.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
+import type { SdkEventTrail } from "../shared/domain-events.js";
 import { createValidationError } from "../shared/errors.js";
 import { labelValueSchema } from "../shared/schemas.js";
 import { safeParse } from "../shared/validation.js";
@@ -125,6 +127,61 @@ const createRemoveEntitlement = (
   return ok(null);
 };
 
+/**
+ * Audit events recorded for entitlement grants and removals.
+ */
+export const entitlementsAuditTrail: SdkAuditTrail<EntitlementsModule> = {
+  upsertEntitlement: {
+    category: "entitlement",
+    action: "upserted",
+    loadBefore: (deps, request) => deps.entitlementStore.getEntitlement(request.entitlement.id),
+    describe: (_request, entitlement) => ({
+      subject: { type: entitlement.subjectKind, id: entitlement.subjectId },
+      resource: { type: "entitlement", id: entitlement.id, labels: { entitlement: entitlement.entitlement } },
+    }),
+  },
+  removeEntitlement: {
+    category: "entitlement",
+    action: "removed",
+    deletes: true,
+    loadBefore: (deps, request) => deps.entitlementStore.getEntitlement(request.id),
+    describe: (request, _value, before) => {
+      const entitlement = before as EntitlementRecord | undefined;
+      return {
+        subject: entitlement ? { type: entitlement.subjectKind, id: entitlement.subjectId } : undefined,
+        resource: {
+          type: "entitlement",
+          id: request.id,
+          labels: entitlement ? { entitlement: entitlement.entitlement } : undefined,
+        },
+      };
+    },
+  },
+};
+
+/**
+ * Domain events published for entitlement grants and removals. Org entitlements are scoped to their org.
+ */
+export const entitlementsEventTrail: SdkEventTrail<EntitlementsModule> = {
+  upsertEntitlement: {
+    toEvent: (_request, entitlement, before) => ({
+      type: before ? "entitlement.updated" : "entitlement.granted",
+      orgId: entitlement.subjectKind === "org" ? entitlement.subjectId : undefined,
+      data: entitlement,
+    }),
+  },
+  removeEntitlement: {
+    toEvent: (request, _value, before) => {
+      const entitlement = before as EntitlementRecord | undefined;
+      return {
+        type: "entitlement.removed",
+        orgId: entitlement?.subjectKind === "org" ? entitlement.subjectId : undefined,
+        data: { id: request.id },
+      };
+    },
+  },
+};
+
 export const createEntitlementsModule = (deps: CatalystSdkDependencies): EntitlementsModule => ({
   listEntitlements: createListEntitlements(deps),
   listEntitlementsForSubjects: createListEntitlementsForSubjects(deps),
@@ -1,41 +1,61 @@
 import type {
+  AuditLogPort,
+  DomainEventBusPort,
   EntitlementStorePort,
   IdpAdapterPort,
+  InvitationStorePort,
   KeyStorePort,
+  PolicyEnginePort,
   ProfileStorePort,
+  RefreshTokenStorePort,
   SessionStorePort,
   TokenServicePort,
   WebhookDeliveryPort,
   WebhookDeliveryStorePort,
+  WebhookQueuePort,
   WebhookSubscriptionStorePort,
 } from "@catalyst-auth/contracts";
 
+import type { CatalystSdkAuditOptions, SdkAuditedModuleName, SdkAuditTrail } from "./shared/audit.js";
+import type { SdkEventTrail } from "./shared/domain-events.js";
+import { trackSdkModuleMutations } from "./shared/mutations.js";
 import {
   createSdkTelemetryContext,
   instrumentSdkModule,
   type CatalystSdkTelemetryOptions,
 } from "./shared/telemetry.js";
 
-import { createAuthModule } from "./auth/index.js";
+import { authAuditTrail, createAuthModule } from "./auth/index.js";
 import type { AuthModule } from "./auth/index.js";
-import { createOrgsModule } from "./orgs/index.js";
+import { createOrgsModule, orgsAuditTrail, orgsEventTrail } from "./orgs/index.js";
 import type { OrgsModule } from "./orgs/index.js";
-import { createProfilesModule } from "./profiles/index.js";
+import { createProfilesModule, profilesAuditTrail, profilesEventTrail } from "./profiles/index.js";
 import type { ProfilesModule } from "./profiles/index.js";
-import { createKeysModule } from "./keys/index.js";
+import { createKeysModule, keysAuditTrail, keysEventTrail } from "./keys/index.js";
 import type { KeysModule } from "./keys/index.js";
-import { createEntitlementsModule } from "./entitlements/index.js";
+import { createEntitlementsModule, entitlementsAuditTrail, entitlementsEventTrail } from "./entitlements/index.js";
 import type { EntitlementsModule } from "./entitlements/index.js";
 import { createWebhooksModule } from "./webhooks/index.js";
 import type { WebhooksModule } from "./webhooks/index.js";
-import { createWebhookSubscriptionsModule } from "./webhook-subscriptions/index.js";
+import {
+  createWebhookSubscriptionsModule,
+  webhookSubscriptionsAuditTrail,
+} from "./webhook-subscriptions/index.js";
 import type { WebhookSubscriptionsModule } from "./webhook-subscriptions/index.js";
-import { createWebhookDeliveriesModule } from "./webhook-deliveries/index.js";
+import { createWebhookDeliveriesModule, webhookDeliveriesAuditTrail } from "./webhook-deliveries/index.js";
 import type { WebhookDeliveriesModule } from "./webhook-deliveries/index.js";
 import { createMeModule } from "./me/index.js";
 import type { MeModule } from "./me/index.js";
-import { createSessionsModule } from "./sessions/index.js";
+import { createSessionsModule, sessionsAuditTrail, sessionsEventTrail } from "./sessions/index.js";
 import type { SessionsModule } from "./sessions/index.js";
+import { createPolicyModule } from "./policy/index.js";
+import type { PolicyModule } from "./policy/index.js";
+import { createRolesModule, rolesAuditTrail, rolesEventTrail } from "./roles/index.js";
+import type { RolesModule } from "./roles/index.js";
+import { createAuditModule } from "./audit/index.js";
+import type { AuditModule } from "./audit/index.js";
+import { createInvitationsModule } from "./invitations/index.js";
+import type { InvitationsModule } from "./invitations/index.js";
 
 /**
  * Dependencies required to bootstrap the Catalyst SDK. Each dependency maps to a port
@@ -51,6 +71,43 @@ export interface CatalystSdkDependencies {
   readonly webhookSubscriptionStore: WebhookSubscriptionStorePort;
   readonly webhookDeliveryStore: WebhookDeliveryStorePort;
   readonly tokenService: TokenServicePort;
+  /**
+   * Enables refresh-token rotation with reuse detection for tokens minted by {@link AuthModule.issueTokens}.
+   */
+  readonly refreshTokenStore?: RefreshTokenStorePort;
+  /**
+   * Authorises delegated token exchanges performed through {@link AuthModule.exchangeToken} and backs
+   * {@link PolicyModule.explainDecision}.
+   */
+  readonly policyEngine?: PolicyEnginePort;
+  /**
+   * Hashes API key secrets presented as exchange subject tokens so they can be looked up in the key store.
+   */
+  readonly hashApiKey?: (secret: string) => Promise<string> | string;
+  /**
+   * Persists invitations managed by {@link InvitationsModule}. Requires {@link invitationTokenSecret}.
+   */
+  readonly invitationStore?: InvitationStorePort;
+  /**
+   * HMAC secret used to sign single-use invite tokens.
+   */
+  readonly invitationTokenSecret?: string;
+  /**
+   * Receives audit events for invitation transitions and every mutating module operation, and backs
+   * {@link AuditModule.queryEvents} and {@link AuditModule.exportEvents}. See {@link CatalystSdkOptions.audit}.
+   */
+  readonly auditLog?: AuditLogPort;
+  /**
+   * Receives a domain event for every catalogued mutation. When set, invitation events are published here
+   * instead of being written as webhook deliveries directly; bridge the bus to a webhook dispatcher to keep
+   * notifying subscribers.
+   */
+  readonly eventBus?: DomainEventBusPort;
+  /**
+   * Receives deliveries reset by {@link WebhookDeliveriesModule.replayDelivery} and the other replay
+   * operations. Without a queue, replayed deliveries wait for a polling worker.
+   */
+  readonly webhookQueue?: WebhookQueuePort;
 }
 
 /**
@@ -61,6 +118,8 @@ export interface CatalystSdk {
   readonly auth: AuthModule;
   readonly orgs: OrgsModule;
   readonly profiles: ProfilesModule;
+  readonly roles: RolesModule;
+  readonly invitations: InvitationsModule;
   readonly keys: KeysModule;
   readonly entitlements: EntitlementsModule;
   readonly webhooks: WebhooksModule;
@@ -68,10 +127,14 @@ export interface CatalystSdk {
   readonly webhookDeliveries: WebhookDeliveriesModule;
   readonly sessions: SessionsModule;
   readonly me: MeModule;
+  readonly policy: PolicyModule;
+  readonly audit: AuditModule;
 }
 
 export interface CatalystSdkOptions {
   readonly telemetry?: CatalystSdkTelemetryOptions;
+  /** Controls which module mutations are written to {@link CatalystSdkDependencies.auditLog}. */
+  readonly audit?: CatalystSdkAuditOptions;
 }
 
 /**
@@ -82,49 +145,112 @@ export const createCatalystSdk = (
   options: CatalystSdkOptions = {},
 ): CatalystSdk => {
   const telemetry = createSdkTelemetryContext(options.telemetry);
+  // Publishes each mutation's domain event and records its audit entry; both are no-ops without their port.
+  const trackMutations = <TModule extends object>(
+    name: SdkAuditedModuleName,
+    module: TModule,
+    auditTrail: SdkAuditTrail<TModule>,
+    eventTrail: SdkEventTrail<TModule> = {},
+  ): TModule =>
+    trackSdkModuleMutations(name, module, { audit: auditTrail, events: eventTrail }, deps, options.audit);
 
   return {
-    auth: instrumentSdkModule("auth", createAuthModule(deps), telemetry),
-    orgs: instrumentSdkModule("orgs", createOrgsModule(deps), telemetry),
-    profiles: instrumentSdkModule("profiles", createProfilesModule(deps), telemetry),
-    keys: instrumentSdkModule("keys", createKeysModule(deps), telemetry),
-    entitlements: instrumentSdkModule("entitlements", createEntitlementsModule(deps), telemetry),
+    auth: instrumentSdkModule(
+      "auth",
+      trackMutations("auth", createAuthModule(deps), authAuditTrail),
+      telemetry,
+    ),
+    orgs: instrumentSdkModule(
+      "orgs",
+      trackMutations("orgs", createOrgsModule(deps), orgsAuditTrail, orgsEventTrail),
+      telemetry,
+    ),
+    profiles: instrumentSdkModule(
+      "profiles",
+      trackMutations("profiles", createProfilesModule(deps), profilesAuditTrail, profilesEventTrail),
+      telemetry,
+    ),
+    roles: instrumentSdkModule(
+      "roles",
+      trackMutations("roles", createRolesModule(deps), rolesAuditTrail, rolesEventTrail),
+      telemetry,
+    ),
+    invitations: instrumentSdkModule("invitations", createInvitationsModule(deps), telemetry),
+    keys: instrumentSdkModule(
+      "keys",
+      trackMutations("keys", createKeysModule(deps), keysAuditTrail, keysEventTrail),
+      telemetry,
+    ),
+    entitlements: instrumentSdkModule(
+      "entitlements",
+      trackMutations("entitlements", createEntitlementsModule(deps), entitlementsAuditTrail, entitlementsEventTrail),
+      telemetry,
+    ),
     webhooks: instrumentSdkModule("webhooks", createWebhooksModule(deps), telemetry),
     webhookSubscriptions: instrumentSdkModule(
       "webhook_subscriptions",
-      createWebhookSubscriptionsModule(deps),
+      trackMutations("webhookSubscriptions", createWebhookSubscriptionsModule(deps), webhookSubscriptionsAuditTrail),
       telemetry,
     ),
     webhookDeliveries: instrumentSdkModule(
       "webhook_deliveries",
-      createWebhookDeliveriesModule(deps),
+      trackMutations("webhookDeliveries", createWebhookDeliveriesModule(deps), webhookDeliveriesAuditTrail),
+      telemetry,
+    ),
+    sessions: instrumentSdkModule(
+      "sessions",
+      trackMutations("sessions", createSessionsModule(deps), sessionsAuditTrail, sessionsEventTrail),
       telemetry,
     ),
-    sessions: instrumentSdkModule("sessions", createSessionsModule(deps), telemetry),
     me: instrumentSdkModule("me", createMeModule(deps), telemetry),
+    policy: instrumentSdkModule("policy", createPolicyModule(deps), telemetry),
+    audit: instrumentSdkModule("audit", createAuditModule(deps), telemetry),
   } satisfies CatalystSdk;
 };
 
+export { ACCESS_TOKEN_TYPE, API_KEY_TOKEN_TYPE } from "./auth/index.js";
+
+export type { AcceptedInvitation, IssuedInvitation } from "./invitations/index.js";
+export type { AuditExportRequest } from "./audit/index.js";
+export type { WebhookDeliveryReplayResult } from "./webhook-deliveries/index.js";
+export { InProcessDomainEventBus, createInProcessEventBus } from "./shared/event-bus.js";
+export type {
+  CatalystSdkAuditOptions,
+  SdkAuditContext,
+  SdkAuditDiff,
+  SdkAuditedModuleName,
+} from "./shared/audit.js";
+
 export type {
+  AuditModule,
   AuthModule,
+  InvitationsModule,
   KeysModule,
   MeModule,
   OrgsModule,
+  PolicyModule,
   ProfilesModule,
+  RolesModule,
   EntitlementsModule,
   SessionsModule,
   WebhooksModule,
   WebhookSubscriptionsModule,
   WebhookDeliveriesModule,
+  AuditLogPort,
+  DomainEventBusPort,
   EntitlementStorePort,
   IdpAdapterPort,
+  InvitationStorePort,
   KeyStorePort,
+  PolicyEnginePort,
   ProfileStorePort,
+  RefreshTokenStorePort,
   SessionStorePort,
   TokenServicePort,
   WebhookDeliveryPort,
   WebhookSubscriptionStorePort,
   WebhookDeliveryStorePort,
+  WebhookQueuePort,
   CatalystSdkOptions,
   CatalystSdkTelemetryOptions,
 };
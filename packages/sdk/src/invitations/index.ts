@@ -0,0 +1,594 @@
+import {
+  err,
+  ok,
+  type CatalystError,
+  type DomainEventInvitation,
+  type InvitationRecord,
+  type InvitationStatus,
+  type InvitationStorePort,
+  type MembershipRecord,
+  type Result,
+  type TransitionInvitationInput,
+} from "@catalyst-auth/contracts";
+import { z } from "../vendor/zod.js";
+
+import type { CatalystSdkDependencies } from "../index.js";
+import { createNotFoundError, createOperationError, createValidationError } from "../shared/errors.js";
+import { publishDomainEvent, publishWebhookEvent, recordAuditEvent } from "../shared/events.js";
+import { safeParse } from "../shared/validation.js";
+
+const DEFAULT_INVITATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const invitationStatusValues = ["pending", "accepted", "declined", "revoked", "expired"] as const;
+
+type CreateInvitationInput = {
+  readonly orgId: string;
+  readonly email: string;
+  readonly role: string;
+  readonly groupIds?: ReadonlyArray<string>;
+  readonly invitedByUserId: string;
+  readonly ttlSeconds?: number;
+};
+
+const createInvitationSchema: z.ZodType<CreateInvitationInput> = z.object({
+  orgId: z.string().min(1),
+  email: z.string().email(),
+  role: z.string().min(1),
+  groupIds: z.array(z.string().min(1)).optional(),
+  invitedByUserId: z.string().min(1),
+  ttlSeconds: z.number().int().positive().optional(),
+});
+
+type GetInvitationInput = {
+  readonly invitationId: string;
+};
+
+const getInvitationSchema: z.ZodType<GetInvitationInput> = z.object({
+  invitationId: z.string().min(1),
+});
+
+type ListInvitationsInput = {
+  readonly orgId: string;
+  readonly status?: InvitationStatus;
+};
+
+const listInvitationsSchema: z.ZodType<ListInvitationsInput> = z.object({
+  orgId: z.string().min(1),
+  status: z.enum(invitationStatusValues).optional(),
+});
+
+type AcceptInvitationInput = {
+  readonly token: string;
+  readonly userId: string;
+};
+
+const acceptInvitationSchema: z.ZodType<AcceptInvitationInput> = z.object({
+  token: z.string().min(1),
+  userId: z.string().min(1),
+});
+
+type DeclineInvitationInput = {
+  readonly token: string;
+};
+
+const declineInvitationSchema: z.ZodType<DeclineInvitationInput> = z.object({
+  token: z.string().min(1),
+});
+
+type RevokeInvitationInput = {
+  readonly invitationId: string;
+  readonly revokedByUserId: string;
+};
+
+const revokeInvitationSchema: z.ZodType<RevokeInvitationInput> = z.object({
+  invitationId: z.string().min(1),
+  revokedByUserId: z.string().min(1),
+});
+
+type ResendInvitationInput = {
+  readonly invitationId: string;
+  readonly ttlSeconds?: number;
+};
+
+const resendInvitationSchema: z.ZodType<ResendInvitationInput> = z.object({
+  invitationId: z.string().min(1),
+  ttlSeconds: z.number().int().positive().optional(),
+});
+
+/**
+ * Invitation together with the signed invite token to deliver to the invitee. The token is only available
+ * when it is minted; the store keeps a hash.
+ */
+export interface IssuedInvitation {
+  readonly invitation: InvitationRecord;
+  readonly token: string;
+}
+
+export interface AcceptedInvitation {
+  readonly invitation: InvitationRecord;
+  readonly membership: MembershipRecord;
+}
+
+/**
+ * Organization invitation workflow. Invite tokens are HMAC-signed with `invitationTokenSecret` and can be
+ * redeemed once; every transition is recorded in the audit log and published as an `invitation.*` webhook event.
+ */
+export interface InvitationsModule {
+  readonly createInvitation: (
+    request: z.infer<typeof createInvitationSchema>,
+  ) => Promise<Result<IssuedInvitation, CatalystError>>;
+  readonly getInvitation: (
+    request: z.infer<typeof getInvitationSchema>,
+  ) => Promise<Result<InvitationRecord, CatalystError>>;
+  readonly listInvitations: (
+    request: z.infer<typeof listInvitationsSchema>,
+  ) => Promise<Result<ReadonlyArray<InvitationRecord>, CatalystError>>;
+  readonly acceptInvitation: (
+    request: z.infer<typeof acceptInvitationSchema>,
+  ) => Promise<Result<AcceptedInvitation, CatalystError>>;
+  readonly declineInvitation: (
+    request: z.infer<typeof declineInvitationSchema>,
+  ) => Promise<Result<InvitationRecord, CatalystError>>;
+  readonly revokeInvitation: (
+    request: z.infer<typeof revokeInvitationSchema>,
+  ) => Promise<Result<InvitationRecord, CatalystError>>;
+  readonly resendInvitation: (
+    request: z.infer<typeof resendInvitationSchema>,
+  ) => Promise<Result<IssuedInvitation, CatalystError>>;
+}
+
+interface InvitationContext {
+  readonly store: InvitationStorePort;
+  readonly secret: string;
+}
+
+const resolveContext = (deps: CatalystSdkDependencies): Result<InvitationContext, CatalystError> => {
+  if (!deps.invitationStore || !deps.invitationTokenSecret) {
+    return err(
+      createOperationError(
+        "invitations.unavailable",
+        "Invitations require an invitation store and an invitation token secret.",
+      ),
+    );
+  }
+  return ok({ store: deps.invitationStore, secret: deps.invitationTokenSecret });
+};
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const sign = async (secret: string, value: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(value))));
+};
+
+const hashToken = async (token: string): Promise<string> =>
+  toBase64Url(new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(token))));
+
+const constantTimeEqual = (left: string, right: string): boolean => {
+  if (left.length !== right.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    difference |= left.charCodeAt(index) ^ right.charCodeAt(index);
+  }
+  return difference === 0;
+};
+
+/**
+ * Mints `<invitationId>.<nonce>.<signature>`. The random nonce makes every resend produce a distinct token.
+ */
+const mintToken = async (secret: string, invitationId: string): Promise<{ token: string; tokenHash: string }> => {
+  const nonce = toBase64Url(crypto.getRandomValues(new Uint8Array(24)));
+  const payload = `${invitationId}.${nonce}`;
+  const token = `${payload}.${await sign(secret, payload)}`;
+  return { token, tokenHash: await hashToken(token) };
+};
+
+/**
+ * Verifies the token signature and resolves the invitation id it was minted for.
+ */
+const readToken = async (secret: string, token: string): Promise<string | undefined> => {
+  const signatureIndex = token.lastIndexOf(".");
+  const nonceIndex = token.lastIndexOf(".", signatureIndex - 1);
+  if (nonceIndex <= 0) {
+    return undefined;
+  }
+  const payload = token.slice(0, signatureIndex);
+  const expected = await sign(secret, payload);
+  if (!constantTimeEqual(expected, token.slice(signatureIndex + 1))) {
+    return undefined;
+  }
+  return token.slice(0, nonceIndex);
+};
+
+const invalidTokenError = (): CatalystError =>
+  createOperationError("invitations.invalid_token", "The invitation token is invalid or has been replaced.");
+
+const notPendingError = (invitation: InvitationRecord): CatalystError =>
+  createOperationError("invitations.not_pending", "The invitation is no longer pending.", {
+    invitationId: invitation.id,
+    status: invitation.status,
+  });
+
+const computeExpiry = (now: Date, ttlSeconds: number | undefined): string =>
+  new Date(now.getTime() + (ttlSeconds ?? DEFAULT_INVITATION_TTL_SECONDS) * 1000).toISOString();
+
+const isExpired = (invitation: InvitationRecord, now: Date): boolean =>
+  Date.parse(invitation.expiresAt) <= now.getTime();
+
+const toEventData = (invitation: InvitationRecord): DomainEventInvitation => {
+  const { tokenHash: _tokenHash, ...data } = invitation;
+  return { ...data, groupIds: [...invitation.groupIds] };
+};
+
+/**
+ * Records the audit entry and webhook event for an invitation that just moved to `action`. With an event bus the
+ * event is published there and reaches webhooks through the bus instead.
+ */
+const emitTransition = async (
+  deps: CatalystSdkDependencies,
+  action: "created" | "resent" | "accepted" | "declined" | "revoked" | "expired",
+  invitation: InvitationRecord,
+  actorUserId?: string,
+): Promise<void> => {
+  await recordAuditEvent(deps, {
+    category: "invitation",
+    action,
+    occurredAt: invitation.updatedAt,
+    actor: actorUserId ? { type: "user", id: actorUserId } : undefined,
+    subject: { type: "email", id: invitation.email },
+    resource: { type: "invitation", id: invitation.id, labels: { orgId: invitation.orgId } },
+    metadata: { role: invitation.role, groupIds: [...invitation.groupIds], status: invitation.status },
+  });
+  if (deps.eventBus) {
+    await publishDomainEvent(deps, {
+      type: `invitation.${action}`,
+      orgId: invitation.orgId,
+      occurredAt: invitation.updatedAt,
+      data: toEventData(invitation),
+    });
+    return;
+  }
+  await publishWebhookEvent(deps, {
+    type: `invitation.${action}`,
+    orgId: invitation.orgId,
+    occurredAt: invitation.updatedAt,
+    data: toEventData(invitation),
+  });
+};
+
+/**
+ * Resolves the pending invitation a token was minted for. Pending invitations past their expiry are moved to
+ * `expired` on the way.
+ */
+const loadPendingByToken = async (
+  deps: CatalystSdkDependencies,
+  context: InvitationContext,
+  token: string,
+  now: Date,
+): Promise<Result<{ invitation: InvitationRecord; tokenHash: string }, CatalystError>> => {
+  const invitationId = await readToken(context.secret, token);
+  if (!invitationId) {
+    return err(invalidTokenError());
+  }
+  const invitation = await context.store.getInvitation(invitationId);
+  const tokenHash = await hashToken(token);
+  if (!invitation || !constantTimeEqual(invitation.tokenHash, tokenHash)) {
+    return err(invalidTokenError());
+  }
+  if (invitation.status !== "pending") {
+    return err(notPendingError(invitation));
+  }
+  if (isExpired(invitation, now)) {
+    const timestamp = now.toISOString();
+    const expired = await context.store.transitionInvitation(invitation.id, {
+      expectedStatus: "pending",
+      expectedTokenHash: tokenHash,
+      status: "expired",
+      resolvedAt: timestamp,
+      updatedAt: timestamp,
+    });
+    if (expired) {
+      await emitTransition(deps, "expired", expired);
+    }
+    return err(
+      createOperationError("invitations.expired", "The invitation has expired.", {
+        invitationId: invitation.id,
+        expiresAt: invitation.expiresAt,
+      }),
+    );
+  }
+  return ok({ invitation, tokenHash });
+};
+
+const createCreateInvitation = (deps: CatalystSdkDependencies): InvitationsModule["createInvitation"] =>
+  async (request) => {
+    const parsed = safeParse(createInvitationSchema, request, createValidationError);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const context = resolveContext(deps);
+    if (!context.ok) {
+      return context;
+    }
+    const input = parsed.value;
+    const email = input.email.trim().toLowerCase();
+
+    const org = await deps.profileStore.getOrgProfile(input.orgId);
+    if (!org) {
+      return err(createNotFoundError("Organization", { orgId: input.orgId }));
+    }
+    const groupIds = [...new Set(input.groupIds ?? [])];
+    if (groupIds.length > 0) {
+      const known = new Set((await deps.profileStore.listGroups(input.orgId)).map((group) => group.id));
+      const unknown = groupIds.find((groupId) => !known.has(groupId));
+      if (unknown) {
+        return err(createNotFoundError("Group", { orgId: input.orgId, groupId: unknown }));
+      }
+    }
+    const pending = await context.value.store.listInvitations({ orgId: input.orgId, email, status: "pending" });
+    if (pending.length > 0) {
+      return err(
+        createOperationError("invitations.already_pending", "A pending invitation already exists for this email.", {
+          orgId: input.orgId,
+          invitationId: pending[0].id,
+        }),
+      );
+    }
+
+    const now = new Date();
+    const id = crypto.randomUUID();
+    const { token, tokenHash } = await mintToken(context.value.secret, id);
+    const invitation = await context.value.store.createInvitation({
+      id,
+      orgId: input.orgId,
+      email,
+      role: input.role,
+      groupIds,
+      tokenHash,
+      invitedByUserId: input.invitedByUserId,
+      expiresAt: computeExpiry(now, input.ttlSeconds),
+      createdAt: now.toISOString(),
+    });
+    await emitTransition(deps, "created", invitation, input.invitedByUserId);
+    return ok({ invitation, token });
+  };
+
+const createGetInvitation = (deps: CatalystSdkDependencies): InvitationsModule["getInvitation"] =>
+  async (request) => {
+    const parsed = safeParse(getInvitationSchema, request, createValidationError);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const context = resolveContext(deps);
+    if (!context.ok) {
+      return context;
+    }
+    const invitation = await context.value.store.getInvitation(parsed.value.invitationId);
+    if (!invitation) {
+      return err(createNotFoundError("Invitation", { invitationId: parsed.value.invitationId }));
+    }
+    return ok(invitation);
+  };
+
+const createListInvitations = (deps: CatalystSdkDependencies): InvitationsModule["listInvitations"] =>
+  async (request) => {
+    const parsed = safeParse(listInvitationsSchema, request, createValidationError);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const context = resolveContext(deps);
+    if (!context.ok) {
+      return context;
+    }
+    const invitations = await context.value.store.listInvitations({
+      orgId: parsed.value.orgId,
+      status: parsed.value.status,
+    });
+    return ok(invitations);
+  };
+
+const createAcceptInvitation = (deps: CatalystSdkDependencies): InvitationsModule["acceptInvitation"] =>
+  async (request) => {
+    const parsed = safeParse(acceptInvitationSchema, request, createValidationError);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const context = resolveContext(deps);
+    if (!context.ok) {
+      return context;
+    }
+    const now = new Date();
+    const loaded = await loadPendingByToken(deps, context.value, parsed.value.token, now);
+    if (!loaded.ok) {
+      return loaded;
+    }
+    const { invitation, tokenHash } = loaded.value;
+
+    const user = await deps.profileStore.getUserProfile(parsed.value.userId);
+    if (!user) {
+      return err(createNotFoundError("User", { userId: parsed.value.userId }));
+    }
+    if (user.email.trim().toLowerCase() !== invitation.email) {
+      return err(
+        createOperationError("invitations.email_mismatch", "The invitation was issued to a different email.", {
+          invitationId: invitation.id,
+        }),
+      );
+    }
+    const memberships = await deps.profileStore.listMembershipsByUser(user.id);
+    if (memberships.some((membership) => membership.orgId === invitation.orgId)) {
+      return err(
+        createOperationError("invitations.already_member", "The user is already a member of the organization.", {
+          invitationId: invitation.id,
+          orgId: invitation.orgId,
+        }),
+      );
+    }
+
+    // The membership is written first so a failed write leaves the invitation pending and the token usable;
+    // if another request resolves the invitation in between, the membership is removed again.
+    const timestamp = now.toISOString();
+    const membership = await deps.profileStore.upsertMembership({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      orgId: invitation.orgId,
+      role: invitation.role,
+      groupIds: [...invitation.groupIds],
+      labelsDelta: {},
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    const accepted = await context.value.store.transitionInvitation(invitation.id, {
+      expectedStatus: "pending",
+      expectedTokenHash: tokenHash,
+      status: "accepted",
+      resolvedAt: timestamp,
+      resolvedByUserId: user.id,
+      membershipId: membership.id,
+      updatedAt: timestamp,
+    });
+    if (!accepted) {
+      await deps.profileStore.removeMembership(membership.id);
+      return err(invalidTokenError());
+    }
+
+    await emitTransition(deps, "accepted", accepted, user.id);
+    return ok({ invitation: accepted, membership });
+  };
+
+const createDeclineInvitation = (deps: CatalystSdkDependencies): InvitationsModule["declineInvitation"] =>
+  async (request) => {
+    const parsed = safeParse(declineInvitationSchema, request, createValidationError);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const context = resolveContext(deps);
+    if (!context.ok) {
+      return context;
+    }
+    const now = new Date();
+    const loaded = await loadPendingByToken(deps, context.value, parsed.value.token, now);
+    if (!loaded.ok) {
+      return loaded;
+    }
+
+    const timestamp = now.toISOString();
+    const declined = await context.value.store.transitionInvitation(loaded.value.invitation.id, {
+      expectedStatus: "pending",
+      expectedTokenHash: loaded.value.tokenHash,
+      status: "declined",
+      resolvedAt: timestamp,
+      updatedAt: timestamp,
+    });
+    if (!declined) {
+      return err(invalidTokenError());
+    }
+    await emitTransition(deps, "declined", declined);
+    return ok(declined);
+  };
+
+/**
+ * Applies a transition to a pending invitation addressed by id, reporting whether it was missing or already
+ * resolved.
+ */
+const transitionPending = async (
+  store: InvitationStorePort,
+  invitationId: string,
+  input: Omit<TransitionInvitationInput, "expectedStatus">,
+): Promise<Result<InvitationRecord, CatalystError>> => {
+  const invitation = await store.getInvitation(invitationId);
+  if (!invitation) {
+    return err(createNotFoundError("Invitation", { invitationId }));
+  }
+  if (invitation.status !== "pending") {
+    return err(notPendingError(invitation));
+  }
+  const updated = await store.transitionInvitation(invitationId, { ...input, expectedStatus: "pending" });
+  if (!updated) {
+    const current = await store.getInvitation(invitationId);
+    return err(notPendingError(current ?? invitation));
+  }
+  return ok(updated);
+};
+
+const createRevokeInvitation = (deps: CatalystSdkDependencies): InvitationsModule["revokeInvitation"] =>
+  async (request) => {
+    const parsed = safeParse(revokeInvitationSchema, request, createValidationError);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const context = resolveContext(deps);
+    if (!context.ok) {
+      return context;
+    }
+    const timestamp = new Date().toISOString();
+    const revoked = await transitionPending(context.value.store, parsed.value.invitationId, {
+      status: "revoked",
+      resolvedAt: timestamp,
+      resolvedByUserId: parsed.value.revokedByUserId,
+      updatedAt: timestamp,
+    });
+    if (!revoked.ok) {
+      return revoked;
+    }
+    await emitTransition(deps, "revoked", revoked.value, parsed.value.revokedByUserId);
+    return revoked;
+  };
+
+const createResendInvitation = (deps: CatalystSdkDependencies): InvitationsModule["resendInvitation"] =>
+  async (request) => {
+    const parsed = safeParse(resendInvitationSchema, request, createValidationError);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const context = resolveContext(deps);
+    if (!context.ok) {
+      return context;
+    }
+    const existing = await context.value.store.getInvitation(parsed.value.invitationId);
+    const now = new Date();
+    const timestamp = now.toISOString();
+    const { token, tokenHash } = await mintToken(context.value.secret, parsed.value.invitationId);
+    const resent = await transitionPending(context.value.store, parsed.value.invitationId, {
+      status: "pending",
+      tokenHash,
+      expiresAt: computeExpiry(now, parsed.value.ttlSeconds),
+      sentAt: timestamp,
+      sendCount: (existing?.sendCount ?? 0) + 1,
+      updatedAt: timestamp,
+    });
+    if (!resent.ok) {
+      return resent;
+    }
+    await emitTransition(deps, "resent", resent.value);
+    return ok({ invitation: resent.value, token });
+  };
+
+/**
+ * Creates the {@link InvitationsModule} bound to the provided dependencies.
+ */
+export const createInvitationsModule = (deps: CatalystSdkDependencies): InvitationsModule => ({
+  createInvitation: createCreateInvitation(deps),
+  getInvitation: createGetInvitation(deps),
+  listInvitations: createListInvitations(deps),
+  acceptInvitation: createAcceptInvitation(deps),
+  declineInvitation: createDeclineInvitation(deps),
+  revokeInvitation: createRevokeInvitation(deps),
+  resendInvitation: createResendInvitation(deps),
+});
@@ -1,5 +1,6 @@
 import {
   type CatalystError,
+  type DomainEventKey,
   type IssueKeyInput,
   type KeyOwnerReference,
   type KeyRecord,
@@ -10,6 +11,8 @@ import {
 import { z } from "../vendor/zod.js";
 
 import type { CatalystSdkDependencies } from "../index.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
+import type { SdkEventTrail } from "../shared/domain-events.js";
 import { createValidationError } from "../shared/errors.js";
 import { labelSetSchema } from "../shared/schemas.js";
 import { safeParse } from "../shared/validation.js";
@@ -132,6 +135,68 @@ const createRevokeKey = (deps: CatalystSdkDependencies): KeysModule["revokeKey"]
   return deps.keyStore.revokeKey(parsed.value.keyId, parsed.value.input ?? {});
 };
 
+const loadKey = async (deps: CatalystSdkDependencies, keyId: string): Promise<KeyRecord | undefined> => {
+  const key = await deps.keyStore.getKeyById(keyId);
+  return key.ok ? key.value : undefined;
+};
+
+/**
+ * Audit events recorded for API key lifecycle changes. Key hashes are redacted from the recorded diff.
+ */
+export const keysAuditTrail: SdkAuditTrail<KeysModule> = {
+  issueKey: {
+    category: "key",
+    action: "issued",
+    describe: (_request, key) => ({
+      subject: { type: key.owner.kind, id: key.owner.id },
+      resource: { type: "key", id: key.id },
+    }),
+  },
+  recordUsage: {
+    category: "key",
+    action: "used",
+    loadBefore: (deps, request) => loadKey(deps, request.keyId),
+    describe: (_request, key) => ({
+      subject: { type: key.owner.kind, id: key.owner.id },
+      resource: { type: "key", id: key.id },
+    }),
+  },
+  revokeKey: {
+    category: "key",
+    action: "revoked",
+    loadBefore: (deps, request) => loadKey(deps, request.keyId),
+    describe: (_request, key) => ({
+      subject: { type: key.owner.kind, id: key.owner.id },
+      resource: { type: "key", id: key.id },
+    }),
+  },
+};
+
+const toEventKey = (key: KeyRecord): DomainEventKey => {
+  const { hash: _hash, ...data } = key;
+  return data;
+};
+
+/**
+ * Domain events published for key issuance and revocation. Org-owned keys are scoped to their org.
+ */
+export const keysEventTrail: SdkEventTrail<KeysModule> = {
+  issueKey: {
+    toEvent: (_request, key) => ({
+      type: "key.issued",
+      orgId: key.owner.kind === "org" ? key.owner.id : undefined,
+      data: toEventKey(key),
+    }),
+  },
+  revokeKey: {
+    toEvent: (_request, key) => ({
+      type: "key.revoked",
+      orgId: key.owner.kind === "org" ? key.owner.id : undefined,
+      data: toEventKey(key),
+    }),
+  },
+};
+
 /**
  * Creates the {@link KeysModule} bound to the provided dependencies.
  */
@@ -10,6 +10,8 @@ import {
 import { z } from "../vendor/zod.js";
 
 import type { CatalystSdkDependencies } from "../index.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
+import type { SdkEventTrail } from "../shared/domain-events.js";
 import { createNotFoundError, createValidationError } from "../shared/errors.js";
 import { labelSetSchema } from "../shared/schemas.js";
 import { safeParse } from "../shared/validation.js";
@@ -235,6 +237,105 @@ const createDeleteGroup = (deps: CatalystSdkDependencies): OrgsModule["deleteGro
   return ok(null);
 };
 
+/**
+ * Audit events recorded for organization, membership, and group changes.
+ */
+export const orgsAuditTrail: SdkAuditTrail<OrgsModule> = {
+  upsertOrg: {
+    category: "org",
+    action: "upserted",
+    loadBefore: (deps, request) => deps.profileStore.getOrgProfile(request.org.id),
+    describe: (_request, org) => ({ resource: { type: "org", id: org.id } }),
+  },
+  upsertMembership: {
+    category: "membership",
+    action: "upserted",
+    loadBefore: (deps, request) => deps.profileStore.getMembership(request.membership.id),
+    describe: (_request, membership) => ({
+      subject: { type: "user", id: membership.userId },
+      resource: { type: "membership", id: membership.id, labels: { orgId: membership.orgId } },
+    }),
+  },
+  removeMembership: {
+    category: "membership",
+    action: "removed",
+    deletes: true,
+    loadBefore: (deps, request) => deps.profileStore.getMembership(request.membershipId),
+    describe: (request, _value, before) => {
+      const membership = before as MembershipRecord | undefined;
+      return {
+        subject: membership ? { type: "user", id: membership.userId } : undefined,
+        resource: {
+          type: "membership",
+          id: request.membershipId,
+          labels: membership ? { orgId: membership.orgId } : undefined,
+        },
+      };
+    },
+  },
+  upsertGroup: {
+    category: "group",
+    action: "upserted",
+    loadBefore: (deps, request) => deps.profileStore.getGroup(request.group.id),
+    describe: (_request, group) => ({
+      resource: { type: "group", id: group.id, labels: { orgId: group.orgId } },
+    }),
+  },
+  deleteGroup: {
+    category: "group",
+    action: "deleted",
+    deletes: true,
+    loadBefore: (deps, request) => deps.profileStore.getGroup(request.groupId),
+    describe: (request, _value, before) => {
+      const group = before as GroupRecord | undefined;
+      return {
+        resource: { type: "group", id: request.groupId, labels: group ? { orgId: group.orgId } : undefined },
+      };
+    },
+  },
+};
+
+/**
+ * Domain events published for organization, membership, and group changes.
+ */
+export const orgsEventTrail: SdkEventTrail<OrgsModule> = {
+  upsertOrg: {
+    toEvent: (_request, org, before) => ({
+      type: before ? "org.updated" : "org.created",
+      orgId: org.id,
+      data: org,
+    }),
+  },
+  upsertMembership: {
+    toEvent: (_request, membership, before) => ({
+      type: before ? "membership.updated" : "membership.created",
+      orgId: membership.orgId,
+      data: membership,
+    }),
+  },
+  removeMembership: {
+    toEvent: (request, _value, before) => ({
+      type: "membership.removed",
+      orgId: (before as MembershipRecord | undefined)?.orgId,
+      data: { id: request.membershipId },
+    }),
+  },
+  upsertGroup: {
+    toEvent: (_request, group, before) => ({
+      type: before ? "group.updated" : "group.created",
+      orgId: group.orgId,
+      data: group,
+    }),
+  },
+  deleteGroup: {
+    toEvent: (request, _value, before) => ({
+      type: "group.deleted",
+      orgId: (before as GroupRecord | undefined)?.orgId,
+      data: { id: request.groupId },
+    }),
+  },
+};
+
 /**
  * Creates the {@link OrgsModule} bound to the provided dependencies.
  */
@@ -0,0 +1,101 @@
+import {
+  err,
+  ok,
+  type CatalystError,
+  type EffectiveIdentity,
+  type PolicyEvaluationInput,
+  type PolicyExplanation,
+  type Result,
+} from "@catalyst-auth/contracts";
+import { z } from "../vendor/zod.js";
+
+import type { CatalystSdkDependencies } from "../index.js";
+import { createOperationError, createValidationError } from "../shared/errors.js";
+import { labelSetSchema } from "../shared/schemas.js";
+import { safeParse } from "../shared/validation.js";
+
+type ExplainDecisionInput = {
+  readonly userId: string;
+  readonly orgId?: string | undefined;
+  readonly action: string;
+  readonly resource?: PolicyEvaluationInput["resource"] | undefined;
+  readonly environment?: Record<string, unknown> | undefined;
+};
+
+const explainDecisionSchema: z.ZodType<ExplainDecisionInput> = z.object({
+  userId: z.string().min(1),
+  orgId: z.string().min(1).optional(),
+  action: z.string().min(1),
+  resource: z
+    .object({
+      type: z.string().min(1),
+      id: z.string().optional(),
+      labels: labelSetSchema.optional(),
+      attributes: z.record(z.unknown()).optional(),
+    })
+    .optional(),
+  environment: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Request payload for {@link PolicyModule.explainDecision}.
+ */
+export type ExplainDecisionRequest = z.infer<typeof explainDecisionSchema>;
+
+/**
+ * Explanation of a policy decision together with the identity it was evaluated for.
+ */
+export interface ExplainDecisionResult {
+  readonly identity: EffectiveIdentity;
+  readonly explanation: PolicyExplanation;
+}
+
+/**
+ * Policy module exposes diagnostics for the configured policy engine.
+ */
+export interface PolicyModule {
+  readonly explainDecision: (
+    request: ExplainDecisionRequest,
+  ) => Promise<Result<ExplainDecisionResult, CatalystError>>;
+}
+
+const createExplainDecision = (deps: CatalystSdkDependencies): PolicyModule["explainDecision"] => async (request) => {
+  const parsed = safeParse(explainDecisionSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const policyEngine = deps.policyEngine;
+  if (!policyEngine) {
+    return err(createOperationError("policy.engine_unavailable", "No policy engine is configured."));
+  }
+  if (!policyEngine.explain) {
+    return err(
+      createOperationError("policy.explain_unsupported", "The configured policy engine cannot explain decisions."),
+    );
+  }
+
+  const identityResult = await deps.idp.buildEffectiveIdentity(parsed.value.userId, parsed.value.orgId);
+  if (!identityResult.ok) {
+    return identityResult;
+  }
+  const identity = identityResult.value;
+
+  const explanation = await policyEngine.explain({
+    identity,
+    action: parsed.value.action,
+    resource: parsed.value.resource,
+    environment: parsed.value.environment,
+  });
+  if (!explanation.ok) {
+    return explanation;
+  }
+  return ok({ identity, explanation: explanation.value });
+};
+
+/**
+ * Creates the {@link PolicyModule} bound to the provided dependencies.
+ */
+export const createPolicyModule = (deps: CatalystSdkDependencies): PolicyModule => ({
+  explainDecision: createExplainDecision(deps),
+});
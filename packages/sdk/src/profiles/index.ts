@@ -2,6 +2,8 @@ import { err, ok, type CatalystError, type Result, type UserProfileRecord } from
 import { z } from "../vendor/zod.js";
 
 import type { CatalystSdkDependencies } from "../index.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
+import type { SdkEventTrail } from "../shared/domain-events.js";
 import { createNotFoundError, createValidationError } from "../shared/errors.js";
 import { labelSetSchema } from "../shared/schemas.js";
 import { safeParse } from "../shared/validation.js";
@@ -72,6 +74,30 @@ const createUpsertUserProfile = (deps: CatalystSdkDependencies): ProfilesModule[
   return ok(profile);
 };
 
+/**
+ * Audit events recorded for user profile changes.
+ */
+export const profilesAuditTrail: SdkAuditTrail<ProfilesModule> = {
+  upsertUserProfile: {
+    category: "user_profile",
+    action: "upserted",
+    loadBefore: (deps, request) => deps.profileStore.getUserProfile(request.profile.id),
+    describe: (_request, profile) => ({
+      subject: { type: "user", id: profile.id },
+      resource: { type: "user_profile", id: profile.id },
+    }),
+  },
+};
+
+/**
+ * Domain events published for user profile changes.
+ */
+export const profilesEventTrail: SdkEventTrail<ProfilesModule> = {
+  upsertUserProfile: {
+    toEvent: (_request, profile, before) => ({ type: before ? "user.updated" : "user.created", data: profile }),
+  },
+};
+
 /**
  * Creates the {@link ProfilesModule} bound to the provided dependencies.
  */
@@ -0,0 +1,236 @@
+import {
+  err,
+  ok,
+  type CatalystError,
+  type RoleDefinitionRecord,
+  type Result,
+} from "@catalyst-auth/contracts";
+import { z } from "../vendor/zod.js";
+
+import type { CatalystSdkDependencies } from "../index.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
+import type { SdkEventTrail } from "../shared/domain-events.js";
+import { createNotFoundError, createOperationError, createValidationError } from "../shared/errors.js";
+import { labelSetSchema } from "../shared/schemas.js";
+import { safeParse } from "../shared/validation.js";
+
+const MAX_ROLE_INHERITANCE_DEPTH = 10;
+
+const roleSchema: z.ZodType<RoleDefinitionRecord> = z.object({
+  id: z.string().min(1),
+  orgId: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  scopes: z.array(z.string().min(1)).default([]),
+  entitlements: z.array(z.string().min(1)).default([]),
+  labels: labelSetSchema.default({}),
+  inherits: z.string().min(1).optional(),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+type ListRolesInput = {
+  readonly orgId: string;
+};
+
+const listRolesSchema: z.ZodType<ListRolesInput> = z.object({
+  orgId: z.string().min(1),
+});
+
+type GetRoleInput = {
+  readonly orgId: string;
+  readonly name: string;
+};
+
+const getRoleSchema: z.ZodType<GetRoleInput> = z.object({
+  orgId: z.string().min(1),
+  name: z.string().min(1),
+});
+
+type UpsertRoleInput = {
+  readonly role: RoleDefinitionRecord;
+};
+
+const upsertRoleSchema: z.ZodType<UpsertRoleInput> = z.object({
+  role: roleSchema,
+});
+
+type DeleteRoleInput = {
+  readonly roleId: string;
+};
+
+const deleteRoleSchema: z.ZodType<DeleteRoleInput> = z.object({
+  roleId: z.string().min(1),
+});
+
+/**
+ * Role definition operations. Roles bundle scopes, entitlements and labels that are granted to memberships whose
+ * `role` matches the role name when effective identities are computed.
+ */
+export interface RolesModule {
+  readonly listRoles: (
+    request: z.infer<typeof listRolesSchema>,
+  ) => Promise<Result<ReadonlyArray<RoleDefinitionRecord>, CatalystError>>;
+  readonly getRole: (request: z.infer<typeof getRoleSchema>) => Promise<Result<RoleDefinitionRecord, CatalystError>>;
+  readonly upsertRole: (
+    request: z.infer<typeof upsertRoleSchema>,
+  ) => Promise<Result<RoleDefinitionRecord, CatalystError>>;
+  readonly deleteRole: (request: z.infer<typeof deleteRoleSchema>) => Promise<Result<null, CatalystError>>;
+}
+
+const createListRoles = (deps: CatalystSdkDependencies): RolesModule["listRoles"] => async (request) => {
+  const parsed = safeParse(listRolesSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const roles = await deps.profileStore.listRoles(parsed.value.orgId);
+  return ok(roles);
+};
+
+const createGetRole = (deps: CatalystSdkDependencies): RolesModule["getRole"] => async (request) => {
+  const parsed = safeParse(getRoleSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const role = await deps.profileStore.getRole(parsed.value.orgId, parsed.value.name);
+  if (!role) {
+    return err(createNotFoundError("Role", { orgId: parsed.value.orgId, name: parsed.value.name }));
+  }
+  return ok(role);
+};
+
+/**
+ * Ensures the parent role exists and that following `inherits` from it never leads back to the role being saved.
+ */
+const validateInheritance = async (
+  deps: CatalystSdkDependencies,
+  role: RoleDefinitionRecord,
+): Promise<Result<null, CatalystError>> => {
+  if (!role.inherits) {
+    return ok(null);
+  }
+
+  const chain = [role.name];
+  let parentName: string | undefined = role.inherits;
+  while (parentName) {
+    if (parentName === role.name) {
+      return err(
+        createOperationError("roles.inheritance_cycle", "Role inheritance must not form a cycle.", {
+          orgId: role.orgId,
+          chain: [...chain, parentName],
+        }),
+      );
+    }
+    if (chain.length > MAX_ROLE_INHERITANCE_DEPTH) {
+      return err(
+        createOperationError("roles.inheritance_too_deep", "Role inheritance chain is too deep.", {
+          orgId: role.orgId,
+          maxDepth: MAX_ROLE_INHERITANCE_DEPTH,
+        }),
+      );
+    }
+    const parent = await deps.profileStore.getRole(role.orgId, parentName);
+    if (!parent) {
+      return err(createNotFoundError("Role", { orgId: role.orgId, name: parentName }));
+    }
+    chain.push(parent.name);
+    parentName = parent.inherits;
+  }
+  return ok(null);
+};
+
+const createUpsertRole = (deps: CatalystSdkDependencies): RolesModule["upsertRole"] => async (request) => {
+  const parsed = safeParse(upsertRoleSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const role = parsed.value.role;
+
+  const existing = await deps.profileStore.getRole(role.orgId, role.name);
+  if (existing && existing.id !== role.id) {
+    return err(
+      createOperationError("roles.name_conflict", "A role with this name already exists in the organization.", {
+        orgId: role.orgId,
+        name: role.name,
+        roleId: existing.id,
+      }),
+    );
+  }
+
+  const inheritance = await validateInheritance(deps, role);
+  if (!inheritance.ok) {
+    return inheritance;
+  }
+
+  const stored = await deps.profileStore.upsertRole(role);
+  return ok(stored);
+};
+
+const createDeleteRole = (deps: CatalystSdkDependencies): RolesModule["deleteRole"] => async (request) => {
+  const parsed = safeParse(deleteRoleSchema, request, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  await deps.profileStore.deleteRole(parsed.value.roleId);
+  return ok(null);
+};
+
+/**
+ * Audit events recorded for role definition changes.
+ */
+export const rolesAuditTrail: SdkAuditTrail<RolesModule> = {
+  upsertRole: {
+    category: "role",
+    action: "upserted",
+    loadBefore: (deps, request) => deps.profileStore.getRoleById(request.role.id),
+    describe: (_request, role) => ({
+      resource: { type: "role", id: role.id, labels: { orgId: role.orgId, name: role.name } },
+    }),
+  },
+  deleteRole: {
+    category: "role",
+    action: "deleted",
+    deletes: true,
+    loadBefore: (deps, request) => deps.profileStore.getRoleById(request.roleId),
+    describe: (request, _value, before) => {
+      const role = before as RoleDefinitionRecord | undefined;
+      return {
+        resource: {
+          type: "role",
+          id: request.roleId,
+          labels: role ? { orgId: role.orgId, name: role.name } : undefined,
+        },
+      };
+    },
+  },
+};
+
+/**
+ * Domain events published for role definition changes.
+ */
+export const rolesEventTrail: SdkEventTrail<RolesModule> = {
+  upsertRole: {
+    toEvent: (_request, role, before) => ({
+      type: before ? "role.updated" : "role.created",
+      orgId: role.orgId,
+      data: role,
+    }),
+  },
+  deleteRole: {
+    toEvent: (request, _value, before) => ({
+      type: "role.deleted",
+      orgId: (before as RoleDefinitionRecord | undefined)?.orgId,
+      data: { id: request.roleId },
+    }),
+  },
+};
+
+/**
+ * Creates the {@link RolesModule} bound to the provided dependencies.
+ */
+export const createRolesModule = (deps: CatalystSdkDependencies): RolesModule => ({
+  listRoles: createListRoles(deps),
+  getRole: createGetRole(deps),
+  upsertRole: createUpsertRole(deps),
+  deleteRole: createDeleteRole(deps),
+});
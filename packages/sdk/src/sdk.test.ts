@@ -2,7 +2,14 @@ import { describe, expect, it } from "vitest";
 
 import {
   err,
+  matchesWebhookEventType,
   ok,
+  type AccessTokenClaims,
+  type AppendAuditEventInput,
+  type AuditEventQuery,
+  type AuditEventRecord,
+  type AuditLogPort,
+  type AnyDomainEvent,
   type CatalystError,
   type EffectiveIdentity,
   type EntitlementRecord,
@@ -11,7 +18,12 @@ import {
   type IdpAdapterPort,
   type IdpUserProfile,
   type JwtDescriptor,
+  type MintAccessTokenInput,
   type MintDecisionJwtInput,
+  type MintRefreshTokenInput,
+  type PolicyEnginePort,
+  type PolicyEvaluationInput,
+  type RefreshTokenClaims,
   type Result,
   type SessionRecord,
   type SessionStorePort,
@@ -25,6 +37,7 @@ import {
   type WebhookSubscriptionRecord,
   type WebhookSubscriptionStorePort,
   type CreateWebhookSubscriptionInput,
+  type RotateWebhookSecretInput,
   type UpdateWebhookSubscriptionInput,
   type WebhookDeliveryStorePort,
   type WebhookDeliveryRecord,
@@ -32,11 +45,20 @@ import {
   type UpdateWebhookDeliveryInput,
   type WebhookDeliveryStatus,
   type ListWebhookDeliveriesOptions,
+  type FindOrderingPredecessorOptions,
   type ListPendingDeliveriesOptions,
+  type WebhookQueuePort,
 } from "@catalyst-auth/contracts";
-import { createCatalystSdk } from "./index.js";
-import { createInMemoryProfileStore } from "@catalyst-auth/profile-memory";
-import { createMemoryKeyStore } from "@catalyst-auth/key-memory";
+import {
+  ACCESS_TOKEN_TYPE,
+  API_KEY_TOKEN_TYPE,
+  createCatalystSdk,
+  createInProcessEventBus,
+  type CatalystSdkDependencies,
+  type CatalystSdkOptions,
+} from "./index.js";
+import { createInMemoryInvitationStore, createInMemoryProfileStore } from "@catalyst-auth/profile-memory";
+import { createMemoryKeyStore, createMemoryRefreshTokenStore } from "@catalyst-auth/key-memory";
 import { createMemoryWebhookDelivery } from "@catalyst-auth/webhook-memory";
 
 class FakeIdpAdapter implements IdpAdapterPort {
@@ -117,12 +139,75 @@ class FakeIdpAdapter implements IdpAdapterPort {
 }
 
 class FakeTokenService implements TokenServicePort {
+  private readonly refreshClaims = new Map<string, RefreshTokenClaims>();
+  private readonly accessClaims = new Map<string, AccessTokenClaims>();
+
   async mintDecisionJwt(_input: MintDecisionJwtInput): Promise<Result<JwtDescriptor, CatalystError>> {
     return ok({
       token: "jwt-token",
       expiresAt: new Date(Date.now() + 30000).toISOString(),
     });
   }
+
+  async mintTokenPair(
+    accessInput: MintAccessTokenInput,
+    refreshInput: MintRefreshTokenInput,
+  ): Promise<Result<TokenPair, CatalystError>> {
+    const tokenId = refreshInput.tokenId ?? `rt-${this.refreshClaims.size + 1}`;
+    const refreshToken = `refresh.${tokenId}`;
+    this.refreshClaims.set(refreshToken, {
+      iss: "https://auth.example.com",
+      sub: refreshInput.subject,
+      client_id: refreshInput.clientId,
+      token_type: "refresh",
+      iat: 0,
+      exp: 0,
+      jti: tokenId,
+      session: refreshInput.sessionId,
+      fid: refreshInput.familyId,
+    });
+    return ok({
+      accessToken: `access.${accessInput.subject}.${accessInput.scopes.join(",")}`,
+      refreshToken,
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+    });
+  }
+
+  async mintAccessToken(input: MintAccessTokenInput): Promise<Result<JwtDescriptor, CatalystError>> {
+    const token = `access.${this.accessClaims.size + 1}`;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    this.accessClaims.set(token, {
+      iss: "https://auth.example.com",
+      sub: input.subject,
+      client_id: input.clientId,
+      token_type: "access",
+      iat: issuedAt,
+      exp: issuedAt + (input.ttlSeconds ?? 600),
+      jti: token,
+      aud: input.audience,
+      org: input.orgId,
+      session: input.sessionId,
+      scope: input.scopes.join(" "),
+      act: input.actor,
+    });
+    return ok({ token, expiresAt: new Date((issuedAt + (input.ttlSeconds ?? 600)) * 1000).toISOString() });
+  }
+
+  async verifyAccessToken(token: string): Promise<Result<AccessTokenClaims, CatalystError>> {
+    const claims = this.accessClaims.get(token);
+    if (!claims) {
+      return err({ code: "token.access.malformed", message: "Token is not a well-formed JWT" });
+    }
+    return ok(claims);
+  }
+
+  async verifyRefreshToken(token: string): Promise<Result<RefreshTokenClaims, CatalystError>> {
+    const claims = this.refreshClaims.get(token);
+    if (!claims) {
+      return err({ code: "token.refresh.malformed", message: "Token is not a well-formed JWT" });
+    }
+    return ok(claims);
+  }
 }
 
 class FakeEntitlementStore implements EntitlementStorePort {
@@ -140,6 +225,10 @@ class FakeEntitlementStore implements EntitlementStorePort {
     this.records.set(record.id, record);
   }
 
+  async getEntitlement(id: string) {
+    return this.records.get(id);
+  }
+
   async listEntitlements(subject: EntitlementQuery) {
     return Array.from(this.records.values()).filter(
       (record) => record.subjectKind === subject.subjectKind && record.subjectId === subject.subjectId,
@@ -234,6 +323,8 @@ const toSubscriptionRecord = (
   id: input.id,
   orgId: input.orgId ?? undefined,
   eventTypes: [...input.eventTypes],
+  filters: input.filters ? structuredClone(input.filters) : undefined,
+  ordering: input.ordering ? { ...input.ordering } : undefined,
   targetUrl: input.targetUrl,
   secret: input.secret,
   headers: cloneHeaders(input.headers ?? {}),
@@ -289,6 +380,18 @@ class FakeWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
       ...current,
       orgId: input.orgId === undefined ? current.orgId : input.orgId ?? undefined,
       eventTypes: input.eventTypes ? [...input.eventTypes] : current.eventTypes,
+      filters:
+        input.filters === undefined
+          ? current.filters
+          : input.filters === null
+            ? undefined
+            : structuredClone(input.filters),
+      ordering:
+        input.ordering === undefined
+          ? current.ordering
+          : input.ordering === null
+            ? undefined
+            : { ...input.ordering },
       targetUrl: input.targetUrl ?? current.targetUrl,
       secret: input.secret ?? current.secret,
       headers:
@@ -337,7 +440,10 @@ class FakeWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
         return false;
       }
 
-      if (options?.eventType && !record.eventTypes.includes(options.eventType)) {
+      if (
+        options?.eventType &&
+        !record.eventTypes.some((pattern) => matchesWebhookEventType(pattern, options.eventType as string))
+      ) {
         return false;
       }
 
@@ -350,6 +456,25 @@ class FakeWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
     this.records.delete(id);
     return ok(undefined);
   }
+
+  async rotateSecret(id: string, input: RotateWebhookSecretInput) {
+    const current = this.records.get(id);
+    if (!current) {
+      return err({
+        code: "webhook.subscription.not_found",
+        message: `Subscription ${id} not found`,
+      });
+    }
+
+    const next: WebhookSubscriptionRecord = {
+      ...current,
+      secret: input.secret,
+      previousSecret: { secret: current.secret, expiresAt: input.previousSecretExpiresAt },
+      updatedAt: input.rotatedAt ?? new Date().toISOString(),
+    };
+    this.records.set(id, next);
+    return ok(next);
+  }
 }
 
 const toDeliveryRecord = (
@@ -365,6 +490,7 @@ const toDeliveryRecord = (
   payload: { ...input.payload },
   response: input.response ? { ...input.response } : undefined,
   errorMessage: input.errorMessage ?? undefined,
+  orderingKey: input.orderingKey,
   createdAt: input.createdAt,
   updatedAt: input.updatedAt,
 });
@@ -430,6 +556,7 @@ class FakeWebhookDeliveryStore implements WebhookDeliveryStorePort {
           : input.errorMessage === null
             ? undefined
             : input.errorMessage,
+      replays: input.replays === undefined ? current.replays : [...input.replays],
       updatedAt: input.updatedAt ?? new Date().toISOString(),
     };
 
@@ -474,6 +601,20 @@ class FakeWebhookDeliveryStore implements WebhookDeliveryStorePort {
     return ok(limited);
   }
 
+  async findOrderingPredecessor(options: FindOrderingPredecessorOptions) {
+    const { delivery } = options;
+    const [predecessor] = Array.from(this.records.values())
+      .filter(
+        (record) =>
+          record.orderingKey === options.orderingKey &&
+          (record.createdAt < delivery.createdAt || (record.createdAt === delivery.createdAt && record.id < delivery.id)) &&
+          (record.status === "pending" ||
+            (record.status === "delivering" && compareIso(options.deliveringSince, record.updatedAt))),
+      )
+      .sort((left, right) => left.createdAt.localeCompare(right.createdAt) || left.id.localeCompare(right.id));
+    return ok(predecessor);
+  }
+
   async deleteDelivery(id: string) {
     this.records.delete(id);
     return ok(undefined);
@@ -481,7 +622,7 @@ class FakeWebhookDeliveryStore implements WebhookDeliveryStorePort {
 }
 
 describe("@catalyst-auth/sdk", () => {
-  const createSdk = () => {
+  const createSdk = (overrides: Partial<CatalystSdkDependencies> = {}, options: CatalystSdkOptions = {}) => {
     const profileStore = createInMemoryProfileStore({
       initialUsers: [
         {
@@ -533,7 +674,8 @@ describe("@catalyst-auth/sdk", () => {
       webhookSubscriptionStore,
       webhookDeliveryStore,
       tokenService: new FakeTokenService(),
-    });
+      ...overrides,
+    }, options);
   };
 
   describe("auth module", () => {
@@ -589,6 +731,354 @@ describe("@catalyst-auth/sdk", () => {
       expect(result.ok).toBe(true);
     });
 
+    it("delegates refresh to the identity provider without a refresh token store", async () => {
+      const sdk = createSdk();
+      const result = await sdk.auth.refreshSession({ refreshToken: "refresh-good", clientId: "client-1" });
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.refreshToken).toBe("refresh-rotated");
+      }
+    });
+
+    it("rotates refresh tokens and revokes the family on reuse", async () => {
+      const sessionStore = new FakeSessionStore();
+      const sdk = createSdk({ sessionStore, refreshTokenStore: createMemoryRefreshTokenStore() });
+
+      const issued = await sdk.auth.issueTokens({
+        userId: "user-1",
+        clientId: "client-1",
+        scopes: ["read"],
+        sessionId: "sess-1",
+      });
+      expect(issued.ok).toBe(true);
+      if (!issued.ok) {
+        throw new Error("failed to issue tokens");
+      }
+      expect(issued.value.accessToken).toBe("access.user-1.read");
+
+      const rotated = await sdk.auth.refreshSession({ refreshToken: issued.value.refreshToken, clientId: "client-1" });
+      expect(rotated.ok).toBe(true);
+      if (!rotated.ok) {
+        throw new Error("failed to rotate refresh token");
+      }
+      expect(rotated.value.refreshToken).not.toBe(issued.value.refreshToken);
+
+      const wrongClient = await sdk.auth.refreshSession({ refreshToken: rotated.value.refreshToken, clientId: "other" });
+      expect(wrongClient.ok).toBe(false);
+      if (!wrongClient.ok) {
+        expect(wrongClient.error.code).toBe("auth.refresh_token_invalid");
+      }
+
+      const reused = await sdk.auth.refreshSession({ refreshToken: issued.value.refreshToken, clientId: "client-1" });
+      expect(reused.ok).toBe(false);
+      if (!reused.ok) {
+        expect(reused.error.code).toBe("auth.refresh_token_reused");
+        expect(reused.error.details?.sessionId).toBe("sess-1");
+      }
+      expect(await sessionStore.getSession("sess-1")).toBeUndefined();
+
+      const afterRevocation = await sdk.auth.refreshSession({
+        refreshToken: rotated.value.refreshToken,
+        clientId: "client-1",
+      });
+      expect(afterRevocation.ok).toBe(false);
+      if (!afterRevocation.ok) {
+        expect(afterRevocation.error.code).toBe("auth.refresh_token_revoked");
+      }
+
+      const idpToken = await sdk.auth.refreshSession({ refreshToken: "refresh-good", clientId: "client-1" });
+      expect(idpToken.ok).toBe(true);
+    });
+
+    it("audits token issuance, rotation, exchange, and reuse revocation", async () => {
+      const auditEvents: AppendAuditEventInput[] = [];
+      const auditLog: AuditLogPort = {
+        appendEvent: async (input) => {
+          auditEvents.push(input);
+          return ok({ id: `audit-${auditEvents.length}`, occurredAt: input.occurredAt ?? "", ...input });
+        },
+        listEvents: async () => ok([]),
+        queryEvents: async () => ok({ events: [] }),
+      };
+      const eventBus = createInProcessEventBus();
+      const ended: string[] = [];
+      eventBus.subscribe("session.ended", (event) => {
+        ended.push(event.data.id);
+      });
+      const tokenService = new FakeTokenService();
+      const sdk = createSdk({
+        auditLog,
+        eventBus,
+        tokenService,
+        sessionStore: new FakeSessionStore(),
+        refreshTokenStore: createMemoryRefreshTokenStore(),
+        policyEngine: { evaluate: async () => ok({ allow: true }) },
+      });
+
+      const issued = await sdk.auth.issueTokens({
+        userId: "user-1",
+        clientId: "client-1",
+        scopes: ["read"],
+        sessionId: "sess-1",
+      });
+      if (!issued.ok) {
+        throw new Error("failed to issue tokens");
+      }
+      const rotated = await sdk.auth.refreshSession({ refreshToken: issued.value.refreshToken, clientId: "client-1" });
+      expect(rotated.ok).toBe(true);
+      const reused = await sdk.auth.refreshSession({ refreshToken: issued.value.refreshToken, clientId: "client-1" });
+      expect(reused.ok).toBe(false);
+
+      const subject = await tokenService.mintAccessToken({ subject: "user-1", clientId: "web", scopes: ["openid"] });
+      if (!subject.ok) {
+        throw new Error("failed to mint subject token");
+      }
+      const exchanged = await sdk.auth.exchangeToken({
+        subjectToken: subject.value.token,
+        subjectTokenType: ACCESS_TOKEN_TYPE,
+        clientId: "orders-service",
+        audience: "inventory",
+      });
+      expect(exchanged.ok).toBe(true);
+
+      expect(auditEvents.map((event) => `${event.category}.${event.action}`)).toEqual([
+        "token.issued",
+        "token.refreshed",
+        "token.reuse_detected",
+        "token.exchanged",
+      ]);
+      expect(auditEvents[0]).toMatchObject({
+        subject: { type: "user", id: "user-1" },
+        resource: { type: "client", id: "client-1", labels: { sessionId: "sess-1", scopes: ["read"] } },
+        metadata: {
+          operation: "auth.issueTokens",
+          diff: { after: { accessToken: "[redacted]", refreshToken: "[redacted]" } },
+        },
+      });
+      const familyResource = {
+        type: "refresh_token_family",
+        labels: { clientId: "client-1", sessionId: "sess-1" },
+      };
+      expect(auditEvents[1]).toMatchObject({
+        subject: { type: "user", id: "user-1" },
+        resource: familyResource,
+        metadata: { operation: "auth.refreshSession" },
+      });
+      expect(auditEvents[2]).toMatchObject({
+        subject: { type: "user", id: "user-1" },
+        resource: { ...familyResource, id: auditEvents[1].resource?.id },
+        metadata: { operation: "auth.refreshSession", sessionEnded: true },
+      });
+      expect(auditEvents[3]).toMatchObject({
+        resource: { type: "client", id: "orders-service", labels: { audience: "inventory" } },
+        metadata: { operation: "auth.exchangeToken", diff: { after: { accessToken: "[redacted]", scopes: ["openid"] } } },
+      });
+      expect(ended).toEqual(["sess-1"]);
+
+      const recorded = JSON.stringify(auditEvents);
+      for (const token of [issued.value.accessToken, issued.value.refreshToken, subject.value.token]) {
+        expect(recorded).not.toContain(token);
+      }
+    });
+
+    it("requires a refresh token store to issue tokens", async () => {
+      const sdk = createSdk();
+      const result = await sdk.auth.issueTokens({ userId: "user-1", clientId: "client-1", scopes: [] });
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe("auth.refresh_rotation_unavailable");
+      }
+    });
+
+    it("exchanges access tokens for narrower delegated tokens", async () => {
+      const tokenService = new FakeTokenService();
+      const evaluations: Array<{ action: string; audience?: string }> = [];
+      const policyEngine: PolicyEnginePort = {
+        async evaluate(input) {
+          evaluations.push({ action: input.action, audience: input.resource?.id });
+          return ok({ allow: input.resource?.id !== "billing", reason: "audience_not_allowed" });
+        },
+      };
+      const sdk = createSdk({ tokenService, policyEngine });
+      const subject = await tokenService.mintAccessToken({
+        subject: "user-1",
+        clientId: "web",
+        scopes: ["openid"],
+        orgId: "org-1",
+        sessionId: "sess-1",
+        actor: { sub: "gateway" },
+      });
+      if (!subject.ok) {
+        throw new Error("failed to mint subject token");
+      }
+
+      const exchanged = await sdk.auth.exchangeToken({
+        subjectToken: subject.value.token,
+        subjectTokenType: ACCESS_TOKEN_TYPE,
+        clientId: "orders-service",
+        audience: "inventory",
+        scopes: ["openid"],
+      });
+      expect(exchanged.ok).toBe(true);
+      if (!exchanged.ok) {
+        throw new Error("exchange failed");
+      }
+      expect(exchanged.value.issuedTokenType).toBe(ACCESS_TOKEN_TYPE);
+      expect(exchanged.value.scopes).toEqual(["openid"]);
+      expect(evaluations).toEqual([{ action: "token.exchange", audience: "inventory" }]);
+
+      const claims = await tokenService.verifyAccessToken(exchanged.value.accessToken);
+      expect(claims.ok).toBe(true);
+      if (claims.ok) {
+        expect(claims.value.aud).toBe("inventory");
+        expect(claims.value.session).toBe("sess-1");
+        expect(claims.value.act).toEqual({ sub: "orders-service", act: { sub: "gateway" } });
+      }
+
+      const escalated = await sdk.auth.exchangeToken({
+        subjectToken: exchanged.value.accessToken,
+        subjectTokenType: ACCESS_TOKEN_TYPE,
+        clientId: "inventory-service",
+        audience: "warehouse",
+        scopes: ["openid", "admin"],
+      });
+      expect(escalated.ok).toBe(false);
+      if (!escalated.ok) {
+        expect(escalated.error.code).toBe("auth.token_exchange_scope_escalation");
+        expect(escalated.error.details?.scopes).toEqual(["admin"]);
+      }
+
+      const denied = await sdk.auth.exchangeToken({
+        subjectToken: subject.value.token,
+        subjectTokenType: ACCESS_TOKEN_TYPE,
+        clientId: "orders-service",
+        audience: "billing",
+      });
+      expect(denied.ok).toBe(false);
+      if (!denied.ok) {
+        expect(denied.error.code).toBe("auth.token_exchange_denied");
+        expect(denied.error.details?.reason).toBe("audience_not_allowed");
+      }
+    });
+
+    it("treats access tokens minted without scopes as an empty grant", async () => {
+      const tokenService = new FakeTokenService();
+      const sdk = createSdk({ tokenService, policyEngine: { evaluate: async () => ok({ allow: true }) } });
+      const subject = await tokenService.mintAccessToken({
+        subject: "user-1",
+        clientId: "web",
+        scopes: [],
+        orgId: "org-1",
+      });
+      if (!subject.ok) {
+        throw new Error("failed to mint subject token");
+      }
+
+      const exchanged = await sdk.auth.exchangeToken({
+        subjectToken: subject.value.token,
+        subjectTokenType: ACCESS_TOKEN_TYPE,
+        clientId: "orders-service",
+        audience: "inventory",
+      });
+      expect(exchanged.ok).toBe(true);
+      if (exchanged.ok) {
+        expect(exchanged.value.scopes).toEqual([]);
+      }
+
+      const escalated = await sdk.auth.exchangeToken({
+        subjectToken: subject.value.token,
+        subjectTokenType: ACCESS_TOKEN_TYPE,
+        clientId: "orders-service",
+        audience: "inventory",
+        scopes: ["openid"],
+      });
+      expect(escalated.ok).toBe(false);
+      if (!escalated.ok) {
+        expect(escalated.error.code).toBe("auth.token_exchange_scope_escalation");
+        expect(escalated.error.details?.scopes).toEqual(["openid"]);
+      }
+    });
+
+    it("rejects exchanges into an org the subject token was not issued for", async () => {
+      const tokenService = new FakeTokenService();
+      const evaluations: string[] = [];
+      const sdk = createSdk({
+        tokenService,
+        policyEngine: {
+          async evaluate(input) {
+            evaluations.push(input.action);
+            return ok({ allow: true });
+          },
+        },
+      });
+      const subject = await tokenService.mintAccessToken({
+        subject: "user-1",
+        clientId: "web",
+        scopes: ["openid"],
+        orgId: "org-1",
+      });
+      if (!subject.ok) {
+        throw new Error("failed to mint subject token");
+      }
+
+      const crossOrg = await sdk.auth.exchangeToken({
+        subjectToken: subject.value.token,
+        subjectTokenType: ACCESS_TOKEN_TYPE,
+        clientId: "orders-service",
+        audience: "inventory",
+        orgId: "org-2",
+      });
+      expect(crossOrg.ok).toBe(false);
+      if (!crossOrg.ok) {
+        expect(crossOrg.error.code).toBe("auth.token_exchange_org_mismatch");
+        expect(crossOrg.error.details).toEqual({ orgId: "org-2", tokenOrgId: "org-1" });
+      }
+      expect(evaluations).toEqual([]);
+
+      const sameOrg = await sdk.auth.exchangeToken({
+        subjectToken: subject.value.token,
+        subjectTokenType: ACCESS_TOKEN_TYPE,
+        clientId: "orders-service",
+        audience: "inventory",
+        orgId: "org-1",
+      });
+      expect(sameOrg.ok).toBe(true);
+    });
+
+    it("exchanges API keys using the key scopes", async () => {
+      const tokenService = new FakeTokenService();
+      const keyStore = createMemoryKeyStore();
+      await keyStore.issueKey({ hash: "hashed:svc-secret", owner: { kind: "service", id: "svc-1" }, scopes: ["sync"] });
+      const sdk = createSdk({
+        tokenService,
+        keyStore,
+        policyEngine: { evaluate: async () => ok({ allow: true }) },
+        hashApiKey: (secret) => `hashed:${secret}`,
+      });
+
+      const exchanged = await sdk.auth.exchangeToken({
+        subjectToken: "svc-secret",
+        subjectTokenType: API_KEY_TOKEN_TYPE,
+        clientId: "scheduler",
+        audience: "reports",
+      });
+      expect(exchanged.ok).toBe(true);
+      if (exchanged.ok) {
+        expect(exchanged.value.scopes).toEqual(["sync"]);
+      }
+
+      const unknown = await sdk.auth.exchangeToken({
+        subjectToken: "other-secret",
+        subjectTokenType: API_KEY_TOKEN_TYPE,
+        clientId: "scheduler",
+        audience: "reports",
+      });
+      expect(unknown.ok).toBe(false);
+      if (!unknown.ok) {
+        expect(unknown.error.code).toBe("auth.token_exchange_invalid_subject");
+      }
+    });
+
     it("mints decision tokens", async () => {
       const sdk = createSdk();
       const identity = await sdk.me.getEffectiveIdentity({ userId: "user-1", orgId: "org-1" });
@@ -624,6 +1114,670 @@ describe("@catalyst-auth/sdk", () => {
     });
   });
 
+  describe("roles module", () => {
+    it("stores roles and rejects inheritance cycles", async () => {
+      const sdk = createSdk();
+      const timestamp = new Date(2024, 0, 1).toISOString();
+      const base = { orgId: "org-1", scopes: [], entitlements: [], labels: {}, createdAt: timestamp, updatedAt: timestamp };
+
+      const viewer = await sdk.roles.upsertRole({ role: { ...base, id: "role-viewer", name: "viewer", scopes: ["docs:read"] } });
+      expect(viewer.ok).toBe(true);
+      const editor = await sdk.roles.upsertRole({
+        role: { ...base, id: "role-editor", name: "editor", scopes: ["docs:write"], inherits: "viewer" },
+      });
+      expect(editor.ok).toBe(true);
+
+      const cycle = await sdk.roles.upsertRole({
+        role: { ...base, id: "role-viewer", name: "viewer", inherits: "editor" },
+      });
+      expect(cycle.ok).toBe(false);
+      if (!cycle.ok) {
+        expect(cycle.error.code).toBe("roles.inheritance_cycle");
+      }
+
+      const conflict = await sdk.roles.upsertRole({ role: { ...base, id: "role-other", name: "editor" } });
+      expect(conflict.ok).toBe(false);
+      if (!conflict.ok) {
+        expect(conflict.error.code).toBe("roles.name_conflict");
+      }
+
+      const listed = await sdk.roles.listRoles({ orgId: "org-1" });
+      expect(listed.ok && listed.value.map((role) => role.name)).toEqual(["editor", "viewer"]);
+
+      await sdk.roles.deleteRole({ roleId: "role-editor" });
+      const missing = await sdk.roles.getRole({ orgId: "org-1", name: "editor" });
+      expect(missing.ok).toBe(false);
+      if (!missing.ok) {
+        expect(missing.error.code).toBe("sdk.not_found");
+      }
+    });
+  });
+
+  describe("invitations module", () => {
+    const createInvitationSdk = (overrides: Partial<CatalystSdkDependencies> = {}) => {
+      const auditEvents: AppendAuditEventInput[] = [];
+      const auditLog: AuditLogPort = {
+        appendEvent: async (input) => {
+          auditEvents.push(input);
+          return ok({ id: `audit-${auditEvents.length}`, occurredAt: input.occurredAt ?? "", ...input });
+        },
+        listEvents: async () => ok([]),
+        queryEvents: async () => ok({ events: [] }),
+      };
+      const webhookSubscriptionStore = new FakeWebhookSubscriptionStore();
+      const webhookDeliveryStore = new FakeWebhookDeliveryStore();
+      const sdk = createSdk({
+        invitationStore: createInMemoryInvitationStore(),
+        invitationTokenSecret: "invite-secret",
+        auditLog,
+        webhookSubscriptionStore,
+        webhookDeliveryStore,
+        ...overrides,
+      });
+      return { sdk, auditEvents, webhookSubscriptionStore, webhookDeliveryStore };
+    };
+
+    it("accepts an invitation once and creates the membership", async () => {
+      const { sdk, auditEvents, webhookSubscriptionStore, webhookDeliveryStore } = createInvitationSdk();
+      await webhookSubscriptionStore.createSubscription({
+        id: "sub-invites",
+        orgId: "org-1",
+        eventTypes: ["invitation.accepted"],
+        targetUrl: "https://example.com/invites",
+        secret: "secret",
+      });
+      await sdk.profiles.upsertUserProfile({
+        profile: {
+          id: "user-2",
+          authentikId: "auth-2",
+          email: "new@example.com",
+          labels: {},
+        },
+      });
+
+      const created = await sdk.invitations.createInvitation({
+        orgId: "org-1",
+        email: "New@Example.com",
+        role: "member",
+        invitedByUserId: "user-1",
+      });
+      expect(created.ok).toBe(true);
+      if (!created.ok) {
+        return;
+      }
+      expect(created.value.invitation.email).toBe("new@example.com");
+
+      const duplicate = await sdk.invitations.createInvitation({
+        orgId: "org-1",
+        email: "new@example.com",
+        role: "member",
+        invitedByUserId: "user-1",
+      });
+      expect(!duplicate.ok && duplicate.error.code).toBe("invitations.already_pending");
+
+      const resent = await sdk.invitations.resendInvitation({ invitationId: created.value.invitation.id });
+      expect(resent.ok).toBe(true);
+      if (!resent.ok) {
+        return;
+      }
+      expect(resent.value.invitation.sendCount).toBe(2);
+
+      const stale = await sdk.invitations.acceptInvitation({ token: created.value.token, userId: "user-2" });
+      expect(!stale.ok && stale.error.code).toBe("invitations.invalid_token");
+
+      const forged = await sdk.invitations.acceptInvitation({ token: `${resent.value.token}x`, userId: "user-2" });
+      expect(!forged.ok && forged.error.code).toBe("invitations.invalid_token");
+
+      const accepted = await sdk.invitations.acceptInvitation({ token: resent.value.token, userId: "user-2" });
+      expect(accepted.ok).toBe(true);
+      if (accepted.ok) {
+        expect(accepted.value.invitation.status).toBe("accepted");
+        expect(accepted.value.membership).toMatchObject({ userId: "user-2", orgId: "org-1", role: "member" });
+      }
+
+      const replayed = await sdk.invitations.acceptInvitation({ token: resent.value.token, userId: "user-2" });
+      expect(!replayed.ok && replayed.error.code).toBe("invitations.not_pending");
+
+      const memberships = await sdk.orgs.listMemberships({ orgId: "org-1" });
+      expect(memberships.ok && memberships.value.some((membership) => membership.userId === "user-2")).toBe(true);
+      expect(auditEvents.map((event) => `${event.category}.${event.action}`)).toEqual([
+        "user_profile.upserted",
+        "invitation.created",
+        "invitation.resent",
+        "invitation.accepted",
+      ]);
+
+      const deliveries = await webhookDeliveryStore.listDeliveries({ subscriptionId: "sub-invites" });
+      expect(deliveries.ok && deliveries.value.map((delivery) => delivery.payload.type)).toEqual([
+        "invitation.accepted",
+      ]);
+    });
+
+    it("keeps the invitation pending when the membership cannot be written", async () => {
+      const profileStore = createInMemoryProfileStore({
+        initialUsers: [{ id: "user-2", authentikId: "auth-2", email: "new@example.com", labels: {} }],
+        initialOrgs: [
+          { id: "org-1", slug: "acme", status: "active", profile: { name: "Acme Inc" }, labels: {}, settings: {} },
+        ],
+      });
+      const upsertMembership = profileStore.upsertMembership.bind(profileStore);
+      let failNextUpsert = true;
+      profileStore.upsertMembership = async (membership) => {
+        if (failNextUpsert) {
+          failNextUpsert = false;
+          throw new Error("connection lost");
+        }
+        return upsertMembership(membership);
+      };
+      const { sdk } = createInvitationSdk({ profileStore });
+      const created = await sdk.invitations.createInvitation({
+        orgId: "org-1",
+        email: "new@example.com",
+        role: "member",
+        invitedByUserId: "user-1",
+      });
+      if (!created.ok) {
+        throw new Error("expected invitation to be created");
+      }
+
+      await expect(
+        sdk.invitations.acceptInvitation({ token: created.value.token, userId: "user-2" }),
+      ).rejects.toThrow("connection lost");
+      const pending = await sdk.invitations.listInvitations({ orgId: "org-1", status: "pending" });
+      expect(pending.ok && pending.value.map((invitation) => invitation.id)).toEqual([created.value.invitation.id]);
+
+      const accepted = await sdk.invitations.acceptInvitation({ token: created.value.token, userId: "user-2" });
+      expect(accepted.ok && accepted.value.invitation.membershipId).toBe(accepted.ok && accepted.value.membership.id);
+      expect(await profileStore.listMembershipsByUser("user-2")).toHaveLength(1);
+    });
+
+    it("declines and revokes pending invitations", async () => {
+      const { sdk, auditEvents } = createInvitationSdk();
+      const first = await sdk.invitations.createInvitation({
+        orgId: "org-1",
+        email: "first@example.com",
+        role: "member",
+        invitedByUserId: "user-1",
+      });
+      const second = await sdk.invitations.createInvitation({
+        orgId: "org-1",
+        email: "second@example.com",
+        role: "admin",
+        invitedByUserId: "user-1",
+      });
+      if (!first.ok || !second.ok) {
+        throw new Error("expected invitations to be created");
+      }
+
+      const declined = await sdk.invitations.declineInvitation({ token: first.value.token });
+      expect(declined.ok && declined.value.status).toBe("declined");
+
+      const revoked = await sdk.invitations.revokeInvitation({
+        invitationId: second.value.invitation.id,
+        revokedByUserId: "user-1",
+      });
+      expect(revoked.ok && revoked.value.status).toBe("revoked");
+
+      const afterRevoke = await sdk.invitations.acceptInvitation({ token: second.value.token, userId: "user-1" });
+      expect(!afterRevoke.ok && afterRevoke.error.code).toBe("invitations.not_pending");
+
+      const pending = await sdk.invitations.listInvitations({ orgId: "org-1", status: "pending" });
+      expect(pending.ok && pending.value).toEqual([]);
+      expect(auditEvents.map((event) => event.action)).toEqual(["created", "created", "declined", "revoked"]);
+    });
+
+    it("only writes deliveries for subscriptions whose filters match the invitation", async () => {
+      const { sdk, webhookSubscriptionStore, webhookDeliveryStore } = createInvitationSdk();
+      await webhookSubscriptionStore.createSubscription({
+        id: "sub-admin-invites",
+        orgId: "org-1",
+        eventTypes: ["invitation.*"],
+        filters: { data: { role: "admin" } },
+        targetUrl: "https://example.com/invites",
+        secret: "secret",
+      });
+
+      for (const [email, role] of [
+        ["member@example.com", "member"],
+        ["admin@example.com", "admin"],
+      ]) {
+        const created = await sdk.invitations.createInvitation({ orgId: "org-1", email, role, invitedByUserId: "user-1" });
+        expect(created.ok).toBe(true);
+      }
+
+      const deliveries = await webhookDeliveryStore.listDeliveries({ subscriptionId: "sub-admin-invites" });
+      expect(deliveries.ok && deliveries.value.map((delivery) => delivery.payload.data)).toEqual([
+        expect.objectContaining({ email: "admin@example.com", role: "admin" }),
+      ]);
+    });
+
+    it("requires an invitation store", async () => {
+      const result = await createSdk().invitations.listInvitations({ orgId: "org-1" });
+      expect(!result.ok && result.error.code).toBe("invitations.unavailable");
+    });
+  });
+
+  describe("audit module", () => {
+    it("validates queries before delegating to the audit log", async () => {
+      const queries: AuditEventQuery[] = [];
+      const auditLog: AuditLogPort = {
+        appendEvent: async () => err({ code: "unused", message: "unused" }),
+        listEvents: async () => ok([]),
+        queryEvents: async (query) => {
+          queries.push(query);
+          return ok({ events: [], nextCursor: "next" });
+        },
+      };
+      const sdk = createSdk({ auditLog });
+
+      const page = await sdk.audit.queryEvents({ category: "invitation", order: "desc", limit: 10 });
+      expect(page.ok && page.value.nextCursor).toBe("next");
+      expect(queries).toEqual([{ category: "invitation", order: "desc", limit: 10 }]);
+
+      const tooLarge = await sdk.audit.queryEvents({ limit: 1000 });
+      expect(!tooLarge.ok && tooLarge.error.code).toBe("sdk.validation_failed");
+      const badRange = await sdk.audit.queryEvents({ occurredAfter: "yesterday" });
+      expect(!badRange.ok && badRange.error.code).toBe("sdk.validation_failed");
+
+      const unavailable = await createSdk().audit.queryEvents({});
+      expect(!unavailable.ok && unavailable.error.code).toBe("audit.unavailable");
+    });
+
+    it("streams exports page by page as NDJSON or CSV", async () => {
+      const events: AuditEventRecord[] = [
+        { id: "evt-1", occurredAt: "2024-01-01T00:00:00.000Z", category: "invitation", action: "created" },
+        {
+          id: "evt-2",
+          occurredAt: "2024-01-02T00:00:00.000Z",
+          category: "invitation",
+          action: "accepted",
+          actor: { type: "user", id: "user-1" },
+          metadata: { note: "said \"yes\", twice" },
+        },
+        {
+          id: "evt-3",
+          occurredAt: "2024-01-03T00:00:00.000Z",
+          category: "invitation",
+          action: "revoked",
+          actor: { type: "user", id: "=HYPERLINK(\"https://evil.example\")" },
+          subject: { type: "user", id: "@SUM(A1)" },
+          resource: { type: "invitation", id: "\r-1" },
+          sequence: -1,
+        },
+      ];
+      const queries: AuditEventQuery[] = [];
+      const auditLog: AuditLogPort = {
+        appendEvent: async () => err({ code: "unused", message: "unused" }),
+        listEvents: async () => err({ code: "unused", message: "unused" }),
+        queryEvents: async (query) => {
+          queries.push(query);
+          const start = query.cursor ? Number(query.cursor) : 0;
+          const end = start + (query.limit ?? 50);
+          return ok({ events: events.slice(start, end), nextCursor: end < events.length ? String(end) : undefined });
+        },
+      };
+      const sdk = createSdk({ auditLog });
+      const collect = async (stream: AsyncIterable<string>): Promise<string> => {
+        let output = "";
+        for await (const chunk of stream) {
+          output += chunk;
+        }
+        return output;
+      };
+      const range = { occurredAfter: "2024-01-01T00:00:00.000Z", occurredBefore: "2024-02-01T00:00:00.000Z" };
+
+      const ndjson = await sdk.audit.exportEvents({ ...range, format: "ndjson", pageSize: 2 });
+      if (!ndjson.ok) {
+        throw new Error("expected export stream");
+      }
+      const lines = (await collect(ndjson.value)).trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line).id)).toEqual(["evt-1", "evt-2", "evt-3"]);
+      expect(queries.map((query) => query.cursor)).toEqual([undefined, "2"]);
+
+      const csv = await sdk.audit.exportEvents({ ...range, format: "csv", category: "invitation" });
+      if (!csv.ok) {
+        throw new Error("expected export stream");
+      }
+      const rows = (await collect(csv.value)).split("\r\n");
+      expect(rows[0]).toBe(
+        "id,occurredAt,category,action,actorType,actorId,subjectType,subjectId,resourceType,resourceId,correlationId,sequence,hash,metadata",
+      );
+      expect(rows[2]).toBe(
+        'evt-2,2024-01-02T00:00:00.000Z,invitation,accepted,user,user-1,,,,,,,,"{""note"":""said \\""yes\\"", twice""}"',
+      );
+      expect(rows[3]).toBe(
+        'evt-3,2024-01-03T00:00:00.000Z,invitation,revoked,user,"\'=HYPERLINK(""https://evil.example"")",user,\'@SUM(A1),invitation,"\'\r-1",,-1,,',
+      );
+      expect(rows).toHaveLength(5);
+
+      const reversed = await sdk.audit.exportEvents({
+        format: "csv",
+        occurredAfter: range.occurredBefore,
+        occurredBefore: range.occurredAfter,
+      });
+      expect(!reversed.ok && reversed.error.code).toBe("sdk.validation_failed");
+      const unavailable = await createSdk().audit.exportEvents({ ...range, format: "ndjson" });
+      expect(!unavailable.ok && unavailable.error.code).toBe("audit.unavailable");
+    });
+
+    it("records mutations with the caller context and a before/after diff", async () => {
+      const auditEvents: AppendAuditEventInput[] = [];
+      const auditLog: AuditLogPort = {
+        appendEvent: async (input) => {
+          auditEvents.push(input);
+          return ok({ id: `audit-${auditEvents.length}`, occurredAt: input.occurredAt ?? "", ...input });
+        },
+        listEvents: async () => ok([]),
+        queryEvents: async () => ok({ events: [] }),
+      };
+      const sdk = createSdk(
+        { auditLog },
+        {
+          audit: {
+            modules: { sessions: false },
+            excludeOperations: ["keys.recordUsage"],
+            resolveContext: () => ({ actor: { type: "user", id: "admin-1" }, correlationId: "req-1" }),
+          },
+        },
+      );
+
+      const membership = await sdk.orgs.upsertMembership({
+        membership: {
+          id: "m-1",
+          userId: "user-1",
+          orgId: "org-1",
+          role: "admin",
+          groupIds: [],
+          labelsDelta: {},
+          createdAt: new Date(2024, 0, 1).toISOString(),
+          updatedAt: new Date(2024, 0, 1).toISOString(),
+        },
+      });
+      expect(membership.ok).toBe(true);
+      expect(auditEvents).toHaveLength(1);
+      expect(auditEvents[0]).toMatchObject({
+        category: "membership",
+        action: "upserted",
+        actor: { type: "user", id: "admin-1" },
+        subject: { type: "user", id: "user-1" },
+        resource: { type: "membership", id: "m-1", labels: { orgId: "org-1" } },
+        correlationId: "req-1",
+        metadata: {
+          operation: "orgs.upsertMembership",
+          diff: { before: { role: "owner" }, after: { role: "admin" } },
+        },
+      });
+
+      const issued = await sdk.keys.issueKey({ hash: "hash-1", owner: { kind: "user", id: "user-1" }, scopes: [] });
+      if (!issued.ok) {
+        throw new Error("failed to issue key");
+      }
+      await sdk.keys.recordUsage({ keyId: issued.value.id });
+      await sdk.keys.revokeKey({ keyId: issued.value.id });
+      await sdk.sessions.createSession({
+        session: {
+          id: "sess-audit",
+          userId: "user-1",
+          createdAt: new Date(2024, 0, 4).toISOString(),
+          lastSeenAt: new Date(2024, 0, 4).toISOString(),
+          factorsVerified: [],
+        },
+      });
+
+      expect(auditEvents.map((event) => `${event.category}.${event.action}`)).toEqual([
+        "membership.upserted",
+        "key.issued",
+        "key.revoked",
+      ]);
+      expect(auditEvents[1].metadata).toMatchObject({ diff: { after: { hash: "[redacted]" } } });
+      expect(auditEvents[2].metadata).toMatchObject({
+        operation: "keys.revokeKey",
+        diff: { before: { status: "active" }, after: { status: "revoked" } },
+      });
+
+      await sdk.orgs.upsertMembership({ membership: { orgId: "org-1" } as never });
+      expect(auditEvents).toHaveLength(3);
+    });
+
+    it("returns the mutation result when the audit log throws", async () => {
+      const auditLog: AuditLogPort = {
+        appendEvent: async () => {
+          throw new Error("connection terminated");
+        },
+        listEvents: async () => ok([]),
+        queryEvents: async () => ok({ events: [] }),
+      };
+      const sdk = createSdk({ auditLog });
+
+      const issued = await sdk.keys.issueKey({ hash: "hash-2", owner: { kind: "user", id: "user-1" }, scopes: [] });
+      if (!issued.ok) {
+        throw new Error("failed to issue key");
+      }
+      const revoked = await sdk.keys.revokeKey({ keyId: issued.value.id });
+      expect(revoked.ok && revoked.value.status).toBe("revoked");
+    });
+  });
+
+  describe("domain events", () => {
+    it("publishes catalogued events for mutations", async () => {
+      const eventBus = createInProcessEventBus();
+      const events: AnyDomainEvent[] = [];
+      eventBus.subscribeAll((event) => {
+        events.push(event);
+      });
+      const ended: string[] = [];
+      eventBus.subscribe("session.ended", (event) => {
+        ended.push(event.data.id);
+      });
+      const sdk = createSdk({ eventBus });
+      const membership = {
+        id: "m-2",
+        userId: "user-1",
+        orgId: "org-1",
+        role: "member",
+        groupIds: [],
+        labelsDelta: {},
+        createdAt: new Date(2024, 0, 1).toISOString(),
+        updatedAt: new Date(2024, 0, 1).toISOString(),
+      };
+
+      await sdk.orgs.upsertMembership({ membership });
+      await sdk.orgs.upsertMembership({ membership: { ...membership, role: "admin" } });
+      const key = await sdk.keys.issueKey({ hash: "hash-1", owner: { kind: "org", id: "org-1" }, scopes: [] });
+      await sdk.sessions.createSession({
+        session: {
+          id: "sess-events",
+          userId: "user-1",
+          createdAt: new Date(2024, 0, 4).toISOString(),
+          lastSeenAt: new Date(2024, 0, 4).toISOString(),
+          factorsVerified: [],
+        },
+      });
+      await sdk.sessions.deleteSession({ sessionId: "sess-events" });
+      await sdk.sessions.deleteSession({ sessionId: "sess-missing" });
+
+      expect(events.map((event) => event.type)).toEqual([
+        "membership.created",
+        "membership.updated",
+        "key.issued",
+        "session.started",
+        "session.ended",
+      ]);
+      expect(events[1]).toMatchObject({ orgId: "org-1", data: { id: "m-2", role: "admin" } });
+      expect(events[2].orgId).toBe("org-1");
+      expect(key.ok && events[2].data).toMatchObject({ owner: { kind: "org", id: "org-1" } });
+      expect(events[2].data).not.toHaveProperty("hash");
+      expect(new Set(events.map((event) => event.id)).size).toBe(events.length);
+      expect(ended).toEqual(["sess-events"]);
+    });
+
+    it("loads the prior state once for both the audit entry and the domain event", async () => {
+      const sessionStore = new FakeSessionStore();
+      const loaded: string[] = [];
+      const getSession = sessionStore.getSession.bind(sessionStore);
+      sessionStore.getSession = async (id) => {
+        loaded.push(id);
+        return getSession(id);
+      };
+      const auditEvents: AppendAuditEventInput[] = [];
+      const auditLog: AuditLogPort = {
+        appendEvent: async (input) => {
+          auditEvents.push(input);
+          return ok({ id: `audit-${auditEvents.length}`, occurredAt: input.occurredAt ?? "", ...input });
+        },
+        listEvents: async () => ok([]),
+        queryEvents: async () => ok({ events: [] }),
+      };
+      const eventBus = createInProcessEventBus();
+      const ended: string[] = [];
+      eventBus.subscribe("session.ended", (event) => {
+        ended.push(event.data.userId);
+      });
+      const sdk = createSdk({ sessionStore, auditLog, eventBus });
+
+      const deleted = await sdk.sessions.deleteSession({ sessionId: "sess-1" });
+      expect(deleted.ok).toBe(true);
+      expect(loaded).toEqual(["sess-1"]);
+      expect(ended).toEqual(["user-1"]);
+      expect(auditEvents).toHaveLength(1);
+      expect(auditEvents[0]).toMatchObject({
+        subject: { type: "user", id: "user-1" },
+        metadata: { operation: "sessions.deleteSession", diff: { before: { id: "sess-1" } } },
+      });
+    });
+
+    it("records renamed and removed records against their prior state", async () => {
+      const auditEvents: AppendAuditEventInput[] = [];
+      const auditLog: AuditLogPort = {
+        appendEvent: async (input) => {
+          auditEvents.push(input);
+          return ok({ id: `audit-${auditEvents.length}`, occurredAt: input.occurredAt ?? "", ...input });
+        },
+        listEvents: async () => ok([]),
+        queryEvents: async () => ok({ events: [] }),
+      };
+      const eventBus = createInProcessEventBus();
+      const events: AnyDomainEvent[] = [];
+      eventBus.subscribeAll((event) => {
+        events.push(event);
+      });
+      const sdk = createSdk({ auditLog, eventBus });
+      const timestamp = new Date(2024, 0, 1).toISOString();
+      const role = {
+        id: "role-viewer",
+        orgId: "org-1",
+        name: "viewer",
+        scopes: [],
+        entitlements: [],
+        labels: {},
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+
+      await sdk.roles.upsertRole({ role });
+      await sdk.roles.upsertRole({ role: { ...role, name: "reader" } });
+      await sdk.roles.deleteRole({ roleId: "role-viewer" });
+      await sdk.orgs.upsertGroup({ group: { id: "grp-1", orgId: "org-1", slug: "ops", name: "Ops", labels: {} } });
+      await sdk.orgs.deleteGroup({ groupId: "grp-1" });
+      await sdk.orgs.removeMembership({ membershipId: "m-1" });
+      await sdk.entitlements.removeEntitlement({ id: "ent-1" });
+
+      expect(events.map((event) => `${event.type}:${event.orgId}`)).toEqual([
+        "role.created:org-1",
+        "role.updated:org-1",
+        "role.deleted:org-1",
+        "group.created:org-1",
+        "group.deleted:org-1",
+        "membership.removed:org-1",
+        "entitlement.removed:undefined",
+      ]);
+      expect(auditEvents[1].metadata).toMatchObject({
+        diff: { before: { name: "viewer" }, after: { name: "reader" } },
+      });
+      expect(auditEvents[2]).toMatchObject({
+        resource: { type: "role", id: "role-viewer", labels: { orgId: "org-1", name: "reader" } },
+        metadata: { operation: "roles.deleteRole", diff: { before: { id: "role-viewer", name: "reader" } } },
+      });
+      expect(auditEvents[4].metadata).toMatchObject({
+        operation: "orgs.deleteGroup",
+        diff: { before: { id: "grp-1", slug: "ops" } },
+      });
+      expect(auditEvents[5]).toMatchObject({
+        subject: { type: "user", id: "user-1" },
+        metadata: { operation: "orgs.removeMembership", diff: { before: { id: "m-1", role: "owner" } } },
+      });
+      expect(auditEvents[6]).toMatchObject({
+        subject: { type: "user", id: "user-1" },
+        resource: { type: "entitlement", id: "ent-1", labels: { entitlement: "feature:basic" } },
+        metadata: { operation: "entitlements.removeEntitlement", diff: { before: { entitlement: "feature:basic" } } },
+      });
+    });
+
+    it("routes invitation events through the bus instead of writing deliveries", async () => {
+      const eventBus = createInProcessEventBus();
+      const published: string[] = [];
+      eventBus.subscribe("invitation.created", (event) => {
+        published.push(`${event.type}:${event.orgId}`);
+        expect(event.data).not.toHaveProperty("tokenHash");
+      });
+      const webhookSubscriptionStore = new FakeWebhookSubscriptionStore();
+      const webhookDeliveryStore = new FakeWebhookDeliveryStore();
+      await webhookSubscriptionStore.createSubscription({
+        id: "sub-invites",
+        orgId: "org-1",
+        eventTypes: ["invitation.created"],
+        targetUrl: "https://example.com/invites",
+        secret: "secret",
+      });
+      const sdk = createSdk({
+        invitationStore: createInMemoryInvitationStore(),
+        invitationTokenSecret: "invite-secret",
+        eventBus,
+        webhookSubscriptionStore,
+        webhookDeliveryStore,
+      });
+
+      const created = await sdk.invitations.createInvitation({
+        orgId: "org-1",
+        email: "bus@example.com",
+        role: "member",
+        invitedByUserId: "user-1",
+      });
+      expect(created.ok).toBe(true);
+      expect(published).toEqual(["invitation.created:org-1"]);
+      const deliveries = await webhookDeliveryStore.listDeliveries({ subscriptionId: "sub-invites" });
+      expect(deliveries.ok && deliveries.value).toEqual([]);
+    });
+
+    it("reports failing handlers without skipping the others", async () => {
+      const eventBus = createInProcessEventBus();
+      const received: string[] = [];
+      eventBus.subscribe("role.deleted", () => {
+        throw new Error("handler exploded");
+      });
+      const subscription = eventBus.subscribeAll((event) => {
+        received.push(event.type);
+      });
+
+      const event: AnyDomainEvent = {
+        id: "evt-1",
+        type: "role.deleted",
+        occurredAt: new Date(2024, 0, 1).toISOString(),
+        data: { id: "role-1" },
+      };
+      const result = await eventBus.publish(event);
+      expect(received).toEqual(["role.deleted"]);
+      expect(!result.ok && result.error).toMatchObject({
+        code: "events.handler_failed",
+        details: { eventId: "evt-1", failures: ["handler exploded"] },
+      });
+
+      subscription.unsubscribe();
+      await eventBus.publish(event);
+      expect(received).toEqual(["role.deleted"]);
+    });
+  });
+
   describe("keys module", () => {
     it("issues and lists keys", async () => {
       const sdk = createSdk();
@@ -842,6 +1996,114 @@ describe("@catalyst-auth/sdk", () => {
         expect(result.error.code).toBe("sdk.validation_failed");
       }
     });
+
+    it("accepts wildcard event types with label and data filters", async () => {
+      const sdk = createSdk();
+      const createResult = await sdk.webhookSubscriptions.createSubscription({
+        subscription: {
+          id: "sub-filtered",
+          eventTypes: ["membership.*"],
+          filters: { labels: { env: "prod" }, data: { orgId: ["org-1", "org-2"] } },
+          targetUrl: "https://example.com/memberships",
+          secret: "filtered-secret",
+        },
+      });
+      expect(createResult.ok).toBe(true);
+      if (createResult.ok) {
+        expect(createResult.value.filters).toEqual({ labels: { env: "prod" }, data: { orgId: ["org-1", "org-2"] } });
+      }
+
+      const listResult = await sdk.webhookSubscriptions.listSubscriptions({ eventType: "membership.created" });
+      expect(listResult.ok && listResult.value.map((record) => record.id)).toEqual(["sub-filtered"]);
+
+      const cleared = await sdk.webhookSubscriptions.updateSubscription({ id: "sub-filtered", changes: { filters: null } });
+      expect(cleared.ok && cleared.value.filters).toBeUndefined();
+    });
+
+    it("rotates secrets and keeps the previous one for the overlap window", async () => {
+      const auditEvents: AppendAuditEventInput[] = [];
+      const auditLog: AuditLogPort = {
+        appendEvent: async (input) => {
+          auditEvents.push(input);
+          return ok({ id: `audit-${auditEvents.length}`, occurredAt: input.occurredAt ?? "", ...input });
+        },
+        listEvents: async () => ok([]),
+        queryEvents: async () => ok({ events: [] }),
+      };
+      const sdk = createSdk({ auditLog });
+      const before = Date.now();
+      const rotated = await sdk.webhookSubscriptions.rotateSecret({ id: "sub-1", overlapSeconds: 3600 });
+      expect(rotated.ok).toBe(true);
+      if (!rotated.ok) {
+        return;
+      }
+      expect(rotated.value.secret).toMatch(/^whsec_/);
+      expect(rotated.value.previousSecret?.secret).toBe("seed-secret");
+      const expiresAt = Date.parse(rotated.value.previousSecret?.expiresAt ?? "");
+      expect(expiresAt - before).toBeGreaterThanOrEqual(3600 * 1000);
+      expect(expiresAt - Date.now()).toBeLessThanOrEqual(3600 * 1000);
+
+      const explicit = await sdk.webhookSubscriptions.rotateSecret({ id: "sub-1", secret: "whsec_explicit" });
+      expect(explicit.ok && explicit.value.previousSecret?.secret).toBe(rotated.value.secret);
+
+      const rotations = auditEvents.filter((entry) => entry.action === "secret_rotated");
+      expect(rotations).toHaveLength(2);
+      expect(JSON.stringify(rotations)).not.toContain(rotated.value.secret);
+
+      const invalid = await sdk.webhookSubscriptions.rotateSecret({ id: "sub-1", overlapSeconds: -1 });
+      expect(!invalid.ok && invalid.error.code).toBe("sdk.validation_failed");
+    });
+
+    it("rejects malformed event type patterns and filter paths", async () => {
+      const sdk = createSdk();
+      const pattern = await sdk.webhookSubscriptions.createSubscription({
+        subscription: {
+          eventTypes: ["key*"],
+          targetUrl: "https://example.com/keys",
+          secret: "secret",
+        },
+      });
+      expect(!pattern.ok && pattern.error.details).toEqual({ issues: 'Invalid event type pattern "key*"' });
+
+      const path = await sdk.webhookSubscriptions.updateSubscription({
+        id: "sub-any",
+        changes: { eventTypes: ["key.*.issued"] },
+      });
+      expect(!path.ok && path.error.code).toBe("sdk.validation_failed");
+
+      const filterPath = await sdk.webhookSubscriptions.createSubscription({
+        subscription: {
+          eventTypes: ["key.issued"],
+          filters: { data: { "owner..id": "user-1" } },
+          targetUrl: "https://example.com/keys",
+          secret: "secret",
+        },
+      });
+      expect(!filterPath.ok && filterPath.error.details).toEqual({ issues: 'Invalid data filter path "owner..id"' });
+    });
+
+    it("configures ordered delivery by a payload key path", async () => {
+      const sdk = createSdk();
+      const created = await sdk.webhookSubscriptions.createSubscription({
+        subscription: {
+          id: "sub-ordered",
+          eventTypes: ["membership.*"],
+          ordering: { keyPath: "membership.userId" },
+          targetUrl: "https://example.com/memberships",
+          secret: "secret",
+        },
+      });
+      expect(created.ok && created.value.ordering).toEqual({ keyPath: "membership.userId" });
+
+      const invalid = await sdk.webhookSubscriptions.updateSubscription({
+        id: "sub-ordered",
+        changes: { ordering: { keyPath: "membership..userId" } },
+      });
+      expect(!invalid.ok && invalid.error.details).toEqual({ issues: 'Invalid ordering key path "membership..userId"' });
+
+      const cleared = await sdk.webhookSubscriptions.updateSubscription({ id: "sub-ordered", changes: { ordering: null } });
+      expect(cleared.ok && cleared.value.ordering).toBeUndefined();
+    });
   });
 
   describe("webhook deliveries module", () => {
@@ -887,6 +2149,97 @@ describe("@catalyst-auth/sdk", () => {
         expect(result.error.code).toBe("sdk.validation_failed");
       }
     });
+
+    const createReplaySdk = () => {
+      const webhookDeliveryStore = new FakeWebhookDeliveryStore();
+      const enqueued: string[] = [];
+      const webhookQueue: WebhookQueuePort = {
+        enqueue: async (delivery) => {
+          enqueued.push(delivery.deliveryId);
+          return ok(undefined);
+        },
+        consume: async () => ok({ close: async () => undefined }),
+      };
+      const seed = (id: string, status: WebhookDeliveryStatus, updatedAt: string, eventId = "evt-replay") =>
+        webhookDeliveryStore.createDelivery({
+          id,
+          subscriptionId: "sub-replay",
+          eventId,
+          status,
+          attemptCount: 5,
+          payload: { type: "key.issued" },
+          errorMessage: status === "dead_lettered" ? "HTTP 500" : undefined,
+          createdAt: "2024-01-01T00:00:00.000Z",
+          updatedAt,
+        });
+      return { sdk: createSdk({ webhookDeliveryStore, webhookQueue }), webhookDeliveryStore, enqueued, seed };
+    };
+
+    it("replays a dead-lettered delivery and records its lineage", async () => {
+      const { sdk, enqueued, seed } = createReplaySdk();
+      await seed("del-dead", "dead_lettered", "2024-01-02T00:00:00.000Z");
+
+      const replayed = await sdk.webhookDeliveries.replayDelivery({ id: "del-dead" });
+      if (!replayed.ok) {
+        throw new Error("replay failed");
+      }
+      expect(replayed.value).toMatchObject({ status: "pending", attemptCount: 0, errorMessage: undefined });
+      expect(replayed.value.replays).toEqual([
+        {
+          replayedAt: replayed.value.updatedAt,
+          trigger: "delivery",
+          previousStatus: "dead_lettered",
+          previousAttemptCount: 5,
+          previousErrorMessage: "HTTP 500",
+        },
+      ]);
+      expect(enqueued).toEqual(["del-dead"]);
+
+      const inFlight = await sdk.webhookDeliveries.replayDelivery({ id: "del-dead" });
+      expect(!inFlight.ok && inFlight.error.code).toBe("sdk.webhook_delivery.not_replayable");
+
+      const missing = await sdk.webhookDeliveries.replayDelivery({ id: "del-missing" });
+      expect(!missing.ok && missing.error.code).toBe("sdk.not_found");
+    });
+
+    it("redrives dead letters within a window and replays events", async () => {
+      const { sdk, webhookDeliveryStore, enqueued, seed } = createReplaySdk();
+      await seed("del-early", "dead_lettered", "2024-01-01T00:00:00.000Z");
+      await seed("del-inside", "dead_lettered", "2024-01-02T00:00:00.000Z");
+      await seed("del-late", "dead_lettered", "2024-01-03T00:00:00.000Z");
+      await seed("del-ok", "succeeded", "2024-01-02T00:00:00.000Z", "evt-other");
+      await seed("del-busy", "delivering", "2024-01-02T00:00:00.000Z", "evt-other");
+
+      const redriven = await sdk.webhookDeliveries.redriveDeadLetters({
+        subscriptionId: "sub-replay",
+        since: "2024-01-02T00:00:00.000Z",
+        until: "2024-01-03T00:00:00.000Z",
+      });
+      if (!redriven.ok) {
+        throw new Error("redrive failed");
+      }
+      expect(redriven.value.deliveries.map((delivery) => delivery.id)).toEqual(["del-inside"]);
+      expect(redriven.value.deliveries[0]!.replays?.[0]?.trigger).toBe("dead_letter_redrive");
+      expect(redriven.value.enqueueFailures).toEqual([]);
+
+      const replayedEvent = await sdk.webhookDeliveries.replayEvent({ eventId: "evt-other" });
+      if (!replayedEvent.ok) {
+        throw new Error("event replay failed");
+      }
+      expect(replayedEvent.value.deliveries.map((delivery) => delivery.id)).toEqual(["del-ok"]);
+      expect(enqueued).toEqual(["del-inside", "del-ok"]);
+
+      const busy = await webhookDeliveryStore.getDelivery("del-busy");
+      expect(busy.ok && busy.value?.status).toBe("delivering");
+
+      const invalidWindow = await sdk.webhookDeliveries.redriveDeadLetters({ since: "yesterday" });
+      expect(!invalidWindow.ok && invalidWindow.error.details).toEqual({
+        issues: "since must be an ISO-8601 timestamp.",
+      });
+
+      const unknownEvent = await sdk.webhookDeliveries.replayEvent({ eventId: "evt-unknown" });
+      expect(!unknownEvent.ok && unknownEvent.error.code).toBe("sdk.not_found");
+    });
   });
 
   describe("me module", () => {
@@ -899,4 +2252,64 @@ describe("@catalyst-auth/sdk", () => {
       }
     });
   });
+
+  describe("policy module", () => {
+    it("explains decisions for the resolved identity", async () => {
+      const inputs: PolicyEvaluationInput[] = [];
+      const policyEngine: PolicyEnginePort = {
+        evaluate: async () => ok({ allow: false }),
+        explain: async (input) => {
+          inputs.push(input);
+          return ok({
+            decision: { allow: false, reason: "policy.default.deny" },
+            rules: [
+              {
+                index: 0,
+                ruleId: "admins",
+                effect: "allow",
+                actionMatched: true,
+                resourceMatched: true,
+                conditionsMatched: false,
+                failedCondition: "anyRoles",
+                matched: false,
+                selected: false,
+              },
+            ],
+            defaultApplied: true,
+          });
+        },
+      };
+      const sdk = createSdk({ policyEngine });
+
+      const result = await sdk.policy.explainDecision({
+        userId: "user-1",
+        orgId: "org-1",
+        action: "documents.read",
+        resource: { type: "document", id: "doc-1" },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.identity.userId).toBe("user-1");
+        expect(result.value.explanation.rules[0]?.failedCondition).toBe("anyRoles");
+      }
+      expect(inputs[0]?.identity.scopes).toEqual(["openid"]);
+      expect(inputs[0]?.resource).toEqual({ type: "document", id: "doc-1" });
+    });
+
+    it("reports engines that cannot explain decisions", async () => {
+      const missing = await createSdk().policy.explainDecision({ userId: "user-1", action: "documents.read" });
+      expect(missing.ok).toBe(false);
+      if (!missing.ok) {
+        expect(missing.error.code).toBe("policy.engine_unavailable");
+      }
+
+      const sdk = createSdk({ policyEngine: { evaluate: async () => ok({ allow: true }) } });
+      const unsupported = await sdk.policy.explainDecision({ userId: "user-1", action: "documents.read" });
+      expect(unsupported.ok).toBe(false);
+      if (!unsupported.ok) {
+        expect(unsupported.error.code).toBe("policy.explain_unsupported");
+      }
+    });
+  });
 });
@@ -2,6 +2,8 @@ import { err, ok, type CatalystError, type Result, type SessionRecord } from "@c
 import { z } from "../vendor/zod.js";
 
 import type { CatalystSdkDependencies } from "../index.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
+import type { SdkEventTrail } from "../shared/domain-events.js";
 import { createNotFoundError, createValidationError } from "../shared/errors.js";
 import { safeParse } from "../shared/validation.js";
 
@@ -142,6 +144,52 @@ const createDeleteSession = (
   return ok(null);
 };
 
+/**
+ * Audit events recorded for session creation, activity, and termination.
+ */
+export const sessionsAuditTrail: SdkAuditTrail<SessionsModule> = {
+  createSession: {
+    category: "session",
+    action: "created",
+    describe: (_request, session) => ({
+      subject: { type: "user", id: session.userId },
+      resource: { type: "session", id: session.id },
+    }),
+  },
+  touchSession: {
+    category: "session",
+    action: "touched",
+    loadBefore: (deps, request) => deps.sessionStore.getSession(request.sessionId),
+    describe: (_request, session) => ({
+      subject: { type: "user", id: session.userId },
+      resource: { type: "session", id: session.id },
+    }),
+  },
+  deleteSession: {
+    category: "session",
+    action: "deleted",
+    deletes: true,
+    loadBefore: (deps, request) => deps.sessionStore.getSession(request.sessionId),
+    describe: (request, _value, before) => ({
+      subject: before ? { type: "user", id: (before as SessionRecord).userId } : undefined,
+      resource: { type: "session", id: request.sessionId },
+    }),
+  },
+};
+
+/**
+ * Domain events published when sessions start and end.
+ */
+export const sessionsEventTrail: SdkEventTrail<SessionsModule> = {
+  createSession: {
+    toEvent: (_request, session) => ({ type: "session.started", data: session }),
+  },
+  deleteSession: {
+    toEvent: (_request, _value, before) =>
+      before ? { type: "session.ended", data: before as SessionRecord } : undefined,
+  },
+};
+
 export const createSessionsModule = (deps: CatalystSdkDependencies): SessionsModule => ({
   getSession: createGetSession(deps),
   listSessions: createListSessions(deps),
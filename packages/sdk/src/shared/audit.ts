@@ -0,0 +1,109 @@
+import type {
+  AuditActorDescriptor,
+  AuditResourceDescriptor,
+  CatalystError,
+  Result,
+} from "@catalyst-auth/contracts";
+
+import type { CatalystSdkDependencies } from "../index.js";
+
+/**
+ * Request-scoped details attached to mutation audit events, typically resolved from the current HTTP request.
+ */
+export interface SdkAuditContext {
+  readonly actor?: AuditActorDescriptor;
+  readonly correlationId?: string;
+}
+
+export type SdkAuditedModuleName =
+  | "auth"
+  | "orgs"
+  | "profiles"
+  | "roles"
+  | "keys"
+  | "entitlements"
+  | "sessions"
+  | "webhookSubscriptions"
+  | "webhookDeliveries";
+
+export interface CatalystSdkAuditOptions {
+  /** Disables mutation auditing per module. Every module is audited when the SDK has an audit log. */
+  readonly modules?: Partial<Record<SdkAuditedModuleName, boolean>>;
+  /** Operations to leave unaudited, named `module.operation` (for example `keys.recordUsage`). */
+  readonly excludeOperations?: ReadonlyArray<string>;
+  /** Resolves the actor and correlation id for the call being audited. */
+  readonly resolveContext?: () => SdkAuditContext | undefined;
+}
+
+export interface SdkAuditTarget {
+  readonly resource: AuditResourceDescriptor;
+  readonly subject?: AuditActorDescriptor;
+}
+
+/**
+ * Describes how one mutating operation is audited. `loadBefore` reads the record the operation is about to
+ * change, which is also handed to the operation's domain event; deletions record no `after` state.
+ */
+export interface SdkAuditedOperation<TRequest, TValue> {
+  readonly category: string;
+  readonly action: string;
+  readonly loadBefore?: (deps: CatalystSdkDependencies, request: TRequest) => Promise<unknown>;
+  readonly describe: (request: TRequest, value: TValue, before: unknown) => SdkAuditTarget;
+  readonly deletes?: boolean;
+}
+
+type AuditableOperation<TOperation> = TOperation extends (
+  request: infer TRequest,
+) => Promise<Result<infer TValue, CatalystError>>
+  ? SdkAuditedOperation<TRequest, TValue>
+  : never;
+
+export type SdkAuditTrail<TModule> = {
+  readonly [TKey in keyof TModule]?: AuditableOperation<TModule[TKey]>;
+};
+
+export interface SdkAuditDiff {
+  readonly before?: Record<string, unknown>;
+  readonly after?: Record<string, unknown>;
+}
+
+const REDACTED_FIELDS = new Set(["hash", "secret", "previousSecret", "tokenHash", "accessToken", "refreshToken"]);
+
+const toAuditState = (value: unknown): Record<string, unknown> | undefined => {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const state: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== undefined) {
+      state[key] = REDACTED_FIELDS.has(key) ? "[redacted]" : entry;
+    }
+  }
+  return state;
+};
+
+/**
+ * Keeps only the top-level fields that differ between the two states. Secrets are redacted first, so a rotated
+ * secret shows up as unchanged.
+ */
+export const diffAuditStates = (before: unknown, after: unknown): SdkAuditDiff => {
+  const previous = toAuditState(before);
+  const next = toAuditState(after);
+  if (!previous || !next) {
+    return { before: previous, after: next };
+  }
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (JSON.stringify(previous[key]) === JSON.stringify(next[key])) {
+      continue;
+    }
+    if (key in previous) {
+      changedBefore[key] = previous[key];
+    }
+    if (key in next) {
+      changedAfter[key] = next[key];
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+};
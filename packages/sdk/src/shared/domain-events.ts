@@ -0,0 +1,21 @@
+import type { CatalystError, Result } from "@catalyst-auth/contracts";
+
+import type { SdkDomainEventInput } from "./events.js";
+
+/**
+ * Describes the domain event one mutating operation publishes. `before` is the record read by the operation's
+ * audit `loadBefore`, which tells creations from updates; `toEvent` may return `undefined` to publish nothing.
+ */
+export interface SdkPublishedOperation<TRequest, TValue> {
+  readonly toEvent: (request: TRequest, value: TValue, before: unknown) => SdkDomainEventInput | undefined;
+}
+
+type PublishableOperation<TOperation> = TOperation extends (
+  request: infer TRequest,
+) => Promise<Result<infer TValue, CatalystError>>
+  ? SdkPublishedOperation<TRequest, TValue>
+  : never;
+
+export type SdkEventTrail<TModule> = {
+  readonly [TKey in keyof TModule]?: PublishableOperation<TModule[TKey]>;
+};
@@ -0,0 +1,68 @@
+import {
+  err,
+  ok,
+  type AnyDomainEvent,
+  type CatalystError,
+  type DomainEvent,
+  type DomainEventBusPort,
+  type DomainEventHandler,
+  type DomainEventSubscription,
+  type DomainEventType,
+  type Result,
+} from "@catalyst-auth/contracts";
+
+import { createOperationError } from "./errors.js";
+
+type AnyHandler = DomainEventHandler<AnyDomainEvent>;
+
+const describeFailure = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Synchronous, in-process implementation of {@link DomainEventBusPort}. Handlers run one after another in
+ * subscription order, type-specific handlers before catch-all ones.
+ */
+export class InProcessDomainEventBus implements DomainEventBusPort {
+  private readonly handlers = new Map<DomainEventType, Set<AnyHandler>>();
+  private readonly catchAll = new Set<AnyHandler>();
+
+  async publish(event: AnyDomainEvent): Promise<Result<void, CatalystError>> {
+    const handlers = [...(this.handlers.get(event.type) ?? []), ...this.catchAll];
+    const failures: string[] = [];
+    for (const handler of handlers) {
+      try {
+        await handler(event);
+      } catch (error) {
+        failures.push(describeFailure(error));
+      }
+    }
+    if (failures.length > 0) {
+      return err(
+        createOperationError("events.handler_failed", "One or more domain event handlers failed.", {
+          eventId: event.id,
+          eventType: event.type,
+          failures,
+        }),
+      );
+    }
+    return ok(undefined);
+  }
+
+  subscribe<TType extends DomainEventType>(
+    type: TType,
+    handler: DomainEventHandler<DomainEvent<TType>>,
+  ): DomainEventSubscription {
+    const handlers = this.handlers.get(type) ?? new Set<AnyHandler>();
+    this.handlers.set(type, handlers);
+    // Handlers registered for `type` only ever receive events of that type.
+    const registered = handler as AnyHandler;
+    handlers.add(registered);
+    return { unsubscribe: () => handlers.delete(registered) };
+  }
+
+  subscribeAll(handler: AnyHandler): DomainEventSubscription {
+    this.catchAll.add(handler);
+    return { unsubscribe: () => this.catchAll.delete(handler) };
+  }
+}
+
+export const createInProcessEventBus = (): InProcessDomainEventBus => new InProcessDomainEventBus();
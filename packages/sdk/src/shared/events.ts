@@ -0,0 +1,108 @@
+import type {
+  AnyDomainEvent,
+  AppendAuditEventInput,
+  DomainEventMap,
+  DomainEventType,
+  WebhookEventPayload,
+} from "@catalyst-auth/contracts";
+import { matchesWebhookSubscriptionFilters, webhookDeliveryOrderingKey } from "@catalyst-auth/contracts";
+
+import type { CatalystSdkDependencies } from "../index.js";
+
+export interface SdkWebhookEventInput {
+  readonly type: string;
+  readonly orgId?: string;
+  readonly data: Record<string, unknown>;
+  readonly occurredAt?: string;
+}
+
+/** A catalogued domain event before the bus assigns its id. */
+export type SdkDomainEventInput = {
+  readonly [TType in DomainEventType]: {
+    readonly type: TType;
+    readonly orgId?: string;
+    readonly data: DomainEventMap[TType];
+    readonly occurredAt?: string;
+  };
+}[DomainEventType];
+
+/**
+ * Appends an audit event when the SDK was configured with an audit log. Failures, including audit logs that
+ * throw, are ignored because the audited change has already been persisted.
+ */
+export const recordAuditEvent = async (
+  deps: CatalystSdkDependencies,
+  input: AppendAuditEventInput,
+): Promise<void> => {
+  if (!deps.auditLog) {
+    return;
+  }
+  try {
+    await deps.auditLog.appendEvent(input);
+  } catch {
+    // The caller's change is already committed; reporting the audit failure as its error would invite a retry.
+  }
+};
+
+/**
+ * Queues a webhook event for every active subscription listening to its type whose filters match, creating
+ * pending deliveries for the webhook worker in the same shape as its dispatcher. Publication is best-effort for the same reason
+ * as {@link recordAuditEvent}.
+ */
+export const publishWebhookEvent = async (
+  deps: CatalystSdkDependencies,
+  input: SdkWebhookEventInput,
+): Promise<WebhookEventPayload> => {
+  const occurredAt = input.occurredAt ?? new Date().toISOString();
+  const event: WebhookEventPayload = {
+    id: crypto.randomUUID(),
+    type: input.type,
+    occurredAt,
+    data: input.data,
+  };
+
+  const subscriptions = await deps.webhookSubscriptionStore.listSubscriptions({
+    orgId: input.orgId,
+    active: true,
+    eventType: input.type,
+  });
+  if (!subscriptions.ok) {
+    return event;
+  }
+
+  for (const subscription of subscriptions.value) {
+    if (!subscription.active || !matchesWebhookSubscriptionFilters(subscription.filters, event)) {
+      continue;
+    }
+    await deps.webhookDeliveryStore.createDelivery({
+      subscriptionId: subscription.id,
+      eventId: event.id,
+      status: "pending",
+      attemptCount: 0,
+      nextAttemptAt: occurredAt,
+      payload: { ...event },
+      orderingKey: webhookDeliveryOrderingKey(subscription, event),
+      createdAt: occurredAt,
+      updatedAt: occurredAt,
+    });
+  }
+  return event;
+};
+
+/**
+ * Publishes a domain event when the SDK was configured with an event bus. Handler failures are ignored for the
+ * same reason as {@link recordAuditEvent}.
+ */
+export const publishDomainEvent = async (
+  deps: CatalystSdkDependencies,
+  input: SdkDomainEventInput,
+): Promise<void> => {
+  if (!deps.eventBus) {
+    return;
+  }
+  await deps.eventBus.publish({
+    ...input,
+    id: crypto.randomUUID(),
+    occurredAt: input.occurredAt ?? new Date().toISOString(),
+  } as AnyDomainEvent);
+};
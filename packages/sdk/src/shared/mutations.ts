@@ -0,0 +1,99 @@
+import type { CatalystError, Result } from "@catalyst-auth/contracts";
+
+import type { CatalystSdkDependencies } from "../index.js";
+import {
+  diffAuditStates,
+  type CatalystSdkAuditOptions,
+  type SdkAuditedModuleName,
+  type SdkAuditedOperation,
+  type SdkAuditTrail,
+} from "./audit.js";
+import type { SdkEventTrail, SdkPublishedOperation } from "./domain-events.js";
+import { publishDomainEvent, recordAuditEvent } from "./events.js";
+
+export interface SdkMutationTrails<TModule> {
+  readonly audit: SdkAuditTrail<TModule>;
+  readonly events?: SdkEventTrail<TModule>;
+}
+
+const loadBeforeState = async <TRequest>(
+  operation: SdkAuditedOperation<TRequest, unknown> | undefined,
+  deps: CatalystSdkDependencies,
+  request: TRequest,
+): Promise<unknown> => {
+  if (!operation?.loadBefore) {
+    return undefined;
+  }
+  try {
+    return await operation.loadBefore(deps, request);
+  } catch {
+    // Invalid requests fail validation in the operation itself; the mutation simply has no prior state.
+    return undefined;
+  }
+};
+
+/**
+ * Wraps the operations listed in `trails` so each successful call publishes its domain event and appends an
+ * audit event carrying the caller context, affected subject and resource, and a before/after diff. The prior
+ * state is loaded once and shared by both. Returns the module untouched when there is neither an event bus nor
+ * an audit log for the module.
+ */
+export const trackSdkModuleMutations = <TModule extends object>(
+  moduleName: SdkAuditedModuleName,
+  module: TModule,
+  trails: SdkMutationTrails<TModule>,
+  deps: CatalystSdkDependencies,
+  options: CatalystSdkAuditOptions = {},
+): TModule => {
+  const auditing = Boolean(deps.auditLog) && options.modules?.[moduleName] !== false;
+  const publishing = Boolean(deps.eventBus);
+  if (!auditing && !publishing) {
+    return module;
+  }
+  const excluded = new Set(options.excludeOperations ?? []);
+  const auditTrail = trails.audit as Record<string, SdkAuditedOperation<unknown, unknown> | undefined>;
+  const eventTrail = (trails.events ?? {}) as Record<string, SdkPublishedOperation<unknown, unknown> | undefined>;
+
+  const entries = Object.entries(module).map(([key, value]) => {
+    const operationName = `${moduleName}.${key}`;
+    const audited = auditing && !excluded.has(operationName) ? auditTrail[key] : undefined;
+    const published = publishing ? eventTrail[key] : undefined;
+    if ((!audited && !published) || typeof value !== "function") {
+      return [key, value];
+    }
+
+    const implementation = value as (request: unknown) => Promise<Result<unknown, CatalystError>>;
+    const tracked = async (request: unknown): Promise<Result<unknown, CatalystError>> => {
+      const context = audited ? options.resolveContext?.() : undefined;
+      const before = await loadBeforeState(auditTrail[key], deps, request);
+      const result = await implementation(request);
+      if (!result.ok) {
+        return result;
+      }
+
+      const event = published?.toEvent(request, result.value, before);
+      if (event) {
+        await publishDomainEvent(deps, event);
+      }
+      if (audited) {
+        const target = audited.describe(request, result.value, before);
+        await recordAuditEvent(deps, {
+          category: audited.category,
+          action: audited.action,
+          actor: context?.actor,
+          subject: target.subject,
+          resource: target.resource,
+          correlationId: context?.correlationId ?? crypto.randomUUID(),
+          metadata: {
+            operation: operationName,
+            diff: diffAuditStates(before, audited.deletes ? undefined : result.value),
+          },
+        });
+      }
+      return result;
+    };
+    return [key, tracked];
+  });
+
+  return Object.fromEntries(entries) as TModule;
+};
@@ -1,16 +1,21 @@
 import {
+  err,
+  ok,
+  webhookDeliveryOrderingKey,
   type CatalystError,
   type ListPendingDeliveriesOptions,
   type ListWebhookDeliveriesOptions,
   type Result,
   type UpdateWebhookDeliveryInput,
   type WebhookDeliveryRecord,
+  type WebhookDeliveryReplayTrigger,
   type WebhookDeliveryStatus,
 } from "@catalyst-auth/contracts";
 import { z } from "../vendor/zod.js";
 
 import type { CatalystSdkDependencies } from "../index.js";
-import { createValidationError } from "../shared/errors.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
+import { createNotFoundError, createOperationError, createValidationError } from "../shared/errors.js";
 import { safeParse } from "../shared/validation.js";
 
 const deliveryStatuses = [
@@ -52,6 +57,27 @@ const listPendingInputSchema: z.ZodType<ListPendingDeliveriesOptions> = z.object
   limit: z.number().int().positive().optional(),
 });
 
+const replayDeliveryInputSchema: z.ZodType<{ id: string }> = z.object({ id: z.string().min(1) });
+
+const redriveDeadLettersInputSchema: z.ZodType<RedriveDeadLettersArgs> = z.object({
+  subscriptionId: z.string().min(1).optional(),
+  since: z.string().min(1).optional(),
+  until: z.string().min(1).optional(),
+});
+
+const replayEventInputSchema: z.ZodType<{ eventId: string }> = z.object({ eventId: z.string().min(1) });
+
+/** Statuses a delivery can be replayed from. Pending and in-flight deliveries are still being attempted. */
+const replayableStatuses: ReadonlySet<WebhookDeliveryStatus> = new Set(["succeeded", "failed", "dead_lettered"]);
+
+type RedriveDeadLettersArgs = {
+  readonly subscriptionId?: string;
+  /** Inclusive lower bound on when the delivery was dead-lettered. */
+  readonly since?: string;
+  /** Exclusive upper bound on when the delivery was dead-lettered. */
+  readonly until?: string;
+};
+
 type UpdateDeliveryArgs = {
   readonly id: string;
   readonly changes: {
@@ -69,6 +95,14 @@ type GetDeliveryArgs = z.infer<typeof getInputSchema>;
 type DeleteDeliveryArgs = z.infer<typeof deleteInputSchema>;
 type ListDeliveriesArgs = ListWebhookDeliveriesOptions;
 type ListPendingArgs = ListPendingDeliveriesOptions;
+type ReplayDeliveryArgs = z.infer<typeof replayDeliveryInputSchema>;
+type ReplayEventArgs = z.infer<typeof replayEventInputSchema>;
+
+export interface WebhookDeliveryReplayResult {
+  readonly deliveries: ReadonlyArray<WebhookDeliveryRecord>;
+  /** Deliveries the queue rejected. They stay pending for a polling worker. */
+  readonly enqueueFailures: ReadonlyArray<{ readonly deliveryId: string; readonly error: CatalystError }>;
+}
 
 const sanitizeDeliveryChanges = (
   changes: UpdateDeliveryArgs["changes"],
@@ -159,6 +193,21 @@ export interface WebhookDeliveriesModule {
   readonly deleteDelivery: (
     input: DeleteDeliveryArgs,
   ) => Promise<Result<null, CatalystError>>;
+  /**
+   * Resets a completed delivery to pending with a fresh attempt count, appends the replay to its lineage and
+   * offers it to the queue.
+   */
+  readonly replayDelivery: (
+    input: ReplayDeliveryArgs,
+  ) => Promise<Result<WebhookDeliveryRecord, CatalystError>>;
+  /** Replays every dead-lettered delivery, optionally narrowed to a subscription and dead-letter window. */
+  readonly redriveDeadLetters: (
+    input?: RedriveDeadLettersArgs,
+  ) => Promise<Result<WebhookDeliveryReplayResult, CatalystError>>;
+  /** Replays the event's completed deliveries to every subscription; in-flight deliveries are left alone. */
+  readonly replayEvent: (
+    input: ReplayEventArgs,
+  ) => Promise<Result<WebhookDeliveryReplayResult, CatalystError>>;
 }
 
 const createGetDelivery = (
@@ -221,6 +270,230 @@ const createDeleteDelivery = (
   return { ok: true, value: null };
 };
 
+const resetForReplay = async (
+  deps: CatalystSdkDependencies,
+  delivery: WebhookDeliveryRecord,
+  trigger: WebhookDeliveryReplayTrigger,
+): Promise<Result<WebhookDeliveryRecord, CatalystError>> => {
+  const replayedAt = new Date().toISOString();
+  return deps.webhookDeliveryStore.updateDelivery(delivery.id, {
+    status: "pending",
+    attemptCount: 0,
+    nextAttemptAt: replayedAt,
+    response: null,
+    errorMessage: null,
+    replays: [
+      ...(delivery.replays ?? []),
+      {
+        replayedAt,
+        trigger,
+        previousStatus: delivery.status,
+        previousAttemptCount: delivery.attemptCount,
+        ...(delivery.errorMessage !== undefined ? { previousErrorMessage: delivery.errorMessage } : {}),
+      },
+    ],
+    updatedAt: replayedAt,
+  });
+};
+
+const enqueueReplay = async (
+  deps: CatalystSdkDependencies,
+  delivery: WebhookDeliveryRecord,
+): Promise<Result<void, CatalystError>> => {
+  if (!deps.webhookQueue) {
+    return ok(undefined);
+  }
+  // Ordered subscriptions need the delivery's ordering key so the queue keeps it behind earlier deliveries.
+  const subscription = await deps.webhookSubscriptionStore.getSubscription(delivery.subscriptionId);
+  if (!subscription.ok) {
+    return subscription;
+  }
+  const orderingKey = subscription.value
+    ? webhookDeliveryOrderingKey(subscription.value, delivery.payload)
+    : undefined;
+  return deps.webhookQueue.enqueue({ deliveryId: delivery.id, orderingKey });
+};
+
+const replayAll = async (
+  deps: CatalystSdkDependencies,
+  deliveries: ReadonlyArray<WebhookDeliveryRecord>,
+  trigger: WebhookDeliveryReplayTrigger,
+): Promise<Result<WebhookDeliveryReplayResult, CatalystError>> => {
+  const replayed: WebhookDeliveryRecord[] = [];
+  const enqueueFailures: Array<{ deliveryId: string; error: CatalystError }> = [];
+  for (const delivery of deliveries) {
+    const reset = await resetForReplay(deps, delivery, trigger);
+    if (!reset.ok) {
+      return reset;
+    }
+    replayed.push(reset.value);
+    const enqueued = await enqueueReplay(deps, reset.value);
+    if (!enqueued.ok) {
+      enqueueFailures.push({ deliveryId: reset.value.id, error: enqueued.error });
+    }
+  }
+  return ok({ deliveries: replayed, enqueueFailures });
+};
+
+const parseTimestamp = (value: string | undefined, field: string): Result<number | undefined, CatalystError> => {
+  if (value === undefined) {
+    return ok(undefined);
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? err(createValidationError(`${field} must be an ISO-8601 timestamp.`)) : ok(timestamp);
+};
+
+const createReplayDelivery = (
+  deps: CatalystSdkDependencies,
+): WebhookDeliveriesModule["replayDelivery"] => async (input) => {
+  const parsed = safeParse(replayDeliveryInputSchema, input, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const existing = await deps.webhookDeliveryStore.getDelivery(parsed.value.id);
+  if (!existing.ok) {
+    return existing;
+  }
+  const delivery = existing.value;
+  if (!delivery) {
+    return err(createNotFoundError("Webhook delivery", { id: parsed.value.id }));
+  }
+  if (!replayableStatuses.has(delivery.status)) {
+    return err(
+      createOperationError("sdk.webhook_delivery.not_replayable", "Only completed webhook deliveries can be replayed.", {
+        id: delivery.id,
+        status: delivery.status,
+      }),
+    );
+  }
+
+  const reset = await resetForReplay(deps, delivery, "delivery");
+  if (!reset.ok) {
+    return reset;
+  }
+  const enqueued = await enqueueReplay(deps, reset.value);
+  if (!enqueued.ok) {
+    return err(
+      createOperationError(
+        "sdk.webhook_delivery.enqueue_failed",
+        "The delivery was reset but could not be enqueued; it stays pending for a polling worker.",
+        { id: delivery.id, cause: enqueued.error },
+      ),
+    );
+  }
+  return reset;
+};
+
+const createRedriveDeadLetters = (
+  deps: CatalystSdkDependencies,
+): WebhookDeliveriesModule["redriveDeadLetters"] => async (input) => {
+  const parsed = safeParse(redriveDeadLettersInputSchema, input ?? {}, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const since = parseTimestamp(parsed.value.since, "since");
+  if (!since.ok) {
+    return since;
+  }
+  const until = parseTimestamp(parsed.value.until, "until");
+  if (!until.ok) {
+    return until;
+  }
+
+  const deadLettered = await deps.webhookDeliveryStore.listDeliveries({
+    subscriptionId: parsed.value.subscriptionId,
+    status: "dead_lettered",
+  });
+  if (!deadLettered.ok) {
+    return deadLettered;
+  }
+  // A dead-lettered delivery is not written again, so its last update is when it was dead-lettered.
+  const inWindow = deadLettered.value.filter((delivery) => {
+    const deadLetteredAt = Date.parse(delivery.updatedAt);
+    return (
+      (since.value === undefined || deadLetteredAt >= since.value) &&
+      (until.value === undefined || deadLetteredAt < until.value)
+    );
+  });
+  return replayAll(deps, inWindow, "dead_letter_redrive");
+};
+
+const createReplayEvent = (
+  deps: CatalystSdkDependencies,
+): WebhookDeliveriesModule["replayEvent"] => async (input) => {
+  const parsed = safeParse(replayEventInputSchema, input, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const deliveries = await deps.webhookDeliveryStore.listDeliveries({ eventId: parsed.value.eventId });
+  if (!deliveries.ok) {
+    return deliveries;
+  }
+  if (deliveries.value.length === 0) {
+    return err(createNotFoundError("Webhook event deliveries", { eventId: parsed.value.eventId }));
+  }
+  return replayAll(
+    deps,
+    deliveries.value.filter((delivery) => replayableStatuses.has(delivery.status)),
+    "event",
+  );
+};
+
+const loadDelivery = async (
+  deps: CatalystSdkDependencies,
+  id: string,
+): Promise<WebhookDeliveryRecord | undefined> => {
+  const delivery = await deps.webhookDeliveryStore.getDelivery(id);
+  return delivery.ok ? delivery.value : undefined;
+};
+
+/**
+ * Audit events recorded for manual webhook delivery changes.
+ */
+export const webhookDeliveriesAuditTrail: SdkAuditTrail<WebhookDeliveriesModule> = {
+  updateDelivery: {
+    category: "webhook_delivery",
+    action: "updated",
+    loadBefore: (deps, request) => loadDelivery(deps, request.id),
+    describe: (_request, delivery) => ({
+      resource: {
+        type: "webhook_delivery",
+        id: delivery.id,
+        labels: { subscriptionId: delivery.subscriptionId },
+      },
+    }),
+  },
+  deleteDelivery: {
+    category: "webhook_delivery",
+    action: "deleted",
+    deletes: true,
+    loadBefore: (deps, request) => loadDelivery(deps, request.id),
+    describe: (request) => ({ resource: { type: "webhook_delivery", id: request.id } }),
+  },
+  replayDelivery: {
+    category: "webhook_delivery",
+    action: "replayed",
+    loadBefore: (deps, request) => loadDelivery(deps, request.id),
+    describe: (_request, delivery) => ({
+      resource: {
+        type: "webhook_delivery",
+        id: delivery.id,
+        labels: { subscriptionId: delivery.subscriptionId },
+      },
+    }),
+  },
+  redriveDeadLetters: {
+    category: "webhook_delivery",
+    action: "dead_letters_redriven",
+    describe: (request) => ({ resource: { type: "webhook_subscription", id: request?.subscriptionId ?? "*" } }),
+  },
+  replayEvent: {
+    category: "webhook_delivery",
+    action: "event_replayed",
+    describe: (request) => ({ resource: { type: "webhook_event", id: request.eventId } }),
+  },
+};
+
 export const createWebhookDeliveriesModule = (
   deps: CatalystSdkDependencies,
 ): WebhookDeliveriesModule => ({
@@ -229,4 +502,7 @@ export const createWebhookDeliveriesModule = (
   listPendingDeliveries: createListPendingDeliveries(deps),
   updateDelivery: createUpdateDelivery(deps),
   deleteDelivery: createDeleteDelivery(deps),
+  replayDelivery: createReplayDelivery(deps),
+  redriveDeadLetters: createRedriveDeadLetters(deps),
+  replayEvent: createReplayEvent(deps),
 });
@@ -1,16 +1,22 @@
 import {
+  err,
+  isValidWebhookEventTypePattern,
   type CatalystError,
   type CreateWebhookSubscriptionInput,
   type ListWebhookSubscriptionsOptions,
   type Result,
   type UpdateWebhookSubscriptionInput,
+  type WebhookDeliveryOrdering,
   type WebhookRetryPolicy,
+  type WebhookSubscriptionFilters,
   type WebhookSubscriptionRecord,
 } from "@catalyst-auth/contracts";
 import { z } from "../vendor/zod.js";
 
 import type { CatalystSdkDependencies } from "../index.js";
+import type { SdkAuditTrail } from "../shared/audit.js";
 import { createValidationError } from "../shared/errors.js";
+import { labelValueSchema } from "../shared/schemas.js";
 import { safeParse } from "../shared/validation.js";
 
 const retryPolicySchema: z.ZodType<WebhookRetryPolicy> = z.object({
@@ -19,11 +25,49 @@ const retryPolicySchema: z.ZodType<WebhookRetryPolicy> = z.object({
   deadLetterUri: z.string().url().optional(),
 });
 
+const filterValueSchema = z.union([labelValueSchema, z.array(labelValueSchema).min(1)]);
+
+const filtersSchema: z.ZodType<WebhookSubscriptionFilters> = z.object({
+  labels: z.record(filterValueSchema).optional(),
+  data: z.record(filterValueSchema).optional(),
+});
+
+const orderingSchema: z.ZodType<WebhookDeliveryOrdering> = z.object({
+  keyPath: z.string().min(1),
+});
+
+const isInvalidDataPath = (path: string): boolean => path.split(".").some((segment) => !segment);
+
+/**
+ * Checks what the schemas cannot express: event types must be exact types, `*` or a trailing namespace
+ * wildcard such as `key.*`, and data filter and ordering key paths must not contain empty segments.
+ */
+const validateSubscriptionMatching = (
+  eventTypes: ReadonlyArray<string> | undefined,
+  filters: WebhookSubscriptionFilters | undefined,
+  ordering: WebhookDeliveryOrdering | undefined,
+): string | undefined => {
+  const invalidPattern = eventTypes?.find((pattern) => !isValidWebhookEventTypePattern(pattern));
+  if (invalidPattern !== undefined) {
+    return `Invalid event type pattern "${invalidPattern}"`;
+  }
+  const invalidPath = Object.keys(filters?.data ?? {}).find(isInvalidDataPath);
+  if (invalidPath !== undefined) {
+    return `Invalid data filter path "${invalidPath}"`;
+  }
+  if (ordering && isInvalidDataPath(ordering.keyPath)) {
+    return `Invalid ordering key path "${ordering.keyPath}"`;
+  }
+  return undefined;
+};
+
 const createInputSchema: z.ZodType<{ subscription: CreateWebhookSubscriptionInput }> = z.object({
   subscription: z.object({
     id: z.string().min(1).optional(),
     orgId: z.string().min(1).optional(),
     eventTypes: z.array(z.string().min(1)).min(1),
+    filters: filtersSchema.optional(),
+    ordering: orderingSchema.optional(),
     targetUrl: z.string().url(),
     secret: z.string().min(1),
     headers: z.record(z.string()).optional(),
@@ -40,6 +84,8 @@ const updateInputSchema: z.ZodType<{ id: string; changes: UpdateWebhookSubscript
   changes: z.object({
     orgId: z.string().min(1).optional(),
     eventTypes: z.array(z.string().min(1)).min(1).optional(),
+    filters: filtersSchema.optional(),
+    ordering: orderingSchema.optional(),
     targetUrl: z.string().url().optional(),
     secret: z.string().min(1).optional(),
     headers: z.record(z.string()).optional(),
@@ -50,6 +96,28 @@ const updateInputSchema: z.ZodType<{ id: string; changes: UpdateWebhookSubscript
   }),
 });
 
+/** How long the replaced secret keeps signing deliveries when no overlap is given. */
+const DEFAULT_SECRET_OVERLAP_SECONDS = 24 * 60 * 60;
+
+const SECRET_BYTES = 24;
+
+type RotateSecretInput = { id: string; secret?: string; overlapSeconds?: number };
+
+const rotateSecretInputSchema: z.ZodType<RotateSecretInput> = z.object({
+  id: z.string().min(1),
+  secret: z.string().min(1).optional(),
+  overlapSeconds: z.number().int().nonnegative().optional(),
+});
+
+/** Generates a Standard Webhooks style `whsec_` secret. */
+const generateSecret = (): string => {
+  let binary = "";
+  for (const byte of crypto.getRandomValues(new Uint8Array(SECRET_BYTES))) {
+    binary += String.fromCharCode(byte);
+  }
+  return `whsec_${btoa(binary)}`;
+};
+
 const getInputSchema: z.ZodType<{ id: string }> = z.object({ id: z.string().min(1) });
 
 const deleteInputSchema: z.ZodType<{ id: string }> = z.object({ id: z.string().min(1) });
@@ -69,6 +137,8 @@ type UpdateSubscriptionArgs = {
   readonly changes: {
     readonly orgId?: string | null;
     readonly eventTypes?: ReadonlyArray<string>;
+    readonly filters?: WebhookSubscriptionFilters | null;
+    readonly ordering?: WebhookDeliveryOrdering | null;
     readonly targetUrl?: string;
     readonly secret?: string;
     readonly headers?: Record<string, string> | null;
@@ -81,13 +151,23 @@ type UpdateSubscriptionArgs = {
 
 type GetSubscriptionArgs = z.infer<typeof getInputSchema>;
 type DeleteSubscriptionArgs = z.infer<typeof deleteInputSchema>;
+type RotateSecretArgs = z.infer<typeof rotateSecretInputSchema>;
 type ListSubscriptionsArgs = { readonly orgId?: string | null; readonly active?: boolean; readonly eventType?: string };
 
+type SubscriptionNulls = {
+  orgId?: true;
+  filters?: true;
+  ordering?: true;
+  headers?: true;
+  retryPolicy?: true;
+  metadata?: true;
+};
+
 const sanitizeSubscriptionChanges = (
   changes: UpdateSubscriptionArgs["changes"],
-): { sanitized: UpdateWebhookSubscriptionInput; nulls: { orgId?: true; headers?: true; retryPolicy?: true; metadata?: true } } => {
+): { sanitized: UpdateWebhookSubscriptionInput; nulls: SubscriptionNulls } => {
   let sanitized: UpdateWebhookSubscriptionInput = {};
-  const nulls: { orgId?: true; headers?: true; retryPolicy?: true; metadata?: true } = {};
+  const nulls: SubscriptionNulls = {};
 
   if ("orgId" in changes) {
     if (changes.orgId === null) {
@@ -101,6 +181,22 @@ const sanitizeSubscriptionChanges = (
     sanitized = { ...sanitized, eventTypes: [...changes.eventTypes] };
   }
 
+  if ("filters" in changes) {
+    if (changes.filters === null) {
+      nulls.filters = true;
+    } else if (changes.filters !== undefined) {
+      sanitized = { ...sanitized, filters: changes.filters };
+    }
+  }
+
+  if ("ordering" in changes) {
+    if (changes.ordering === null) {
+      nulls.ordering = true;
+    } else if (changes.ordering !== undefined) {
+      sanitized = { ...sanitized, ordering: changes.ordering };
+    }
+  }
+
   if (changes.targetUrl) {
     sanitized = { ...sanitized, targetUrl: changes.targetUrl };
   }
@@ -146,12 +242,18 @@ const sanitizeSubscriptionChanges = (
 
 const applySubscriptionNulls = (
   parsed: UpdateWebhookSubscriptionInput,
-  nulls: { orgId?: true; headers?: true; retryPolicy?: true; metadata?: true },
+  nulls: SubscriptionNulls,
 ): UpdateWebhookSubscriptionInput => {
   let next: UpdateWebhookSubscriptionInput = { ...parsed };
   if (nulls.orgId) {
     next = { ...next, orgId: null };
   }
+  if (nulls.filters) {
+    next = { ...next, filters: null };
+  }
+  if (nulls.ordering) {
+    next = { ...next, ordering: null };
+  }
   if (nulls.headers) {
     next = { ...next, headers: null };
   }
@@ -208,6 +310,11 @@ export interface WebhookSubscriptionsModule {
   readonly deleteSubscription: (
     input: DeleteSubscriptionArgs,
   ) => Promise<Result<null, CatalystError>>;
+  /**
+   * Replaces the signing secret, generating one when none is given. The previous secret keeps signing for
+   * `overlapSeconds` (24 hours by default) so receivers can switch over, then expires on its own.
+   */
+  readonly rotateSecret: (input: RotateSecretArgs) => Promise<Result<WebhookSubscriptionRecord, CatalystError>>;
 }
 
 const createCreateSubscription = (
@@ -217,6 +324,11 @@ const createCreateSubscription = (
   if (!parsed.ok) {
     return parsed;
   }
+  const { eventTypes, filters, ordering } = parsed.value.subscription;
+  const invalid = validateSubscriptionMatching(eventTypes, filters, ordering);
+  if (invalid) {
+    return err(createValidationError(invalid));
+  }
   return deps.webhookSubscriptionStore.createSubscription(parsed.value.subscription);
 };
 
@@ -232,6 +344,14 @@ const createUpdateSubscription = (
   if (!parsed.ok) {
     return parsed;
   }
+  const invalid = validateSubscriptionMatching(
+    parsed.value.changes.eventTypes,
+    parsed.value.changes.filters ?? undefined,
+    parsed.value.changes.ordering ?? undefined,
+  );
+  if (invalid) {
+    return err(createValidationError(invalid));
+  }
   const nextChanges = applySubscriptionNulls(parsed.value.changes, nulls);
   return deps.webhookSubscriptionStore.updateSubscription(parsed.value.id, nextChanges);
 };
@@ -273,6 +393,66 @@ const createDeleteSubscription = (
   return { ok: true, value: null };
 };
 
+const createRotateSecret = (
+  deps: CatalystSdkDependencies,
+): WebhookSubscriptionsModule["rotateSecret"] => async (input) => {
+  const parsed = safeParse(rotateSecretInputSchema, input, createValidationError);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const now = new Date();
+  const overlapSeconds = parsed.value.overlapSeconds ?? DEFAULT_SECRET_OVERLAP_SECONDS;
+  return deps.webhookSubscriptionStore.rotateSecret(parsed.value.id, {
+    secret: parsed.value.secret ?? generateSecret(),
+    previousSecretExpiresAt: new Date(now.getTime() + overlapSeconds * 1000).toISOString(),
+    rotatedAt: now.toISOString(),
+  });
+};
+
+const loadSubscription = async (
+  deps: CatalystSdkDependencies,
+  id: string,
+): Promise<WebhookSubscriptionRecord | undefined> => {
+  const subscription = await deps.webhookSubscriptionStore.getSubscription(id);
+  return subscription.ok ? subscription.value : undefined;
+};
+
+/**
+ * Audit events recorded for webhook subscription changes. Signing secrets are redacted from the recorded diff.
+ */
+export const webhookSubscriptionsAuditTrail: SdkAuditTrail<WebhookSubscriptionsModule> = {
+  createSubscription: {
+    category: "webhook_subscription",
+    action: "created",
+    describe: (_request, subscription) => ({
+      resource: { type: "webhook_subscription", id: subscription.id },
+    }),
+  },
+  updateSubscription: {
+    category: "webhook_subscription",
+    action: "updated",
+    loadBefore: (deps, request) => loadSubscription(deps, request.id),
+    describe: (_request, subscription) => ({
+      resource: { type: "webhook_subscription", id: subscription.id },
+    }),
+  },
+  rotateSecret: {
+    category: "webhook_subscription",
+    action: "secret_rotated",
+    loadBefore: (deps, request) => loadSubscription(deps, request.id),
+    describe: (_request, subscription) => ({
+      resource: { type: "webhook_subscription", id: subscription.id },
+    }),
+  },
+  deleteSubscription: {
+    category: "webhook_subscription",
+    action: "deleted",
+    deletes: true,
+    loadBefore: (deps, request) => loadSubscription(deps, request.id),
+    describe: (request) => ({ resource: { type: "webhook_subscription", id: request.id } }),
+  },
+};
+
 export const createWebhookSubscriptionsModule = (
   deps: CatalystSdkDependencies,
 ): WebhookSubscriptionsModule => ({
@@ -281,4 +461,5 @@ export const createWebhookSubscriptionsModule = (
   getSubscription: createGetSubscription(deps),
   listSubscriptions: createListSubscriptions(deps),
   deleteSubscription: createDeleteSubscription(deps),
+  rotateSecret: createRotateSecret(deps),
 });
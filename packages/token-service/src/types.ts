@@ -4,5 +4,12 @@ export type {
   DecisionTokenOptions,
   AccessTokenOptions,
   RefreshTokenOptions,
+  KeyringSignerConfig,
+  SignerOptions,
+  SignedTokenType,
+  PublishedSigner,
+  RotateSignerOptions,
+  SigningKeyRotationEvent,
+  SigningKeyRotationListener,
   JwtServiceOptions as TokenServiceOptions,
 } from "@catalyst-auth/jwt-service";
@@ -255,3 +255,238 @@ test('mints coordinated token pairs', async () => {
   assert.ok(result.value.refreshToken.includes('.'));
   assert.equal(typeof result.value.expiresAt, 'string');
 });
+
+test('selects the active signer from a keyring by activation window', async () => {
+  const service = new TokenService({
+    issuer: 'https://auth.catalyst.test',
+    decision: {
+      signers: [
+        { algorithm: 'RS256', privateKey: rsaPrivatePem, keyId: 'decision-2023', retireAt: '2024-01-02T00:00:00.000Z' },
+        { algorithm: 'EdDSA', privateKey: edPrivatePem, keyId: 'decision-2024', activeFrom: '2023-12-31T00:00:00.000Z' },
+        { algorithm: 'EdDSA', privateKey: edPrivatePem, keyId: 'decision-next', activeFrom: '2024-03-01T00:00:00.000Z' },
+      ],
+    },
+    now: nowFn,
+  });
+
+  const result = await service.mintDecisionJwt({ identity: fixedIdentity, action: 'GET /keyring' });
+  assert.equal(result.ok, true);
+  const decoded = decodeJwt(result.value.token);
+  assert.equal(decoded.header.kid, 'decision-2024');
+  assert.equal(decoded.header.alg, 'EdDSA');
+
+  const published = service.listPublishedSigners('decision');
+  assert.deepEqual(
+    published.map((signer) => [signer.keyId, signer.active]),
+    [
+      ['decision-2023', false],
+      ['decision-2024', true],
+      ['decision-next', false],
+    ],
+  );
+  assert.equal(published[0].retireAt, '2024-01-02T00:00:00.000Z');
+});
+
+test('rotates signers, keeps retiring keys published, and notifies listeners', async () => {
+  let now = new Date(fixedNow);
+  const events = [];
+  const service = new TokenService({
+    issuer: 'https://auth.catalyst.test',
+    decision: {
+      signer: { algorithm: 'RS256', privateKey: rsaPrivatePem, keyId: 'decision-1' },
+      defaultTtlSeconds: 60,
+    },
+    now: () => new Date(now),
+    onKeyRotation: (event) => {
+      events.push(event);
+    },
+  });
+  const lateEvents = [];
+  const unsubscribe = service.onKeyRotation((event) => lateEvents.push(event.keyId));
+
+  const rotation = await service.rotate('decision', {
+    algorithm: 'EdDSA',
+    privateKey: edPrivatePem,
+    keyId: 'decision-2',
+  });
+  assert.equal(rotation.ok, true);
+  assert.deepEqual(rotation.value, {
+    tokenType: 'decision',
+    keyId: 'decision-2',
+    activeFrom: '2024-01-01T00:00:00.000Z',
+    previousKeyId: 'decision-1',
+    previousRetireAt: '2024-01-01T00:01:00.000Z',
+    rotatedAt: '2024-01-01T00:00:00.000Z',
+  });
+  assert.deepEqual(events, [rotation.value]);
+  assert.deepEqual(lateEvents, ['decision-2']);
+
+  const minted = await service.mintDecisionJwt({ identity: fixedIdentity, action: 'GET /rotated' });
+  assert.equal(decodeJwt(minted.value.token).header.kid, 'decision-2');
+  assert.deepEqual(
+    service.listPublishedSigners('decision').map((signer) => signer.keyId),
+    ['decision-1', 'decision-2'],
+  );
+
+  now = new Date('2024-01-01T00:01:00.000Z');
+  assert.deepEqual(
+    service.listPublishedSigners('decision').map((signer) => signer.keyId),
+    ['decision-2'],
+  );
+
+  unsubscribe();
+  const duplicate = await service.rotate('decision', {
+    algorithm: 'EdDSA',
+    privateKey: edPrivatePem,
+    keyId: 'decision-2',
+  });
+  assert.equal(duplicate.ok, false);
+  assert.equal(duplicate.error.code, 'token.rotation.duplicate_key');
+
+  const unsupported = await service.rotate('refresh', {
+    algorithm: 'EdDSA',
+    privateKey: edPrivatePem,
+    keyId: 'refresh-1',
+  });
+  assert.equal(unsupported.ok, false);
+  assert.equal(unsupported.error.code, 'token.rotation.unsupported');
+  assert.deepEqual(lateEvents, ['decision-2']);
+});
+
+test('schedules future rotations without switching the active signer early', async () => {
+  const service = buildService();
+  const rotation = await service.rotate(
+    'access',
+    { algorithm: 'EdDSA', privateKey: edPrivatePem, keyId: 'access-next' },
+    { activeFrom: '2024-02-01T00:00:00.000Z', retirePreviousAt: '2024-02-02T00:00:00.000Z' },
+  );
+  assert.equal(rotation.ok, true);
+  assert.equal(rotation.value.previousKeyId, 'rsa-access');
+
+  const minted = await service.mintAccessToken({ subject: 'user-123', clientId: 'cli-1', scopes: [] });
+  assert.equal(decodeJwt(minted.value.token).header.kid, 'rsa-access');
+  assert.deepEqual(
+    service.listPublishedSigners('access').map((signer) => [signer.keyId, signer.active]),
+    [
+      ['rsa-access', true],
+      ['access-next', false],
+    ],
+  );
+});
+
+test('verifies minted access, refresh, and decision tokens', async () => {
+  const service = buildService();
+  const access = await service.mintAccessToken({
+    subject: 'user-123',
+    clientId: 'cli-1',
+    scopes: ['read'],
+    orgId: 'org-9',
+  });
+  const refresh = await service.mintRefreshToken({ subject: 'user-123', clientId: 'cli-1', sessionId: 'sess-1' });
+  const decision = await service.mintDecisionJwt({ identity: fixedIdentity, action: 'GET /verify' });
+
+  const accessClaims = await service.verifyAccessToken(access.value.token);
+  assert.equal(accessClaims.ok, true);
+  assert.equal(accessClaims.value.sub, 'user-123');
+  assert.equal(accessClaims.value.org, 'org-9');
+  assert.equal(accessClaims.value.scope, 'read');
+
+  const refreshClaims = await service.verifyRefreshToken(refresh.value.token);
+  assert.equal(refreshClaims.ok, true);
+  assert.equal(refreshClaims.value.session, 'sess-1');
+
+  const decisionClaims = await service.verifyDecisionJwt(decision.value.token);
+  assert.equal(decisionClaims.ok, true);
+  assert.equal(decisionClaims.value.action, 'GET /verify');
+});
+
+test('rejects tokens that are expired, tampered, for another audience, or of another type', async () => {
+  let now = new Date(fixedNow);
+  const service = buildService({ now: () => new Date(now), clockSkewSeconds: 30 });
+  const access = await service.mintAccessToken({ subject: 'user-123', clientId: 'cli-1', scopes: [] });
+  const refresh = await service.mintRefreshToken({ subject: 'user-123', clientId: 'cli-1' });
+  const token = access.value.token;
+
+  const [header, payload, signature] = token.split('.');
+  const forgedPayload = Buffer.from(
+    JSON.stringify({ ...decodeJwt(token).payload, sub: 'admin' }),
+  ).toString('base64url');
+  const tampered = await service.verifyAccessToken(`${header}.${forgedPayload}.${signature}`);
+  assert.equal(tampered.error.code, 'token.access.invalid_signature');
+
+  const audience = await service.verifyAccessToken(token, { audience: 'billing' });
+  assert.equal(audience.error.code, 'token.access.invalid_audience');
+  assert.deepEqual(audience.error.details.expected, 'billing');
+
+  const wrongType = await service.verifyAccessToken(refresh.value.token);
+  assert.equal(wrongType.error.code, 'token.access.unknown_key');
+  const mismatchedType = await new TokenService({
+    issuer: 'https://auth.catalyst.test',
+    decision: { signer: { algorithm: 'EdDSA', privateKey: edPrivatePem } },
+    access: { signer: { algorithm: 'RS256', privateKey: rsaPrivatePem, keyId: 'rsa-refresh' } },
+    now: nowFn,
+  }).verifyAccessToken(refresh.value.token);
+  assert.equal(mismatchedType.error.code, 'token.access.invalid_token_type');
+
+  const malformed = await service.verifyRefreshToken('opaque-token');
+  assert.equal(malformed.error.code, 'token.refresh.malformed');
+
+  now = new Date(fixedNow.getTime() + (600 + 20) * 1000);
+  assert.equal((await service.verifyAccessToken(token)).ok, true);
+
+  now = new Date(fixedNow.getTime() + (600 + 30) * 1000);
+  const expired = await service.verifyAccessToken(token);
+  assert.equal(expired.error.code, 'token.access.expired');
+  assert.equal(expired.error.details.tokenType, 'access');
+  assert.equal((await service.verifyAccessToken(token, { clockSkewSeconds: 60 })).ok, true);
+
+  now = new Date(fixedNow.getTime() - 60 * 1000);
+  const early = await service.verifyAccessToken(token);
+  assert.equal(early.error.code, 'token.access.not_yet_valid');
+
+  const unsupported = await new TokenService({
+    issuer: 'https://auth.catalyst.test',
+    decision: { signer: { algorithm: 'EdDSA', privateKey: edPrivatePem } },
+  }).verifyRefreshToken(refresh.value.token);
+  assert.equal(unsupported.error.code, 'token.refresh.unsupported');
+});
+
+test('verifies tokens signed by a retiring key until it is retired', async () => {
+  let now = new Date(fixedNow);
+  const service = new TokenService({
+    issuer: 'https://auth.catalyst.test',
+    decision: {
+      signer: { algorithm: 'RS256', privateKey: rsaPrivatePem, keyId: 'decision-1' },
+      defaultTtlSeconds: 60,
+    },
+    now: () => new Date(now),
+    clockSkewSeconds: 0,
+  });
+  const before = await service.mintDecisionJwt({ identity: fixedIdentity, action: 'GET /rotated' });
+  await service.rotate('decision', { algorithm: 'EdDSA', privateKey: edPrivatePem, keyId: 'decision-2' });
+  const after = await service.mintDecisionJwt({ identity: fixedIdentity, action: 'GET /rotated' });
+
+  assert.equal((await service.verifyDecisionJwt(before.value.token)).ok, true);
+  assert.equal((await service.verifyDecisionJwt(after.value.token)).ok, true);
+
+  now = new Date('2024-01-01T00:01:00.000Z');
+  const retired = await service.verifyDecisionJwt(before.value.token);
+  assert.equal(retired.error.code, 'token.decision.unknown_key');
+  assert.equal(retired.error.details.keyId, 'decision-1');
+});
+
+test('records the delegation chain in the act claim of exchanged access tokens', async () => {
+  const service = buildService();
+  const result = await service.mintAccessToken({
+    subject: 'user-123',
+    clientId: 'orders-service',
+    scopes: ['read'],
+    audience: 'inventory',
+    actor: { sub: 'orders-service', act: { sub: 'gateway' } },
+  });
+
+  assert.equal(result.ok, true);
+  const verified = await service.verifyAccessToken(result.value.token, { audience: 'inventory' });
+  assert.equal(verified.ok, true);
+  assert.deepEqual(verified.value.act, { sub: 'orders-service', act: { sub: 'gateway' } });
+});
@@ -5,3 +5,15 @@ export type {
   DeadLetterItem,
 } from "./memory-webhook-delivery.js";
 export { createMemoryWebhookDelivery } from "./memory-webhook-delivery.js";
+export type { MemoryWebhookSubscriptionStoreOptions } from "./memory-webhook-subscription-store.js";
+export {
+  MemoryWebhookSubscriptionStore,
+  createMemoryWebhookSubscriptionStore,
+} from "./memory-webhook-subscription-store.js";
+export type {
+  MemoryWebhookQueue,
+  MemoryWebhookQueueOptions,
+  MemoryWebhookQueueEntry,
+  MemoryWebhookQueueDeadLetter,
+} from "./memory-webhook-queue.js";
+export { createMemoryWebhookQueue } from "./memory-webhook-queue.js";
@@ -0,0 +1,323 @@
+import { randomUUID } from "node:crypto";
+
+import type {
+  CatalystError,
+  Result,
+  WebhookQueueDeadLetterOptions,
+  WebhookQueueMessage,
+  WebhookQueueMessageHandle,
+  WebhookQueuePort,
+  WebhookQueueRetryOptions,
+} from "@catalyst-auth/contracts";
+import { err, ok } from "@catalyst-auth/contracts";
+
+interface Clock {
+  now(): Date;
+}
+
+type IdFactory = () => string;
+
+export interface MemoryWebhookQueueOptions {
+  /** Source of time for delays and visibility timeouts. Pair a fake clock with `autoPoll: false` in tests. */
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+  /**
+   * Hands out due messages as soon as they are enqueued or their delay elapses. Set to `false` to hand them
+   * out only when `pollOnce` is called.
+   */
+  readonly autoPoll?: boolean;
+}
+
+export interface MemoryWebhookQueueEntry extends WebhookQueueMessage {
+  readonly availableAt: string;
+  /** Held by a consumer until it settles the message or the visibility timeout lapses. */
+  readonly leased: boolean;
+}
+
+export interface MemoryWebhookQueueDeadLetter {
+  readonly message: WebhookQueueMessage;
+  readonly reason: string;
+  readonly attempts: number;
+  readonly deadLetterUri?: string;
+  readonly deadLetteredAt: string;
+}
+
+export interface MemoryWebhookQueue extends WebhookQueuePort {
+  /**
+   * Hands due messages to the consumer up to its free concurrency and resolves with the number handed out once
+   * their handlers finish.
+   */
+  readonly pollOnce: () => Promise<Result<number, CatalystError>>;
+  readonly peekMessages: () => ReadonlyArray<MemoryWebhookQueueEntry>;
+  readonly peekDeadLetters: () => ReadonlyArray<MemoryWebhookQueueDeadLetter>;
+  /** Stops the consumer and waits for in-flight handlers. */
+  readonly close: () => Promise<void>;
+}
+
+interface StoredMessage {
+  readonly id: string;
+  readonly sequence: number;
+  readonly deliveryId: string;
+  readonly orderingKey?: string;
+  attempt: number;
+  metadata?: Record<string, unknown>;
+  enqueuedAt: string;
+  availableAt: number;
+  leaseToken?: number;
+}
+
+interface Consumer {
+  readonly handler: (handle: WebhookQueueMessageHandle) => Promise<void>;
+  readonly concurrency: number;
+  readonly visibilityTimeoutMs: number;
+  readonly inFlight: Set<Promise<void>>;
+}
+
+const DEFAULT_VISIBILITY_TIMEOUT_SECONDS = 30;
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+const clone = <T>(value: T): T => (value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T));
+
+const createError = (
+  code: string,
+  message: string,
+  details?: Record<string, unknown>,
+  retryable = true,
+): CatalystError => ({
+  code,
+  message,
+  details,
+  retryable,
+});
+
+const toDelayMilliseconds = (delaySeconds: number | undefined): number => {
+  if (!delaySeconds || !Number.isFinite(delaySeconds)) {
+    return 0;
+  }
+  return Math.max(0, Math.round(delaySeconds * 1000));
+};
+
+const toMessage = (stored: StoredMessage): WebhookQueueMessage => ({
+  id: stored.id,
+  deliveryId: stored.deliveryId,
+  attempt: stored.attempt,
+  enqueuedAt: stored.enqueuedAt,
+  metadata: clone(stored.metadata),
+  orderingKey: stored.orderingKey,
+});
+
+/**
+ * In-process `WebhookQueuePort` with the semantics of the Redis and Postgres adapters: delayed enqueue, leases
+ * that lapse after the visibility timeout, a concurrency limit, retries that keep their place within an
+ * ordering key, and dead letters. Messages live in memory, so it suits tests and single-process deployments.
+ */
+export const createMemoryWebhookQueue = (options: MemoryWebhookQueueOptions = {}): MemoryWebhookQueue => {
+  const clock = options.clock ?? defaultClock;
+  const idFactory = options.idFactory ?? defaultIdFactory;
+  const autoPoll = options.autoPoll ?? true;
+
+  const messages = new Map<string, StoredMessage>();
+  const deadLetters: MemoryWebhookQueueDeadLetter[] = [];
+  let sequence = 0;
+  let leaseCounter = 0;
+  let consumer: Consumer | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Only the oldest message of each ordering key may be handed out. */
+  const isHeadOfKey = (stored: StoredMessage): boolean =>
+    stored.orderingKey === undefined ||
+    !Array.from(messages.values()).some(
+      (other) => other.orderingKey === stored.orderingKey && other.sequence < stored.sequence,
+    );
+
+  const claimable = (): StoredMessage[] =>
+    Array.from(messages.values())
+      .filter(isHeadOfKey)
+      .sort((left, right) => left.availableAt - right.availableAt || left.sequence - right.sequence);
+
+  const dispatch = (active: Consumer): Array<Promise<void>> => {
+    const capacity = active.concurrency - active.inFlight.size;
+    if (capacity <= 0) {
+      return [];
+    }
+    const now = clock.now().getTime();
+    const due = claimable()
+      .filter((stored) => stored.availableAt <= now)
+      .slice(0, capacity);
+
+    return due.map((stored) => {
+      leaseCounter += 1;
+      stored.leaseToken = leaseCounter;
+      stored.availableAt = now + active.visibilityTimeoutMs;
+      const task: Promise<void> = handle(active, stored, leaseCounter).finally(() => {
+        active.inFlight.delete(task);
+        wake();
+      });
+      active.inFlight.add(task);
+      return task;
+    });
+  };
+
+  /** Schedules the next automatic dispatch for when the earliest claimable message becomes due. */
+  const wake = (): void => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    const active = consumer;
+    if (!autoPoll || !active || active.inFlight.size >= active.concurrency) {
+      return;
+    }
+    const next = claimable()[0];
+    if (!next) {
+      return;
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      if (consumer === active) {
+        dispatch(active);
+        wake();
+      }
+    }, Math.max(0, next.availableAt - clock.now().getTime()));
+  };
+
+  const handle = async (active: Consumer, stored: StoredMessage, leaseToken: number): Promise<void> => {
+    let settled = false;
+    const message = toMessage(stored);
+
+    const settle = (action: (current: StoredMessage) => void): Result<void, CatalystError> => {
+      if (settled) {
+        return ok(undefined);
+      }
+      settled = true;
+      const current = messages.get(stored.id);
+      if (!current || current.leaseToken !== leaseToken) {
+        return err(
+          createError(
+            "webhook.queue.memory.lease_lost",
+            "The message lease expired before it was settled; another consumer may have claimed it.",
+            { jobId: message.id, deliveryId: message.deliveryId },
+            false,
+          ),
+        );
+      }
+      action(current);
+      return ok(undefined);
+    };
+
+    const queueHandle: WebhookQueueMessageHandle = {
+      message,
+      ack: async () =>
+        settle((current) => {
+          messages.delete(current.id);
+        }),
+      retry: async (retryOptions: WebhookQueueRetryOptions) =>
+        settle((current) => {
+          const now = clock.now();
+          current.attempt = retryOptions.nextAttempt;
+          current.metadata = { ...current.metadata, ...clone(retryOptions.metadata) };
+          current.enqueuedAt = now.toISOString();
+          current.availableAt = now.getTime() + toDelayMilliseconds(retryOptions.delaySeconds);
+          current.leaseToken = undefined;
+        }),
+      deadLetter: async (deadLetterOptions: WebhookQueueDeadLetterOptions) =>
+        settle((current) => {
+          messages.delete(current.id);
+          deadLetters.push({
+            message: {
+              ...toMessage(current),
+              metadata: { ...clone(current.metadata), ...clone(deadLetterOptions.metadata) },
+            },
+            reason: deadLetterOptions.reason,
+            attempts: deadLetterOptions.attempts,
+            deadLetterUri: deadLetterOptions.deadLetterUri,
+            deadLetteredAt: clock.now().toISOString(),
+          });
+        }),
+    };
+
+    try {
+      await active.handler(queueHandle);
+    } catch {
+      // An unsettled message stays leased and is handed out again once the visibility timeout lapses.
+    }
+  };
+
+  const enqueue: WebhookQueuePort["enqueue"] = async (delivery, enqueueOptions) => {
+    const now = clock.now();
+    sequence += 1;
+    const stored: StoredMessage = {
+      id: idFactory(),
+      sequence,
+      deliveryId: delivery.deliveryId,
+      orderingKey: delivery.orderingKey,
+      attempt: delivery.attempt ?? 1,
+      metadata: clone(enqueueOptions?.metadata),
+      enqueuedAt: now.toISOString(),
+      availableAt: now.getTime() + toDelayMilliseconds(enqueueOptions?.delaySeconds),
+    };
+    messages.set(stored.id, stored);
+    wake();
+    return ok(undefined);
+  };
+
+  const closeConsumer = async (active: Consumer): Promise<void> => {
+    if (consumer === active) {
+      consumer = undefined;
+      wake();
+    }
+    await Promise.all(active.inFlight);
+  };
+
+  const consume: WebhookQueuePort["consume"] = async (handler, consumerOptions) => {
+    if (consumer) {
+      return err(createError("webhook.queue.memory.already_consuming", "A consumer is already registered for this queue."));
+    }
+    const active: Consumer = {
+      handler,
+      concurrency: Math.max(1, consumerOptions?.concurrency ?? 1),
+      visibilityTimeoutMs: toDelayMilliseconds(
+        consumerOptions?.visibilityTimeoutSeconds ?? DEFAULT_VISIBILITY_TIMEOUT_SECONDS,
+      ),
+      inFlight: new Set(),
+    };
+    consumer = active;
+    wake();
+    return ok({ close: () => closeConsumer(active) });
+  };
+
+  return {
+    enqueue,
+    consume,
+    pollOnce: async () => {
+      const active = consumer;
+      if (!active) {
+        return err(
+          createError("webhook.queue.memory.not_consuming", "No consumer is registered for this queue.", undefined, false),
+        );
+      }
+      const tasks = dispatch(active);
+      await Promise.all(tasks);
+      return ok(tasks.length);
+    },
+    peekMessages: () =>
+      Array.from(messages.values())
+        .sort((left, right) => left.sequence - right.sequence)
+        .map((stored) => ({
+          ...toMessage(stored),
+          availableAt: new Date(stored.availableAt).toISOString(),
+          leased: stored.leaseToken !== undefined && stored.availableAt > clock.now().getTime(),
+        })),
+    peekDeadLetters: () => deadLetters.map((deadLetter) => clone(deadLetter)),
+    close: async () => {
+      if (consumer) {
+        await closeConsumer(consumer);
+      }
+    },
+  };
+};
@@ -0,0 +1,232 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  err,
+  matchesWebhookEventType,
+  ok,
+  type CatalystError,
+  type CreateWebhookSubscriptionInput,
+  type ListWebhookSubscriptionsOptions,
+  type Result,
+  type RotateWebhookSecretInput,
+  type UpdateWebhookSubscriptionInput,
+  type WebhookDeliveryOrdering,
+  type WebhookPreviousSecret,
+  type WebhookRetryPolicy,
+  type WebhookSubscriptionFilters,
+  type WebhookSubscriptionRecord,
+  type WebhookSubscriptionStorePort,
+} from "@catalyst-auth/contracts";
+
+interface Clock {
+  now(): Date;
+}
+
+type IdFactory = () => string;
+
+export interface MemoryWebhookSubscriptionStoreOptions {
+  readonly clock?: Clock;
+  readonly idFactory?: IdFactory;
+  readonly initialSubscriptions?: ReadonlyArray<WebhookSubscriptionRecord>;
+}
+
+interface StoredSubscription {
+  id: string;
+  orgId?: string;
+  eventTypes: string[];
+  filters?: WebhookSubscriptionFilters;
+  ordering?: WebhookDeliveryOrdering;
+  targetUrl: string;
+  secret: string;
+  previousSecret?: WebhookPreviousSecret;
+  headers: Record<string, string>;
+  retryPolicy?: WebhookRetryPolicy;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  metadata?: Record<string, unknown>;
+}
+
+const defaultClock: Clock = {
+  now: () => new Date(),
+};
+
+const defaultIdFactory: IdFactory = () => randomUUID();
+
+const clone = <T>(value: T): T => (value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T));
+
+const dedupe = (values: ReadonlyArray<string>): string[] => Array.from(new Set(values));
+
+const createError = (code: string, message: string, details?: Record<string, unknown>): CatalystError => ({
+  code,
+  message,
+  details,
+});
+
+/** Mirrors the Postgres store: an expired previous secret is no longer reported. */
+const resolvePreviousSecret = (
+  previous: WebhookPreviousSecret | undefined,
+  now: Date,
+): WebhookPreviousSecret | undefined =>
+  previous && Date.parse(previous.expiresAt) > now.getTime() ? { ...previous } : undefined;
+
+const toRecord = (subscription: StoredSubscription, now: Date): WebhookSubscriptionRecord => ({
+  id: subscription.id,
+  orgId: subscription.orgId,
+  eventTypes: [...subscription.eventTypes],
+  filters: clone(subscription.filters),
+  ordering: clone(subscription.ordering),
+  targetUrl: subscription.targetUrl,
+  secret: subscription.secret,
+  previousSecret: resolvePreviousSecret(subscription.previousSecret, now),
+  headers: { ...subscription.headers },
+  retryPolicy: clone(subscription.retryPolicy),
+  active: subscription.active,
+  createdAt: subscription.createdAt,
+  updatedAt: subscription.updatedAt,
+  metadata: clone(subscription.metadata),
+});
+
+const toStored = (subscription: WebhookSubscriptionRecord): StoredSubscription => ({
+  ...clone(subscription),
+  eventTypes: [...subscription.eventTypes],
+});
+
+const eventTypesRequired = (): CatalystError =>
+  createError("webhook.memory.event_types_required", "Webhook subscriptions require at least one event type.");
+
+export class MemoryWebhookSubscriptionStore implements WebhookSubscriptionStorePort {
+  private readonly clock: Clock;
+  private readonly idFactory: IdFactory;
+  private readonly subscriptions = new Map<string, StoredSubscription>();
+
+  constructor(options: MemoryWebhookSubscriptionStoreOptions = {}) {
+    this.clock = options.clock ?? defaultClock;
+    this.idFactory = options.idFactory ?? defaultIdFactory;
+
+    for (const subscription of options.initialSubscriptions ?? []) {
+      if (this.subscriptions.has(subscription.id)) {
+        throw new Error(`Duplicate subscription id in initialSubscriptions: ${subscription.id}`);
+      }
+      this.subscriptions.set(subscription.id, toStored(subscription));
+    }
+  }
+
+  async createSubscription(
+    input: CreateWebhookSubscriptionInput,
+  ): Promise<Result<WebhookSubscriptionRecord, CatalystError>> {
+    const eventTypes = dedupe(input.eventTypes);
+    if (eventTypes.length === 0) {
+      return err(eventTypesRequired());
+    }
+
+    const id = input.id ?? this.idFactory();
+    if (this.subscriptions.has(id)) {
+      return err(createError("webhook.memory.duplicate_id", "A webhook subscription with this id already exists.", { id }));
+    }
+
+    const now = this.clock.now();
+    const createdAt = input.createdAt ?? now.toISOString();
+    const stored: StoredSubscription = {
+      id,
+      orgId: input.orgId,
+      eventTypes,
+      filters: clone(input.filters),
+      ordering: clone(input.ordering),
+      targetUrl: input.targetUrl,
+      secret: input.secret,
+      headers: { ...input.headers },
+      retryPolicy: clone(input.retryPolicy),
+      active: input.active ?? true,
+      createdAt,
+      updatedAt: input.updatedAt ?? createdAt,
+      metadata: clone(input.metadata),
+    };
+    this.subscriptions.set(id, stored);
+    return ok(toRecord(stored, now));
+  }
+
+  async updateSubscription(
+    id: string,
+    input: UpdateWebhookSubscriptionInput,
+  ): Promise<Result<WebhookSubscriptionRecord, CatalystError>> {
+    const stored = this.subscriptions.get(id);
+    if (!stored) {
+      return err(createError("webhook.memory.not_found", "Webhook subscription not found.", { id }));
+    }
+
+    const eventTypes = input.eventTypes ? dedupe(input.eventTypes) : stored.eventTypes;
+    if (eventTypes.length === 0) {
+      return err(eventTypesRequired());
+    }
+
+    const now = this.clock.now();
+    const updated: StoredSubscription = {
+      ...stored,
+      orgId: input.orgId === undefined ? stored.orgId : input.orgId ?? undefined,
+      eventTypes,
+      filters: input.filters === undefined ? stored.filters : clone(input.filters ?? undefined),
+      ordering: input.ordering === undefined ? stored.ordering : clone(input.ordering ?? undefined),
+      targetUrl: input.targetUrl ?? stored.targetUrl,
+      secret: input.secret ?? stored.secret,
+      headers: input.headers === undefined ? stored.headers : { ...input.headers },
+      retryPolicy: input.retryPolicy === undefined ? stored.retryPolicy : clone(input.retryPolicy ?? undefined),
+      metadata: input.metadata === undefined ? stored.metadata : clone(input.metadata ?? undefined),
+      active: input.active ?? stored.active,
+      updatedAt: input.updatedAt ?? now.toISOString(),
+    };
+    this.subscriptions.set(id, updated);
+    return ok(toRecord(updated, now));
+  }
+
+  async getSubscription(id: string): Promise<Result<WebhookSubscriptionRecord | undefined, CatalystError>> {
+    const stored = this.subscriptions.get(id);
+    return ok(stored ? toRecord(stored, this.clock.now()) : undefined);
+  }
+
+  async listSubscriptions(
+    options: ListWebhookSubscriptionsOptions = {},
+  ): Promise<Result<ReadonlyArray<WebhookSubscriptionRecord>, CatalystError>> {
+    const now = this.clock.now();
+    const eventType = options.eventType;
+    const matches = Array.from(this.subscriptions.values()).filter(
+      (subscription) =>
+        (options.orgId === undefined || subscription.orgId === (options.orgId ?? undefined)) &&
+        (options.active === undefined || subscription.active === options.active) &&
+        (!eventType || subscription.eventTypes.some((pattern) => matchesWebhookEventType(pattern, eventType))),
+    );
+    matches.sort(
+      (left, right) => Date.parse(left.createdAt) - Date.parse(right.createdAt) || left.id.localeCompare(right.id),
+    );
+    return ok(matches.map((subscription) => toRecord(subscription, now)));
+  }
+
+  async deleteSubscription(id: string): Promise<Result<void, CatalystError>> {
+    this.subscriptions.delete(id);
+    return ok(undefined);
+  }
+
+  async rotateSecret(
+    id: string,
+    input: RotateWebhookSecretInput,
+  ): Promise<Result<WebhookSubscriptionRecord, CatalystError>> {
+    const stored = this.subscriptions.get(id);
+    if (!stored) {
+      return err(createError("webhook.memory.not_found", "Webhook subscription not found.", { id }));
+    }
+
+    const now = this.clock.now();
+    const rotated: StoredSubscription = {
+      ...stored,
+      secret: input.secret,
+      previousSecret: { secret: stored.secret, expiresAt: input.previousSecretExpiresAt },
+      updatedAt: input.rotatedAt ?? now.toISOString(),
+    };
+    this.subscriptions.set(id, rotated);
+    return ok(toRecord(rotated, now));
+  }
+}
+
+export const createMemoryWebhookSubscriptionStore = (
+  options: MemoryWebhookSubscriptionStoreOptions = {},
+): MemoryWebhookSubscriptionStore => new MemoryWebhookSubscriptionStore(options);
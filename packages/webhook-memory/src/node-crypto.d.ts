@@ -5,4 +5,5 @@ declare module "node:crypto" {
   }
 
   export function createHmac(algorithm: string, key: string | ArrayBuffer | ArrayBufferView): Hmac;
+  export function randomUUID(): string;
 }
@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createMemoryWebhookQueue } from "../dist/index.js";
+
+const unwrapOk = (result) => {
+  assert.equal(result.ok, true, `Expected ok result but received error ${JSON.stringify(result.error)}`);
+  return result.value;
+};
+
+const createFakeClock = (isoTimestamp) => {
+  let current = new Date(isoTimestamp).getTime();
+  return {
+    now: () => new Date(current),
+    advance(seconds) {
+      current += seconds * 1000;
+    },
+  };
+};
+
+const createQueue = () => {
+  const clock = createFakeClock("2024-06-01T12:00:00.000Z");
+  let nextId = 1;
+  const queue = createMemoryWebhookQueue({ clock, idFactory: () => `job-${nextId++}`, autoPoll: false });
+  return { queue, clock };
+};
+
+describe("MemoryWebhookQueue", () => {
+  it("delays messages, retries them with a new delay, and dead-letters them", async () => {
+    const { queue, clock } = createQueue();
+    unwrapOk(await queue.enqueue({ deliveryId: "del-1" }, { delaySeconds: 10, metadata: { source: "relay" } }));
+
+    const outcomes = [
+      (handle) => handle.retry({ delaySeconds: 30, nextAttempt: 2, metadata: { reason: "HTTP 500" } }),
+      (handle) => handle.deadLetter({ reason: "HTTP 500", attempts: 2, deadLetterUri: "https://dlq.example.com" }),
+    ];
+    const seen = [];
+    unwrapOk(
+      await queue.consume(async (handle) => {
+        seen.push(handle.message);
+        unwrapOk(await outcomes.shift()(handle));
+      }),
+    );
+
+    assert.equal(unwrapOk(await queue.pollOnce()), 0);
+    clock.advance(10);
+    assert.equal(unwrapOk(await queue.pollOnce()), 1);
+    assert.deepEqual(seen[0], {
+      id: "job-1",
+      deliveryId: "del-1",
+      attempt: 1,
+      enqueuedAt: "2024-06-01T12:00:00.000Z",
+      metadata: { source: "relay" },
+      orderingKey: undefined,
+    });
+    assert.equal(queue.peekMessages()[0].availableAt, "2024-06-01T12:00:40.000Z");
+
+    clock.advance(29);
+    assert.equal(unwrapOk(await queue.pollOnce()), 0);
+    clock.advance(1);
+    assert.equal(unwrapOk(await queue.pollOnce()), 1);
+    assert.equal(seen[1].attempt, 2);
+    assert.deepEqual(seen[1].metadata, { source: "relay", reason: "HTTP 500" });
+
+    assert.deepEqual(queue.peekMessages(), []);
+    assert.deepEqual(queue.peekDeadLetters(), [
+      {
+        message: {
+          id: "job-1",
+          deliveryId: "del-1",
+          attempt: 2,
+          enqueuedAt: "2024-06-01T12:00:10.000Z",
+          metadata: { source: "relay", reason: "HTTP 500" },
+        },
+        reason: "HTTP 500",
+        attempts: 2,
+        deadLetterUri: "https://dlq.example.com",
+        deadLetteredAt: "2024-06-01T12:00:40.000Z",
+      },
+    ]);
+    await queue.close();
+  });
+
+  it("hands out unsettled messages again after the visibility timeout and rejects the stale lease", async () => {
+    const { queue, clock } = createQueue();
+    unwrapOk(await queue.enqueue({ deliveryId: "del-1" }));
+
+    const handles = [];
+    unwrapOk(
+      await queue.consume(
+        async (handle) => {
+          handles.push(handle);
+        },
+        { concurrency: 2, visibilityTimeoutSeconds: 60 },
+      ),
+    );
+
+    assert.equal(unwrapOk(await queue.pollOnce()), 1);
+    assert.equal(queue.peekMessages()[0].leased, true);
+    clock.advance(59);
+    assert.equal(unwrapOk(await queue.pollOnce()), 0);
+    clock.advance(1);
+    assert.equal(unwrapOk(await queue.pollOnce()), 1);
+
+    const stale = await handles[0].ack();
+    assert.equal(stale.ok, false);
+    assert.equal(stale.error.code, "webhook.queue.memory.lease_lost");
+    unwrapOk(await handles[1].ack());
+    assert.deepEqual(queue.peekMessages(), []);
+    await queue.close();
+  });
+
+  it("limits claims to the free concurrency and allows a single consumer", async () => {
+    const { queue } = createQueue();
+    for (const deliveryId of ["del-1", "del-2", "del-3"]) {
+      unwrapOk(await queue.enqueue({ deliveryId }));
+    }
+    const seen = [];
+    unwrapOk(
+      await queue.consume(
+        async (handle) => {
+          seen.push(handle.message.deliveryId);
+          unwrapOk(await handle.ack());
+        },
+        { concurrency: 2 },
+      ),
+    );
+
+    assert.equal(unwrapOk(await queue.pollOnce()), 2);
+    assert.equal(unwrapOk(await queue.pollOnce()), 1);
+    assert.deepEqual(seen, ["del-1", "del-2", "del-3"]);
+
+    const second = await queue.consume(async () => undefined);
+    assert.equal(second.ok, false);
+    assert.equal(second.error.code, "webhook.queue.memory.already_consuming");
+    await queue.close();
+  });
+
+  it("hands out messages sharing an ordering key one at a time, keeping retries in place", async () => {
+    const { queue, clock } = createQueue();
+    unwrapOk(await queue.enqueue({ deliveryId: "del-a", orderingKey: "sub-1:user-1" }));
+    unwrapOk(await queue.enqueue({ deliveryId: "del-b", orderingKey: "sub-1:user-1" }));
+    unwrapOk(await queue.enqueue({ deliveryId: "del-c", orderingKey: "sub-1:user-2" }));
+
+    let failFirst = true;
+    const seen = [];
+    unwrapOk(
+      await queue.consume(
+        async (handle) => {
+          seen.push(`${handle.message.deliveryId}#${handle.message.attempt}`);
+          if (handle.message.deliveryId === "del-a" && failFirst) {
+            failFirst = false;
+            unwrapOk(await handle.retry({ delaySeconds: 30, nextAttempt: 2 }));
+            return;
+          }
+          unwrapOk(await handle.ack());
+        },
+        { concurrency: 5 },
+      ),
+    );
+
+    assert.equal(unwrapOk(await queue.pollOnce()), 2);
+    clock.advance(30);
+    assert.equal(unwrapOk(await queue.pollOnce()), 1);
+    assert.equal(unwrapOk(await queue.pollOnce()), 1);
+    assert.deepEqual(seen, ["del-a#1", "del-c#1", "del-a#2", "del-b#1"]);
+    await queue.close();
+  });
+
+  it("dispatches automatically when messages become due", async () => {
+    const queue = createMemoryWebhookQueue();
+    const delivered = [];
+    let resolveSecond;
+    const secondDelivered = new Promise((resolve) => {
+      resolveSecond = resolve;
+    });
+    unwrapOk(
+      await queue.consume(async (handle) => {
+        delivered.push(handle.message.deliveryId);
+        unwrapOk(await handle.ack());
+        if (delivered.length === 2) {
+          resolveSecond();
+        }
+      }),
+    );
+
+    unwrapOk(await queue.enqueue({ deliveryId: "del-1" }, { delaySeconds: 0.05 }));
+    unwrapOk(await queue.enqueue({ deliveryId: "del-2" }));
+    await secondDelivered;
+
+    assert.deepEqual(delivered, ["del-2", "del-1"]);
+    await queue.close();
+  });
+});
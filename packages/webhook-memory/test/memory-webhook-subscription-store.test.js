@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createMemoryWebhookSubscriptionStore } from "../dist/index.js";
+
+const createClock = (isoTimestamp) => {
+  let current = new Date(isoTimestamp).getTime();
+  return {
+    now: () => new Date(current),
+    set: (next) => {
+      current = new Date(next).getTime();
+    },
+  };
+};
+
+describe("MemoryWebhookSubscriptionStore", () => {
+  it("lists subscriptions by org, activity and wildcard event type", async () => {
+    const clock = createClock("2024-06-01T00:00:00.000Z");
+    let counter = 0;
+    const store = createMemoryWebhookSubscriptionStore({ clock, idFactory: () => `sub-${++counter}` });
+
+    await store.createSubscription({ orgId: "org-1", eventTypes: ["key.*"], targetUrl: "https://a.test", secret: "a" });
+    await store.createSubscription({ eventTypes: ["key.issued"], targetUrl: "https://b.test", secret: "b" });
+    await store.createSubscription({
+      orgId: "org-1",
+      eventTypes: ["session.ended"],
+      targetUrl: "https://c.test",
+      secret: "c",
+      active: false,
+    });
+
+    const keys = await store.listSubscriptions({ eventType: "key.issued" });
+    assert.deepEqual(keys.value.map((subscription) => subscription.id), ["sub-1", "sub-2"]);
+
+    const orgActive = await store.listSubscriptions({ orgId: "org-1", active: true });
+    assert.deepEqual(orgActive.value.map((subscription) => subscription.id), ["sub-1"]);
+
+    const empty = await store.createSubscription({ eventTypes: [], targetUrl: "https://d.test", secret: "d" });
+    assert.equal(empty.error.code, "webhook.memory.event_types_required");
+  });
+
+  it("keeps the previous secret until the rotation overlap expires", async () => {
+    const clock = createClock("2024-06-01T00:00:00.000Z");
+    const store = createMemoryWebhookSubscriptionStore({ clock });
+    const created = await store.createSubscription({
+      id: "sub-rotate",
+      eventTypes: ["user.created"],
+      targetUrl: "https://example.com/webhook",
+      secret: "secret-1",
+    });
+    assert.equal(created.value.previousSecret, undefined);
+
+    const rotated = await store.rotateSecret("sub-rotate", {
+      secret: "secret-2",
+      previousSecretExpiresAt: "2024-06-02T00:00:00.000Z",
+    });
+    assert.equal(rotated.value.secret, "secret-2");
+    assert.deepEqual(rotated.value.previousSecret, { secret: "secret-1", expiresAt: "2024-06-02T00:00:00.000Z" });
+
+    clock.set("2024-06-02T00:00:00.000Z");
+    const expired = await store.getSubscription("sub-rotate");
+    assert.equal(expired.value.previousSecret, undefined);
+
+    const missing = await store.rotateSecret("missing", {
+      secret: "secret-3",
+      previousSecretExpiresAt: "2024-06-03T00:00:00.000Z",
+    });
+    assert.equal(missing.error.code, "webhook.memory.not_found");
+  });
+});
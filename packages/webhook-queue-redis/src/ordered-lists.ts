@@ -0,0 +1,158 @@
+/** A message waiting its turn in an ordering key's list. The head of the list is the only scheduled job. */
+export interface RedisOrderedEntry {
+  readonly deliveryId: string;
+  readonly attempt: number;
+  readonly enqueuedAt: string;
+  readonly metadata?: Record<string, unknown>;
+  readonly orderingKey: string;
+  readonly orderingEntryId: string;
+  /** Epoch milliseconds before which the entry must not run, from the enqueue or retry delay. */
+  readonly notBefore: number;
+}
+
+/** Redis commands the ordering lists need, provided by the ioredis connection BullMQ manages. */
+export interface RedisOrderedListClient {
+  eval(script: string, numberOfKeys: number, ...args: string[]): Promise<unknown>;
+  smembers(key: string): Promise<string[]>;
+}
+
+/** Queues the job that delivers an ordering key's head. */
+export interface RedisOrderedJobScheduler {
+  /** Adds the job; adding an id that is still queued or running is a no-op. */
+  add(entry: RedisOrderedEntry, jobId: string, delay: number): Promise<void>;
+  /**
+   * Whether the job is waiting, delayed or running. A finished job that was kept (a failed one) is removed so its
+   * id can be added again.
+   */
+  isPending(jobId: string): Promise<boolean>;
+}
+
+export interface RedisOrderedListsOptions {
+  readonly client: () => Promise<RedisOrderedListClient>;
+  readonly scheduler: RedisOrderedJobScheduler;
+  /** Prefix of the Redis keys, e.g. `bull:webhook-deliveries`. */
+  readonly keyPrefix: string;
+  readonly now?: () => number;
+}
+
+export interface RedisOrderedLists {
+  /** Appends the entry to its key's list and schedules whichever entry heads the list. */
+  append(entry: RedisOrderedEntry): Promise<void>;
+  /**
+   * Replaces the head with its next attempt and schedules it, so the retry keeps its place. Returns `false` when
+   * the entry no longer heads its key, e.g. for a duplicate job of an entry that was already released.
+   */
+  retry(entry: RedisOrderedEntry): Promise<boolean>;
+  /** Removes the settled head and schedules the entry behind it. */
+  release(orderingKey: string, orderingEntryId: string): Promise<void>;
+  /**
+   * Schedules every head whose job is missing, which happens when a process stops between updating a list and
+   * queueing its job. Returns the number of heads scheduled.
+   */
+  recover(): Promise<number>;
+}
+
+/**
+ * Job ids derive from the entry and attempt, so scheduling the same head twice adds a single job. BullMQ only
+ * accepts ids containing `:` when they have exactly three parts.
+ */
+export const redisOrderedJobId = (entry: RedisOrderedEntry): string =>
+  `${entry.deliveryId}:${entry.attempt}:ordered-${entry.orderingEntryId}`;
+
+// Each key has a list of entry ids (KEYS[1]) and a hash of entry bodies by id (KEYS[2]); KEYS[3] is the set of
+// keys with waiting entries that `recover` walks. The scripts return the head's body, or false when it is empty.
+
+const APPEND_ENTRY_SCRIPT = `
+redis.call("RPUSH", KEYS[1], ARGV[1])
+redis.call("HSET", KEYS[2], ARGV[1], ARGV[2])
+redis.call("SADD", KEYS[3], ARGV[3])
+return redis.call("HGET", KEYS[2], redis.call("LINDEX", KEYS[1], 0))
+`;
+
+const RETRY_ENTRY_SCRIPT = `
+if redis.call("LINDEX", KEYS[1], 0) ~= ARGV[1] then
+  return false
+end
+redis.call("HSET", KEYS[2], ARGV[1], ARGV[2])
+return ARGV[2]
+`;
+
+const RELEASE_ENTRY_SCRIPT = `
+if redis.call("LINDEX", KEYS[1], 0) ~= ARGV[1] then
+  return false
+end
+redis.call("LPOP", KEYS[1])
+redis.call("HDEL", KEYS[2], ARGV[1])
+local head = redis.call("LINDEX", KEYS[1], 0)
+if not head then
+  redis.call("SREM", KEYS[3], ARGV[2])
+  return false
+end
+return redis.call("HGET", KEYS[2], head)
+`;
+
+const HEAD_ENTRY_SCRIPT = `
+local head = redis.call("LINDEX", KEYS[1], 0)
+if not head then
+  redis.call("SREM", KEYS[3], ARGV[1])
+  return false
+end
+return redis.call("HGET", KEYS[2], head)
+`;
+
+export const createRedisOrderedLists = (options: RedisOrderedListsOptions): RedisOrderedLists => {
+  const now = options.now ?? Date.now;
+  const keysIndex = `${options.keyPrefix}:ordered-keys`;
+
+  const keysFor = (orderingKey: string): string[] => [
+    `${options.keyPrefix}:ordered:${orderingKey}`,
+    `${options.keyPrefix}:ordered-entries:${orderingKey}`,
+    keysIndex,
+  ];
+
+  const run = async (script: string, orderingKey: string, ...args: string[]): Promise<RedisOrderedEntry | undefined> => {
+    const client = await options.client();
+    const head = await client.eval(script, 3, ...keysFor(orderingKey), ...args);
+    return typeof head === "string" ? (JSON.parse(head) as RedisOrderedEntry) : undefined;
+  };
+
+  const schedule = async (entry: RedisOrderedEntry): Promise<void> => {
+    await options.scheduler.add(entry, redisOrderedJobId(entry), Math.max(0, entry.notBefore - now()));
+  };
+
+  return {
+    append: async (entry) => {
+      const head = await run(APPEND_ENTRY_SCRIPT, entry.orderingKey, entry.orderingEntryId, JSON.stringify(entry), entry.orderingKey);
+      // Scheduling the head on every append also revives a key whose head job was lost.
+      if (head) {
+        await schedule(head);
+      }
+    },
+    retry: async (entry) => {
+      const head = await run(RETRY_ENTRY_SCRIPT, entry.orderingKey, entry.orderingEntryId, JSON.stringify(entry));
+      if (!head) {
+        return false;
+      }
+      await schedule(head);
+      return true;
+    },
+    release: async (orderingKey, orderingEntryId) => {
+      const next = await run(RELEASE_ENTRY_SCRIPT, orderingKey, orderingEntryId, orderingKey);
+      if (next) {
+        await schedule(next);
+      }
+    },
+    recover: async () => {
+      const client = await options.client();
+      let scheduled = 0;
+      for (const orderingKey of await client.smembers(keysIndex)) {
+        const head = await run(HEAD_ENTRY_SCRIPT, orderingKey, orderingKey);
+        if (head && !(await options.scheduler.isPending(redisOrderedJobId(head)))) {
+          await schedule(head);
+          scheduled += 1;
+        }
+      }
+      return scheduled;
+    },
+  };
+};
@@ -23,11 +23,20 @@ import {
   type WebhookQueueSubscription,
 } from "@catalyst-auth/contracts";
 
+import {
+  createRedisOrderedLists,
+  type RedisOrderedEntry,
+  type RedisOrderedListClient,
+} from "./ordered-lists.js";
+
 interface RedisWebhookQueueJobData {
   readonly deliveryId: string;
   readonly attempt: number;
   readonly enqueuedAt: string;
   readonly metadata?: Record<string, unknown>;
+  readonly orderingKey?: string;
+  /** Identifies the job's entry in its ordering key's list; settling the job releases the entry. */
+  readonly orderingEntryId?: string;
 }
 
 interface RedisWebhookQueueDeadLetterData extends RedisWebhookQueueJobData {
@@ -66,10 +75,14 @@ export interface RedisWebhookQueueOptions {
   readonly config?: Partial<RedisWebhookQueueConfig>;
   readonly telemetry?: RedisWebhookQueueTelemetry;
   readonly defaultJobOptions?: JobsOptions;
+  /** How often a consumer reschedules ordering keys whose head job was lost. Defaults to 60 seconds. */
+  readonly orderedRecoveryIntervalSeconds?: number;
 }
 
 export interface RedisWebhookQueue extends WebhookQueuePort {
   readonly config: RedisWebhookQueueConfig;
+  /** Reschedules ordering keys whose head job was lost and resolves with the number rescheduled. */
+  recoverOrdered(): Promise<Result<number, CatalystError>>;
   close(): Promise<void>;
 }
 
@@ -99,6 +112,15 @@ const toDelayMilliseconds = (delaySeconds: number | undefined): number => {
 
 const nowIso = (): string => new Date().toISOString();
 
+const toOrderedJobData = (entry: RedisOrderedEntry): RedisWebhookQueueJobData => ({
+  deliveryId: entry.deliveryId,
+  attempt: entry.attempt,
+  enqueuedAt: entry.enqueuedAt,
+  metadata: entry.metadata,
+  orderingKey: entry.orderingKey,
+  orderingEntryId: entry.orderingEntryId,
+});
+
 export const createRedisWebhookQueue = (
   options: RedisWebhookQueueOptions = {},
 ): RedisWebhookQueue => {
@@ -133,6 +155,56 @@ export const createRedisWebhookQueue = (
 
   let worker: Worker<RedisWebhookQueueJobData> | undefined;
 
+  let recoveryTimer: ReturnType<typeof setInterval> | undefined;
+
+  const orderedLists = createRedisOrderedLists({
+    client: async () => (await queue.client) as unknown as RedisOrderedListClient,
+    keyPrefix: `${config.prefix ?? "bull"}:${config.queueName}`,
+    scheduler: {
+      add: async (entry, jobId, delay) => {
+        await queue.add("webhook-delivery", toOrderedJobData(entry), { delay, jobId });
+      },
+      isPending: async (jobId) => {
+        const job = await queue.getJob(jobId);
+        if (!job) {
+          return false;
+        }
+        const state = await job.getState();
+        if (state === "completed" || state === "failed") {
+          await job.remove();
+          return false;
+        }
+        return state !== "unknown";
+      },
+    },
+  });
+
+  const releaseOrdered = async (jobData: RedisWebhookQueueJobData): Promise<void> => {
+    if (jobData.orderingKey && jobData.orderingEntryId) {
+      await orderedLists.release(jobData.orderingKey, jobData.orderingEntryId);
+    }
+  };
+
+  const recoverOrdered = async (): Promise<Result<number, CatalystError>> => {
+    try {
+      return ok(await orderedLists.recover());
+    } catch (error) {
+      const recoverError = createError("webhook.queue.redis.recover_failed", "Failed to recover ordered deliveries.", {
+        queue: config.queueName,
+        cause: error instanceof Error ? error.message : String(error),
+      });
+      telemetry.error?.(recoverError, { operation: "recover" });
+      return err(recoverError);
+    }
+  };
+
+  const stopRecovery = (): void => {
+    if (recoveryTimer !== undefined) {
+      clearInterval(recoveryTimer);
+      recoveryTimer = undefined;
+    }
+  };
+
   const enqueue: WebhookQueuePort["enqueue"] = async (delivery, enqueueOptions) => {
     const attempt = delivery.attempt ?? 1;
     const jobData: RedisWebhookQueueJobData = {
@@ -145,10 +217,19 @@ export const createRedisWebhookQueue = (
     const delay = toDelayMilliseconds(enqueueOptions?.delaySeconds);
 
     try {
-      await queue.add("webhook-delivery", jobData, {
-        delay,
-        jobId: `${delivery.deliveryId}:${attempt}:${randomUUID()}`,
-      });
+      if (delivery.orderingKey) {
+        await orderedLists.append({
+          ...jobData,
+          orderingKey: delivery.orderingKey,
+          orderingEntryId: randomUUID(),
+          notBefore: Date.now() + delay,
+        });
+      } else {
+        await queue.add("webhook-delivery", jobData, {
+          delay,
+          jobId: `${delivery.deliveryId}:${attempt}:${randomUUID()}`,
+        });
+      }
       telemetry.enqueue?.({ deliveryId: delivery.deliveryId, attempt, delaySeconds: delay / 1000 });
       return ok(undefined);
     } catch (error) {
@@ -220,12 +301,13 @@ export const createRedisWebhookQueue = (
             attempt: job.data.attempt,
             enqueuedAt: job.data.enqueuedAt,
             metadata: job.data.metadata,
+            orderingKey: job.data.orderingKey,
           };
 
           const handle: WebhookQueueMessageHandle = {
             message,
             ack: () =>
-              finish(async () => undefined, () => {
+              finish(() => releaseOrdered(job.data), () => {
                 telemetry.ack?.({ deliveryId: message.deliveryId, attempt: message.attempt });
               }),
             retry: (retryOptions) =>
@@ -239,8 +321,19 @@ export const createRedisWebhookQueue = (
                     ...retryOptions.metadata,
                   },
                 };
+                const delay = toDelayMilliseconds(retryOptions.delaySeconds);
+                if (job.data.orderingKey && job.data.orderingEntryId) {
+                  // A retry keeps the head of its ordering key, holding later messages back.
+                  await orderedLists.retry({
+                    ...retryData,
+                    orderingKey: job.data.orderingKey,
+                    orderingEntryId: job.data.orderingEntryId,
+                    notBefore: Date.now() + delay,
+                  });
+                  return;
+                }
                 await queue.add("webhook-delivery", retryData, {
-                  delay: toDelayMilliseconds(retryOptions.delaySeconds),
+                  delay,
                   jobId: `${job.data.deliveryId}:${retryOptions.nextAttempt}:${randomUUID()}`,
                 });
               }, () => {
@@ -268,6 +361,7 @@ export const createRedisWebhookQueue = (
                 await deadLetterQueue.add("webhook-delivery-dead-letter", payload, {
                   jobId: `${job.data.deliveryId}:dlq:${randomUUID()}`,
                 });
+                await releaseOrdered(job.data);
               }, () => {
                 telemetry.deadLetter?.({
                   deliveryId: message.deliveryId,
@@ -314,8 +408,14 @@ export const createRedisWebhookQueue = (
       telemetry.error?.(failure, { operation: "worker" });
     });
 
+    recoveryTimer = setInterval(
+      () => void recoverOrdered(),
+      toDelayMilliseconds(options.orderedRecoveryIntervalSeconds ?? 60),
+    );
+
     return ok({
       close: async () => {
+        stopRecovery();
         if (worker) {
           const current = worker;
           worker = undefined;
@@ -326,6 +426,7 @@ export const createRedisWebhookQueue = (
   };
 
   const close = async (): Promise<void> => {
+    stopRecovery();
     if (worker) {
       const current = worker;
       worker = undefined;
@@ -340,6 +441,7 @@ export const createRedisWebhookQueue = (
     config,
     enqueue,
     consume,
+    recoverOrdered,
     close,
   } satisfies RedisWebhookQueue;
 };
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import RedisMock from "ioredis-mock";
+
+import { createRedisOrderedLists, redisOrderedJobId } from "../dist/ordered-lists.js";
+
+const T0 = Date.parse("2024-01-01T00:00:00.000Z");
+
+/** Mirrors BullMQ: adding an id that is still queued is a no-op, and a finished job's id can be reused. */
+const createFakeScheduler = () => {
+  const jobs = new Map();
+  let failNextAdd = false;
+  return {
+    jobs,
+    failNextAdd() {
+      failNextAdd = true;
+    },
+    queued: () => [...jobs.values()].filter((job) => job.state === "queued").map((job) => job.id),
+    finish(id) {
+      jobs.get(id).state = "completed";
+    },
+    async add(entry, jobId, delay) {
+      if (failNextAdd) {
+        failNextAdd = false;
+        throw new Error("connection lost");
+      }
+      if (jobs.get(jobId)?.state === "queued") {
+        return;
+      }
+      jobs.set(jobId, { id: jobId, entry, delay, state: "queued" });
+    },
+    async isPending(jobId) {
+      return jobs.get(jobId)?.state === "queued";
+    },
+  };
+};
+
+let nextPrefix = 1;
+
+const createLists = () => {
+  const redis = new RedisMock();
+  const scheduler = createFakeScheduler();
+  const keyPrefix = `test:${nextPrefix++}`;
+  const lists = createRedisOrderedLists({ client: async () => redis, scheduler, keyPrefix, now: () => T0 });
+  return { lists, scheduler, redis, keyPrefix };
+};
+
+const entry = (deliveryId, orderingKey, overrides = {}) => ({
+  deliveryId,
+  attempt: 1,
+  enqueuedAt: new Date(T0).toISOString(),
+  orderingKey,
+  orderingEntryId: `entry-${deliveryId}`,
+  notBefore: T0,
+  ...overrides,
+});
+
+const jobIdOf = (deliveryId, attempt = 1) => redisOrderedJobId(entry(deliveryId, "", { attempt }));
+
+describe("RedisOrderedLists", () => {
+  it("schedules one message per key and keeps retries at the head", async () => {
+    const { lists, scheduler, redis, keyPrefix } = createLists();
+    await lists.append(entry("a", "user-1", { notBefore: T0 + 5_000 }));
+    await lists.append(entry("b", "user-1"));
+    await lists.append(entry("c", "user-2"));
+
+    assert.deepEqual(scheduler.queued(), [jobIdOf("a"), jobIdOf("c")]);
+    assert.equal(scheduler.jobs.get(jobIdOf("a")).delay, 5_000);
+
+    scheduler.finish(jobIdOf("a"));
+    assert.equal(await lists.retry(entry("a", "user-1", { attempt: 2, notBefore: T0 + 30_000 })), true);
+    assert.deepEqual(scheduler.queued(), [jobIdOf("c"), jobIdOf("a", 2)]);
+    assert.equal(scheduler.jobs.get(jobIdOf("a", 2)).entry.attempt, 2);
+
+    scheduler.finish(jobIdOf("a", 2));
+    await lists.release("user-1", "entry-a");
+    assert.deepEqual(scheduler.queued(), [jobIdOf("c"), jobIdOf("b")]);
+
+    scheduler.finish(jobIdOf("b"));
+    await lists.release("user-1", "entry-b");
+    scheduler.finish(jobIdOf("c"));
+    await lists.release("user-2", "entry-c");
+    assert.deepEqual(scheduler.queued(), []);
+    assert.deepEqual(await redis.smembers(`${keyPrefix}:ordered-keys`), []);
+    assert.deepEqual(await redis.hgetall(`${keyPrefix}:ordered-entries:user-1`), {});
+  });
+
+  it("ignores settles from entries that no longer head their key", async () => {
+    const { lists, scheduler } = createLists();
+    await lists.append(entry("a", "user-1"));
+    await lists.append(entry("b", "user-1"));
+
+    await lists.release("user-1", "entry-b");
+    assert.equal(await lists.retry(entry("b", "user-1", { attempt: 2 })), false);
+    assert.deepEqual(scheduler.queued(), [jobIdOf("a")]);
+
+    scheduler.finish(jobIdOf("a"));
+    await lists.release("user-1", "entry-a");
+    await lists.release("user-1", "entry-a");
+    assert.deepEqual(scheduler.queued(), [jobIdOf("b")]);
+  });
+
+  it("reschedules a head whose job was lost when the next message arrives", async () => {
+    const { lists, scheduler } = createLists();
+    scheduler.failNextAdd();
+    await assert.rejects(lists.append(entry("a", "user-1")), /connection lost/);
+    assert.deepEqual(scheduler.queued(), []);
+
+    await lists.append(entry("b", "user-1"));
+    assert.deepEqual(scheduler.queued(), [jobIdOf("a")]);
+  });
+
+  it("recovers keys whose head job was lost without waiting for new messages", async () => {
+    const { lists, scheduler } = createLists();
+    await lists.append(entry("a", "user-1"));
+    await lists.append(entry("b", "user-1"));
+    await lists.append(entry("c", "user-2"));
+    await lists.append(entry("e", "user-2"));
+    await lists.append(entry("d", "user-3"));
+
+    // user-1: the head was acked but its release failed, so the job finished without popping the list.
+    scheduler.finish(jobIdOf("a"));
+    // user-2: the release popped the head but the next job was never queued.
+    scheduler.finish(jobIdOf("c"));
+    scheduler.failNextAdd();
+    await assert.rejects(lists.release("user-2", "entry-c"), /connection lost/);
+
+    assert.equal(await lists.recover(), 2);
+    assert.deepEqual(scheduler.queued().sort(), [jobIdOf("a"), jobIdOf("d"), jobIdOf("e")].sort());
+
+    scheduler.finish(jobIdOf("a"));
+    await lists.release("user-1", "entry-a");
+    assert.equal(await scheduler.isPending(jobIdOf("b")), true);
+    assert.equal(await lists.recover(), 0);
+  });
+});
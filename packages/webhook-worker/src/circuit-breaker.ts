@@ -0,0 +1,135 @@
+export type WebhookCircuitState = "closed" | "open" | "half_open";
+
+export interface WebhookCircuitBreakerOptions {
+  /** Consecutive failed attempts that open a subscription's circuit. Defaults to 5. */
+  readonly failureThreshold?: number;
+  /** Seconds an open circuit holds deliveries back before a half-open probe. Defaults to 60. */
+  readonly openSeconds?: number;
+  /** Seconds of uninterrupted failure after which the subscription is disabled. Defaults to 24 hours. */
+  readonly disableAfterSeconds?: number;
+}
+
+/** Whether a delivery to the subscription may be attempted now. */
+export type WebhookCircuitAdmission =
+  | { readonly allowed: true; readonly probe: boolean }
+  | { readonly allowed: false; readonly retryAt: Date };
+
+export interface WebhookCircuitSnapshot {
+  readonly state: WebhookCircuitState;
+  readonly consecutiveFailures: number;
+  /** When the current run of failures began. */
+  readonly failingSince?: string;
+  readonly openUntil?: string;
+}
+
+export interface WebhookCircuitFailure {
+  readonly state: WebhookCircuitState;
+  /** The outage has lasted `disableAfterSeconds`; the caller should disable the subscription. */
+  readonly sustainedOutage: boolean;
+}
+
+interface CircuitRecord {
+  state: WebhookCircuitState;
+  consecutiveFailures: number;
+  failingSince: number;
+  openUntil: number;
+  probeStartedAt?: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_OPEN_SECONDS = 60;
+const DEFAULT_DISABLE_AFTER_SECONDS = 24 * 60 * 60;
+
+const closedSnapshot: WebhookCircuitSnapshot = { state: "closed", consecutiveFailures: 0 };
+
+/**
+ * Tracks delivery health per subscription. After `failureThreshold` consecutive failures the circuit opens and
+ * deliveries are held back for `openSeconds`; the first delivery afterwards is a half-open probe whose outcome
+ * closes or reopens the circuit. State lives in memory, so each worker process tracks its own circuits.
+ */
+export class WebhookCircuitBreaker {
+  /** Seconds an open circuit holds deliveries back. */
+  readonly openSeconds: number;
+  private readonly failureThreshold: number;
+  private readonly openMs: number;
+  private readonly disableAfterMs: number;
+  private readonly circuits = new Map<string, CircuitRecord>();
+
+  constructor(options: WebhookCircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD);
+    this.openSeconds = Math.max(0, options.openSeconds ?? DEFAULT_OPEN_SECONDS);
+    this.openMs = this.openSeconds * 1000;
+    this.disableAfterMs = Math.max(0, options.disableAfterSeconds ?? DEFAULT_DISABLE_AFTER_SECONDS) * 1000;
+  }
+
+  admit(subscriptionId: string, now: Date): WebhookCircuitAdmission {
+    const circuit = this.circuits.get(subscriptionId);
+    if (!circuit || circuit.state === "closed") {
+      return { allowed: true, probe: false };
+    }
+
+    const time = now.getTime();
+    if (circuit.state === "open") {
+      if (time < circuit.openUntil) {
+        return { allowed: false, retryAt: new Date(circuit.openUntil) };
+      }
+      circuit.state = "half_open";
+      circuit.probeStartedAt = time;
+      return { allowed: true, probe: true };
+    }
+
+    // A probe that never reported back (for example a crashed attempt) is replaced after `openSeconds`.
+    if (circuit.probeStartedAt !== undefined && time < circuit.probeStartedAt + this.openMs) {
+      return { allowed: false, retryAt: new Date(circuit.probeStartedAt + this.openMs) };
+    }
+    circuit.probeStartedAt = time;
+    return { allowed: true, probe: true };
+  }
+
+  recordSuccess(subscriptionId: string): void {
+    this.circuits.delete(subscriptionId);
+  }
+
+  recordFailure(subscriptionId: string, now: Date): WebhookCircuitFailure {
+    const time = now.getTime();
+    const circuit = this.circuits.get(subscriptionId) ?? {
+      state: "closed",
+      consecutiveFailures: 0,
+      failingSince: time,
+      openUntil: 0,
+    };
+    circuit.consecutiveFailures += 1;
+    circuit.probeStartedAt = undefined;
+    if (circuit.state === "half_open" || circuit.consecutiveFailures >= this.failureThreshold) {
+      circuit.state = "open";
+      circuit.openUntil = time + this.openMs;
+    }
+    this.circuits.set(subscriptionId, circuit);
+
+    return {
+      state: circuit.state,
+      sustainedOutage: circuit.state === "open" && time - circuit.failingSince >= this.disableAfterMs,
+    };
+  }
+
+  /** Forgets the subscription's failures, closing its circuit. */
+  reset(subscriptionId: string): void {
+    this.circuits.delete(subscriptionId);
+  }
+
+  getSnapshot(subscriptionId: string): WebhookCircuitSnapshot {
+    const circuit = this.circuits.get(subscriptionId);
+    if (!circuit) {
+      return closedSnapshot;
+    }
+    return {
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      failingSince: new Date(circuit.failingSince).toISOString(),
+      openUntil: circuit.state === "closed" ? undefined : new Date(circuit.openUntil).toISOString(),
+    };
+  }
+}
+
+export const createWebhookCircuitBreaker = (options?: WebhookCircuitBreakerOptions): WebhookCircuitBreaker =>
+  new WebhookCircuitBreaker(options);
@@ -1,4 +1,6 @@
 import {
+  matchesWebhookEventType,
+  matchesWebhookSubscriptionFilters,
   ok,
   type CatalystError,
   type CreateWebhookDeliveryInput,
@@ -6,8 +8,10 @@ import {
   type Result,
   type WebhookDeliveryRecord,
   type WebhookDeliveryStorePort,
+  type WebhookFilterSubject,
   type WebhookSubscriptionRecord,
   type WebhookSubscriptionStorePort,
+  webhookDeliveryOrderingKey,
 } from "@catalyst-auth/contracts";
 
 import { clone } from "./utils.js";
@@ -34,6 +38,30 @@ const buildListOptions = (input: DispatcherEventInput): ListWebhookSubscriptions
   eventType: input.eventType,
 });
 
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Filters read the event envelope (`{ id, type, occurredAt, data, labels }`) when the payload is one, and the
+ * payload itself as the event data otherwise.
+ */
+const toFilterSubject = (event: DispatcherEventInput): WebhookFilterSubject => {
+  const { data, labels } = event.payload;
+  if (!isRecord(data)) {
+    return { data: event.payload };
+  }
+  return { data, labels: isRecord(labels) ? (labels as Record<string, string>) : undefined };
+};
+
+const matchesSubscription = (
+  subscription: WebhookSubscriptionRecord,
+  event: DispatcherEventInput,
+  subject: WebhookFilterSubject,
+): boolean =>
+  subscription.active &&
+  subscription.eventTypes.some((pattern) => matchesWebhookEventType(pattern, event.eventType)) &&
+  matchesWebhookSubscriptionFilters(subscription.filters, subject);
+
 const toDeliveryInput = (
   subscription: WebhookSubscriptionRecord,
   event: DispatcherEventInput,
@@ -47,6 +75,7 @@ const toDeliveryInput = (
     attemptCount: 0,
     nextAttemptAt: now,
     payload: clone(event.payload),
+    orderingKey: webhookDeliveryOrderingKey(subscription, event.payload),
     createdAt: now,
     updatedAt: now,
   } satisfies CreateWebhookDeliveryInput;
@@ -81,7 +110,8 @@ export class WebhookDispatcher {
       return listResult;
     }
 
-    const subscriptions = listResult.value.filter((subscription) => subscription.active);
+    const subject = toFilterSubject(event);
+    const subscriptions = listResult.value.filter((subscription) => matchesSubscription(subscription, event, subject));
     if (subscriptions.length === 0) {
       this.logger?.debug?.("webhook.dispatcher.no_subscribers", {
         eventType: event.eventType,
@@ -0,0 +1,62 @@
+import type {
+  AnyDomainEvent,
+  DomainEventBusPort,
+  DomainEventSubscription,
+  DomainEventType,
+  WebhookEventPayload,
+} from "@catalyst-auth/contracts";
+
+import type { WebhookDispatcher } from "./dispatcher.js";
+import type { DispatcherEventInput, Logger } from "./types.js";
+
+export interface DomainEventWebhookBridgeOptions {
+  /** Event types forwarded to webhook subscribers. Defaults to every catalogued event. */
+  readonly eventTypes?: ReadonlyArray<DomainEventType>;
+  readonly logger?: Logger;
+}
+
+/**
+ * Converts a domain event into the dispatcher input. Subscribers receive the event envelope as the delivery
+ * payload, so the webhook event id matches the domain event id.
+ */
+export const toDispatcherEventInput = (event: AnyDomainEvent): DispatcherEventInput => {
+  const payload: WebhookEventPayload = {
+    id: event.id,
+    type: event.type,
+    occurredAt: event.occurredAt,
+    data: { ...event.data },
+  };
+  return {
+    eventId: event.id,
+    eventType: event.type,
+    orgId: event.orgId,
+    payload: { ...payload },
+  };
+};
+
+/**
+ * Fans every domain event published on `bus` into `dispatcher`, creating pending deliveries for the matching
+ * subscriptions. A failed dispatch is logged and rethrown so the bus reports it to the publisher.
+ */
+export const connectDomainEventsToWebhooks = (
+  bus: DomainEventBusPort,
+  dispatcher: Pick<WebhookDispatcher, "dispatch">,
+  options: DomainEventWebhookBridgeOptions = {},
+): DomainEventSubscription => {
+  const eventTypes = options.eventTypes ? new Set<DomainEventType>(options.eventTypes) : undefined;
+
+  return bus.subscribeAll(async (event) => {
+    if (eventTypes && !eventTypes.has(event.type)) {
+      return;
+    }
+    const outcome = await dispatcher.dispatch(toDispatcherEventInput(event));
+    if (!outcome.ok) {
+      options.logger?.error?.("webhook.domain_events.dispatch_failed", {
+        eventId: event.id,
+        eventType: event.type,
+        error: outcome.error,
+      });
+      throw new Error(outcome.error.message);
+    }
+  });
+};
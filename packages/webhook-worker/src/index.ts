@@ -1,7 +1,10 @@
 export * from "./dispatcher.js";
 export * from "./worker.js";
+export * from "./circuit-breaker.js";
 export * from "./types.js";
 export * from "./default-http-client.js";
 export * from "./signature.js";
+export * from "./standard-webhooks.js";
 export * from "./retry.js";
 export * from "./queue-worker.js";
+export * from "./domain-events.js";
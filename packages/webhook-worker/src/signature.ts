@@ -1,6 +1,6 @@
 import { createHmac } from "node:crypto";
 
-import type { SignatureGenerator } from "./types.js";
+import type { SignatureGenerator, WebhookSignatureScheme } from "./types.js";
 
 const algorithm = "sha256";
 
@@ -9,3 +9,15 @@ export const defaultSignatureGenerator: SignatureGenerator = {
     return createHmac(algorithm, secret).update(payload).digest("hex");
   },
 };
+
+/**
+ * The original `x-catalyst-signature: sha256=<hex>` header. It carries a single signature, so only the
+ * primary secret signs.
+ */
+export const createCatalystSignatureScheme = (
+  generator: SignatureGenerator = defaultSignatureGenerator,
+): WebhookSignatureScheme => ({
+  sign({ body, secrets }) {
+    return { "x-catalyst-signature": `sha256=${generator.sign(body, secrets[0])}` };
+  },
+});
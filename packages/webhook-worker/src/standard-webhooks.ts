@@ -0,0 +1,131 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import { err, ok, type CatalystError, type Result } from "@catalyst-auth/contracts";
+
+import type { WebhookSignatureScheme, WebhookSigningRequest } from "./types.js";
+
+const SECRET_PREFIX = "whsec_";
+const SIGNATURE_VERSION = "v1";
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export const STANDARD_WEBHOOK_HEADERS = {
+  id: "webhook-id",
+  timestamp: "webhook-timestamp",
+  signature: "webhook-signature",
+} as const;
+
+const createError = (code: string, message: string, details?: Record<string, unknown>): CatalystError => ({
+  code,
+  message,
+  details,
+});
+
+/** `whsec_`-prefixed secrets hold base64 key bytes, as the spec issues them; other secrets are used verbatim. */
+const toKey = (secret: string): Buffer =>
+  secret.startsWith(SECRET_PREFIX)
+    ? Buffer.from(secret.slice(SECRET_PREFIX.length), "base64")
+    : Buffer.from(secret, "utf8");
+
+const computeSignature = (secret: string, messageId: string, timestampSeconds: number, body: string): string =>
+  createHmac("sha256", toKey(secret)).update(`${messageId}.${timestampSeconds}.${body}`).digest("base64");
+
+const toSeconds = (timestamp: Date): number => Math.floor(timestamp.getTime() / 1000);
+
+/** Builds the `webhook-signature` header value: one `v1,<base64>` entry per secret, space separated. */
+export const signStandardWebhook = (request: WebhookSigningRequest): string => {
+  const timestamp = toSeconds(request.timestamp);
+  return request.secrets
+    .map((secret) => `${SIGNATURE_VERSION},${computeSignature(secret, request.messageId, timestamp, request.body)}`)
+    .join(" ");
+};
+
+/** Signs deliveries per the Standard Webhooks specification (https://www.standardwebhooks.com). */
+export const standardWebhooksSignatureScheme: WebhookSignatureScheme = {
+  sign(request) {
+    return {
+      [STANDARD_WEBHOOK_HEADERS.id]: request.messageId,
+      [STANDARD_WEBHOOK_HEADERS.timestamp]: String(toSeconds(request.timestamp)),
+      [STANDARD_WEBHOOK_HEADERS.signature]: signStandardWebhook(request),
+    };
+  },
+};
+
+export interface StandardWebhookVerificationInput {
+  /** The raw request body, exactly as received. */
+  readonly payload: string;
+  readonly headers: Record<string, string | ReadonlyArray<string> | undefined>;
+  /** Accepted secrets. Pass both while the sender rotates. */
+  readonly secrets: string | ReadonlyArray<string>;
+  /** Maximum age or clock skew of `webhook-timestamp`. Defaults to five minutes. */
+  readonly toleranceSeconds?: number;
+  readonly now?: Date;
+}
+
+export interface VerifiedStandardWebhook {
+  readonly messageId: string;
+  readonly timestamp: Date;
+}
+
+const readHeader = (headers: StandardWebhookVerificationInput["headers"], name: string): string | undefined => {
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  const value = entry?.[1];
+  return typeof value === "string" ? value : value?.[0];
+};
+
+const signaturesMatch = (expected: string, candidate: string): boolean => {
+  const expectedBytes = Buffer.from(expected, "base64");
+  const candidateBytes = Buffer.from(candidate, "base64");
+  return expectedBytes.length === candidateBytes.length && timingSafeEqual(expectedBytes, candidateBytes);
+};
+
+/**
+ * Verifies a Standard Webhooks request in a receiver. Requests outside the tolerance window are rejected
+ * before signatures are compared, which bounds how long a captured request can be replayed.
+ */
+export const verifyStandardWebhook = (
+  input: StandardWebhookVerificationInput,
+): Result<VerifiedStandardWebhook, CatalystError> => {
+  const messageId = readHeader(input.headers, STANDARD_WEBHOOK_HEADERS.id);
+  const timestampHeader = readHeader(input.headers, STANDARD_WEBHOOK_HEADERS.timestamp);
+  const signatureHeader = readHeader(input.headers, STANDARD_WEBHOOK_HEADERS.signature);
+  if (!messageId || !timestampHeader || !signatureHeader) {
+    return err(createError("webhook.signature.missing_headers", "Standard Webhooks headers are missing."));
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!/^\d+$/.test(timestampHeader) || !Number.isSafeInteger(timestamp)) {
+    return err(
+      createError("webhook.signature.invalid_timestamp", "Webhook timestamp is not a number of seconds.", {
+        timestamp: timestampHeader,
+      }),
+    );
+  }
+
+  const tolerance = input.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const now = toSeconds(input.now ?? new Date());
+  if (Math.abs(now - timestamp) > tolerance) {
+    return err(
+      createError("webhook.signature.timestamp_out_of_window", "Webhook timestamp is outside the tolerance window.", {
+        timestamp,
+        now,
+        toleranceSeconds: tolerance,
+      }),
+    );
+  }
+
+  const secrets = typeof input.secrets === "string" ? [input.secrets] : input.secrets;
+  const candidates = signatureHeader
+    .split(" ")
+    .map((entry) => entry.split(","))
+    .filter(([version, signature]) => version === SIGNATURE_VERSION && Boolean(signature))
+    .map(([, signature]) => signature);
+  const verified = secrets.some((secret) => {
+    const expected = computeSignature(secret, messageId, timestamp, input.payload);
+    return candidates.some((candidate) => signaturesMatch(expected, candidate));
+  });
+  if (!verified) {
+    return err(createError("webhook.signature.mismatch", "No webhook signature matches the configured secrets."));
+  }
+
+  return ok({ messageId, timestamp: new Date(timestamp * 1000) });
+};
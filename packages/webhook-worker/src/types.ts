@@ -39,6 +39,20 @@ export interface SignatureGenerator {
   sign(payload: string, secret: string): string;
 }
 
+export interface WebhookSigningRequest {
+  /** Stable across retries of the same delivery so receivers can deduplicate. */
+  readonly messageId: string;
+  readonly timestamp: Date;
+  readonly body: string;
+  /** Active signing secrets, primary first. More than one while a subscription rotates its secret. */
+  readonly secrets: ReadonlyArray<string>;
+}
+
+/** Produces the signature headers attached to each delivery attempt. */
+export interface WebhookSignatureScheme {
+  sign(request: WebhookSigningRequest): Record<string, string>;
+}
+
 export interface DeliveryAttemptContext {
   readonly delivery: WebhookDeliveryRecord;
   readonly subscription: WebhookSubscriptionRecord;
@@ -56,6 +70,8 @@ export interface WorkerRunSummary {
   readonly succeeded: number;
   readonly retried: number;
   readonly deadLettered: number;
+  /** Deliveries held back by the circuit breaker. Reported when the worker has one. */
+  readonly paused?: number;
 }
 
 export interface DispatcherEventInput {
@@ -1,8 +1,18 @@
 declare module "node:crypto" {
   interface Hmac {
     update(data: string): Hmac;
-    digest(encoding: "hex"): string;
+    digest(encoding: "hex" | "base64"): string;
   }
 
-  export function createHmac(algorithm: string, secret: string): Hmac;
+  export function createHmac(algorithm: string, secret: string | Uint8Array): Hmac;
+  export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean;
+  export function randomUUID(): string;
 }
+
+declare interface Buffer extends Uint8Array {
+  toString(encoding?: string): string;
+}
+
+declare const Buffer: {
+  from(data: string | Uint8Array, encoding?: string): Buffer;
+};
@@ -1,15 +1,23 @@
+import { randomUUID } from "node:crypto";
+
 import {
+  activeWebhookSigningSecrets,
   ok,
+  webhookDeliveryOrderingKey,
+  type AuditLogPort,
   type CatalystError,
+  type DomainEventBusPort,
   type Result,
   type WebhookDeliveryRecord,
   type WebhookDeliveryStatus,
+  type WebhookSubscriptionRecord,
 } from "@catalyst-auth/contracts";
 import { runWithSpan, type CatalystLogger } from "@catalyst-auth/telemetry";
 
+import { WebhookCircuitBreaker, type WebhookCircuitBreakerOptions } from "./circuit-breaker.js";
 import { defaultHttpClient } from "./default-http-client.js";
 import { determineRetryDecision } from "./retry.js";
-import { defaultSignatureGenerator } from "./signature.js";
+import { createCatalystSignatureScheme } from "./signature.js";
 import { clone, mergeHeaders } from "./utils.js";
 import type {
   Clock,
@@ -17,6 +25,7 @@ import type {
   HttpClient,
   Logger,
   SignatureGenerator,
+  WebhookSignatureScheme,
   WebhookStores,
   WorkerRunSummary,
 } from "./types.js";
@@ -31,6 +40,11 @@ export interface WorkerProcessResult {
   readonly record: WebhookDeliveryRecord;
   readonly nextAttemptAt?: string;
   readonly deadLetterUri?: string;
+  /**
+   * Held back without spending an attempt: by an open circuit, an inactive subscription, or an earlier
+   * delivery with the same ordering key.
+   */
+  readonly paused?: boolean;
 }
 
 const defaultClock: Clock = {
@@ -39,6 +53,11 @@ const defaultClock: Clock = {
 
 const SUCCESS_RANGE = { min: 200, max: 299 };
 
+/** Seconds an ordered delivery waits before checking again whether the deliveries ahead of it have settled. */
+const ORDERED_HOLD_SECONDS = 5;
+
+const DEFAULT_ORDERED_DELIVERING_TIMEOUT_SECONDS = 300;
+
 const isSuccessfulStatus = (status: number): boolean => status >= SUCCESS_RANGE.min && status <= SUCCESS_RANGE.max;
 
 const buildRequestBody = (payload: Record<string, unknown>): string => JSON.stringify(payload);
@@ -46,14 +65,14 @@ const buildRequestBody = (payload: Record<string, unknown>): string => JSON.stri
 const buildHeaders = (
   context: DeliveryAttemptContext,
   attemptNumber: number,
-  signature: string,
+  signatureHeaders: Record<string, string>,
 ): Record<string, string> => {
   const baseHeaders = mergeHeaders(context.subscription.headers, {
     "content-type": "application/json",
     "x-catalyst-event-id": context.delivery.eventId,
     "x-catalyst-subscription-id": context.delivery.subscriptionId,
     "x-catalyst-attempt": String(attemptNumber),
-    "x-catalyst-signature": `sha256=${signature}`,
+    ...signatureHeaders,
   });
 
   return baseHeaders;
@@ -66,12 +85,37 @@ const formatError = (error: unknown): string => {
   return typeof error === "string" ? error : JSON.stringify(error);
 };
 
+export type SigningSecretsResolver = (subscription: WebhookSubscriptionRecord, now: Date) => ReadonlyArray<string>;
+
 export interface WebhookDeliveryWorkerOptions {
   readonly clock?: Clock;
   readonly httpClient?: HttpClient;
+  /** HMAC used by the default `x-catalyst-signature` scheme. Ignored when `signatureScheme` is set. */
   readonly signatureGenerator?: SignatureGenerator;
+  /** Signature headers to send, e.g. `standardWebhooksSignatureScheme`. Defaults to `x-catalyst-signature`. */
+  readonly signatureScheme?: WebhookSignatureScheme;
+  /**
+   * Secrets that sign a subscription's deliveries, primary first. Defaults to the subscription secret plus its
+   * previous secret until the rotation overlap ends.
+   */
+  readonly resolveSigningSecrets?: SigningSecretsResolver;
   readonly logger?: Logger;
   readonly telemetry?: WebhookWorkerTelemetryOptions;
+  /**
+   * Pauses deliveries to failing subscriptions and disables a subscription after a sustained outage. Pass a
+   * shared breaker to track health across workers in one process. While a breaker is configured, deliveries to
+   * inactive subscriptions stay pending until the subscription is reactivated.
+   */
+  readonly circuitBreaker?: WebhookCircuitBreaker | WebhookCircuitBreakerOptions;
+  /** Receives `webhook_subscription.disabled` when the circuit breaker disables a subscription. */
+  readonly eventBus?: DomainEventBusPort;
+  /** Records the circuit breaker disabling a subscription. */
+  readonly auditLog?: AuditLogPort;
+  /**
+   * Seconds after which a delivery left `delivering`, e.g. by a worker that crashed mid-attempt, stops holding
+   * back later deliveries with its ordering key. Defaults to 300.
+   */
+  readonly orderedDeliveringTimeoutSeconds?: number;
 }
 
 export interface WorkerRunOptions {
@@ -82,19 +126,31 @@ export interface WorkerRunOptions {
 export class WebhookDeliveryWorker {
   private readonly clock: Clock;
   private readonly httpClient: HttpClient;
-  private readonly signatureGenerator: SignatureGenerator;
+  private readonly signatureScheme: WebhookSignatureScheme;
+  private readonly resolveSigningSecrets: SigningSecretsResolver;
   private readonly logger: Logger;
   private readonly telemetry: WebhookWorkerTelemetryContext;
   private readonly instrumentationLogger: CatalystLogger;
+  private readonly circuitBreaker?: WebhookCircuitBreaker;
 
-  constructor(private readonly stores: WebhookStores, options: WebhookDeliveryWorkerOptions = {}) {
+  constructor(
+    private readonly stores: WebhookStores,
+    private readonly options: WebhookDeliveryWorkerOptions = {},
+  ) {
     this.clock = options.clock ?? defaultClock;
     this.httpClient = options.httpClient ?? defaultHttpClient;
-    this.signatureGenerator = options.signatureGenerator ?? defaultSignatureGenerator;
+    this.signatureScheme = options.signatureScheme ?? createCatalystSignatureScheme(options.signatureGenerator);
+    this.resolveSigningSecrets = options.resolveSigningSecrets ?? activeWebhookSigningSecrets;
     const telemetry = createWebhookWorkerTelemetry(options.telemetry);
     this.telemetry = telemetry;
     this.instrumentationLogger = telemetry.logger;
     this.logger = options.logger ?? createLegacyLogger(telemetry.logger);
+    this.circuitBreaker =
+      options.circuitBreaker instanceof WebhookCircuitBreaker
+        ? options.circuitBreaker
+        : options.circuitBreaker
+          ? new WebhookCircuitBreaker(options.circuitBreaker)
+          : undefined;
   }
 
   async runOnce(options: WorkerRunOptions = {}): Promise<Result<WorkerRunSummary, CatalystError>> {
@@ -138,6 +194,7 @@ export class WebhookDeliveryWorker {
           let succeeded = 0;
           let retried = 0;
           let deadLettered = 0;
+          let paused = 0;
 
           for (const delivery of pendingResult.value) {
             const processResult = await this.processDeliveryRecord(delivery);
@@ -154,8 +211,9 @@ export class WebhookDeliveryWorker {
 
             this.recordDeliveryOutcome(processResult.value, delivery.id);
             succeeded += processResult.value.status === "succeeded" ? 1 : 0;
-            retried += processResult.value.status === "pending" ? 1 : 0;
+            retried += processResult.value.status === "pending" && !processResult.value.paused ? 1 : 0;
             deadLettered += processResult.value.status === "dead_lettered" ? 1 : 0;
+            paused += processResult.value.paused ? 1 : 0;
           }
 
           const summary = {
@@ -163,6 +221,7 @@ export class WebhookDeliveryWorker {
             succeeded,
             retried,
             deadLettered,
+            ...(this.circuitBreaker || paused > 0 ? { paused } : {}),
           } satisfies WorkerRunSummary;
 
           this.instrumentationLogger.info("webhook.worker.run_once.completed", summary);
@@ -236,12 +295,125 @@ export class WebhookDeliveryWorker {
       return ok({ status: updateResult.value.status, record: updateResult.value });
     }
 
+    const now = this.clock.now();
+    if (this.circuitBreaker && !subscription.active) {
+      return this.pauseDelivery(delivery, now, new Date(now.getTime() + this.circuitBreaker.openSeconds * 1000));
+    }
+
+    const orderingKey = webhookDeliveryOrderingKey(subscription, delivery.payload);
+    if (orderingKey !== undefined) {
+      const predecessorResult = await this.stores.deliveries.findOrderingPredecessor({
+        orderingKey,
+        delivery,
+        deliveringSince: new Date(
+          now.getTime() -
+            (this.options.orderedDeliveringTimeoutSeconds ?? DEFAULT_ORDERED_DELIVERING_TIMEOUT_SECONDS) * 1000,
+        ).toISOString(),
+      });
+      if (!predecessorResult.ok) {
+        return predecessorResult;
+      }
+      const predecessor = predecessorResult.value;
+      if (predecessor) {
+        const holdUntil = Math.max(
+          predecessor.nextAttemptAt ? Date.parse(predecessor.nextAttemptAt) : 0,
+          now.getTime() + ORDERED_HOLD_SECONDS * 1000,
+        );
+        return this.pauseDelivery(delivery, now, new Date(holdUntil));
+      }
+    }
+
+    if (this.circuitBreaker) {
+      const admission = this.circuitBreaker.admit(subscription.id, now);
+      if (!admission.allowed) {
+        return this.pauseDelivery(delivery, now, admission.retryAt);
+      }
+    }
+
     return this.attemptDelivery({ delivery, subscription });
   }
 
+  private async pauseDelivery(
+    delivery: WebhookDeliveryRecord,
+    now: Date,
+    retryAt: Date,
+  ): Promise<Result<WorkerProcessResult, CatalystError>> {
+    const nextAttemptAt = retryAt.toISOString();
+    const updateResult = await this.stores.deliveries.updateDelivery(delivery.id, {
+      status: "pending",
+      nextAttemptAt,
+      updatedAt: now.toISOString(),
+    });
+    if (!updateResult.ok) {
+      return updateResult;
+    }
+    return ok({ status: "pending", record: updateResult.value, nextAttemptAt, paused: true });
+  }
+
+  /**
+   * Deactivates a subscription whose circuit stayed open past `disableAfterSeconds`, then announces it on the
+   * event bus and audit log. Announcements are best-effort because the subscription is already disabled.
+   */
+  private async disableSubscription(subscription: WebhookSubscriptionRecord, disabledAt: string): Promise<void> {
+    const breaker = this.circuitBreaker!;
+    const circuit = breaker.getSnapshot(subscription.id);
+    const context = {
+      subscriptionId: subscription.id,
+      consecutiveFailures: circuit.consecutiveFailures,
+      failingSince: circuit.failingSince,
+    } satisfies Record<string, unknown>;
+
+    const updateResult = await this.stores.subscriptions.updateSubscription(subscription.id, {
+      active: false,
+      updatedAt: disabledAt,
+    });
+    if (!updateResult.ok) {
+      const errorContext = { ...context, error: describeCatalystError(updateResult.error) };
+      logCatalyst(this.instrumentationLogger, "error", "webhook.worker.subscription_disable_failed", errorContext);
+      emitUserLog(this.logger, "error", "webhook.worker.subscription_disable_failed", errorContext);
+      return;
+    }
+    breaker.reset(subscription.id);
+    logCatalyst(this.instrumentationLogger, "warn", "webhook.worker.subscription_disabled", context);
+    emitUserLog(this.logger, "warn", "webhook.worker.subscription_disabled", context);
+
+    const disabled = updateResult.value;
+    const audited = await this.options.auditLog?.appendEvent({
+      category: "webhook_subscription",
+      action: "disabled",
+      occurredAt: disabledAt,
+      actor: { type: "system", id: "webhook-worker" },
+      resource: { type: "webhook_subscription", id: disabled.id },
+      metadata: { reason: "circuit_breaker", ...context },
+    });
+    if (audited && !audited.ok) {
+      emitUserLog(this.logger, "error", "webhook.worker.subscription_disable_audit_failed", {
+        ...context,
+        error: describeCatalystError(audited.error),
+      });
+    }
+
+    const { secret: _secret, previousSecret: _previousSecret, ...data } = disabled;
+    const published = await this.options.eventBus?.publish({
+      id: randomUUID(),
+      type: "webhook_subscription.disabled",
+      occurredAt: disabledAt,
+      orgId: disabled.orgId ?? undefined,
+      data,
+    });
+    if (published && !published.ok) {
+      emitUserLog(this.logger, "error", "webhook.worker.subscription_disable_event_failed", {
+        ...context,
+        error: describeCatalystError(published.error),
+      });
+    }
+  }
+
   private recordDeliveryOutcome(result: WorkerProcessResult, deliveryId: string): void {
-    const message = DELIVERY_STATUS_MESSAGES[result.status] ?? DEFAULT_DELIVERY_MESSAGE;
-    const level = DELIVERY_STATUS_LOG_LEVEL[result.status] ?? "info";
+    const message = result.paused
+      ? "webhook.worker.delivery_paused"
+      : DELIVERY_STATUS_MESSAGES[result.status] ?? DEFAULT_DELIVERY_MESSAGE;
+    const level = result.paused ? "warn" : DELIVERY_STATUS_LOG_LEVEL[result.status] ?? "info";
     const context = {
       deliveryId,
       subscriptionId: result.record.subscriptionId,
@@ -277,8 +449,14 @@ export class WebhookDeliveryWorker {
     }
 
     const body = buildRequestBody(context.delivery.payload);
-    const signature = this.signatureGenerator.sign(body, context.subscription.secret);
-    const headers = buildHeaders(context, attemptNumber, signature);
+    const signedAt = new Date(startedAt);
+    const signatureHeaders = this.signatureScheme.sign({
+      messageId: context.delivery.id,
+      timestamp: signedAt,
+      body,
+      secrets: this.resolveSigningSecrets(context.subscription, signedAt),
+    });
+    const headers = buildHeaders(context, attemptNumber, signatureHeaders);
 
     try {
       const response = await this.httpClient.execute({
@@ -307,6 +485,7 @@ export class WebhookDeliveryWorker {
           return updateResult;
         }
 
+        this.circuitBreaker?.recordSuccess(context.subscription.id);
         return ok({ status: "succeeded", record: updateResult.value });
       }
 
@@ -350,6 +529,11 @@ export class WebhookDeliveryWorker {
       return updateResult;
     }
 
+    const failure = this.circuitBreaker?.recordFailure(context.subscription.id, new Date(updatedAt));
+    if (failure?.sustainedOutage) {
+      await this.disableSubscription(context.subscription, updatedAt);
+    }
+
     if (decision.shouldRetry) {
       return ok({
         status: "pending",
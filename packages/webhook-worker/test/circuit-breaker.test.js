@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { WebhookCircuitBreaker } from "../dist/circuit-breaker.js";
+import { WebhookDeliveryWorker } from "../dist/worker.js";
+import { createClock, createDelivery, createStores, createSubscription, ok } from "./fixtures.js";
+
+const createBreakerStores = (deliveryIds) =>
+  createStores({
+    subscription: createSubscription({ orgId: "org-1", retryPolicy: { maxAttempts: 10, backoffSeconds: [30] } }),
+    deliveries: deliveryIds.map((id) => createDelivery(id)),
+  });
+
+const createEndpoint = () => {
+  const endpoint = {
+    status: 500,
+    calls: 0,
+    async execute() {
+      endpoint.calls += 1;
+      return { status: endpoint.status, headers: {} };
+    },
+  };
+  return endpoint;
+};
+
+test("opens the circuit after consecutive failures, pauses deliveries, and closes after a successful probe", async () => {
+  const clock = createClock();
+  const stores = createBreakerStores(["del-1", "del-2", "del-3"]);
+  const endpoint = createEndpoint();
+  const circuitBreaker = new WebhookCircuitBreaker({ failureThreshold: 2, openSeconds: 60 });
+  const worker = new WebhookDeliveryWorker(stores, { clock, httpClient: endpoint, circuitBreaker });
+
+  await worker.processDeliveryById("del-1");
+  assert.equal(circuitBreaker.getSnapshot("sub-1").state, "closed");
+  await worker.processDeliveryById("del-2");
+  assert.deepEqual(circuitBreaker.getSnapshot("sub-1"), {
+    state: "open",
+    consecutiveFailures: 2,
+    failingSince: "2024-01-01T00:00:00.000Z",
+    openUntil: "2024-01-01T00:01:00.000Z",
+  });
+
+  clock.advance(10);
+  // del-1 and del-2 are scheduled for their retry in 30 seconds; only del-3 is due.
+  const run = await worker.runOnce();
+  assert.deepEqual(run.value, { total: 1, succeeded: 0, retried: 0, deadLettered: 0, paused: 1 });
+  assert.equal(endpoint.calls, 2);
+  assert.equal(stores.delivery("del-3").status, "pending");
+  assert.equal(stores.delivery("del-3").attemptCount, 0);
+  assert.equal(stores.delivery("del-3").nextAttemptAt, "2024-01-01T00:01:00.000Z");
+
+  clock.advance(50);
+  endpoint.status = 200;
+  const probe = await worker.processDeliveryById("del-3");
+  assert.equal(probe.value.status, "succeeded");
+  assert.equal(endpoint.calls, 3);
+  assert.equal(circuitBreaker.getSnapshot("sub-1").state, "closed");
+});
+
+test("disables the subscription after a sustained outage and announces it", async () => {
+  const clock = createClock();
+  const stores = createBreakerStores(["del-1", "del-2", "del-3"]);
+  const endpoint = createEndpoint();
+  const events = [];
+  const audits = [];
+  const circuitBreaker = new WebhookCircuitBreaker({ failureThreshold: 1, openSeconds: 60, disableAfterSeconds: 300 });
+  const worker = new WebhookDeliveryWorker(stores, {
+    clock,
+    httpClient: endpoint,
+    circuitBreaker,
+    eventBus: {
+      async publish(event) {
+        events.push(event);
+        return ok(undefined);
+      },
+    },
+    auditLog: {
+      async appendEvent(input) {
+        audits.push(input);
+        return ok({ id: `audit-${audits.length}`, ...input });
+      },
+    },
+  });
+
+  await worker.processDeliveryById("del-1");
+  assert.equal(circuitBreaker.getSnapshot("sub-1").state, "open");
+
+  clock.advance(60);
+  await worker.processDeliveryById("del-2");
+  assert.equal(endpoint.calls, 2);
+  assert.equal(circuitBreaker.getSnapshot("sub-1").state, "open");
+  assert.equal(stores.subscription().active, true);
+
+  clock.advance(240);
+  await worker.processDeliveryById("del-2");
+  assert.equal(endpoint.calls, 3);
+  assert.equal(stores.subscription().active, false);
+  assert.equal(circuitBreaker.getSnapshot("sub-1").state, "closed");
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].type, "webhook_subscription.disabled");
+  assert.equal(events[0].orgId, "org-1");
+  assert.equal(events[0].occurredAt, "2024-01-01T00:05:00.000Z");
+  assert.equal(events[0].data.id, "sub-1");
+  assert.equal(events[0].data.active, false);
+  assert.equal("secret" in events[0].data, false);
+
+  assert.deepEqual(audits, [
+    {
+      category: "webhook_subscription",
+      action: "disabled",
+      occurredAt: "2024-01-01T00:05:00.000Z",
+      actor: { type: "system", id: "webhook-worker" },
+      resource: { type: "webhook_subscription", id: "sub-1" },
+      metadata: {
+        reason: "circuit_breaker",
+        subscriptionId: "sub-1",
+        consecutiveFailures: 3,
+        failingSince: "2024-01-01T00:00:00.000Z",
+      },
+    },
+  ]);
+
+  clock.advance(1);
+  const held = await worker.processDeliveryById("del-3");
+  assert.equal(held.value.paused, true);
+  assert.equal(endpoint.calls, 3);
+  assert.equal(stores.delivery("del-3").status, "pending");
+});
@@ -12,6 +12,7 @@ const createSubscription = (overrides = {}) => ({
   id: overrides.id ?? `sub-${Math.random().toString(16).slice(2)}`,
   orgId: overrides.orgId,
   eventTypes: overrides.eventTypes ?? ["user.created"],
+  filters: overrides.filters,
   targetUrl: overrides.targetUrl ?? "https://example.com/webhook",
   secret: overrides.secret ?? "secret",
   headers: overrides.headers ?? {},
@@ -101,3 +102,39 @@ test("propagates store errors", async () => {
   assert.equal(result.ok, false);
   assert.deepEqual(result.error, { code: "boom", message: "nope" });
 });
+
+test("matches wildcard event types and subscription filters before creating deliveries", async () => {
+  const event = {
+    eventId: "evt-2",
+    eventType: "key.issued",
+    orgId: "org-1",
+    payload: {
+      id: "evt-2",
+      type: "key.issued",
+      occurredAt: "2024-01-01T00:00:00.000Z",
+      data: { id: "key-1", owner: { orgId: "org-1" }, labels: { env: "prod" } },
+    },
+  };
+
+  const subscriptions = [
+    createSubscription({ id: "sub-wildcard", eventTypes: ["key.*"] }),
+    createSubscription({ id: "sub-prod", eventTypes: ["key.issued"], filters: { labels: { env: "prod" } } }),
+    createSubscription({ id: "sub-staging", eventTypes: ["key.issued"], filters: { labels: { env: "staging" } } }),
+    createSubscription({
+      id: "sub-org",
+      eventTypes: ["*"],
+      filters: { data: { "owner.orgId": ["org-1", "org-2"] } },
+    }),
+    createSubscription({ id: "sub-other-org", eventTypes: ["key.*"], filters: { data: { "owner.orgId": "org-3" } } }),
+    createSubscription({ id: "sub-sessions", eventTypes: ["session.*"] }),
+  ];
+
+  const { dispatcher, created } = createDispatcher({ subscriptions });
+  const result = await dispatcher.dispatch(event);
+
+  assert.equal(result.ok, true);
+  assert.deepEqual(
+    created.map((delivery) => delivery.subscriptionId),
+    ["sub-wildcard", "sub-prod", "sub-org"],
+  );
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { connectDomainEventsToWebhooks } from "../dist/domain-events.js";
+
+const ok = (value) => ({ ok: true, value });
+const err = (error) => ({ ok: false, error });
+
+const createBus = () => {
+  const handlers = new Set();
+  return {
+    handlers,
+    subscribeAll(handler) {
+      handlers.add(handler);
+      return { unsubscribe: () => handlers.delete(handler) };
+    },
+    async emit(event) {
+      for (const handler of handlers) {
+        await handler(event);
+      }
+    },
+  };
+};
+
+const membershipEvent = {
+  id: "evt-1",
+  type: "membership.created",
+  occurredAt: "2024-01-01T00:00:00.000Z",
+  orgId: "org-1",
+  data: { id: "m-1", userId: "user-1", orgId: "org-1", role: "member" },
+};
+
+test("forwards domain events to the dispatcher as webhook events", async () => {
+  const bus = createBus();
+  const dispatched = [];
+  const subscription = connectDomainEventsToWebhooks(bus, {
+    dispatch: async (input) => {
+      dispatched.push(input);
+      return ok({ deliveries: [] });
+    },
+  });
+
+  await bus.emit(membershipEvent);
+  assert.deepEqual(dispatched, [
+    {
+      eventId: "evt-1",
+      eventType: "membership.created",
+      orgId: "org-1",
+      payload: {
+        id: "evt-1",
+        type: "membership.created",
+        occurredAt: "2024-01-01T00:00:00.000Z",
+        data: membershipEvent.data,
+      },
+    },
+  ]);
+
+  subscription.unsubscribe();
+  await bus.emit(membershipEvent);
+  assert.equal(dispatched.length, 1);
+});
+
+test("skips event types outside the configured list and surfaces dispatch failures", async () => {
+  const bus = createBus();
+  const logged = [];
+  connectDomainEventsToWebhooks(
+    bus,
+    { dispatch: async () => err({ code: "boom", message: "store unavailable" }) },
+    {
+      eventTypes: ["membership.created"],
+      logger: { error: (message, context) => logged.push({ message, context }) },
+    },
+  );
+
+  await bus.emit({ ...membershipEvent, type: "session.started" });
+  assert.equal(logged.length, 0);
+
+  await assert.rejects(bus.emit(membershipEvent), /store unavailable/);
+  assert.equal(logged[0].message, "webhook.domain_events.dispatch_failed");
+  assert.equal(logged[0].context.eventId, "evt-1");
+});
@@ -0,0 +1,99 @@
+export const ok = (value) => ({ ok: true, value });
+
+export const T0 = Date.parse("2024-01-01T00:00:00.000Z");
+
+export const at = (seconds) => new Date(T0 + seconds * 1000).toISOString();
+
+/** A clock starting at `T0` that only moves when `advance` is called. */
+export const createClock = () => {
+  let current = T0;
+  return {
+    now: () => new Date(current),
+    advance(seconds) {
+      current += seconds * 1000;
+    },
+  };
+};
+
+export const createSubscription = (overrides = {}) => ({
+  id: "sub-1",
+  eventTypes: ["user.created"],
+  targetUrl: "https://example.com/webhook",
+  secret: "secret",
+  headers: {},
+  retryPolicy: { maxAttempts: 5, backoffSeconds: [30] },
+  active: true,
+  createdAt: at(0),
+  updatedAt: at(0),
+  ...overrides,
+});
+
+/** A pending delivery to `sub-1` for the event `evt-<id>`, due at `T0`. */
+export const createDelivery = (id, overrides = {}) => ({
+  id,
+  subscriptionId: "sub-1",
+  eventId: `evt-${id}`,
+  status: "pending",
+  attemptCount: 0,
+  nextAttemptAt: at(0),
+  payload: { id: `evt-${id}`, type: "user.created", occurredAt: at(0), data: { userId: "user-1" } },
+  createdAt: at(0),
+  updatedAt: at(0),
+  ...overrides,
+});
+
+const isOlderDelivery = (record, delivery) =>
+  record.createdAt < delivery.createdAt || (record.createdAt === delivery.createdAt && record.id < delivery.id);
+
+/**
+ * In-memory subscription and delivery stores covering the calls the workers make. `subscription()` and
+ * `delivery(id)` read the current records without copying them.
+ */
+export const createStores = ({ subscription = createSubscription(), deliveries = [] } = {}) => {
+  let current = subscription;
+  const records = new Map(deliveries.map((record) => [record.id, { ...record }]));
+  return {
+    subscriptions: {
+      async getSubscription(id) {
+        return ok(current.id === id ? { ...current } : undefined);
+      },
+      async updateSubscription(_id, input) {
+        current = { ...current, ...input };
+        return ok({ ...current });
+      },
+    },
+    deliveries: {
+      async getDelivery(id) {
+        const record = records.get(id);
+        return ok(record ? { ...record } : undefined);
+      },
+      async listPendingDeliveries({ before }) {
+        const cutoff = Date.parse(before);
+        return ok(
+          [...records.values()]
+            .filter((record) => record.status === "pending" && Date.parse(record.nextAttemptAt) <= cutoff)
+            .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt) || a.createdAt.localeCompare(b.createdAt))
+            .map((record) => ({ ...record })),
+        );
+      },
+      async findOrderingPredecessor({ orderingKey, delivery, deliveringSince }) {
+        const [predecessor] = [...records.values()]
+          .filter(
+            (record) =>
+              record.orderingKey === orderingKey &&
+              isOlderDelivery(record, delivery) &&
+              (record.status === "pending" || (record.status === "delivering" && record.updatedAt >= deliveringSince)),
+          )
+          .sort((a, b) => (isOlderDelivery(a, b) ? -1 : 1));
+        return ok(predecessor ? { ...predecessor } : undefined);
+      },
+      async updateDelivery(id, input) {
+        const updated = { ...records.get(id), ...input };
+        records.set(id, updated);
+        return ok({ ...updated });
+      },
+    },
+    subscription: () => current,
+    delivery: (id) => records.get(id),
+  };
+};
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createMemoryWebhookQueue, createMemoryWebhookSubscriptionStore } from "@catalyst-auth/webhook-memory";
+
+import { createWebhookQueueWorker } from "../dist/queue-worker.js";
+import { at, createClock, createDelivery, createStores } from "./fixtures.js";
+
+/** Wires the queue worker to the in-memory queue and subscription store, sharing one fake clock. */
+const createHarness = async ({ retryPolicy, statuses }) => {
+  const clock = createClock();
+  const queue = createMemoryWebhookQueue({ clock, autoPoll: false });
+  const subscriptions = createMemoryWebhookSubscriptionStore({ clock });
+  const subscription = await subscriptions.createSubscription({
+    id: "sub-1",
+    eventTypes: ["user.created"],
+    targetUrl: "https://example.com/webhook",
+    secret: "secret",
+    retryPolicy,
+  });
+  assert.equal(subscription.ok, true);
+
+  const { deliveries, delivery } = createStores({ deliveries: [createDelivery("del-1")] });
+  const requests = [];
+  const httpClient = {
+    async execute(request) {
+      requests.push(request);
+      return { status: statuses[Math.min(requests.length - 1, statuses.length - 1)], headers: {} };
+    },
+  };
+
+  const worker = createWebhookQueueWorker(queue, { subscriptions, deliveries }, { clock, httpClient });
+  await worker.start();
+  return { clock, queue, delivery, requests, worker };
+};
+
+test("delivers through the memory queue, retrying on the subscription backoff", async () => {
+  const { clock, queue, delivery, requests, worker } = await createHarness({
+    retryPolicy: { maxAttempts: 3, backoffSeconds: [30] },
+    statuses: [500, 200],
+  });
+  assert.equal((await queue.enqueue({ deliveryId: "del-1" })).ok, true);
+
+  assert.equal((await queue.pollOnce()).value, 1);
+  assert.equal(delivery("del-1").status, "pending");
+  assert.deepEqual(
+    queue.peekMessages().map((message) => ({ attempt: message.attempt, availableAt: message.availableAt })),
+    [{ attempt: 2, availableAt: at(30) }],
+  );
+
+  clock.advance(29);
+  assert.equal((await queue.pollOnce()).value, 0);
+  clock.advance(1);
+  assert.equal((await queue.pollOnce()).value, 1);
+
+  assert.equal(requests.length, 2);
+  assert.equal(requests[1].url, "https://example.com/webhook");
+  assert.equal(delivery("del-1").status, "succeeded");
+  assert.deepEqual(queue.peekMessages(), []);
+  assert.deepEqual(queue.peekDeadLetters(), []);
+  await worker.stop();
+});
+
+test("dead-letters deliveries that exhaust their attempts", async () => {
+  const { clock, queue, delivery, requests, worker } = await createHarness({
+    retryPolicy: { maxAttempts: 2, backoffSeconds: [10] },
+    statuses: [503],
+  });
+  assert.equal((await queue.enqueue({ deliveryId: "del-1" })).ok, true);
+
+  assert.equal((await queue.pollOnce()).value, 1);
+  clock.advance(10);
+  assert.equal((await queue.pollOnce()).value, 1);
+
+  assert.equal(requests.length, 2);
+  assert.equal(delivery("del-1").status, "dead_lettered");
+  assert.deepEqual(queue.peekMessages(), []);
+  const [deadLetter] = queue.peekDeadLetters();
+  assert.equal(deadLetter.message.deliveryId, "del-1");
+  assert.equal(deadLetter.attempts, 2);
+  assert.equal(deadLetter.deadLetteredAt, at(10));
+  await worker.stop();
+});
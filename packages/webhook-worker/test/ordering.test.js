@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createWebhookQueueWorker } from "../dist/queue-worker.js";
+import { WebhookDeliveryWorker } from "../dist/worker.js";
+import { at, createClock, createDelivery, createStores, createSubscription, ok } from "./fixtures.js";
+
+const subscription = createSubscription({
+  eventTypes: ["membership.updated"],
+  ordering: { keyPath: "userId" },
+});
+
+const createOrderedDelivery = (id, userId, createdSecond) =>
+  createDelivery(id, {
+    payload: { id: `evt-${id}`, type: "membership.updated", occurredAt: at(createdSecond), data: { userId } },
+    orderingKey: `sub-1:${userId}`,
+    createdAt: at(createdSecond),
+    updatedAt: at(createdSecond),
+  });
+
+const createOrderedStores = (deliveries) => createStores({ subscription, deliveries });
+
+/** Fails each delivery's first attempt and records the order of attempts by delivery id. */
+const createFlakyEndpoint = () => {
+  const attempts = [];
+  return {
+    attempts,
+    async execute(request) {
+      const deliveryId = request.headers["x-catalyst-event-id"].replace("evt-", "");
+      const failed = !attempts.includes(deliveryId);
+      attempts.push(deliveryId);
+      return { status: failed ? 500 : 200, headers: {} };
+    },
+  };
+};
+
+test("holds later deliveries with the same ordering key until earlier ones settle", async () => {
+  const clock = createClock();
+  const stores = createOrderedStores([
+    createOrderedDelivery("a", "user-1", 0),
+    createOrderedDelivery("b", "user-1", 1),
+    createOrderedDelivery("c", "user-2", 2),
+  ]);
+  const endpoint = createFlakyEndpoint();
+  const worker = new WebhookDeliveryWorker(stores, { clock, httpClient: endpoint });
+
+  clock.advance(10);
+  const first = await worker.runOnce();
+  assert.deepEqual(first.value, { total: 3, succeeded: 0, retried: 2, deadLettered: 0, paused: 1 });
+  assert.deepEqual(endpoint.attempts, ["a", "c"]);
+  assert.equal(stores.delivery("b").attemptCount, 0);
+  assert.equal(stores.delivery("b").nextAttemptAt, stores.delivery("a").nextAttemptAt);
+
+  clock.advance(30);
+  const second = await worker.runOnce();
+  assert.deepEqual(second.value, { total: 3, succeeded: 2, retried: 1, deadLettered: 0 });
+  assert.deepEqual(endpoint.attempts, ["a", "c", "a", "b", "c"]);
+
+  clock.advance(30);
+  const third = await worker.runOnce();
+  assert.deepEqual(third.value, { total: 1, succeeded: 1, retried: 0, deadLettered: 0 });
+  assert.equal(stores.delivery("b").status, "succeeded");
+});
+
+test("stops holding a key behind a delivery abandoned mid-attempt", async () => {
+  const clock = createClock();
+  const stores = createOrderedStores([
+    { ...createOrderedDelivery("a", "user-1", 0), status: "delivering", attemptCount: 1, nextAttemptAt: null },
+    createOrderedDelivery("b", "user-1", 1),
+  ]);
+  const endpoint = createFlakyEndpoint();
+  const worker = new WebhookDeliveryWorker(stores, { clock, httpClient: endpoint, orderedDeliveringTimeoutSeconds: 60 });
+
+  clock.advance(59);
+  const held = await worker.runOnce();
+  assert.deepEqual(held.value, { total: 1, succeeded: 0, retried: 0, deadLettered: 0, paused: 1 });
+  assert.deepEqual(endpoint.attempts, []);
+
+  clock.advance(5);
+  const released = await worker.runOnce();
+  assert.deepEqual(released.value, { total: 1, succeeded: 0, retried: 1, deadLettered: 0 });
+  assert.deepEqual(endpoint.attempts, ["b"]);
+  assert.equal(stores.delivery("a").status, "delivering");
+});
+
+test("queue worker delivers same-key deliveries in order across retries on an unordered queue", async () => {
+  const clock = createClock();
+  const stores = createOrderedStores([createOrderedDelivery("a", "user-1", 0), createOrderedDelivery("b", "user-1", 1)]);
+  const endpoint = createFlakyEndpoint();
+  const jobs = [];
+  let handler;
+  const queue = {
+    async enqueue(delivery) {
+      jobs.push({ deliveryId: delivery.deliveryId, attempt: delivery.attempt ?? 1 });
+      return ok(undefined);
+    },
+    async consume(handlerFn) {
+      handler = handlerFn;
+      return ok({ close: async () => undefined });
+    },
+  };
+  // Delays are ignored, so retried jobs come back immediately behind whatever is queued.
+  const dispatchNext = async () => {
+    const job = jobs.shift();
+    const settle = async () => ok(undefined);
+    await handler({
+      message: { id: `${job.deliveryId}-${job.attempt}`, deliveryId: job.deliveryId, attempt: job.attempt, enqueuedAt: at(0) },
+      ack: settle,
+      deadLetter: settle,
+      async retry(options) {
+        jobs.push({ deliveryId: job.deliveryId, attempt: options.nextAttempt ?? job.attempt + 1 });
+        return ok(undefined);
+      },
+    });
+  };
+
+  const worker = createWebhookQueueWorker(queue, stores, { clock, httpClient: endpoint });
+  await worker.start();
+  await queue.enqueue({ deliveryId: "a" });
+  await queue.enqueue({ deliveryId: "b" });
+
+  while (jobs.length > 0) {
+    clock.advance(1);
+    await dispatchNext();
+  }
+
+  assert.deepEqual(endpoint.attempts, ["a", "a", "b", "b"]);
+  assert.equal(stores.delivery("a").status, "succeeded");
+  assert.equal(stores.delivery("b").status, "succeeded");
+  await worker.stop();
+});
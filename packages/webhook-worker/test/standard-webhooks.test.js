@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  signStandardWebhook,
+  standardWebhooksSignatureScheme,
+  verifyStandardWebhook,
+} from "../dist/standard-webhooks.js";
+import { WebhookDeliveryWorker } from "../dist/worker.js";
+
+const ok = (value) => ({ ok: true, value });
+
+const specSecret = "whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw";
+const specRequest = {
+  messageId: "msg_p5jXN8AQM9LWM0D4loKWxJek",
+  timestamp: new Date(1614265330 * 1000),
+  body: '{"test": 2432232314}',
+};
+
+test("signs with the Standard Webhooks reference vector", () => {
+  assert.equal(
+    signStandardWebhook({ ...specRequest, secrets: [specSecret] }),
+    "v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=",
+  );
+});
+
+test("verifies signatures from any active secret within the replay window", () => {
+  const headers = standardWebhooksSignatureScheme.sign({ ...specRequest, secrets: ["new-secret", specSecret] });
+  assert.equal(headers["webhook-id"], specRequest.messageId);
+  assert.equal(headers["webhook-timestamp"], "1614265330");
+  assert.equal(headers["webhook-signature"].split(" ").length, 2);
+
+  const verified = verifyStandardWebhook({
+    payload: specRequest.body,
+    headers: { "Webhook-Id": headers["webhook-id"], ...headers },
+    secrets: specSecret,
+    now: new Date(1614265330 * 1000 + 60_000),
+  });
+  assert.equal(verified.ok, true);
+  assert.equal(verified.value.messageId, specRequest.messageId);
+
+  const tampered = verifyStandardWebhook({
+    payload: '{"test": 1}',
+    headers,
+    secrets: [specSecret, "new-secret"],
+    now: specRequest.timestamp,
+  });
+  assert.equal(tampered.error.code, "webhook.signature.mismatch");
+
+  const replayed = verifyStandardWebhook({
+    payload: specRequest.body,
+    headers,
+    secrets: specSecret,
+    now: new Date(1614265330 * 1000 + 301_000),
+  });
+  assert.equal(replayed.error.code, "webhook.signature.timestamp_out_of_window");
+
+  const missing = verifyStandardWebhook({ payload: specRequest.body, headers: {}, secrets: specSecret });
+  assert.equal(missing.error.code, "webhook.signature.missing_headers");
+});
+
+const createSingleDeliveryWorker = (subscription, requests, now) => {
+  const delivery = {
+    id: "del-1",
+    subscriptionId: subscription.id,
+    eventId: "evt-1",
+    status: "pending",
+    attemptCount: 0,
+    payload: { hello: "world" },
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  };
+  return new WebhookDeliveryWorker(
+    {
+      subscriptions: { getSubscription: async () => ok(subscription) },
+      deliveries: {
+        getDelivery: async () => ok(delivery),
+        updateDelivery: async (_id, input) => ok({ ...delivery, ...input }),
+      },
+    },
+    {
+      clock: { now: () => new Date(now) },
+      signatureScheme: standardWebhooksSignatureScheme,
+      httpClient: {
+        async execute(request) {
+          requests.push(request);
+          return { status: 204, headers: {} };
+        },
+      },
+    },
+  );
+};
+
+test("delivers with Standard Webhooks headers when the scheme is configured", async () => {
+  const subscription = {
+    id: "sub-1",
+    eventTypes: ["user.created"],
+    targetUrl: "https://example.com/webhook",
+    secret: specSecret,
+    headers: {},
+    active: true,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  };
+  const requests = [];
+  const worker = createSingleDeliveryWorker(subscription, requests, "2024-01-01T00:00:10.000Z");
+
+  const result = await worker.processDeliveryById("del-1");
+  assert.equal(result.value.status, "succeeded");
+
+  const [request] = requests;
+  assert.equal(request.headers["x-catalyst-signature"], undefined);
+  assert.equal(request.headers["webhook-id"], "del-1");
+  const verified = verifyStandardWebhook({
+    payload: request.body,
+    headers: request.headers,
+    secrets: [specSecret],
+    now: new Date("2024-01-01T00:00:30.000Z"),
+  });
+  assert.equal(verified.ok, true);
+});
+
+test("signs with the previous secret until the rotation overlap expires", async () => {
+  const subscription = {
+    id: "sub-1",
+    eventTypes: ["user.created"],
+    targetUrl: "https://example.com/webhook",
+    secret: "whsec_bmV3LXNlY3JldA==",
+    previousSecret: { secret: specSecret, expiresAt: "2024-01-02T00:00:00.000Z" },
+    headers: {},
+    active: true,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  };
+
+  const duringOverlap = [];
+  await createSingleDeliveryWorker(subscription, duringOverlap, "2024-01-01T12:00:00.000Z").processDeliveryById(
+    "del-1",
+  );
+  const [overlapRequest] = duringOverlap;
+  assert.equal(overlapRequest.headers["webhook-signature"].split(" ").length, 2);
+  for (const secret of [subscription.secret, specSecret]) {
+    const verified = verifyStandardWebhook({
+      payload: overlapRequest.body,
+      headers: overlapRequest.headers,
+      secrets: secret,
+      now: new Date("2024-01-01T12:00:00.000Z"),
+    });
+    assert.equal(verified.ok, true);
+  }
+
+  const afterOverlap = [];
+  await createSingleDeliveryWorker(subscription, afterOverlap, "2024-01-02T00:00:00.000Z").processDeliveryById(
+    "del-1",
+  );
+  const [laterRequest] = afterOverlap;
+  const rejected = verifyStandardWebhook({
+    payload: laterRequest.body,
+    headers: laterRequest.headers,
+    secrets: specSecret,
+    now: new Date("2024-01-02T00:00:00.000Z"),
+  });
+  assert.equal(rejected.error.code, "webhook.signature.mismatch");
+});